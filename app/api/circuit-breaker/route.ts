@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+interface BreakerRequest {
+  action: 'trip' | 'reset'
+  reason?: string
+  flatten?: boolean
+}
+
+async function loadBreaker() {
+  // Dynamic import to avoid bundling issues
+  const { CircuitBreaker, DEFAULT_BREAKER_DIR } = await import('@/src/agents/circuit-breaker')
+  return new CircuitBreaker({}, process.env.BREAKER_DIR || DEFAULT_BREAKER_DIR)
+}
+
+/**
+ * Operator actions need CIRCUIT_BREAKER_TOKEN as a bearer token; without a
+ * configured token they are disabled
+ */
+function rejectUnauthorized(request: NextRequest): NextResponse | undefined {
+  const token = process.env.CIRCUIT_BREAKER_TOKEN
+  if (!token) {
+    return NextResponse.json(
+      { success: false, error: 'CIRCUIT_BREAKER_TOKEN is not configured' },
+      { status: 503 }
+    )
+  }
+  if (request.headers.get('authorization') !== `Bearer ${token}`) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+  return undefined
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const limit = parseInt(searchParams.get('limit') || '20')
+
+    const breaker = await loadBreaker()
+
+    return NextResponse.json({
+      success: true,
+      state: breaker.getState(),
+      history: breaker.getHistory(limit),
+    })
+  } catch (error: any) {
+    console.error('Error reading circuit breaker:', error)
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const rejected = rejectUnauthorized(request)
+  if (rejected) return rejected
+
+  try {
+    const body: BreakerRequest = await request.json()
+    const breaker = await loadBreaker()
+
+    if (body.action === 'trip') {
+      const trip = breaker.trip('MANUAL', body.reason || 'Manual halt', {
+        source: 'api',
+        flatten: body.flatten === true,
+      })
+      return NextResponse.json({ success: true, state: breaker.getState(), trip })
+    }
+
+    if (body.action === 'reset') {
+      return NextResponse.json({ success: true, state: breaker.reset('api') })
+    }
+
+    return NextResponse.json(
+      { success: false, error: `Unknown action: ${body.action}` },
+      { status: 400 }
+    )
+  } catch (error: any) {
+    console.error('Error updating circuit breaker:', error)
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 }
+    )
+  }
+}
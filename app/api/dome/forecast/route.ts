@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
+import { createLlmClient } from "@/src/clients/llm-client";
+import type { OutputSchema } from "@/src/clients/llm-schema";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -12,6 +14,31 @@ interface ForecastRequest {
   volume?: number;
 }
 
+interface DomeForecastOutput {
+  probability: number;
+  confidence: number;
+  reasoning: string;
+  fair_value: number;
+  edge: number;
+  recommendation: "BUY_YES" | "BUY_NO" | "SKIP";
+}
+
+const DOME_FORECAST_SCHEMA: OutputSchema<DomeForecastOutput> = {
+  name: "DomeForecast",
+  fields: {
+    probability: { type: "number", min: 0, max: 100, description: "your estimated probability for YES" },
+    confidence: { type: "number", min: 0, max: 100 },
+    reasoning: { type: "string", description: "detailed reasoning" },
+    fair_value: { type: "number", min: 0, max: 100, description: "what the YES price should be" },
+    edge: { type: "number", description: "fair_value minus the current YES price, in points" },
+    recommendation: {
+      type: "enum",
+      values: ["BUY_YES", "BUY_NO", "SKIP"],
+      description: "BUY_YES if underpriced, BUY_NO if overpriced, SKIP if fairly priced",
+    },
+  },
+};
+
 export async function POST(request: NextRequest) {
   try {
     const body: ForecastRequest = await request.json();
@@ -23,12 +50,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Dynamic import for Groq
-    const Groq = (await import("groq-sdk")).default;
-
-    const groq = new Groq({
-      apiKey: process.env.GROQ_API_KEY || "",
-    });
+    const llm = createLlmClient();
 
     const prompt = `You are a prediction market forecasting expert. Analyze this market:
 
@@ -38,41 +60,16 @@ Current YES Price: ${(body.yes_price * 100).toFixed(1)}%
 Current NO Price: ${(body.no_price * 100).toFixed(1)}%
 24h Volume: $${body.volume?.toLocaleString() || "N/A"}
 
-Provide your analysis in JSON format:
-{
-  "probability": <number 0-100>,
-  "confidence": <number 0-100>,
-  "reasoning": "<detailed reasoning>",
-  "fair_value": <number 0-100>,
-  "edge": <number>,
-  "recommendation": "BUY_YES" or "BUY_NO" or "SKIP"
-}
+Only recommend BUY if edge > 5% and confidence > 65%.`;
 
-Rules:
-- probability: Your estimated probability for YES outcome
-- confidence: How confident you are (0-100)
-- fair_value: What you think the fair market price should be
-- edge: Difference between fair_value and current yes_price
-- recommendation: BUY_YES if underpriced, BUY_NO if overpriced, SKIP if fairly priced
-- Only recommend BUY if edge > 5% and confidence > 65%`;
-
-    const completion = await groq.chat.completions.create({
+    const { data: analysis } = await llm.completeJson(DOME_FORECAST_SCHEMA, {
+      route: "forecast",
       messages: [{ role: "user", content: prompt }],
       model: "llama-3.3-70b-versatile",
       temperature: 0.3,
-      max_tokens: 1000,
+      maxTokens: 1000,
     });
 
-    const content = completion.choices[0]?.message?.content || "";
-
-    // Extract JSON from response
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error("Could not extract JSON from Groq response");
-    }
-
-    const analysis = JSON.parse(jsonMatch[0]);
-
     return NextResponse.json({
       success: true,
       forecast: {
@@ -0,0 +1,109 @@
+#!/usr/bin/env tsx
+/**
+ * Forecast Calibration Report
+ *
+ * Resolves ended conditions in the forecast ledger against Sapience, then
+ * prints Brier score, log loss and a reliability diagram overall, per model
+ * and per category, plus the calibration map the agent will apply next run.
+ *
+ * Usage:
+ *   pnpm forecast:calibrate
+ *   CALIBRATION_METHOD=platt pnpm forecast:calibrate
+ *   SKIP_RESOLVE=true pnpm forecast:calibrate      # Report only, no API calls
+ *
+ * Environment variables:
+ *   FORECAST_DIR=./trade-results/forecasts      # Ledger location
+ *   CALIBRATION_METHOD=isotonic                 # isotonic | platt
+ *   MIN_RESOLVED=30                             # Resolved forecasts before a map is fitted
+ *   BINS=10                                     # Reliability diagram bins
+ */
+
+import {
+  CalibrationMethod,
+  DEFAULT_CALIBRATION_CONFIG,
+  ForecastLedger,
+  ForecastScore,
+  applyCalibration,
+  calibrationReport,
+  describeCalibration,
+  fitCalibration,
+  resolveForecasts,
+} from '../src/agents/forecast-calibration';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+function printScore(label: string, score: ForecastScore, diagram: boolean) {
+  console.log(`\n${label}  (n=${score.count})`);
+  console.log(`  Brier:    ${score.brier.toFixed(4)}  (raw ${score.rawBrier.toFixed(4)})`);
+  console.log(`  Log loss: ${score.logLoss.toFixed(4)}  (raw ${score.rawLogLoss.toFixed(4)})`);
+  if (!diagram) return;
+
+  console.log('  Forecast     n   mean  observed');
+  for (const bin of score.reliability) {
+    const range = `${(bin.lower * 100).toFixed(0)}-${(bin.upper * 100).toFixed(0)}%`.padEnd(8);
+    if (bin.count === 0) {
+      console.log(`  ${range} ${'0'.padStart(5)}`);
+      continue;
+    }
+    const bar = '█'.repeat(Math.round(bin.observedRate * 20));
+    console.log(
+      `  ${range} ${String(bin.count).padStart(5)} ${(bin.meanForecast * 100).toFixed(0).padStart(5)}%` +
+      ` ${(bin.observedRate * 100).toFixed(0).padStart(7)}%  ${bar}`
+    );
+  }
+}
+
+async function main() {
+  const dir = process.env.FORECAST_DIR || DEFAULT_CALIBRATION_CONFIG.resultsDir;
+  const method = (process.env.CALIBRATION_METHOD || DEFAULT_CALIBRATION_CONFIG.method) as CalibrationMethod;
+  const minResolved = parseInt(process.env.MIN_RESOLVED || String(DEFAULT_CALIBRATION_CONFIG.minResolved));
+  const bins = parseInt(process.env.BINS || '10');
+
+  if (method !== 'isotonic' && method !== 'platt') {
+    console.error(`❌ Unknown CALIBRATION_METHOD: ${method} (isotonic | platt)`);
+    process.exit(1);
+  }
+
+  const ledger = new ForecastLedger(dir);
+  try {
+    if (process.env.SKIP_RESOLVE !== 'true') {
+      console.log('🔮 Resolving ended conditions...');
+      const summary = await resolveForecasts(ledger);
+      console.log(`   Checked ${summary.checked}, settled ${summary.settled}, ${summary.forecasts} forecasts resolved`);
+    }
+
+    const forecasts = ledger.query();
+    const resolved = forecasts.filter(f => f.resolved);
+    console.log(`\n📒 Ledger: ${forecasts.length} forecasts, ${resolved.length} resolved, ${forecasts.filter(f => f.submitted).length} submitted`);
+
+    if (resolved.length === 0) {
+      console.log('⏳ Nothing resolved yet');
+      return;
+    }
+
+    const report = calibrationReport(forecasts, bins);
+    printScore('📊 Overall', report.overall, true);
+    for (const [model, score] of Object.entries(report.byModel)) {
+      printScore(`🤖 ${model}`, score, false);
+    }
+    for (const [category, score] of Object.entries(report.byCategory)) {
+      printScore(`🏷️  ${category}`, score, false);
+    }
+
+    const map = fitCalibration(forecasts, method, minResolved);
+    console.log(`\n📐 Calibration map: ${describeCalibration(map)}`);
+    if (map.method === 'identity') {
+      console.log(`   Needs ${minResolved} resolved forecasts before raw probabilities are adjusted`);
+    } else {
+      console.log(`   ${[10, 25, 50, 75, 90].map(p => `${p}% → ${applyCalibration(map, p).toFixed(0)}%`).join('  ')}`);
+    }
+  } finally {
+    ledger.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Calibration failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,80 @@
+#!/usr/bin/env tsx
+/**
+ * Circuit Breaker Control
+ *
+ * Trips or resets the shared kill switch that live agents check before every
+ * entry. A running orchestrator picks the change up within one position check.
+ *
+ * Usage:
+ *   pnpm breaker status                          # Current state + recent trips
+ *   pnpm breaker trip "feed looks wrong"         # Halt new entries
+ *   pnpm breaker trip "exchange incident" --flatten   # ...and close positions
+ *   pnpm breaker reset                           # Resume trading
+ *   BREAKER_DIR=./other pnpm breaker status
+ */
+
+import { CircuitBreaker, DEFAULT_BREAKER_DIR } from '../src/agents/circuit-breaker';
+
+function main() {
+  const [command = 'status', ...rest] = process.argv.slice(2);
+  const flatten = rest.includes('--flatten');
+  const reason = rest.filter(arg => arg !== '--flatten').join(' ') || 'Manual halt';
+  const breaker = new CircuitBreaker({}, process.env.BREAKER_DIR || DEFAULT_BREAKER_DIR);
+
+  switch (command) {
+    case 'trip': {
+      const current = breaker.getState();
+      if (current.tripped) {
+        const trip = current.trip!;
+        console.log(`\n⚠️  Already tripped [${trip.trigger}] by ${trip.source}: ${trip.reason}\n`);
+        return;
+      }
+      breaker.trip('MANUAL', reason, { source: 'cli', flatten });
+      console.log(`\n🚨 Circuit breaker tripped: ${reason}${flatten ? ' (flattening positions)' : ''}\n`);
+      return;
+    }
+
+    case 'reset':
+      if (!breaker.isTripped()) {
+        console.log('\n🟢 Circuit breaker is not tripped\n');
+        return;
+      }
+      breaker.reset('cli');
+      console.log('\n🟢 Circuit breaker reset - trading resumes\n');
+      return;
+
+    case 'status': {
+      const state = breaker.getState();
+      console.log('\n🛑 Circuit Breaker');
+      if (state.tripped) {
+        const trip = state.trip!;
+        console.log(`   State: 🚨 TRIPPED [${trip.trigger}] ${new Date(trip.trippedAt).toISOString()}`);
+        console.log(`   By: ${trip.source}${trip.flatten ? ' (flatten)' : ''}`);
+        console.log(`   Reason: ${trip.reason}`);
+      } else {
+        console.log('   State: 🟢 ARMED');
+      }
+
+      const history = breaker.getHistory(10);
+      if (history.length > 0) {
+        console.log('\n   Recent events:');
+        for (const event of history) {
+          if (event.type === 'trip') {
+            console.log(`   ${new Date(event.trippedAt).toISOString()}  TRIP   [${event.trigger}] ${event.source}: ${event.reason}`);
+          } else {
+            console.log(`   ${new Date(event.resetAt).toISOString()}  RESET  ${event.resetBy}`);
+          }
+        }
+      }
+      console.log();
+      return;
+    }
+
+    default:
+      console.error(`❌ Unknown command: ${command}`);
+      console.log('\nUsage: pnpm breaker [status | trip <reason> [--flatten] | reset]\n');
+      process.exit(1);
+  }
+}
+
+main();
@@ -7,6 +7,7 @@
  * Usage:
  *   pnpm ethereal:trade                 # Dry run (default)
  *   pnpm ethereal:trade:live            # Live trading (requires confirmation)
+ *   PRESET=wf-eth pnpm ethereal:trade   # Preset written by pnpm optimize:walk-forward
  *   
  * Environment variables:
  *   TOTAL_CAPITAL=5                     # Your USDE balance
@@ -15,11 +16,14 @@
  *   MIN_CONFIDENCE=72                   # Minimum AI confidence
  *   MAX_RISK_SCORE=45                   # Maximum risk tolerance
  *   DRY_RUN=true                        # Simulation mode (default)
+ *   LLM_PROVIDER=groq                   # groq | anthropic | openai-compatible | fake
+ *   LLM_MODEL=...                       # Model for that provider (LLM_BASE_URL for local servers)
  */
 
 import { EtherealTradingAgent, EtherealAgentConfig } from '../src/agents/ethereal-trading-agent';
 import { MarketAnalyzer } from '../src/agents/market-analyzer';
 import { EtherealClient } from '../src/clients/ethereal-client';
+import { PROXY_SCORING, loadPreset } from '../src/agents/walk-forward-optimizer';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -91,16 +95,18 @@ async function main() {
 `);
 
   // Validate API key
-  if (!process.env.GROQ_API_KEY) {
+  if (!process.env.GROQ_API_KEY && (process.env.LLM_PROVIDER || 'groq') === 'groq') {
     console.error('❌ GROQ_API_KEY is required');
     console.log('\nAdd to .env:');
     console.log('  GROQ_API_KEY=your_api_key_here\n');
     process.exit(1);
   }
 
-  // Determine preset
-  const presetName = (process.env.PRESET || 'balanced') as keyof typeof PRESETS;
-  const preset = PRESETS[presetName] || PRESETS.balanced;
+  // Determine preset (built-in name, or an optimizer preset name / file)
+  const presetName = process.env.PRESET || 'balanced';
+  const preset: typeof PRESETS.balanced & Partial<EtherealAgentConfig> = presetName in PRESETS
+    ? PRESETS[presetName as keyof typeof PRESETS]
+    : { ...PRESETS.balanced, ...loadOptimizedPreset(presetName) };
   
   console.log(`📋 Using preset: ${presetName.toUpperCase()}\n`);
   
@@ -159,6 +165,26 @@ async function main() {
   }
 }
 
+/**
+ * Walk-forward optimizer output, layered over the balanced preset
+ */
+function loadOptimizedPreset(name: string): Partial<EtherealAgentConfig> {
+  try {
+    const preset = loadPreset(name, 'ethereal-agent');
+    const oos = preset.outOfSample;
+    // Fitted without this agent's LLM analysis: the metrics are the stand-in's, not its track record
+    const scoredBy = preset.scoredBy ?? PROXY_SCORING['ethereal-agent'];
+    console.log(`🔬 Optimized preset ${preset.name} (${preset.createdAt.slice(0, 10)})`);
+    console.log(`   ⚠️  Proxy fit on the ${scoredBy}, not on this agent's trades: ` +
+      `${oos.totalTrades} trades, win ${(oos.winRate * 100).toFixed(1)}%, score ${oos.score.toFixed(1)} out-of-sample`);
+    return preset.config as Partial<EtherealAgentConfig>;
+  } catch (error: any) {
+    console.error(`❌ ${error.message}`);
+    console.log(`   Built-in presets: ${Object.keys(PRESETS).join(', ')}\n`);
+    process.exit(1);
+  }
+}
+
 /**
  * Show current market conditions before trading
  */
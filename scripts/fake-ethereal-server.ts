@@ -0,0 +1,38 @@
+#!/usr/bin/env tsx
+/**
+ * Fake Ethereal Exchange Server
+ *
+ * Runs the in-process exchange stand-in on localhost so agents and scripts
+ * can place signed orders offline. Point them at it with ETHEREAL_API_URL.
+ *
+ * Usage:
+ *   pnpm ethereal:fake                                   # Serve until Ctrl-C
+ *   ETHEREAL_API_URL=http://127.0.0.1:8787 DRY_RUN=false pnpm orchestrator
+ *
+ * Environment variables:
+ *   FAKE_ETHEREAL_PORT=8787                              # Listen port
+ *   FAKE_ETHEREAL_BALANCE=10000                          # USD per new subaccount
+ */
+
+import { FakeEtherealExchange } from '../src/clients/fake-ethereal-exchange';
+
+async function main() {
+  const port = parseInt(process.env.FAKE_ETHEREAL_PORT || '8787');
+  const exchange = new FakeEtherealExchange({
+    initialBalance: parseFloat(process.env.FAKE_ETHEREAL_BALANCE || '10000'),
+  });
+
+  const url = await exchange.start(port);
+
+  console.log('\n🧪 Fake Ethereal Exchange');
+  console.log(`   URL: ${url}`);
+  console.log(`   Products: ${exchange.getProducts().map(p => p.displayTicker).join(', ')}`);
+  console.log(`   Use: ETHEREAL_API_URL=${url}\n`);
+
+  process.on('SIGINT', async () => {
+    await exchange.stop();
+    process.exit(0);
+  });
+}
+
+main().catch(console.error);
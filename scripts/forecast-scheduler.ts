@@ -0,0 +1,79 @@
+#!/usr/bin/env tsx
+/**
+ * Forecast Revision Scheduler
+ *
+ * Long-running loop that re-forecasts every condition we have submitted a
+ * forecast for, more often as it nears its end time or when Dome prices
+ * move, and attests a new forecast only when it changed materially.
+ * Conditions enter the schedule when `pnpm cli` (ForecastingAgent.run) or
+ * a previous scheduler run submits them.
+ *
+ * Usage:
+ *   pnpm forecast:schedule                        # Run until Ctrl-C
+ *   DURATION_SEC=3600 pnpm forecast:schedule      # Run for one hour
+ *   MIN_PROBABILITY_CHANGE=3 pnpm forecast:schedule
+ *
+ * Environment variables:
+ *   SCHEDULER_TICK_MIN=15               # How often tracked conditions are checked
+ *   MIN_PROBABILITY_CHANGE=5            # Points a revision must move to be re-submitted
+ *   PRICE_MOVE_THRESHOLD=5              # Dome price move (points) that forces a revision
+ *   MAX_SUBMISSIONS_PER_TICK=5          # Revisions attested per tick (one batch)
+ *   GAS_BUDGET_RUN_ETH=0.005            # Gas budget for the whole scheduler run
+ *   GAS_BUDGET_DAY_ETH=0.02             # Gas budget over any 24h
+ *   FORECAST_DIR=./trade-results/forecasts
+ */
+
+import { ForecastingAgent } from '../src/agents/forecasting-agent';
+import { DEFAULT_SCHEDULER_CONFIG, ForecastScheduler } from '../src/agents/forecast-scheduler';
+import { DEFAULT_CALIBRATION_CONFIG } from '../src/agents/forecast-calibration';
+import { DomeAPIClient } from '../src/utils/dome-client';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+async function main() {
+  if (!process.env.PRIVATE_KEY) {
+    console.error('❌ PRIVATE_KEY is required to attest revised forecasts');
+    process.exit(1);
+  }
+  if (!process.env.GROQ_API_KEY && (process.env.LLM_PROVIDER || 'groq') === 'groq') {
+    console.error('❌ GROQ_API_KEY is required');
+    process.exit(1);
+  }
+
+  const durationSec = parseInt(process.env.DURATION_SEC || '0');
+  const agent = new ForecastingAgent({
+    privateKey: process.env.PRIVATE_KEY,
+    groqApiKey: process.env.GROQ_API_KEY || '',
+    calibration: { resultsDir: process.env.FORECAST_DIR || DEFAULT_CALIBRATION_CONFIG.resultsDir },
+  });
+
+  const scheduler = new ForecastScheduler(agent, new DomeAPIClient(process.env.DOME_API_KEY || ''), {
+    tickIntervalMs: parseFloat(process.env.SCHEDULER_TICK_MIN || '15') * 60 * 1000,
+    minProbabilityChange: parseFloat(process.env.MIN_PROBABILITY_CHANGE || String(DEFAULT_SCHEDULER_CONFIG.minProbabilityChange)),
+    priceMoveThreshold: parseFloat(process.env.PRICE_MOVE_THRESHOLD || String(DEFAULT_SCHEDULER_CONFIG.priceMoveThreshold)),
+    maxSubmissionsPerTick: parseInt(process.env.MAX_SUBMISSIONS_PER_TICK || String(DEFAULT_SCHEDULER_CONFIG.maxSubmissionsPerTick)),
+  });
+
+  console.log('\n🗓️  Forecast Revision Scheduler');
+  console.log(`   Tracking: ${scheduler.tracked().length} submitted conditions`);
+  console.log(`   Duration: ${durationSec > 0 ? `${durationSec}s` : 'until Ctrl-C'}\n`);
+
+  const shutdown = () => {
+    scheduler.stop();
+    agent.getLedger().close();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  if (durationSec > 0) {
+    setTimeout(shutdown, durationSec * 1000);
+  }
+
+  await scheduler.start();
+}
+
+main().catch((error) => {
+  console.error('❌ Scheduler failed:', error);
+  process.exit(1);
+});
@@ -1,5 +1,5 @@
 import { TradeTracker } from '../src/agents/trade-tracker';
-import { ProfitScorer } from '../src/agents/profit-scorer';
+import { ATTRIBUTION_TAGS, Attribution, AttributionTag, ProfitScorer, UNTAGGED } from '../src/agents/profit-scorer';
 import fs from 'fs';
 import path from 'path';
 
@@ -15,10 +15,19 @@ interface MarketStats {
   worstTrade: number;
 }
 
+const TAG_LABELS: Record<AttributionTag, string> = {
+  agent: 'Agent',
+  strategy: 'Strategy',
+  configHash: 'Config',
+  model: 'Model',
+};
+
 async function generateDashboard() {
   console.log('📊 Generating Trading Performance Dashboard\n');
 
-  const tracker = new TradeTracker('./trade-results/ethereal');
+  // Any results dir works, e.g. ./trade-results/orchestrator
+  const resultsDir = process.argv[2] || './trade-results/ethereal';
+  const tracker = new TradeTracker(resultsDir);
   const scorer = new ProfitScorer();
   const trades = tracker.loadTrades();
 
@@ -64,7 +73,7 @@ async function generateDashboard() {
 
   // Generate HTML dashboard
   const html = generateHTML(metrics, trades, marketStats);
-  const outputPath = path.join('./trade-results/ethereal', 'dashboard.html');
+  const outputPath = path.join(resultsDir, 'dashboard.html');
   fs.writeFileSync(outputPath, html);
 
   console.log('✅ Dashboard generated!\n');
@@ -76,6 +85,51 @@ async function generateDashboard() {
   console.log(`   Sharpe Ratio: ${metrics.sharpeRatio.toFixed(2)}\n`);
 }
 
+/**
+ * One table per attribution tag, skipping tags no trade was recorded with
+ */
+function generateAttributionSections(attribution: Attribution): string {
+  return ATTRIBUTION_TAGS
+    .filter(tag => Object.keys(attribution[tag]).some(value => value !== UNTAGGED))
+    .map(tag => {
+      const rows = Object.entries(attribution[tag])
+        .sort(([, a], [, b]) => b.totalPnL - a.totalPnL)
+        .map(([value, m]) => `
+      <tr>
+        <td>${value}</td>
+        <td>${m.totalTrades}</td>
+        <td>${(m.winRate * 100).toFixed(1)}%</td>
+        <td class="${m.profitFactor >= 1.5 ? 'positive' : 'negative'}">${m.profitFactor === Infinity ? '∞' : m.profitFactor.toFixed(2)}</td>
+        <td class="${m.sharpeRatio >= 1 ? 'positive' : 'negative'}">${m.sharpeRatio.toFixed(2)}</td>
+        <td class="negative">${(m.maxDrawdown * 100).toFixed(2)}%</td>
+        <td class="${m.totalPnL >= 0 ? 'positive' : 'negative'}">${(m.totalPnL * 100).toFixed(2)}%</td>
+        <td>${m.score.toFixed(1)}</td>
+      </tr>
+    `).join('');
+
+      return `
+    <div class="section">
+      <h2>🏷️ Performance by ${TAG_LABELS[tag]}</h2>
+      <table>
+        <thead>
+          <tr>
+            <th>${TAG_LABELS[tag]}</th>
+            <th>Trades</th>
+            <th>Win Rate</th>
+            <th>Profit Factor</th>
+            <th>Sharpe</th>
+            <th>Max Drawdown</th>
+            <th>Total PnL</th>
+            <th>Score</th>
+          </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </div>
+`;
+    }).join('');
+}
+
 function generateHTML(metrics: any, trades: any[], marketStats: Map<string, MarketStats>): string {
   const marketRows = Array.from(marketStats.values())
     .sort((a, b) => b.totalPnL - a.totalPnL)
@@ -105,6 +159,7 @@ function generateHTML(metrics: any, trades: any[], marketStats: Map<string, Mark
         <td>$${trade.exitPrice?.toLocaleString() || 'N/A'}</td>
         <td class="${(trade.pnl || 0) >= 0 ? 'positive' : 'negative'}">${((trade.pnl || 0) * 100).toFixed(2)}%</td>
         <td>${(trade.confidence * 100).toFixed(0)}%</td>
+        <td>${[trade.agent, trade.strategy].filter(Boolean).join(' / ') || '-'}</td>
       </tr>
     `).join('');
 
@@ -287,6 +342,7 @@ function generateHTML(metrics: any, trades: any[], marketStats: Map<string, Mark
       </table>
     </div>
 
+${metrics.attribution ? generateAttributionSections(metrics.attribution) : ''}
     <div class="section">
       <h2>📋 Recent Trades</h2>
       <table>
@@ -299,6 +355,7 @@ function generateHTML(metrics: any, trades: any[], marketStats: Map<string, Mark
             <th>Exit</th>
             <th>PnL</th>
             <th>Confidence</th>
+            <th>Source</th>
           </tr>
         </thead>
         <tbody>${recentTrades}</tbody>
@@ -0,0 +1,34 @@
+#!/usr/bin/env tsx
+/**
+ * Trade Store Migration
+ *
+ * Imports every legacy trades.json under the results directory into the
+ * SQLite trades.db beside it. Migrated files are renamed to
+ * trades.json.migrated, so running this twice is harmless.
+ *
+ * Usage:
+ *   pnpm trades:migrate                          # ./trade-results
+ *   TRADE_RESULTS_DIR=./other pnpm trades:migrate
+ */
+
+import { migrateJsonTrades } from '../src/agents/trade-tracker';
+
+function main() {
+  const rootDir = process.env.TRADE_RESULTS_DIR || './trade-results';
+
+  console.log(`\n🗄️  Migrating trades.json files under ${rootDir}\n`);
+  const results = migrateJsonTrades(rootDir);
+
+  if (results.length === 0) {
+    console.log('   Nothing to migrate');
+    return;
+  }
+
+  for (const { file, trades } of results) {
+    console.log(`   ✅ ${file}: ${trades} trades`);
+  }
+  const total = results.reduce((sum, r) => sum + r.trades, 0);
+  console.log(`\n   ${total} trades imported from ${results.length} files\n`);
+}
+
+main();
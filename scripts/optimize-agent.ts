@@ -1,7 +1,18 @@
+/**
+ * Agent Optimizer - Quick grid search on simulated outcomes for today's markets
+ *
+ * Scores each config on random-walk exits from a single market snapshot, so
+ * treat the ranking as a smoke test. For out-of-sample results on recorded
+ * history use `pnpm optimize:walk-forward`.
+ */
+
 import { EtherealClient, EtherealMarket } from '../src/clients/ethereal-client';
 import { TradeTracker, TradeResult } from '../src/agents/trade-tracker';
 import { ProfitScorer } from '../src/agents/profit-scorer';
-import Groq from 'groq-sdk';
+import { SeededRandom } from '../src/utils/random';
+import { hashConfig } from '../src/utils/config-hash';
+import { LlmClient, createLlmClient } from '../src/clients/llm-client';
+import { OutputSchema } from '../src/clients/llm-schema';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -24,6 +35,25 @@ interface OptimizationResult {
   score: number;
 }
 
+interface TradeSignal {
+  action: 'LONG' | 'SHORT' | 'HOLD';
+  confidence: number;
+  reasoning: string;
+  expectedReturn: number;
+  riskScore: number;
+}
+
+const TRADE_SIGNAL_SCHEMA: OutputSchema<TradeSignal> = {
+  name: 'TradeSignal',
+  fields: {
+    action: { type: 'enum', values: ['LONG', 'SHORT', 'HOLD'] },
+    confidence: { type: 'number', min: 0, max: 100, percent: true },
+    reasoning: { type: 'string' },
+    expectedReturn: { type: 'number', min: 1, max: 3 },
+    riskScore: { type: 'number', min: 0, max: 100 },
+  },
+};
+
 /**
  * Advanced trade outcome simulation with hold time optimization
  */
@@ -33,7 +63,8 @@ function simulateTradeWithTiming(
   entryPrice: number,
   holdTimeMinutes: number,
   takeProfitPercent: number,
-  stopLossPercent: number
+  stopLossPercent: number,
+  rng: SeededRandom
 ): {
   exitPrice: number;
   pnl: number;
@@ -52,7 +83,7 @@ function simulateTradeWithTiming(
   // Simulate price movement minute by minute
   for (let minute = 0; minute < holdTimeMinutes; minute++) {
     // Random walk with momentum bias
-    const randomMove = (Math.random() - 0.5) * volatility * 3;
+    const randomMove = (rng.next() - 0.5) * volatility * 3;
     const priceChange = (momentum * 0.4 + randomMove);
     currentPrice = currentPrice * (1 + priceChange / 100);
 
@@ -111,7 +142,7 @@ function simulateTradeWithTiming(
 /**
  * Analyze market with AI (existing function)
  */
-async function analyzeMarketWithAI(market: EtherealMarket, groq: Groq): Promise<any> {
+async function analyzeMarketWithAI(market: EtherealMarket, llm: LlmClient): Promise<TradeSignal> {
   // ...use existing implementation from test-ethereal-dry-run.ts
   const prompt = `Analyze this perpetual futures market and provide a trading recommendation:
 
@@ -120,39 +151,21 @@ Current Price: $${market.lastPrice}
 24h Change: ${market.priceChangePercent24h.toFixed(2)}%
 24h Volume: $${(market.volume24h / 1000000).toFixed(2)}M
 Open Interest: $${(market.openInterest / 1000000).toFixed(2)}M
-Funding Rate: ${(market.fundingRate * 100).toFixed(4)}%
-
-Provide a JSON response with:
-{
-  "action": "LONG" | "SHORT" | "HOLD",
-  "confidence": 0-100,
-  "reasoning": "analysis",
-  "expectedReturn": 1.0-3.0,
-  "riskScore": 0-100
-}`;
+Funding Rate: ${(market.fundingRate * 100).toFixed(4)}%`;
 
   try {
-    const completion = await groq.chat.completions.create({
+    const { data } = await llm.completeJson(TRADE_SIGNAL_SCHEMA, {
+      route: 'trade-analysis',
       model: "llama-3.3-70b-versatile",
       messages: [
         { role: "system", content: "You are an expert crypto trader. Be concise." },
         { role: "user", content: prompt },
       ],
       temperature: 0.3,
-      max_tokens: 500,
+      maxTokens: 500,
     });
 
-    const response = completion.choices[0]?.message?.content || "{}";
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-    const analysis = jsonMatch ? JSON.parse(jsonMatch[0]) : {};
-    
-    return {
-      action: analysis.action || 'HOLD',
-      confidence: analysis.confidence || 50,
-      reasoning: analysis.reasoning || 'No signal',
-      expectedReturn: analysis.expectedReturn || 1.0,
-      riskScore: analysis.riskScore || 50,
-    };
+    return data;
   } catch (error) {
     return { action: 'HOLD', confidence: 50, reasoning: 'Error', expectedReturn: 1.0, riskScore: 50 };
   }
@@ -164,9 +177,12 @@ Provide a JSON response with:
 async function testConfiguration(
   config: OptimizationConfig,
   markets: EtherealMarket[],
-  groq: Groq,
+  llm: LlmClient,
+  rootRng: SeededRandom,
   sessionsToTest: number = 2
 ): Promise<OptimizationResult> {
+  // Same label for every configuration so they are scored on identical price paths
+  const rng = rootRng.fork('price-paths');
   const tempTracker = new TradeTracker(`./trade-results/optimization/temp-${Date.now()}`);
   let totalTrades = 0;
 
@@ -174,7 +190,7 @@ async function testConfiguration(
     for (const market of markets) {
       if (totalTrades >= 10) break; // Limit for faster testing
 
-      const analysis = await analyzeMarketWithAI(market, groq);
+      const analysis = await analyzeMarketWithAI(market, llm);
 
       if (
         analysis.action !== 'HOLD' &&
@@ -187,7 +203,8 @@ async function testConfiguration(
           market.lastPrice,
           config.holdTimeMinutes,
           config.takeProfitPercent,
-          config.stopLossPercent
+          config.stopLossPercent,
+          rng
         );
 
         const trade: TradeResult = {
@@ -207,6 +224,9 @@ async function testConfiguration(
           pnl: outcome.pnl,
           resolved: true,
           resolutionDate: Date.now(),
+          seed: rootRng.seed,
+          agent: 'optimizer',
+          configHash: hashConfig(config),
         };
 
         tempTracker.saveTrade(trade);
@@ -243,11 +263,13 @@ async function optimizeAgent() {
     throw new Error('❌ GROQ_API_KEY required');
   }
 
-  const ethereal = new EtherealClient();
-  const groq = new Groq({ apiKey: process.env.GROQ_API_KEY });
+  const rng = SeededRandom.fromEnv();
+  const ethereal = new EtherealClient({ rng: rng.fork('ethereal-mock-markets') });
+  const llm = createLlmClient({ groqApiKey: process.env.GROQ_API_KEY });
   const markets = await ethereal.getMarkets();
 
-  console.log(`📊 Using ${markets.length} markets for testing\n`);
+  console.log(`📊 Using ${markets.length} markets for testing`);
+  console.log(`🎲 Seed: ${rng.seed} (replay with SIM_SEED=${rng.seed})\n`);
 
   // Define parameter grid to test
   const configurations: OptimizationConfig[] = [
@@ -274,7 +296,7 @@ async function optimizeAgent() {
     console.log(`   Confidence: ≥${config.confidenceThreshold}% | Risk: <${config.riskThreshold}`);
     console.log(`   Hold Time: ${config.holdTimeMinutes}min | TP: ${config.takeProfitPercent}% | SL: ${config.stopLossPercent}%`);
 
-    const result = await testConfiguration(config, markets, groq, 2);
+    const result = await testConfiguration(config, markets, llm, rng, 2);
     results.push(result);
 
     console.log(`   📊 Results: ${result.totalTrades} trades | ${(result.winRate * 100).toFixed(1)}% WR | Score: ${result.score.toFixed(1)}/100`);
@@ -320,6 +342,7 @@ async function optimizeAgent() {
   // Save results to file
   const report = {
     timestamp: new Date().toISOString(),
+    seed: rng.seed,
     bestOverall,
     bestWinRate,
     bestPnL,
@@ -0,0 +1,81 @@
+#!/usr/bin/env tsx
+/**
+ * Market Data Recorder
+ *
+ * Polls Ethereal markets and appends every snapshot (plus top-of-book when
+ * order books are enabled) to gzipped, hourly-partitioned JSONL files.
+ * The output directory can be fed straight to `pnpm backtest`.
+ *
+ * Usage:
+ *   pnpm record:markets                          # Record until Ctrl-C
+ *   DURATION_SEC=3600 pnpm record:markets        # Record for one hour
+ *   RECORD_ORDER_BOOK=true pnpm record:markets   # Include top-of-book
+ *
+ * Environment variables:
+ *   RECORD_INTERVAL_MS=5000                      # Poll interval
+ *   RECORD_DIR=./trade-results/market-data       # Output directory
+ *   RECORD_PARTITION=hour                        # hour | day
+ */
+
+import { EtherealClient, EtherealOrderBook } from '../src/clients/ethereal-client';
+import { MarketRecorder } from '../src/utils/market-recorder';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+async function main() {
+  const intervalMs = parseInt(process.env.RECORD_INTERVAL_MS || '5000');
+  const durationSec = parseInt(process.env.DURATION_SEC || '0');
+  const includeOrderBook = process.env.RECORD_ORDER_BOOK === 'true';
+
+  const ethereal = new EtherealClient();
+  const recorder = new MarketRecorder({
+    outputDir: process.env.RECORD_DIR || './trade-results/market-data',
+    partition: process.env.RECORD_PARTITION === 'day' ? 'day' : 'hour',
+  });
+
+  console.log('\n📼 Market Data Recorder');
+  console.log(`   Interval: ${intervalMs}ms`);
+  console.log(`   Order book: ${includeOrderBook ? 'ON' : 'OFF'}`);
+  console.log(`   Duration: ${durationSec > 0 ? `${durationSec}s` : 'until Ctrl-C'}\n`);
+
+  const poll = async () => {
+    const markets = await ethereal.getMarkets();
+    const timestamp = Date.now();
+    const orderBooks = new Map<string, EtherealOrderBook>();
+
+    if (includeOrderBook) {
+      for (const market of markets) {
+        try {
+          orderBooks.set(market.symbol, await ethereal.getOrderBook(market.symbol, 1));
+        } catch {
+          // Order book unavailable - record the market without it
+        }
+      }
+    }
+
+    recorder.recordMarkets(markets, timestamp, orderBooks);
+    const stats = recorder.getStats();
+    console.log(`   ${new Date(timestamp).toLocaleTimeString()} | ${markets.length} markets | ${stats.records} records total`);
+  };
+
+  const shutdown = () => {
+    clearInterval(interval);
+    recorder.stop();
+    const stats = recorder.getStats();
+    console.log(`\n💾 Recorded ${stats.records} snapshots to ${stats.files.length} file(s)`);
+    stats.files.forEach(f => console.log(`   ${f}`));
+    process.exit(0);
+  };
+
+  recorder.start();
+  await poll();
+  const interval = setInterval(() => poll().catch(err => console.error('Poll failed:', err.message)), intervalMs);
+
+  process.on('SIGINT', shutdown);
+  if (durationSec > 0) {
+    setTimeout(shutdown, durationSec * 1000);
+  }
+}
+
+main().catch(console.error);
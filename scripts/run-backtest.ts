@@ -0,0 +1,57 @@
+#!/usr/bin/env tsx
+/**
+ * Backtest Runner
+ *
+ * Replays recorded Ethereal market snapshots through the trading
+ * orchestrator on a simulated clock and prints a profit report.
+ *
+ * Input file (JSONL or CSV), one market snapshot per record:
+ *   {"timestamp": 1735000000000, "market": { "symbol": "BTC-USD", ... }}
+ *
+ * Usage:
+ *   BACKTEST_FILE=./data/markets.jsonl pnpm backtest
+ *   BACKTEST_FILE=./data/markets.csv MIN_CONFIDENCE=75 pnpm backtest
+ */
+
+import { BacktestEngine } from '../src/agents/backtest-engine';
+import { OrchestratorConfig } from '../src/agents/trading-orchestrator';
+import { loadMarketHistory } from '../src/utils/market-history';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+async function main() {
+  const file = process.env.BACKTEST_FILE || process.argv[2];
+
+  if (!file) {
+    console.error('❌ BACKTEST_FILE is required');
+    console.log('\nUsage:');
+    console.log('  BACKTEST_FILE=./data/markets.jsonl pnpm backtest\n');
+    process.exit(1);
+  }
+
+  const orchestrator: Partial<OrchestratorConfig> = {
+    totalCapital: parseFloat(process.env.TOTAL_CAPITAL || '5'),
+    maxPositionPercent: parseFloat(process.env.MAX_POSITION_PERCENT || '0.30'),
+    maxConcurrentPositions: parseInt(process.env.MAX_CONCURRENT_POSITIONS || '3'),
+    minConfidence: parseInt(process.env.MIN_CONFIDENCE || '70'),
+    maxRiskScore: parseInt(process.env.MAX_RISK_SCORE || '60'),
+    analysisIntervalMs: parseInt(process.env.ANALYSIS_INTERVAL_MS || '15000'),
+    signalExpiryMs: parseInt(process.env.SIGNAL_EXPIRY_MS || '120000'),
+    minSignalAge: parseInt(process.env.MIN_SIGNAL_AGE_MS || '10000'),
+  };
+
+  console.log(`\n📂 Loading market history: ${file}`);
+  const records = loadMarketHistory(file);
+  console.log(`   ${records.length} records loaded\n`);
+
+  const engine = new BacktestEngine({
+    orchestrator,
+    resultsDir: process.env.RESULTS_DIR || './trade-results/backtest',
+  });
+
+  const result = await engine.run(records);
+  engine.printReport(result);
+}
+
+main().catch(console.error);
@@ -18,15 +18,23 @@
  *   pnpm orchestrator                # Run for 2 minutes (default)
  *   pnpm orchestrator:long           # Run for 10 minutes
  *   DURATION_SEC=300 pnpm orchestrator  # Custom duration
+ *   RECORD_MARKETS=true pnpm orchestrator  # Also record market data for replay
+ *   PRICE_PATH_MODEL=jump-diffusion pnpm orchestrator  # Dry-run exits on jumpy price paths
+ *   STRATEGIES=momentum:0.5,mean-reversion:0.5 pnpm orchestrator  # Strategies side by side
+ *   PRESET=wf-orchestrator-2026-10-19 pnpm orchestrator  # Walk-forward optimizer preset (wins over env)
+ *   LLM_PROVIDER=anthropic pnpm orchestrator  # Claude instead of Groq (also openai-compatible, fake)
+ *   DRY_RUN=false pnpm orchestrator  # Live orders on Ethereal (needs PRIVATE_KEY)
  */
 
 import { TradingOrchestrator, OrchestratorConfig } from '../src/agents/trading-orchestrator';
+import { parseStrategyAllocations } from '../src/agents/strategies';
+import { loadPreset } from '../src/agents/walk-forward-optimizer';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
 async function main() {
-  if (!process.env.GROQ_API_KEY) {
+  if (!process.env.GROQ_API_KEY && (process.env.LLM_PROVIDER || 'groq') === 'groq') {
     console.error('❌ GROQ_API_KEY is required');
     console.log('\nAdd to .env:');
     console.log('  GROQ_API_KEY=your_api_key_here\n');
@@ -35,6 +43,7 @@ async function main() {
 
   const config: Partial<OrchestratorConfig> = {
     groqApiKey: process.env.GROQ_API_KEY,
+    privateKey: process.env.PRIVATE_KEY,    // Only used when DRY_RUN=false
     
     // Capital
     totalCapital: parseFloat(process.env.TOTAL_CAPITAL || '5'),
@@ -54,6 +63,13 @@ async function main() {
     signalExpiryMs: parseInt(process.env.SIGNAL_EXPIRY_MS || '120000'),
     minSignalAge: parseInt(process.env.MIN_SIGNAL_AGE_MS || '10000'),
     
+    recordMarketData: process.env.RECORD_MARKETS === 'true',
+    streamMarketData: process.env.STREAM_MARKET_DATA === 'true',  // WebSocket ticks instead of polling
+    persistState: process.env.PERSIST_STATE ? process.env.PERSIST_STATE === 'true' : undefined,  // Live default: on
+    circuitBreaker: { flattenOnTrip: process.env.BREAKER_FLATTEN === 'true' },  // Close positions when a breaker trips
+    strategies: process.env.STRATEGIES ? parseStrategyAllocations(process.env.STRATEGIES) : undefined,  // e.g. momentum:0.5,funding-contrarian:0.5
+    pricePathModel: process.env.PRICE_PATH_MODEL === 'jump-diffusion' ? 'jump-diffusion' : 'gbm',
+    ...(process.env.PRESET ? loadPreset(process.env.PRESET, 'orchestrator').config as Partial<OrchestratorConfig> : {}),
     dryRun: process.env.DRY_RUN !== 'false',
   };
 
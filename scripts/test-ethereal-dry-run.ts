@@ -1,7 +1,9 @@
 import { EtherealClient, EtherealMarket } from '../src/clients/ethereal-client';
 import { TradeTracker, TradeResult } from '../src/agents/trade-tracker';
 import { ProfitScorer } from '../src/agents/profit-scorer';
-import Groq from 'groq-sdk';
+import { getSimulationRng } from '../src/utils/random';
+import { LlmClient, createLlmClient } from '../src/clients/llm-client';
+import { OutputSchema } from '../src/clients/llm-schema';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -16,19 +18,36 @@ const HOLD_TIME_MINUTES = parseInt(process.env.HOLD_TIME_MINUTES || '90');
 const TAKE_PROFIT_PERCENT = parseFloat(process.env.TAKE_PROFIT_PERCENT || '3');
 const STOP_LOSS_PERCENT = parseFloat(process.env.STOP_LOSS_PERCENT || '2');
 
-/**
- * Analyze Ethereal market and generate AI-powered trading decision
- */
-async function analyzeMarketWithAI(
-  market: EtherealMarket,
-  groq: Groq
-): Promise<{
+// Seeded from SIM_SEED so a dry run can be replayed exactly
+const simulationRng = getSimulationRng();
+const priceRng = simulationRng.fork('price-paths');
+
+interface TradeSignal {
   action: 'LONG' | 'SHORT' | 'HOLD';
   confidence: number;
   reasoning: string;
   expectedReturn: number;
   riskScore: number;
-}> {
+}
+
+const TRADE_SIGNAL_SCHEMA: OutputSchema<TradeSignal> = {
+  name: 'TradeSignal',
+  fields: {
+    action: { type: 'enum', values: ['LONG', 'SHORT', 'HOLD'] },
+    confidence: { type: 'number', min: 0, max: 100, percent: true },
+    reasoning: { type: 'string', description: 'detailed analysis' },
+    expectedReturn: { type: 'number', min: 1, max: 3 },
+    riskScore: { type: 'number', min: 0, max: 100 },
+  },
+};
+
+/**
+ * Analyze Ethereal market and generate AI-powered trading decision
+ */
+async function analyzeMarketWithAI(
+  market: EtherealMarket,
+  llm: LlmClient
+): Promise<TradeSignal> {
   const prompt = `Analyze this perpetual futures market and provide a trading recommendation:
 
 Market: ${market.symbol}
@@ -43,19 +62,11 @@ Based on:
 1. Price momentum (24h change)
 2. Funding rate (indicates long/short bias)
 3. Volume and open interest (liquidity)
-4. Technical setup
-
-Provide a JSON response with:
-{
-  "action": "LONG" | "SHORT" | "HOLD",
-  "confidence": 0-100,
-  "reasoning": "detailed analysis",
-  "expectedReturn": 1.0-3.0,
-  "riskScore": 0-100
-}`;
+4. Technical setup`;
 
   try {
-    const completion = await groq.chat.completions.create({
+    const { data } = await llm.completeJson(TRADE_SIGNAL_SCHEMA, {
+      route: 'trade-analysis',
       model: "llama-3.3-70b-versatile",
       messages: [
         {
@@ -68,23 +79,10 @@ Provide a JSON response with:
         },
       ],
       temperature: 0.3,
-      max_tokens: 500,
+      maxTokens: 500,
     });
 
-    const response = completion.choices[0]?.message?.content || "{}";
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error("No JSON found in response");
-    }
-
-    const analysis = JSON.parse(jsonMatch[0]);
-    return {
-      action: analysis.action || 'HOLD',
-      confidence: analysis.confidence || 50,
-      reasoning: analysis.reasoning || 'No clear signal',
-      expectedReturn: analysis.expectedReturn || 1.0,
-      riskScore: analysis.riskScore || 50,
-    };
+    return data;
   } catch (error) {
     console.error(`  ⚠️ AI analysis failed, using fallback: ${error}`);
     // Fallback to simple technical analysis
@@ -95,13 +93,7 @@ Provide a JSON response with:
 /**
  * Fallback analysis without AI
  */
-function analyzeMarketFallback(market: EtherealMarket): {
-  action: 'LONG' | 'SHORT' | 'HOLD';
-  confidence: number;
-  reasoning: string;
-  expectedReturn: number;
-  riskScore: number;
-} {
+function analyzeMarketFallback(market: EtherealMarket): TradeSignal {
   const priceChange = market.priceChangePercent24h;
   const fundingRate = market.fundingRate * 100;
 
@@ -160,7 +152,7 @@ function simulateTradeOutcome(
   let actualHoldTime = HOLD_TIME_MINUTES;
 
   for (let minute = 0; minute < HOLD_TIME_MINUTES; minute++) {
-    const randomMove = (Math.random() - 0.5) * volatility * 3;
+    const randomMove = (priceRng.next() - 0.5) * volatility * 3;
     const priceChange = (momentum * 0.4 + randomMove);
     currentPrice = currentPrice * (1 + priceChange / 100);
 
@@ -216,10 +208,12 @@ async function testEtherealDryRun() {
     throw new Error('❌ GROQ_API_KEY is required for AI analysis');
   }
 
+  console.log(`🎲 Seed: ${simulationRng.seed} (replay with SIM_SEED=${simulationRng.seed})\n`);
+
   const ethereal = new EtherealClient();
   const tracker = new TradeTracker('./trade-results/ethereal');
   const scorer = new ProfitScorer();
-  const groq = new Groq({ apiKey: process.env.GROQ_API_KEY });
+  const llm = createLlmClient({ groqApiKey: process.env.GROQ_API_KEY });
 
   try {
     console.log('📊 Fetching Ethereal markets...\n');
@@ -241,7 +235,7 @@ async function testEtherealDryRun() {
       console.log(`   24h: ${market.priceChangePercent24h >= 0 ? '+' : ''}${market.priceChangePercent24h.toFixed(2)}%`);
 
       // Get AI analysis
-      const analysis = await analyzeMarketWithAI(market, groq);
+      const analysis = await analyzeMarketWithAI(market, llm);
 
       console.log(`   Signal: ${analysis.action} (${analysis.confidence.toFixed(0)}% confidence)`);
       console.log(`   Risk Score: ${analysis.riskScore.toFixed(0)}/100`);
@@ -280,6 +274,7 @@ async function testEtherealDryRun() {
           pnl: outcome.pnl,
           resolved: true,
           resolutionDate: Date.now(),
+          seed: simulationRng.seed,
         };
 
         tracker.saveTrade(tradeResult);
@@ -343,10 +338,12 @@ async function testEtherealMultiSession() {
     throw new Error('❌ GROQ_API_KEY is required for AI analysis');
   }
 
+  console.log(`🎲 Seed: ${simulationRng.seed} (replay with SIM_SEED=${simulationRng.seed})\n`);
+
   const ethereal = new EtherealClient();
   const tracker = new TradeTracker('./trade-results/ethereal');
   const scorer = new ProfitScorer();
-  const groq = new Groq({ apiKey: process.env.GROQ_API_KEY });
+  const llm = createLlmClient({ groqApiKey: process.env.GROQ_API_KEY });
 
   try {
     console.log(`📊 Running ${sessions} trading sessions with up to ${tradesPerSession} trades each\n`);
@@ -368,7 +365,7 @@ async function testEtherealMultiSession() {
 
         console.log(`🎯 ${market.symbol} - $${market.lastPrice.toLocaleString()} (${market.priceChangePercent24h >= 0 ? '+' : ''}${market.priceChangePercent24h.toFixed(2)}%)`);
 
-        const analysis = await analyzeMarketWithAI(market, groq);
+        const analysis = await analyzeMarketWithAI(market, llm);
 
         console.log(`   ${analysis.action} | Confidence: ${analysis.confidence.toFixed(0)}% | Risk: ${analysis.riskScore.toFixed(0)}/100`);
 
@@ -399,6 +396,7 @@ async function testEtherealMultiSession() {
             pnl: outcome.pnl,
             resolved: true,
             resolutionDate: Date.now(),
+            seed: simulationRng.seed,
           };
 
           tracker.saveTrade(tradeResult);
@@ -472,7 +470,7 @@ async function testEtherealMultiSession() {
 
     tracker.exportToCSV();
     console.log(`\n💾 Results saved to: ./trade-results/ethereal/`);
-    console.log(`   - trades.json (full history)`);
+    console.log(`   - trades.db (full history, SQLite)`);
     console.log(`   - trades.csv (spreadsheet format)\n`);
     console.log('✅ Multi-session dry run complete!\n');
 
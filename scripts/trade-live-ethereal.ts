@@ -1,7 +1,8 @@
 import { EtherealClient, EtherealMarket } from '../src/clients/ethereal-client';
 import { TradeTracker, TradeResult } from '../src/agents/trade-tracker';
 import { ProfitScorer } from '../src/agents/profit-scorer';
-import Groq from 'groq-sdk';
+import { LlmClient, createLlmClient } from '../src/clients/llm-client';
+import { OutputSchema } from '../src/clients/llm-schema';
 import { ethers } from 'ethers';
 import dotenv from 'dotenv';
 
@@ -13,6 +14,23 @@ const RISK_THRESHOLD = parseInt(process.env.RISK_THRESHOLD || '50');
 const MAX_POSITION_SIZE = parseFloat(process.env.MAX_POSITION_SIZE || '100'); // Max USD per trade
 const TOTAL_CAPITAL = parseFloat(process.env.TOTAL_CAPITAL || '1000'); // Total trading capital
 
+interface TradeSignal {
+  action: 'LONG' | 'SHORT' | 'HOLD';
+  confidence: number;
+  reasoning: string;
+  riskScore: number;
+}
+
+const TRADE_SIGNAL_SCHEMA: OutputSchema<TradeSignal> = {
+  name: 'TradeSignal',
+  fields: {
+    action: { type: 'enum', values: ['LONG', 'SHORT', 'HOLD'] },
+    confidence: { type: 'number', min: 0, max: 100, percent: true },
+    reasoning: { type: 'string' },
+    riskScore: { type: 'number', min: 0, max: 100 },
+  },
+};
+
 /**
  * Check wallet balance
  */
@@ -50,38 +68,28 @@ async function checkWalletBalance(
 /**
  * Analyze market with AI
  */
-async function analyzeMarketWithAI(market: EtherealMarket, groq: Groq): Promise<any> {
+async function analyzeMarketWithAI(market: EtherealMarket, llm: LlmClient): Promise<TradeSignal> {
   // ...existing code...
   const prompt = `Analyze this perpetual futures market and provide a trading recommendation:
 
 Market: ${market.symbol}
 Current Price: $${market.lastPrice}
 24h Change: ${market.priceChangePercent24h.toFixed(2)}%
-24h Volume: $${(market.volume24h / 1000000).toFixed(2)}M
-
-Provide JSON: {"action": "LONG"|"SHORT"|"HOLD", "confidence": 0-100, "reasoning": "...", "riskScore": 0-100}`;
+24h Volume: $${(market.volume24h / 1000000).toFixed(2)}M`;
 
   try {
-    const completion = await groq.chat.completions.create({
+    const { data } = await llm.completeJson(TRADE_SIGNAL_SCHEMA, {
+      route: 'trade-analysis',
       model: "llama-3.3-70b-versatile",
       messages: [
         { role: "system", content: "You are an expert crypto trader. Be concise." },
         { role: "user", content: prompt },
       ],
       temperature: 0.3,
-      max_tokens: 500,
+      maxTokens: 500,
     });
 
-    const response = completion.choices[0]?.message?.content || "{}";
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-    const analysis = jsonMatch ? JSON.parse(jsonMatch[0]) : {};
-    
-    return {
-      action: analysis.action || 'HOLD',
-      confidence: analysis.confidence || 50,
-      reasoning: analysis.reasoning || 'No signal',
-      riskScore: analysis.riskScore || 50,
-    };
+    return data;
   } catch (error) {
     return { action: 'HOLD', confidence: 50, reasoning: 'Error', riskScore: 50 };
   }
@@ -169,7 +177,7 @@ async function runLiveTrading() {
   const wallet = new ethers.Wallet(process.env.PRIVATE_KEY, provider);
   const ethereal = new EtherealClient();
   const tracker = new TradeTracker('./trade-results/live');
-  const groq = new Groq({ apiKey: process.env.GROQ_API_KEY });
+  const llm = createLlmClient({ groqApiKey: process.env.GROQ_API_KEY });
 
   console.log('💼 Wallet:', wallet.address);
 
@@ -208,7 +216,7 @@ async function runLiveTrading() {
 
       console.log(`\n🎯 Analyzing: ${market.symbol} - $${market.lastPrice.toLocaleString()}`);
 
-      const analysis = await analyzeMarketWithAI(market, groq);
+      const analysis = await analyzeMarketWithAI(market, llm);
       console.log(`   Signal: ${analysis.action} (${analysis.confidence}% confidence, ${analysis.riskScore} risk)`);
       console.log(`   Reasoning: ${analysis.reasoning}`);
 
@@ -269,6 +277,7 @@ async function runLiveTrading() {
               timestamp: Date.now(),
               reasoning: analysis.reasoning,
               resolved: false,
+              agent: 'live-script',
             };
 
             tracker.saveTrade(trade);
@@ -0,0 +1,107 @@
+#!/usr/bin/env tsx
+/**
+ * Walk-Forward Optimizer
+ *
+ * Searches config parameters on rolling train windows of a historical
+ * price/funding file, scores each winner on the following unseen window,
+ * and writes the config for the latest window out as a preset.
+ *
+ * Input file: any format `pnpm backtest` reads (JSONL, CSV with
+ * timestamp,symbol,lastPrice,fundingRate,... columns, or a recorder dir).
+ *
+ * Usage:
+ *   HISTORY_FILE=./data/markets.csv pnpm optimize:walk-forward
+ *   HISTORY_FILE=./data/markets.csv SEARCH=bayesian ITERATIONS=25 pnpm optimize:walk-forward
+ *   HISTORY_FILE=./data/markets.csv TARGET=ethereal-agent PRESET_NAME=wf-eth pnpm optimize:walk-forward
+ *   PRESET=wf-eth pnpm ethereal:trade        # Trade with the result
+ *
+ * Environment variables:
+ *   TARGET=orchestrator                 # or ethereal-agent
+ *   SEARCH=grid                         # grid | random | bayesian
+ *   ITERATIONS=30                       # Candidates per window (random / bayesian)
+ *   OBJECTIVE=score                     # score | sharpeRatio | totalPnL | profitFactor
+ *   TRAIN_HOURS=24  TEST_HOURS=6        # Window lengths (STEP_HOURS defaults to TEST_HOURS)
+ *   MIN_TRADES=5                        # Train windows with fewer trades can't win
+ *   SPACE_FILE=./space.json             # [{"key": "minConfidence", "min": 65, "max": 85, "step": 5}, ...]
+ *   SEED=42                             # Random / Bayesian draws
+ */
+
+import fs from 'fs';
+import { DEFAULT_SPACES, OptimizationObjective, OptimizationTarget, WalkForwardOptimizer, savePreset } from '../src/agents/walk-forward-optimizer';
+import { ParameterSpace, SearchMethod } from '../src/agents/parameter-search';
+import { loadMarketHistory } from '../src/utils/market-history';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const HOUR = 60 * 60 * 1000;
+
+async function main() {
+  const file = process.env.HISTORY_FILE || process.argv[2];
+
+  if (!file) {
+    console.error('❌ HISTORY_FILE is required');
+    console.log('\nUsage:');
+    console.log('  HISTORY_FILE=./data/markets.csv pnpm optimize:walk-forward\n');
+    process.exit(1);
+  }
+
+  const target = (process.env.TARGET || 'orchestrator') as OptimizationTarget;
+  const method = (process.env.SEARCH || 'grid') as SearchMethod;
+  const objective = (process.env.OBJECTIVE || 'score') as OptimizationObjective;
+
+  if (!DEFAULT_SPACES[target]) {
+    console.error(`❌ Unknown TARGET: ${target} (orchestrator | ethereal-agent)`);
+    process.exit(1);
+  }
+
+  const space: ParameterSpace = process.env.SPACE_FILE
+    ? JSON.parse(fs.readFileSync(process.env.SPACE_FILE, 'utf-8'))
+    : DEFAULT_SPACES[target];
+
+  console.log(`\n📂 Loading market history: ${file}`);
+  const records = loadMarketHistory(file);
+  console.log(`   ${records.length} records loaded`);
+  console.log(`   Target: ${target} | Search: ${method} | Objective: ${objective}`);
+  console.log(`   Space: ${space.map(r => r.key).join(', ')}\n`);
+
+  const optimizer = new WalkForwardOptimizer({
+    target,
+    space,
+    objective,
+    search: {
+      method,
+      iterations: parseInt(process.env.ITERATIONS || '30'),
+      seed: process.env.SEED ? parseInt(process.env.SEED) : undefined,
+    },
+    trainWindowMs: parseFloat(process.env.TRAIN_HOURS || '24') * HOUR,
+    testWindowMs: parseFloat(process.env.TEST_HOURS || '6') * HOUR,
+    stepMs: process.env.STEP_HOURS ? parseFloat(process.env.STEP_HOURS) * HOUR : undefined,
+    minTrades: parseInt(process.env.MIN_TRADES || '5'),
+    resultsDir: process.env.RESULTS_DIR || './trade-results/optimizer',
+  });
+
+  // Every replay logs each position; keep the optimizer's own output readable
+  const log = console.log;
+  console.log = () => {};
+  let result;
+  try {
+    result = await optimizer.run(records);
+  } finally {
+    console.log = log;
+  }
+
+  optimizer.printReport(result);
+
+  const name = process.env.PRESET_NAME || `wf-${target}-${new Date().toISOString().slice(0, 10)}`;
+  const presetFile = savePreset(result, { name, method, history: file });
+  console.log(`💾 Preset saved: ${presetFile}`);
+  console.log(target === 'ethereal-agent'
+    ? `   Run it: PRESET=${name} pnpm ethereal:trade\n`
+    : `   Run it: PRESET=${name} pnpm orchestrator\n`);
+}
+
+main().catch(error => {
+  console.error('❌', error.message || error);
+  process.exit(1);
+});
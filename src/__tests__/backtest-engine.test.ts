@@ -0,0 +1,168 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BacktestEngine, ReplayMarketSource } from '../agents/backtest-engine';
+import { TradingOrchestrator } from '../agents/trading-orchestrator';
+import { MarketRecord, groupIntoFrames, loadMarketHistory } from '../utils/market-history';
+import { MarketRecorder } from '../utils/market-recorder';
+import { SimulatedClock } from '../utils/clock';
+import { makeMarket } from './helpers/markets';
+
+// Steady uptrend: 100 → ~104 over 20 frames, 5s apart
+function makeUptrend(start: number = 1735000000000): MarketRecord[] {
+  return Array.from({ length: 20 }, (_, i) => ({
+    timestamp: start + i * 5000,
+    market: makeMarket({ lastPrice: 100 * (1 + i * 0.002) }),
+  }));
+}
+
+describe('BacktestEngine', () => {
+  let resultsDir: string;
+
+  beforeEach(() => {
+    resultsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'backtest-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(resultsDir, { recursive: true, force: true });
+  });
+
+  const orchestrator = {
+    minSignalAge: 0,
+    analysisIntervalMs: 5000,
+  };
+
+  it('exits trades from replayed prices using the position manager', async () => {
+    const engine = new BacktestEngine({ orchestrator, resultsDir });
+
+    const result = await engine.run(makeUptrend());
+
+    expect(result.frames).toBe(20);
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].action).toBe('buy');
+    expect(result.trades[0].reasoning).toContain('take-profit');
+    expect(result.trades[0].pnl).toBeGreaterThan(0);
+    expect(result.metrics.winningTrades).toBe(1);
+  });
+
+  it('produces identical trades for identical input', async () => {
+    const first = await new BacktestEngine({ orchestrator, resultsDir }).run(makeUptrend());
+    const second = await new BacktestEngine({ orchestrator, resultsDir }).run(makeUptrend());
+
+    expect(second.trades).toEqual(first.trades);
+  });
+
+  it('closes positions still open at the end of the data', async () => {
+    const engine = new BacktestEngine({ orchestrator, resultsDir });
+
+    const result = await engine.run(makeUptrend().slice(0, 3));
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].reasoning).toContain('backtest-end');
+  });
+});
+
+describe('market history', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'history-'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads JSONL and CSV files sorted by timestamp', () => {
+    const jsonl = path.join(dir, 'markets.jsonl');
+    fs.writeFileSync(jsonl, [
+      JSON.stringify({ timestamp: 2000, market: makeMarket({ lastPrice: 101 }) }),
+      JSON.stringify({ timestamp: 1000, market: makeMarket({ lastPrice: 100 }) }),
+    ].join('\n'));
+
+    const csv = path.join(dir, 'markets.csv');
+    fs.writeFileSync(csv, [
+      'timestamp,symbol,leverage,lastPrice,priceChange24h,priceChangePercent24h,volume24h,fundingRate,openInterest',
+      '1000,ETH-USD,20,3000,30,1,1000000,0.0001,2000000',
+    ].join('\n'));
+
+    expect(loadMarketHistory(jsonl).map(r => r.timestamp)).toEqual([1000, 2000]);
+
+    const [record] = loadMarketHistory(csv);
+    expect(record.market.symbol).toBe('ETH-USD');
+    expect(record.market.baseAsset).toBe('ETH');
+    expect(record.market.lastPrice).toBe(3000);
+    expect(record.topOfBook).toBeUndefined();
+
+    const withBook = path.join(dir, 'books.csv');
+    fs.writeFileSync(withBook, [
+      'timestamp,symbol,lastPrice,bidPrice,bidSize,askPrice,askSize',
+      '1000,ETH-USD,3000,2999.5,4,3000.5,2',
+    ].join('\n'));
+    expect(loadMarketHistory(withBook)[0].topOfBook).toEqual({ bidPrice: 2999.5, bidSize: 4, askPrice: 3000.5, askSize: 2 });
+  });
+
+  it('reads back gzipped partitions written by MarketRecorder', () => {
+    const recorder = new MarketRecorder({ outputDir: dir, maxFileBytes: 1 });
+    const hour = Date.UTC(2025, 0, 15, 13);
+
+    recorder.recordMarkets([makeMarket({ lastPrice: 100 })], hour, new Map([
+      ['BTC-USD', { symbol: 'BTC-USD', bids: [[99.9, 2]], asks: [[100.1, 3]], timestamp: hour }],
+    ]));
+    recorder.flush();
+    recorder.record({ timestamp: hour + 5000, market: makeMarket({ lastPrice: 101 }) });
+    recorder.record({ timestamp: hour + 3600000, market: makeMarket({ lastPrice: 102 }) });
+    recorder.stop();
+
+    // Size rotation within 13:00, new partition for 14:00
+    expect(recorder.getStats().files.map(f => path.relative(dir, f))).toEqual([
+      path.join('2025-01-15', '2025-01-15T13.1.jsonl.gz'),
+      path.join('2025-01-15', '2025-01-15T13.jsonl.gz'),
+      path.join('2025-01-15', '2025-01-15T14.jsonl.gz'),
+    ]);
+
+    const records = loadMarketHistory(dir);
+    expect(records.map(r => r.market.lastPrice)).toEqual([100, 101, 102]);
+    expect(records[0].topOfBook).toEqual({ bidPrice: 99.9, bidSize: 2, askPrice: 100.1, askSize: 3 });
+  });
+
+  it('groups records sharing a timestamp into frames', () => {
+    const frames = groupIntoFrames([
+      { timestamp: 1000, market: makeMarket({ lastPrice: 100 }) },
+      { timestamp: 1000, market: makeMarket({ symbol: 'ETH-USD', lastPrice: 3000 }), topOfBook: { bidPrice: 2999, bidSize: 1, askPrice: 3001, askSize: 1 } },
+      { timestamp: 2000, market: makeMarket({ lastPrice: 101 }) },
+    ]);
+
+    expect(frames).toHaveLength(2);
+    expect(frames[0].markets).toHaveLength(2);
+    expect(Array.from(frames[0].topOfBook.keys())).toEqual(['ETH-USD']);
+    expect(frames[1].topOfBook.size).toBe(0);
+  });
+
+  it('records top-of-book from the orchestrator and replays it as the order book', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const timestamp = Date.UTC(2025, 0, 15, 13);
+    const topOfBook = { bidPrice: 99.9, bidSize: 2, askPrice: 100.1, askSize: 3 };
+    const [frame] = groupIntoFrames([{ timestamp, market: makeMarket({ lastPrice: 100 }), topOfBook }]);
+
+    const source = new ReplayMarketSource();
+    source.setFrame(frame);
+    const fetchBook = jest.spyOn(source, 'getOrderBook');
+    const recorder = new MarketRecorder({ outputDir: path.join(dir, 'market-data') });
+    const orchestrator = new TradingOrchestrator(
+      { useAI: false, dryRun: true },
+      { clock: new SimulatedClock(timestamp), marketSource: source, resultsDir: path.join(dir, 'results'), replay: true, recorder }
+    );
+
+    await orchestrator.step();
+    recorder.stop();
+
+    // One fetch per poll, shared by the analysis and the recorder
+    expect(fetchBook).toHaveBeenCalledTimes(1);
+    expect(await fetchBook.mock.results[0].value).toMatchObject({ bids: [[99.9, 2]], asks: [[100.1, 3]] });
+    expect(loadMarketHistory(path.join(dir, 'market-data'))).toEqual([{ timestamp, market: makeMarket({ lastPrice: 100 }), topOfBook }]);
+  });
+});
@@ -0,0 +1,151 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BreakerTrip, CircuitBreaker } from '../agents/circuit-breaker';
+import { TradingOrchestrator } from '../agents/trading-orchestrator';
+import { SimulatedClock } from '../utils/clock';
+import { QUIET_MARKET, makeMarket } from './helpers/markets';
+
+const START = 1735000000000;
+
+describe('CircuitBreaker', () => {
+  let stateDir: string;
+
+  beforeEach(() => {
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'circuit-breaker-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  it('trips on losing streaks and session drawdown, and stays tripped until reset', () => {
+    const clock = new SimulatedClock(START);
+    const breaker = new CircuitBreaker({ maxConsecutiveLosses: 3, maxSessionDrawdown: 0.1 }, null, clock);
+    breaker.startSession(1000);
+
+    breaker.recordTrade(-10);
+    breaker.recordTrade(-10);
+    breaker.recordTrade(5);
+    breaker.recordTrade(-10);
+    expect(breaker.isTripped()).toBe(false);
+    breaker.recordTrade(-10);
+    breaker.recordTrade(-10);
+    expect(breaker.getState().trip).toMatchObject({ trigger: 'CONSECUTIVE_LOSSES', trippedAt: START });
+
+    // Later triggers don't overwrite the first trip
+    breaker.recordTrade(-200);
+    expect(breaker.getState().trip!.trigger).toBe('CONSECUTIVE_LOSSES');
+
+    breaker.reset();
+    breaker.startSession(1000);
+    breaker.recordTrade(100);
+    breaker.recordTrade(-120);
+    expect(breaker.getState().trip).toMatchObject({ trigger: 'SESSION_DRAWDOWN' });
+  });
+
+  it('treats an unreadable state file as tripped until an operator resets it', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    fs.writeFileSync(path.join(stateDir, 'state.json'), '{"tripped": fal');
+
+    const breaker = new CircuitBreaker({}, stateDir);
+    expect(breaker.getState().trip).toMatchObject({ trigger: 'STATE_UNREADABLE', source: 'breaker' });
+    expect(breaker.isTripped()).toBe(true);
+    expect(error).toHaveBeenCalledTimes(1);                                   // Logged once, not on every check
+
+    breaker.reset('cli');
+    expect(new CircuitBreaker({}, stateDir).isTripped()).toBe(false);
+    expect(fs.readdirSync(stateDir).filter(f => f.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('trips on price jumps, bursts of API errors and a frozen feed', () => {
+    const clock = new SimulatedClock(START);
+    const config = { maxPriceJumpPercent: 10, maxApiErrors: 3, apiErrorWindowMs: 10000, staleDataMs: 30000 };
+
+    const jumps = new CircuitBreaker(config, null, clock);
+    jumps.recordPrice('BTC-USD', 100000);
+    jumps.recordPrice('BTC-USD', 108000);
+    expect(jumps.isTripped()).toBe(false);
+    jumps.recordPrice('BTC-USD', 50000);
+    expect(jumps.getState().trip!.trigger).toBe('PRICE_JUMP');
+
+    // Errors spread wider than the window never add up
+    const errors = new CircuitBreaker(config, null, clock);
+    for (let i = 0; i < 4; i++) {
+      errors.recordApiError(new Error('502'));
+      clock.advance(6000);
+    }
+    expect(errors.isTripped()).toBe(false);
+    errors.recordApiError(new Error('502'));
+    errors.recordApiError(new Error('502'));
+    expect(errors.getState().trip!.reason).toContain('last: 502');
+
+    const feed = new CircuitBreaker(config, null, clock);
+    feed.checkStaleness();
+    expect(feed.isTripped()).toBe(false);
+    feed.recordPrice('BTC-USD', 100000, clock.now());
+    clock.advance(31000);
+    feed.checkStaleness();
+    expect(feed.getState().trip!.trigger).toBe('STALE_DATA');
+  });
+
+  it('keeps automatic trips local with localAutoTrips but still obeys operator trips', () => {
+    const clock = new SimulatedClock(START);
+    const bot = new CircuitBreaker({ maxApiErrors: 2, localAutoTrips: true }, stateDir, clock);
+    const live = new CircuitBreaker({}, stateDir, clock);
+
+    bot.recordApiError(new Error('502'));
+    bot.recordApiError(new Error('502'));
+    expect(bot.getState().trip).toMatchObject({ trigger: 'API_ERRORS' });
+    expect(live.isTripped()).toBe(false);
+    expect(fs.existsSync(path.join(stateDir, 'state.json'))).toBe(false);
+
+    bot.reset();
+    expect(bot.isTripped()).toBe(false);
+
+    // The CLI trips the shared switch
+    const trips: BreakerTrip[] = [];
+    bot.on('trip', (trip) => trips.push(trip));
+    new CircuitBreaker({}, stateDir, clock).trip('MANUAL', 'exchange incident', { source: 'cli' });
+    expect(bot.getState().trip).toMatchObject({ trigger: 'MANUAL', source: 'cli' });
+    expect(trips).toHaveLength(1);
+
+    live.reset('cli');
+    expect(bot.isTripped()).toBe(false);
+  });
+
+  it('flattens a running orchestrator when an operator trips the shared switch', async () => {
+    const clock = new SimulatedClock(START);
+    const orchestrator = new TradingOrchestrator(
+      { useAI: false, dryRun: true, totalCapital: 1000, minSignalAge: 0 },
+      {
+        clock,
+        marketSource: { getMarkets: async () => [makeMarket({ ...QUIET_MARKET, lastPrice: 100000, priceChangePercent24h: 3.2 })] },
+        resultsDir: stateDir,
+        replay: true,
+        circuitBreaker: new CircuitBreaker({}, stateDir, clock),
+      }
+    );
+    const trips: BreakerTrip[] = [];
+    orchestrator.on('circuitBreakerTripped', (trip) => trips.push(trip));
+
+    await orchestrator.step();
+    expect(orchestrator.getOpenPositions()).toHaveLength(1);
+
+    // Another process (the CLI) trips the switch on disk
+    clock.advance(1000);
+    new CircuitBreaker({}, stateDir, clock).trip('MANUAL', 'exchange incident', { source: 'cli', flatten: true });
+    orchestrator.getCircuitBreaker().sync();
+
+    expect(trips).toEqual([expect.objectContaining({ trigger: 'MANUAL', source: 'cli', flatten: true })]);
+    expect(orchestrator.getOpenPositions()).toHaveLength(0);
+    expect(orchestrator.getClosedTrades()[0].exitReason).toBe('circuit-breaker');
+
+    const operator = new CircuitBreaker({}, stateDir, clock);
+    operator.reset('api');
+    expect(orchestrator.getCircuitBreaker().isTripped()).toBe(false);
+    expect(operator.getHistory().map(e => e.type)).toEqual(['trip', 'reset']);
+  });
+});
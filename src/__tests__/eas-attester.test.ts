@@ -0,0 +1,176 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { decodeFunctionData } from 'viem';
+import {
+  EAS_ABI,
+  EasAttester,
+  FakeAttestationChain,
+  countAttestations,
+  easAttesterConfigFromEnv,
+  encodeAttestations,
+} from '../clients/eas-attester';
+import { ForecastLedger } from '../agents/forecast-calibration';
+import { ForecastingAgent } from '../agents/forecasting-agent';
+import { SimulatedClock } from '../utils/clock';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const forecast = (n: number) => ({
+  conditionId: `0x${n.toString(16).padStart(64, '0')}`,
+  probability: 10 * n,
+  reasoning: `Forecast ${n}`,
+});
+
+// FakeAttestationChain defaults: 40k + 60k gas per attestation, 0.1 gwei max fee, mined at half of it
+const paidEth = (attestations: number) => ((40_000 + 60_000 * attestations) * 5e7) / 1e18;
+
+describe('EasAttester', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'attester-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('batches forecasts into multiAttest calls and records the gas paid per forecast', async () => {
+    expect(decodeFunctionData({ abi: EAS_ABI, data: encodeAttestations([forecast(1)]) }).functionName).toBe('attest');
+    expect(countAttestations(encodeAttestations([forecast(1), forecast(2), forecast(3)]))).toBe(3);
+    expect(easAttesterConfigFromEnv({ ATTEST_BATCH_SIZE: '4', GAS_BUDGET_DAY_ETH: '0.01' })).toEqual({ maxBatchSize: 4, perDayEth: 0.01 });
+
+    const chain = new FakeAttestationChain();
+    const attester = new EasAttester(chain, { maxBatchSize: 2 });
+    const result = await attester.attestForecasts([1, 2, 3, 4, 5].map(forecast));
+
+    expect(result.batches.map(b => b.conditionIds.length)).toEqual([2, 2, 1]);
+    expect(chain.sent.map(tx => tx.nonce)).toEqual([0, 1, 2]);
+    expect(chain.sent[0].gas).toBe(192_000n);                                  // 160k estimate + 20% buffer
+    expect(result.spentEth).toBeCloseTo(2 * paidEth(2) + paidEth(1), 12);
+    expect(result.failed).toEqual([]);
+    expect(result.overBudget).toEqual([]);
+
+    // Through the agent, receipts land next to the forecasts in the ledger
+    const ledger = new ForecastLedger(dir);
+    for (const n of [1, 2]) {
+      ledger.record({ ...forecast(n), question: `Q${n}`, rawProbability: 10 * n, confidence: 60, edge: 0, endTime: 0, timestamp: 0 });
+    }
+    ledger.close();
+
+    const agentChain = new FakeAttestationChain();
+    const agent = new ForecastingAgent({
+      privateKey: '11'.repeat(32),
+      groqApiKey: '',
+      llm: { provider: 'fake' },
+      calibration: { resultsDir: dir },
+      attester: new EasAttester(agentChain),
+    });
+    await agent.submitForecasts([forecast(1), forecast(2)]);
+
+    const submitted = agent.getLedger().query({ submitted: true });
+    expect(submitted).toHaveLength(2);
+    expect(submitted[0]).toMatchObject({ txHash: agentChain.sent[0].hash, batchSize: 2 });
+    expect(submitted[0].gasPaidEth).toBeCloseTo(paidEth(2) / 2, 12);
+    expect(agent.getLedger().gasSpentSince(Date.now() - DAY)).toBeCloseTo(paidEth(2), 12);
+    expect(agent.getLedger().gasSpentSince(Date.now() + 1000)).toBe(0);
+    agent.getLedger().close();
+  });
+
+  it('shrinks batches to the per-run and rolling daily budgets', async () => {
+    const chain = new FakeAttestationChain();
+    const attester = new EasAttester(chain, { perRunEth: 0.00003 });
+    const ids = [1, 2, 3, 4, 5, 6].map(forecast);
+
+    // Six attestations cost up to 0.0000635 ETH after two 15% fee bumps; two (0.0000254) fit
+    const first = await attester.attestForecasts(ids);
+    expect(first.batches[0].conditionIds).toEqual(ids.slice(0, 2).map(f => f.conditionId));
+    expect(first.overBudget).toEqual(ids.slice(2).map(f => f.conditionId));
+    expect(attester.getBudget().getSpentRun()).toBeCloseTo(paidEth(2), 12);
+
+    // Only one more fits in what's left of the run
+    const second = await attester.attestForecasts(ids.slice(2));
+    expect(second.batches[0].conditionIds).toEqual([ids[2].conditionId]);
+    expect(second.overBudget).toEqual(ids.slice(3).map(f => f.conditionId));
+
+    // Earlier runs count against the day; nothing is sent once it's used up
+    const clock = new SimulatedClock(10 * DAY);
+    const spentSince = jest.fn((sinceMs: number) => (sinceMs === 9 * DAY ? 0.000015 : 0));
+    const daily = new EasAttester(new FakeAttestationChain(), { perDayEth: 0.00002 }, spentSince, clock);
+    const third = await daily.attestForecasts(ids.slice(0, 2));
+    expect(third.batches).toEqual([]);
+    expect(third.overBudget).toEqual(ids.slice(0, 2).map(f => f.conditionId));
+    expect(daily.getBudget().remaining()).toBeCloseTo(0.000005, 12);
+  });
+
+  it('replaces stuck transactions at the same nonce with bumped fees', async () => {
+    const chain = new FakeAttestationChain({ stuck: 2 });
+    const attester = new EasAttester(chain, { maxReplacements: 2, feeBumpPercent: 15 });
+
+    const result = await attester.attestForecasts([forecast(1)]);
+    expect(chain.sent.map(tx => tx.nonce)).toEqual([0, 0, 0]);
+    expect(chain.sent.map(tx => tx.maxFeePerGas)).toEqual([100_000_000n, 115_000_000n, 132_250_000n]);
+    expect(result.batches[0].receipt).toMatchObject({ txHash: chain.sent[2].hash, nonce: 0, replacements: 2, status: 'success' });
+
+    await attester.attestForecasts([forecast(2)]);
+    expect(chain.sent[3].nonce).toBe(1);
+
+    // Still stuck after the last replacement: reported, not retried forever
+    const stuckChain = new FakeAttestationChain({ stuck: 5 });
+    const stuck = await new EasAttester(stuckChain, { maxReplacements: 1 }).attestForecasts([forecast(1)]);
+    expect(stuckChain.sent).toHaveLength(2);
+    expect(stuck.batches).toEqual([]);
+    expect(stuck.failed[0].conditionIds).toEqual([forecast(1).conditionId]);
+
+    // A send given up on can still mine: its forecast isn't re-sent until the nonce settles...
+    const abandonedChain = new FakeAttestationChain({ stuck: 2 });
+    const abandonedAttester = new EasAttester(abandonedChain, { maxReplacements: 1 });
+    await abandonedAttester.attestForecasts([forecast(1)]);
+    const waiting = await abandonedAttester.attestForecasts([forecast(1)]);
+    expect(abandonedChain.sent).toHaveLength(2);
+    expect(waiting.failed[0].error).toMatch(/nonce 0 is still pending/);
+
+    // ...and when it does, it is charged and reported with the next batches
+    abandonedChain.mine(abandonedChain.sent[0].hash);
+    const settled = await abandonedAttester.attestForecasts([forecast(2)]);
+    expect(settled.batches.map(b => [b.receipt.nonce, b.conditionIds])).toEqual([
+      [0, [forecast(1).conditionId]],
+      [1, [forecast(2).conditionId]],
+    ]);
+    expect(abandonedAttester.getBudget().getSpentRun()).toBeCloseTo(2 * paidEth(1), 12);
+
+    // The original mines while its replacement is pending: that's the attestation
+    const lateChain = new FakeAttestationChain({ stuck: 2 });
+    const wait = lateChain.waitForReceipt.bind(lateChain);
+    jest.spyOn(lateChain, 'waitForReceipt').mockImplementation(async (hash) => {
+      if (hash === lateChain.sent[1]?.hash) lateChain.mine(lateChain.sent[0].hash);
+      return wait(hash);
+    });
+    const lateAttester = new EasAttester(lateChain, { maxReplacements: 1 });
+    const late = await lateAttester.attestForecasts([forecast(1)]);
+    expect(late.batches[0].receipt).toMatchObject({ txHash: lateChain.sent[0].hash, nonce: 0, replacements: 0 });
+    expect(lateAttester.getBudget().getSpentRun()).toBeCloseTo(paidEth(1), 12);
+
+    // ...or before the replacement is even accepted ("nonce too low")
+    const racedChain = new FakeAttestationChain({ stuck: 1 });
+    const send = racedChain.send.bind(racedChain);
+    jest.spyOn(racedChain, 'send').mockImplementation(async (tx) => {
+      if (racedChain.sent.length === 1) racedChain.mine(racedChain.sent[0].hash);
+      return send(tx);
+    });
+    const raced = await new EasAttester(racedChain).attestForecasts([forecast(1)]);
+    expect(racedChain.sent).toHaveLength(1);
+    expect(raced.failed).toEqual([]);
+    expect(raced.batches[0].receipt.txHash).toBe(racedChain.sent[0].hash);
+
+    // A reverted transaction is still paid for
+    const reverted = await new EasAttester(new FakeAttestationChain({ revert: true })).attestForecasts([forecast(1)]);
+    expect(reverted.failed[0].error).toMatch(/reverted/);
+    expect(reverted.spentEth).toBeCloseTo(paidEth(1), 12);
+  });
+});
@@ -0,0 +1,182 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FakeLlmProvider, LlmClient, LlmProviderRegistry } from '../clients/llm-client';
+import {
+  AggregationRule,
+  ENSEMBLE_MEMBERS,
+  EnsembleForecaster,
+  MarketPriorSource,
+  aggregateForecasts,
+  ensembleConfigFromEnv,
+  learnMemberWeights,
+  parseEnsembleMembers,
+} from '../agents/ensemble-forecaster';
+import { ForecastLedger, LedgerForecast } from '../agents/forecast-calibration';
+import { ForecastingAgent } from '../agents/forecasting-agent';
+
+const reply = (probability: number, confidence: number, reasoning = `Estimate ${probability}`) =>
+  JSON.stringify({ probability, confidence, reasoning });
+
+const noMarkets: MarketPriorSource = { findSimilarMarkets: async () => [] };
+
+describe('EnsembleForecaster', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('pools member probabilities with each aggregation rule', () => {
+    const members = [
+      { probability: 10, weight: 1 },
+      { probability: 60, weight: 1 },
+      { probability: 70, weight: 2 },
+      { probability: 90, weight: 0 },                // Zero weight never counts
+    ];
+
+    expect(aggregateForecasts(members, 'mean')).toBeCloseTo(52.5, 10);
+    expect(aggregateForecasts(members, 'median')).toBe(60);
+    expect(aggregateForecasts(members, 'trimmed-mean', { trim: 0.34 })).toBe(60);
+
+    const logOdds = (p: number) => Math.log(p / (1 - p));
+    const pooled = (logOdds(0.1) + logOdds(0.6) + 2 * logOdds(0.7)) / 4;
+    expect(aggregateForecasts(members, 'log-odds')).toBeCloseTo(100 / (1 + Math.exp(-pooled)), 10);
+    expect(aggregateForecasts(members, 'log-odds', { extremize: 2 })).toBeCloseTo(100 / (1 + Math.exp(-2 * pooled)), 10);
+    expect(aggregateForecasts([], 'mean')).toBe(50);
+
+    expect(parseEnsembleMembers('analyst, skeptic@forecast.claude, kalshi')).toEqual([
+      ENSEMBLE_MEMBERS.analyst,
+      { id: 'skeptic@forecast.claude', kind: 'llm', prompt: 'skeptic', route: 'forecast.claude' },
+      ENSEMBLE_MEMBERS.kalshi,
+    ]);
+    expect(() => parseEnsembleMembers('oracle')).toThrow('Unknown ensemble member "oracle"');
+    expect(() => parseEnsembleMembers('kalshi@forecast')).toThrow('takes no route');
+    expect(ensembleConfigFromEnv({ FORECAST_AGGREGATION: 'median', FORECAST_EXTREMIZE: '1.5' }))
+      .toEqual({ aggregation: 'median', extremize: 1.5 });
+    expect(() => ensembleConfigFromEnv({ FORECAST_AGGREGATION: 'average' })).toThrow('Unknown aggregation rule "average"');
+    expect(() => ensembleConfigFromEnv({ FORECAST_EXTREMIZE: 'strong' })).toThrow('Invalid extremizing factor "strong"');
+    expect(() => ensembleConfigFromEnv({ FORECAST_EXTREMIZE: '0' })).toThrow('Invalid extremizing factor "0"');
+    expect(() => ensembleConfigFromEnv({ FORECAST_EXTREMIZE: '-1' })).toThrow('Invalid extremizing factor');
+  });
+
+  it('samples models, prompts and market priors and records every contribution', async () => {
+    const groq = new FakeLlmProvider(reply(70, 80, 'Analyst view'), 'groq');
+    const claude = new FakeLlmProvider(() => 'no idea', 'claude');   // Off-schema: skipped
+    const local = new FakeLlmProvider(reply(60, 60, 'Skeptic view'), 'local');
+    const registry = new LlmProviderRegistry()
+      .register('groq', () => groq)
+      .register('claude', () => claude)
+      .register('local', () => local);
+    const llm = new LlmClient({
+      provider: 'groq',
+      routes: { 'forecast.claude': { provider: 'claude', model: 'c' }, 'forecast.local': { provider: 'local', model: 'l' } },
+    }, registry);
+
+    const markets: MarketPriorSource = {
+      findSimilarMarkets: async () => [
+        { platform: 'polymarket', yesPrice: 0.5, volume24h: 30_000 },
+        { platform: 'polymarket', yesPrice: 0.7, volume24h: 10_000 },
+        { platform: 'kalshi', yesPrice: 0.9, volume24h: 0 },
+      ],
+    };
+
+    const forecaster = new EnsembleForecaster(llm, markets, {
+      members: parseEnsembleMembers('analyst, base-rate@forecast.claude, skeptic@forecast.local, polymarket, kalshi'),
+      aggregation: 'mean',
+    });
+    const forecast = await forecaster.forecast('Will it happen?');
+
+    expect(local.calls[0].messages[0].content).toContain('guards against overconfidence');
+    expect(claude.calls).toHaveLength(2);                              // Asked, re-asked, then dropped
+    expect(forecast.members.map(m => [m.id, Math.round(m.probability)])).toEqual([
+      ['analyst', 70],
+      ['skeptic@forecast.local', 60],
+      ['polymarket', 55],                                              // Volume-weighted
+      ['kalshi', 90],
+    ]);
+    expect(forecast.members[2]).toMatchObject({ kind: 'market', markets: 2, weight: 1 });
+    expect(forecast).toMatchObject({
+      probability: 69,                                                 // (70 + 60 + 55 + 90) / 4
+      reasoning: 'Analyst view',
+      model: 'ensemble:mean',
+      aggregation: 'mean',
+    });
+    expect(forecast.confidence).toBeLessThan(60);                      // Disagreement discounts confidence
+
+    // Model failures surface when no model answered at all
+    const down = new LlmClient({ provider: 'down', maxRetries: 0, model: 'd' }, new LlmProviderRegistry()
+      .register('down', () => new FakeLlmProvider(() => { throw Object.assign(new Error('HTTP 400'), { status: 400 }); }, 'down')));
+    await expect(new EnsembleForecaster(down, noMarkets).forecast('Q?')).rejects.toMatchObject({ status: 400 });
+    expect(() => new EnsembleForecaster(down, noMarkets, { aggregation: 'mode' as AggregationRule }))
+      .toThrow('Unknown aggregation rule "mode"');
+  });
+
+  it('learns member weights from resolved forecasts in the ledger', async () => {
+    const history: LedgerForecast[] = Array.from({ length: 20 }, (_, i) => ({
+      conditionId: `0x${i}`,
+      question: 'Q',
+      rawProbability: 70,
+      probability: 70,
+      confidence: 70,
+      edge: 20,
+      reasoning: '',
+      endTime: 0,
+      timestamp: i,
+      resolved: true,
+      outcome: true,
+      members: [
+        { id: 'analyst', kind: 'llm', probability: 90, confidence: 70, weight: 1 },
+        { id: 'skeptic', kind: 'llm', probability: 60, confidence: 70, weight: 1 },
+        ...(i < 5 ? [{ id: 'kalshi', kind: 'market' as const, probability: 99, confidence: 50, weight: 1 }] : []),
+      ],
+    }));
+
+    const weights = learnMemberWeights(history, 20);
+    expect(Object.keys(weights)).toEqual(['analyst', 'skeptic']);       // kalshi: too few samples
+    expect(weights.analyst / weights.skeptic).toBeCloseTo(16, 6);    // Brier 0.01 vs 0.16
+    expect((weights.analyst + weights.skeptic) / 2).toBeCloseTo(1, 10);
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ensemble-'));
+    try {
+      const ledger = new ForecastLedger(dir);
+      history.forEach(f => ledger.record(f));
+      ledger.close();
+
+      let call = 0;
+      const agent = new ForecastingAgent({
+        privateKey: '11'.repeat(32),
+        groqApiKey: '',
+        llm: { provider: 'fake' },
+        ensemble: { members: parseEnsembleMembers('analyst, skeptic'), aggregation: 'learned' },
+        calibration: { resultsDir: dir, method: 'none' },
+      });
+      // Analyst says 80, skeptic 40
+      jest.spyOn(FakeLlmProvider.prototype, 'complete').mockImplementation(async () => {
+        const content = call++ === 0 ? reply(80, 70) : reply(40, 70);
+        return { content, usage: { inputTokens: 1, outputTokens: 1 } };
+      });
+
+      const condition = { id: '0xnew', question: 'New?', endTime: 1 };
+      const forecast = agent.calibrateForecast(condition, await agent.generateForecast(condition));
+      const a = weights.analyst, s = weights.skeptic;
+      const pooled = (a * Math.log(4) + s * Math.log(0.4 / 0.6)) / (a + s);
+
+      expect(forecast.probability).toBe(Math.round(100 / (1 + Math.exp(-pooled))));
+      expect(agent.getLedger().query({ conditionId: '0xnew' })[0]).toMatchObject({
+        aggregation: 'learned',
+        model: 'ensemble:learned',
+        members: [
+          expect.objectContaining({ id: 'analyst', probability: 80, weight: a }),
+          expect.objectContaining({ id: 'skeptic', probability: 40, weight: s }),
+        ],
+      });
+      agent.getLedger().close();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
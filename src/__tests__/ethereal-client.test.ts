@@ -0,0 +1,50 @@
+import { EtherealClient } from '../clients/ethereal-client';
+import { MockEtherealTransport, RecordedEtherealTransport } from '../clients/ethereal-transport';
+import { SeededRandom } from '../utils/random';
+import { makeMarket } from './helpers/markets';
+
+describe('EtherealClient', () => {
+  it('serves the same mock markets for the same seed', async () => {
+    const first = new EtherealClient({ transport: new MockEtherealTransport(new SeededRandom(3)) });
+    const second = new EtherealClient({ transport: new MockEtherealTransport(new SeededRandom(3)) });
+
+    const markets = await first.getMarkets();
+    expect(markets.length).toBeGreaterThan(0);
+    expect(await second.getMarkets()).toEqual(markets);
+  });
+
+  it('replays recorded frames and maps symbols to products', async () => {
+    const transport = new RecordedEtherealTransport([
+      { timestamp: 1000, market: makeMarket({ symbol: 'BTC-USD', lastPrice: 100000 }) },
+      { timestamp: 1000, market: makeMarket({ symbol: 'ETH-USD', lastPrice: 3000 }), topOfBook: { bidPrice: 2999, bidSize: 5, askPrice: 3001, askSize: 4 } },
+      { timestamp: 2000, market: makeMarket({ symbol: 'BTC-USD', lastPrice: 101000 }) },
+    ]);
+    const client = new EtherealClient({ transport });
+
+    const first = await client.getMarkets();
+    expect(first.map(m => m.symbol)).toEqual(['BTC-USD', 'ETH-USD']);
+    expect(first[0]).toMatchObject(makeMarket({ symbol: 'BTC-USD', lastPrice: 100000 }));
+    expect((await client.getOrderBook('ETH-USD')).bids).toEqual([[2999, 5]]);
+
+    expect((await client.getMarket('BTC-USD'))?.lastPrice).toBe(101000);
+
+    const product = await client.getProductBySymbol('btc/usd');
+    expect(product?.ticker).toBe('BTCUSD');
+    expect(await client.getProductBySymbol('DOGE-USD')).toBeNull();
+  });
+
+  it('requires a private key for signed requests', async () => {
+    const client = new EtherealClient({ transport: new MockEtherealTransport(new SeededRandom(1)) });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(client.placeOrder({
+      subaccountId: 'sub-1',
+      productId: 'btcusd',
+      side: 'BUY',
+      type: 'MARKET',
+      size: '0.001',
+    })).rejects.toThrow('privateKey is required');
+
+    jest.restoreAllMocks();
+  });
+});
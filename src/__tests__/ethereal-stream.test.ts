@@ -0,0 +1,233 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import WebSocket from 'ws';
+import { EtherealStream, StreamGap } from '../clients/ethereal-stream';
+import { MarketMonitor, MarketSnapshot, OrchestratorConfig, PositionManager } from '../agents/trading-orchestrator';
+import { SimulatedClock } from '../utils/clock';
+import { makeMarket } from './helpers/markets';
+
+/**
+ * Local stand-in for the Ethereal stream endpoint
+ */
+class StubServer {
+  server: WebSocket.Server;
+  received: any[] = [];
+
+  constructor() {
+    this.server = new WebSocket.Server({ port: 0 });
+    this.server.on('connection', (socket) => {
+      socket.on('message', (raw) => this.received.push(JSON.parse(raw.toString())));
+    });
+  }
+
+  get url(): string {
+    const { port } = this.server.address() as { port: number };
+    return `ws://127.0.0.1:${port}`;
+  }
+
+  send(message: Record<string, any>): void {
+    for (const client of this.server.clients) {
+      client.send(JSON.stringify(message));
+    }
+  }
+
+  dropClients(): void {
+    for (const client of this.server.clients) {
+      client.terminate();
+    }
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+async function waitFor(condition: () => boolean, timeoutMs: number = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+describe('EtherealStream', () => {
+  let server: StubServer;
+  let stream: EtherealStream;
+
+  beforeEach(() => {
+    server = new StubServer();
+    stream = new EtherealStream({ url: server.url, reconnectDelayMs: 10 });
+  });
+
+  afterEach(async () => {
+    stream.close();
+    await server.close();
+  });
+
+  it('maintains order books from deltas and resyncs after a gap', async () => {
+    const gaps: StreamGap[] = [];
+    stream.on('gap', gap => gaps.push(gap));
+    stream.subscribe('orderbook', 'BTC-USD');
+    await stream.connect();
+    await waitFor(() => server.received.length === 1);
+
+    server.send({ channel: 'orderbook', symbol: 'BTC-USD', seq: 1, type: 'snapshot', bids: [[99, 1], [98, 2]], asks: [[101, 1]] });
+    server.send({ channel: 'orderbook', symbol: 'BTC-USD', seq: 2, type: 'delta', bids: [[99, 0], [100, 3]], asks: [] });
+    server.send({ channel: 'orderbook', symbol: 'BTC-USD', seq: 2, type: 'delta', bids: [[97, 5]], asks: [] });
+    await waitFor(() => stream.getOrderBook('BTC-USD')?.bids[0][0] === 100);
+
+    expect(stream.getOrderBook('BTC-USD')).toMatchObject({ bids: [[100, 3], [98, 2]], asks: [[101, 1]] });
+
+    // seq 3 never arrives
+    server.send({ channel: 'orderbook', symbol: 'BTC-USD', seq: 4, type: 'delta', bids: [[96, 1]], asks: [] });
+    await waitFor(() => gaps.length === 1);
+
+    expect(gaps[0]).toEqual({ channel: 'orderbook', symbol: 'BTC-USD', expected: 3, received: 4 });
+    expect(stream.getOrderBook('BTC-USD')).toBeUndefined();
+    await waitFor(() => server.received.length === 3);
+    expect(server.received.slice(1).map(m => m.op)).toEqual(['unsubscribe', 'subscribe']);
+  });
+
+  it('reconnects and resubscribes after the connection drops', async () => {
+    const tickers: string[] = [];
+    stream.on('ticker', (_symbol, ticker) => tickers.push(ticker.lastPrice));
+    stream.subscribe('ticker', 'BTC-USD');
+    await stream.connect();
+    await waitFor(() => server.received.length === 1);
+
+    server.dropClients();
+    await waitFor(() => server.received.length === 2);
+    expect(server.received[1]).toEqual({ op: 'subscribe', channel: 'ticker', symbol: 'BTC-USD' });
+
+    // Sequences restart on the new connection
+    server.send({ channel: 'ticker', symbol: 'BTC-USD', seq: 1, data: { lastPrice: '100500' } });
+    await waitFor(() => tickers.length === 1);
+    expect(tickers).toEqual(['100500']);
+  });
+});
+
+describe('MarketMonitor streaming', () => {
+  let server: StubServer;
+  let resultsDir: string;
+
+  beforeEach(() => {
+    server = new StubServer();
+    resultsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'stream-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await server.close();
+    fs.rmSync(resultsDir, { recursive: true, force: true });
+  });
+
+  it('exits positions on streamed ticks without waiting for a poll', async () => {
+    const config = {
+      totalCapital: 1000,
+      maxConcurrentPositions: 3,
+      minConfidence: 100,
+      marketUpdateIntervalMs: 60000,
+      positionCheckIntervalMs: 60000,
+      dryRun: true,
+    } as OrchestratorConfig;
+
+    const monitor = new MarketMonitor(config, { getMarkets: async () => [makeMarket({ lastPrice: 100000 })] });
+    const manager = new PositionManager(config, undefined, resultsDir);
+    monitor.setStream(new EtherealStream({ url: server.url }));
+
+    await monitor.start();
+    await manager.start(monitor);
+    await waitFor(() => server.received.length === 2);
+    expect(server.received).toEqual([
+      { op: 'subscribe', channel: 'ticker', symbol: 'BTC-USD' },
+      { op: 'subscribe', channel: 'orderbook', symbol: 'BTC-USD' },
+    ]);
+
+    const snapshot = monitor.getSnapshot('BTC-USD')!;
+    await manager.openPosition({
+      id: 'sig-1',
+      symbol: 'BTC-USD',
+      action: 'LONG',
+      confidence: 80,
+      urgency: 'IMMEDIATE',
+      entryPrice: 100000,
+      takeProfitPrice: 101000,
+      stopLossPrice: 99000,
+      positionSize: 100,
+      leverage: 2,
+      holdTimeMinutes: 60,
+      reasoning: 'test',
+      createdAt: Date.now(),
+      expiresAt: Date.now() + 60000,
+      marketSnapshot: snapshot,
+    });
+
+    server.send({ channel: 'ticker', symbol: 'BTC-USD', seq: 1, data: { lastPrice: '101200' } });
+    await waitFor(() => manager.getOpenPositions().length === 0);
+
+    const [trade] = manager.getClosedPositions();
+    expect(trade.exitPrice).toBe(101200);
+    expect(trade.reasoning).toContain('take-profit');
+    expect(monitor.getSnapshot('BTC-USD')!.market.volume24h).toBe(50000000);
+
+    manager.stop();
+    monitor.stop();
+  });
+
+  it('buckets streamed ticks to the poll interval before recording them', async () => {
+    const clock = new SimulatedClock(1735000000000);
+    const config = { totalCapital: 1000, minConfidence: 0, marketUpdateIntervalMs: 5000 } as OrchestratorConfig;
+    const monitor = new MarketMonitor(config, { getMarkets: async () => [makeMarket({ lastPrice: 100000 })] }, clock);
+    const updates: MarketSnapshot[] = [];
+    const opportunities: MarketSnapshot[] = [];
+    monitor.on('marketUpdate', (snapshot) => updates.push(snapshot));
+    monitor.on('opportunity', (snapshot) => opportunities.push(snapshot));
+    jest.spyOn(monitor, 'isOpportunity').mockReturnValue(true);
+
+    await monitor.updateMarkets();
+    for (let i = 1; i <= 20; i++) {
+      clock.advance(500);
+      monitor.applyTicker('BTC-USD', { lastPrice: String(100000 + i) });
+    }
+
+    // Every tick reaches position checks and the latest snapshot...
+    expect(updates).toHaveLength(21);
+    expect(monitor.getSnapshot('BTC-USD')!.market.lastPrice).toBe(100020);
+    // ...but history and analysis only see one per interval
+    expect(monitor.getHistory('BTC-USD').map(s => s.market.lastPrice)).toEqual([100000, 100010, 100020]);
+    expect(opportunities).toHaveLength(3);
+  });
+
+  it('subscribes markets listed after the stream is up', async () => {
+    const config = {
+      totalCapital: 1000,
+      marketUpdateIntervalMs: 10,
+      marketListRefreshMs: 0,
+    } as OrchestratorConfig;
+
+    const markets = [makeMarket({ lastPrice: 100000 })];
+    const monitor = new MarketMonitor(config, { getMarkets: async () => markets });
+    const stream = new EtherealStream({ url: server.url });
+    monitor.setStream(stream);
+
+    await monitor.start();
+    await waitFor(() => server.received.length === 2);
+
+    markets.push(makeMarket({ symbol: 'ETH-USD', lastPrice: 3000 }));
+    await waitFor(() => server.received.length === 4);
+    expect(server.received.slice(2)).toEqual([
+      { op: 'subscribe', channel: 'ticker', symbol: 'ETH-USD' },
+      { op: 'subscribe', channel: 'orderbook', symbol: 'ETH-USD' },
+    ]);
+    expect(stream.isConnected()).toBe(true);
+
+    // Streamed books feed the monitor's view
+    server.send({ channel: 'orderbook', symbol: 'ETH-USD', seq: 1, type: 'snapshot', bids: [[2999, 4]], asks: [[3001, 2]] });
+    await waitFor(() => stream.getOrderBook('ETH-USD') !== undefined);
+    expect((await monitor.getOrderBook('ETH-USD'))?.bids).toEqual([[2999, 4]]);
+
+    monitor.stop();
+  });
+});
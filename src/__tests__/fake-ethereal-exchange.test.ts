@@ -0,0 +1,105 @@
+import { ethers } from 'ethers';
+import { EtherealOrderExecutor } from '../agents/order-executor';
+import { EtherealClient, ORDER_TYPES } from '../clients/ethereal-client';
+import { HttpEtherealTransport } from '../clients/ethereal-transport';
+import { FakeEtherealExchange, OrderMessage } from '../clients/fake-ethereal-exchange';
+
+const PRIVATE_KEY = '0x' + '11'.repeat(32);
+
+describe('FakeEtherealExchange', () => {
+  let exchange: FakeEtherealExchange;
+  let client: EtherealClient;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    exchange = new FakeEtherealExchange({ initialBalance: 1000 });
+    const url = await exchange.start();
+    client = new EtherealClient({ privateKey: PRIVATE_KEY, transport: new HttpEtherealTransport(url) });
+    await client.initialize();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await exchange.stop();
+  });
+
+  it('opens and closes positions through the order executor over HTTP', async () => {
+    const executor = new EtherealOrderExecutor(client, { fillTimeoutMs: 0, fillPollMs: 0 });
+
+    const open = await executor.openPosition('BTC-USD', 'LONG', 9000, 90000);
+    expect(open).toMatchObject({ status: 'FILLED', filledQuantity: 0.1 });
+    expect(open.averagePrice).toBeCloseTo(90045);
+
+    const [position] = await client.getPositions();
+    expect(position).toMatchObject({ side: 'LONG', size: '0.1', leverage: 20 });
+    const [balance] = await client.getBalances();
+    expect(parseFloat(balance.locked)).toBeCloseTo(0.1 * 90000 / 20);
+
+    exchange.setPrice('BTC-USD', 92000);
+    const close = await executor.closePosition('BTC-USD', 'LONG', 0.1, 92000);
+    expect(close.status).toBe('FILLED');
+    expect(close.averagePrice).toBeCloseTo(92000 * (1 - 0.0005));     // The reported fill on the bid, not the mark
+    expect(close.priceEstimated).toBeUndefined();
+
+    expect(await client.getPositions()).toHaveLength(0);
+    const [after] = await client.getBalances();
+    // Sold into the 92000 bid ladder after buying at 90045
+    expect(parseFloat(after.total)).toBeCloseTo(1000 + 0.1 * (92000 * (1 - 0.0005) - 90045));
+  });
+
+  it('rejects bad signatures, replayed nonces and orders beyond margin', async () => {
+    const message: OrderMessage = {
+      subaccountId: client.getSubaccountId(),
+      productId: 'btcusd',
+      side: 'BUY',
+      type: 'MARKET',
+      size: '0.01',
+      price: '0',
+      reduceOnly: false,
+      postOnly: false,
+      timeInForce: 'IOC',
+      nonce: 1,
+    };
+    const signature = await new ethers.Wallet(PRIVATE_KEY).signTypedData(exchange.domain, ORDER_TYPES, message);
+    const forged = await ethers.Wallet.createRandom().signTypedData(exchange.domain, ORDER_TYPES, message);
+
+    expect(() => exchange.placeOrder({ data: message, signature: forged })).toThrow('Invalid signature');
+    expect(exchange.placeOrder({ data: message, signature }).status).toBe('FILLED');
+    expect(() => exchange.placeOrder({ data: message, signature })).toThrow('already used');
+
+    // 1000 USD at 20x covers ~0.22 BTC
+    await expect(client.placeOrder({
+      subaccountId: client.getSubaccountId(),
+      productId: 'btcusd',
+      side: 'BUY',
+      type: 'MARKET',
+      size: '0.5',
+      timeInForce: 'IOC',
+    })).rejects.toMatchObject({ response: { status: 400, data: { message: 'Insufficient margin' } } });
+  });
+
+  it('rests, dry-runs and cancels limit orders', async () => {
+    const order = {
+      subaccountId: client.getSubaccountId(),
+      productId: 'ethusd',
+      side: 'BUY' as const,
+      type: 'LIMIT' as const,
+      size: '1',
+      price: '2900',
+      timeInForce: 'GTC' as const,
+    };
+
+    expect(await client.dryRunOrder(order)).toMatchObject({ status: 'NEW', filled: '0' });
+    expect((await client.getOrderBook('ETH-USD')).bids[0][0]).toBeCloseTo(2998.5);
+
+    const placed = await client.placeOrder(order);
+    expect(placed.status).toBe('NEW');
+    expect((await client.getOrderBook('ETH-USD', 10)).bids).toContainEqual([2900, 1]);
+
+    const canceled = await client.cancelOrder(placed.id);
+    expect(canceled.data).toEqual([{ id: placed.id, status: 'CANCELED' }]);
+    expect((await client.getOrderBook('ETH-USD', 10)).bids).not.toContainEqual([2900, 1]);
+  });
+});
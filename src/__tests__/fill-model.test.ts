@@ -0,0 +1,61 @@
+import { FillModel } from '../agents/fill-model';
+import { MarketAnalyzer } from '../agents/market-analyzer';
+import { EtherealOrderBook } from '../clients/ethereal-client';
+import { makeMarket } from './helpers/markets';
+
+function makeBook(halfSpread: number, size: number): EtherealOrderBook {
+  return {
+    symbol: 'ETH-USD',
+    bids: [[100 - halfSpread, size], [100 - halfSpread - 1, size]],
+    asks: [[100 + halfSpread, size], [100 + halfSpread + 1, size]],
+    timestamp: 0,
+  };
+}
+
+describe('FillModel', () => {
+  it('walks the book for average price, impact and fees', () => {
+    const model = new FillModel({ takerFeeBps: 5 });
+    const book: EtherealOrderBook = {
+      symbol: 'ETH-USD',
+      bids: [[99, 1]],
+      asks: [[100, 1], [101, 1], [102, 1]],
+      timestamp: 0,
+    };
+
+    const fill = model.estimate(book, 'BUY', 2.5);
+
+    expect(fill.averagePrice).toBeCloseTo(100.8);
+    expect(fill.midPrice).toBe(99.5);
+    expect(fill.slippagePercent).toBeCloseTo((100.8 - 99.5) / 99.5 * 100);
+    expect(fill.impactPercent).toBeCloseTo(2);
+    expect(fill.fee).toBeCloseTo(252 * 0.0005);
+    expect(fill.costPercent).toBeCloseTo(fill.slippagePercent + 0.05);
+    expect(fill.fullyFilled).toBe(true);
+
+    const tooBig = model.estimate(book, 'BUY', 4);
+    expect(tooBig.fullyFilled).toBe(false);
+    expect(tooBig.filledQuantity).toBe(3);
+  });
+
+  it('grades slippage from the book instead of volume', () => {
+    const analyzer = new MarketAnalyzer();
+    const market = makeMarket({ symbol: 'ETH-USD', priceChangePercent24h: 6, volume24h: 80000000, fundingRate: 0.00001, openInterest: 60000000 });
+
+    expect(analyzer.analyzeSignals(market).liquidity.slippage).toBe('LOW');
+    expect(analyzer.analyzeSignals(market, makeBook(0.5, 1000)).liquidity.slippage).toBe('HIGH');
+  });
+
+  it('skips trades whose edge is eaten by costs', () => {
+    const analyzer = new MarketAnalyzer();
+    const market = makeMarket({ symbol: 'ETH-USD', priceChangePercent24h: 6, volume24h: 80000000, fundingRate: 0.00001, openInterest: 60000000 });
+    const signals = analyzer.analyzeSignals(market);
+
+    const deep = analyzer.getOptimalParameters(market, signals, 1000, makeBook(0.01, 1000));
+    expect(deep.action).not.toBe('SKIP');
+    expect(deep.expectedFillPrice).toBeCloseTo(100.01);
+    expect(deep.costPercent).toBeGreaterThan(0);
+
+    const wide = analyzer.getOptimalParameters(market, signals, 1000, makeBook(3, 1000));
+    expect(wide.action).toBe('SKIP');
+  });
+});
@@ -0,0 +1,146 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ForecastLedger,
+  LedgerForecast,
+  applyCalibration,
+  calibrationReport,
+  fitCalibration,
+  resolveForecasts,
+  scoreForecasts,
+} from '../agents/forecast-calibration';
+import { ForecastingAgent } from '../agents/forecasting-agent';
+
+function forecast(overrides: Partial<LedgerForecast> = {}): LedgerForecast {
+  return {
+    conditionId: '0xc1',
+    question: 'Will it happen?',
+    rawProbability: 70,
+    probability: 70,
+    confidence: 60,
+    edge: 20,
+    reasoning: 'Base rate 60%',
+    endTime: 1_000,
+    timestamp: Date.now(),
+    ...overrides,
+  };
+}
+
+/**
+ * Resolved forecasts where the model says `raw` but YES happens `rate` of the time
+ */
+function overconfident(raw: number, rate: number, count: number, model = 'm'): LedgerForecast[] {
+  return Array.from({ length: count }, (_, i) => forecast({
+    conditionId: `0x${raw}-${i}`,
+    rawProbability: raw,
+    probability: raw,
+    model,
+    resolved: true,
+    outcome: i < Math.round(rate * count),
+  }));
+}
+
+describe('Forecast calibration', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'forecasts-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records forecasts and resolves ended conditions from the outcome source', async () => {
+    const ledger = new ForecastLedger(dir);
+    ledger.record(forecast({ conditionId: '0xa', endTime: 1_000 }));
+    ledger.record(forecast({ conditionId: '0xa', endTime: 1_000, probability: 65 }));
+    ledger.record(forecast({ conditionId: '0xb', endTime: 1_500 }));
+    ledger.record(forecast({ conditionId: '0xc', endTime: 5_000 }));
+    ledger.markSubmitted('0xa', '0xhash');
+
+    expect(ledger.endedConditions(2_000)).toEqual(['0xa', '0xb']);
+
+    const fetchOutcomes = jest.fn(async (ids: string[]) => ids.map(id => (
+      id === '0xa' ? { conditionId: id, settled: true, outcome: false } : { conditionId: id, settled: false }
+    )));
+    const summary = await resolveForecasts(ledger, fetchOutcomes, 2_000);
+
+    expect(fetchOutcomes).toHaveBeenCalledWith(['0xa', '0xb']);
+    expect(summary).toEqual({ checked: 2, settled: 1, forecasts: 2 });
+    expect(ledger.query({ resolved: true }).map(f => f.outcome)).toEqual([false, false]);
+    expect(ledger.query({ submitted: true })).toEqual([expect.objectContaining({ probability: 65, txHash: '0xhash' })]);
+    expect(ledger.endedConditions(2_000)).toEqual(['0xb']);
+    ledger.close();
+  });
+
+  it('scores Brier, log loss and reliability per model and category', () => {
+    const forecasts = [
+      forecast({ probability: 80, rawProbability: 90, model: 'a', category: 'crypto', resolved: true, outcome: true }),
+      forecast({ probability: 80, rawProbability: 90, model: 'a', category: 'crypto', resolved: true, outcome: false }),
+      forecast({ probability: 20, rawProbability: 20, model: 'b', resolved: true, outcome: false }),
+      forecast({ probability: 50, rawProbability: 50 }),                               // Unresolved: ignored
+    ];
+
+    const score = scoreForecasts(forecasts);
+    expect(score.count).toBe(3);
+    expect(score.brier).toBeCloseTo((0.04 + 0.64 + 0.04) / 3, 10);
+    expect(score.rawBrier).toBeCloseTo((0.01 + 0.81 + 0.04) / 3, 10);
+    expect(score.logLoss).toBeCloseTo(-(Math.log(0.8) + Math.log(0.2) + Math.log(0.8)) / 3, 10);
+    expect(score.reliability[8]).toMatchObject({ count: 2, meanForecast: 0.8, observedRate: 0.5 });
+    expect(score.reliability[2]).toMatchObject({ count: 1, observedRate: 0 });
+
+    const report = calibrationReport(forecasts);
+    expect(Object.keys(report.byModel)).toEqual(['a', 'b']);
+    expect(report.byModel.a.brier).toBeCloseTo(0.34, 10);
+    expect(report.byCategory).toMatchObject({ crypto: { count: 2 }, uncategorized: { count: 1 } });
+  });
+
+  it('fits isotonic and Platt maps that pull overconfident forecasts back before submission', async () => {
+    const history = [...overconfident(90, 0.6, 20), ...overconfident(20, 0.3, 20)];
+
+    expect(fitCalibration(history.slice(0, 10), 'isotonic', 30)).toEqual({ method: 'identity', samples: 10 });
+
+    const isotonic = fitCalibration(history, 'isotonic', 30);
+    expect(isotonic.method).toBe('isotonic');
+    expect(applyCalibration(isotonic, 90)).toBeCloseTo(60, 6);
+    expect(applyCalibration(isotonic, 20)).toBeCloseTo(30, 6);
+    expect(applyCalibration(isotonic, 55)).toBeCloseTo(45, 6);                      // Halfway between the steps
+
+    const platt = fitCalibration(history, 'platt', 30);
+    expect(platt.method).toBe('platt');
+    expect(applyCalibration(platt, 90)).toBeLessThan(70);
+    expect(applyCalibration(platt, 20)).toBeGreaterThan(20);
+
+    // Certain history still leaves room for doubt
+    expect(applyCalibration(fitCalibration(overconfident(95, 1, 40), 'isotonic', 30), 95)).toBe(99);
+
+    // The agent applies the fitted map and records both numbers
+    const seed = new ForecastLedger(dir);
+    for (const f of history) seed.record(f);
+    seed.close();
+
+    const agent = new ForecastingAgent({
+      privateKey: '11'.repeat(32),
+      groqApiKey: '',
+      llm: { provider: 'fake', fakeResponse: JSON.stringify({ probability: 90, confidence: 80, reasoning: 'Strong lead' }) },
+      calibration: { resultsDir: dir },
+    });
+    const condition = { id: '0xnew', question: 'New?', endTime: 9_999, category: 'politics' };
+    const calibrated = agent.calibrateForecast(condition, await agent.generateForecast(condition));
+
+    expect(calibrated).toMatchObject({ probability: 60, rawProbability: 90, edge: 10, model: 'fake-model' });
+    expect(agent.getLedger().query({ conditionId: '0xnew' })).toEqual([expect.objectContaining({
+      rawProbability: 90,
+      probability: 60,
+      category: 'politics',
+      model: 'fake-model',
+      endTime: 9_999,
+      calibration: 'isotonic (n=40, 2 steps)',
+    })]);
+    agent.getLedger().close();
+  });
+});
@@ -0,0 +1,178 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ForecastScheduler, TrackedCondition, revisionIntervalMs } from '../agents/forecast-scheduler';
+import { ForecastLedger, LedgerForecast } from '../agents/forecast-calibration';
+import { MarketPriorSource } from '../agents/ensemble-forecaster';
+import { ForecastingAgent } from '../agents/forecasting-agent';
+import { EasAttester, FakeAttestationChain } from '../clients/eas-attester';
+import { SimulatedClock } from '../utils/clock';
+
+const HOUR = 60 * 60 * 1000;
+
+function entry(overrides: Partial<LedgerForecast>): LedgerForecast {
+  return {
+    conditionId: '0xa',
+    question: 'Will A happen?',
+    rawProbability: 60,
+    probability: 60,
+    confidence: 70,
+    edge: 10,
+    reasoning: '',
+    endTime: 0,
+    timestamp: 0,
+    ...overrides,
+  };
+}
+
+describe('ForecastScheduler', () => {
+  let dir: string;
+  let price: number;
+  let chain: FakeAttestationChain;
+  const markets: MarketPriorSource = {
+    findSimilarMarkets: async () => [{ platform: 'polymarket', yesPrice: price, volume24h: 1_000 }],
+  };
+
+  function agentAnswering(probability: number, attester = new EasAttester(chain)): ForecastingAgent {
+    const agent = new ForecastingAgent({
+      privateKey: '11'.repeat(32),
+      groqApiKey: '',
+      llm: { provider: 'fake', fakeResponse: JSON.stringify({ probability, confidence: 70, reasoning: 'Revised' }) },
+      calibration: { resultsDir: dir, method: 'none' },
+      attester,
+      markets,
+    });
+    jest.spyOn(agent, 'submitForecasts');
+    return agent;
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scheduler-'));
+    price = 0.41;
+    chain = new FakeAttestationChain();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('tightens the revision interval near endTime and reacts to market moves', () => {
+    expect(revisionIntervalMs(3 * HOUR)).toBe(0.5 * HOUR);
+    expect(revisionIntervalMs(20 * HOUR)).toBe(2 * HOUR);
+    expect(revisionIntervalMs(3 * 24 * HOUR)).toBe(12 * HOUR);
+    expect(revisionIntervalMs(90 * 24 * HOUR)).toBe(48 * HOUR);
+    expect(revisionIntervalMs(90 * HOUR, [{ withinHours: 24, everyHours: 1 }])).toBe(HOUR);   // Last tier covers the rest
+
+    const clock = new SimulatedClock(1_000 * HOUR);
+    const scheduler = new ForecastScheduler({} as ForecastingAgent, markets, { priceMoveThreshold: 5 }, clock);
+    const latest = entry({ endTime: (clock.now() + 3 * 24 * HOUR) / 1000, timestamp: clock.now() - 6 * HOUR, marketPrice: 40 });
+    const tracked: TrackedCondition = {
+      condition: { id: '0xa', question: 'Will A happen?', endTime: latest.endTime },
+      submitted: latest,
+      reviewed: latest,
+      latest,
+    };
+
+    expect(scheduler.revisionReason(tracked, 43)).toBeUndefined();
+    expect(scheduler.revisionReason(tracked, 46)).toBe('price-move');
+    expect(scheduler.revisionReason(tracked)).toBeUndefined();                                   // No Dome price: no trigger
+    clock.advance(6 * HOUR);
+    expect(scheduler.revisionReason(tracked, 40)).toBe('schedule');
+  });
+
+  it('re-forecasts due conditions and submits only material changes', async () => {
+    const now = Date.now();
+    const nowSec = now / 1000;
+    const ledger = new ForecastLedger(dir);
+    ledger.record(entry({ conditionId: '0xa', probability: 60, endTime: nowSec + 3 * 3600, timestamp: now - HOUR, submitted: true }));
+    ledger.record(entry({ conditionId: '0xb', probability: 74, endTime: nowSec + 30 * 86400, timestamp: now - 24 * HOUR, submitted: true, marketPrice: 40 }));
+    ledger.record(entry({ conditionId: '0xc', probability: 72, endTime: nowSec + 2 * 86400, timestamp: now - 13 * HOUR, submitted: true }));
+    ledger.record(entry({ conditionId: '0xd', probability: 10, endTime: nowSec - 60, timestamp: now - 48 * HOUR, submitted: true }));  // Ended
+    ledger.record(entry({ conditionId: '0xe', probability: 10, endTime: nowSec + 3600, timestamp: now - 48 * HOUR }));                  // Never submitted
+    ledger.close();
+
+    const agent = agentAnswering(75);
+    const scheduler = new ForecastScheduler(agent, markets);
+    expect(scheduler.tracked().map(t => t.condition.id)).toEqual(['0xa', '0xc', '0xb']);
+
+    expect(await scheduler.tick()).toEqual({ tracked: 3, revised: 2, submitted: 1, unchanged: 1, overBudget: 0, failed: 0 });
+    expect(agent.submitForecasts).toHaveBeenCalledTimes(1);
+    expect(agent.submitForecasts).toHaveBeenCalledWith([expect.objectContaining({ conditionId: '0xa', probability: 75 })]);
+
+    const ledgerNow = agent.getLedger();
+    expect(ledgerNow.query({ conditionId: '0xa' }).slice(-1)[0]).toMatchObject({ submitted: true, txHash: chain.sent[0].hash, marketPrice: 41 });
+    expect(ledgerNow.query({ conditionId: '0xc' }).slice(-1)[0]).toMatchObject({ probability: 75, marketPrice: 41 });
+    expect(ledgerNow.query({ conditionId: '0xc', submitted: true })).toHaveLength(1);            // Still 72% on-chain
+
+    // Nothing is due any more
+    price = 0.44;
+    expect(await scheduler.tick()).toMatchObject({ revised: 0 });
+
+    // A Dome move past the threshold revises everything priced off it
+    price = 0.49;
+    expect(await scheduler.tick()).toMatchObject({ revised: 3, submitted: 0, unchanged: 3 });
+    expect(ledgerNow.query({ conditionId: '0xb' }).slice(-1)[0]).toMatchObject({ probability: 75, marketPrice: 49 });
+    ledgerNow.close();
+  });
+
+  it('caps submissions per tick, batching them into one transaction', async () => {
+    const now = Date.now();
+    const ledger = new ForecastLedger(dir);
+    for (const id of ['0xa', '0xb', '0xc']) {
+      ledger.record(entry({ conditionId: id, probability: 20, endTime: now / 1000 + 3600, timestamp: now - HOUR, submitted: true }));
+    }
+    ledger.close();
+
+    const agent = agentAnswering(80);
+    const scheduler = new ForecastScheduler(agent, markets, { maxSubmissionsPerTick: 2 });
+
+    expect(await scheduler.tick()).toMatchObject({ tracked: 3, revised: 2, submitted: 2 });
+    expect(await scheduler.tick()).toMatchObject({ tracked: 3, revised: 1, submitted: 1 });
+    expect(await scheduler.tick()).toMatchObject({ revised: 0, submitted: 0 });
+    expect(chain.sent).toHaveLength(2);                                                           // multiAttest of 2, then attest
+    expect(agent.getLedger().query({ submitted: true, endsAfter: now / 1000 }).filter(f => f.probability === 80)).toHaveLength(3);
+    agent.getLedger().close();
+  });
+
+  it('keeps a material revision due until it is submitted', async () => {
+    const now = Date.now();
+    const ledger = new ForecastLedger(dir);
+    ledger.record(entry({ conditionId: '0xa', probability: 20, endTime: now / 1000 + 3600, timestamp: now - HOUR, submitted: true }));
+    ledger.close();
+
+    // No gas budget: the 80% revision is recorded but not attested
+    const agent = agentAnswering(80, new EasAttester(chain, { perRunEth: 0 }));
+    const scheduler = new ForecastScheduler(agent, markets);
+    expect(await scheduler.tick()).toMatchObject({ revised: 1, submitted: 0, overBudget: 1 });
+    expect(await scheduler.tick()).toMatchObject({ revised: 1, overBudget: 1 });
+    expect(scheduler.tracked()[0]).toMatchObject({ reviewed: { probability: 20 }, latest: { probability: 80, marketPrice: 41 } });
+
+    // Forecasts made outside the scheduler record the market price too
+    const forecast = await agent.forecastCondition({ id: '0xf', question: 'Will F happen?', endTime: now / 1000 + 3600 });
+    expect(forecast.marketPrice).toBe(41);
+    expect(agent.getLedger().query({ conditionId: '0xf' })[0].marketPrice).toBe(41);
+    agent.getLedger().close();
+  });
+
+  it('keeps running when the first tick fails to submit', async () => {
+    const now = Date.now();
+    const ledger = new ForecastLedger(dir);
+    ledger.record(entry({ conditionId: '0xa', probability: 20, endTime: now / 1000 + 3600, timestamp: now - HOUR, submitted: true }));
+    ledger.close();
+
+    const agent = agentAnswering(80);
+    (agent.submitForecasts as jest.Mock).mockRejectedValueOnce(new Error('RPC unavailable'));
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const scheduler = new ForecastScheduler(agent, markets);
+
+    await expect(scheduler.start()).resolves.toBeUndefined();
+    scheduler.stop();
+    expect(error).toHaveBeenCalledWith('❌ Tick failed:', 'RPC unavailable');
+
+    // The revision is still due and goes out on the next tick
+    expect(await scheduler.tick()).toMatchObject({ revised: 1, submitted: 1 });
+    agent.getLedger().close();
+  });
+});
@@ -0,0 +1,38 @@
+import { EtherealMarket } from '../../clients/ethereal-client';
+
+/**
+ * A liquid BTC-USD perp up 3.5% on the day. Base and quote assets follow
+ * the symbol and the 24h change in dollars follows price and percent
+ * unless overridden.
+ */
+export function makeMarket(overrides: Partial<EtherealMarket> = {}): EtherealMarket {
+  const symbol = overrides.symbol ?? 'BTC-USD';
+  const lastPrice = overrides.lastPrice ?? 100;
+  const priceChangePercent24h = overrides.priceChangePercent24h ?? 3.5;
+  const [baseAsset, quoteAsset] = symbol.split('-');
+
+  return {
+    symbol,
+    baseAsset,
+    quoteAsset,
+    leverage: 20,
+    lastPrice,
+    priceChange24h: lastPrice * priceChangePercent24h / 100,
+    priceChangePercent24h,
+    volume24h: 50000000,
+    fundingRate: 0.000016,
+    openInterest: 50000000,
+    ...overrides,
+  };
+}
+
+/**
+ * Flat, deep market with no funding: no strategy trades it unless a test
+ * overrides the field it keys on
+ */
+export const QUIET_MARKET: Partial<EtherealMarket> = {
+  priceChangePercent24h: 0,
+  volume24h: 500000000,
+  fundingRate: 0,
+  openInterest: 200000000,
+};
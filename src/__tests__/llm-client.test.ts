@@ -0,0 +1,124 @@
+import {
+  FakeLlmProvider,
+  LlmClient,
+  LlmError,
+  LlmProviderRegistry,
+  llmConfigFromEnv,
+  parseLlmRoutes,
+} from '../clients/llm-client';
+import { LlmStrategy } from '../agents/strategies';
+import { MarketSnapshot, OrchestratorConfig } from '../agents/trading-orchestrator';
+
+const messages = [
+  { role: 'system' as const, content: 'You are a forecaster.' },
+  { role: 'user' as const, content: 'Will it rain?' },
+];
+
+function registryWith(...providers: FakeLlmProvider[]): LlmProviderRegistry {
+  const registry = new LlmProviderRegistry();
+  for (const provider of providers) {
+    registry.register(provider.id, () => provider);
+  }
+  return registry;
+}
+
+/**
+ * Fails with the given statuses (undefined = hang until aborted), then replies
+ */
+class FlakyProvider extends FakeLlmProvider {
+  constructor(private failures: (number | undefined)[]) {
+    super('{"ok":true}', 'flaky');
+  }
+
+  async complete(request: Parameters<FakeLlmProvider['complete']>[0]) {
+    if (this.failures.length > 0) {
+      const status = this.failures.shift();
+      if (status === undefined) return new Promise<never>(() => {});
+      throw Object.assign(new Error(`HTTP ${status}`), { status });
+    }
+    return super.complete(request);
+  }
+}
+
+describe('LlmClient', () => {
+  it('routes tasks to providers and models from config alone', async () => {
+    const groq = new FakeLlmProvider('groq says hi', 'groq');
+    const local = new FakeLlmProvider('local says hi', 'openai-compatible');
+    const registry = registryWith(groq, local);
+
+    const client = new LlmClient({
+      provider: 'groq',
+      routes: parseLlmRoutes('forecast=openai-compatible:qwen2.5:14b, strategy=groq'),
+    }, registry);
+
+    const routed = await client.complete({ route: 'forecast', messages, model: 'llama-3.3-70b-versatile', maxTokens: 300 });
+    expect(routed).toMatchObject({ content: 'local says hi', provider: 'openai-compatible', model: 'qwen2.5:14b' });
+    expect(local.calls[0]).toMatchObject({ model: 'qwen2.5:14b', maxTokens: 300, temperature: 0.3 });
+
+    // Call-site model applies while the call stays on Groq
+    const direct = await client.complete({ route: 'strategy', messages, model: 'llama-3.1-8b-instant' });
+    expect(direct).toMatchObject({ provider: 'groq', model: 'llama-3.1-8b-instant' });
+
+    // A configured model replaces it on the default provider
+    const pinned = new LlmClient({ provider: 'groq', model: 'moonshotai/kimi-k2-instruct-0905' }, registry);
+    expect((await pinned.complete({ messages, model: 'llama-3.1-8b-instant' })).model).toBe('moonshotai/kimi-k2-instruct-0905');
+
+    expect(llmConfigFromEnv({ LLM_PROVIDER: 'anthropic', LLM_ROUTES: 'forecast=fake' })).toEqual({
+      provider: 'anthropic',
+      routes: { forecast: { provider: 'fake' } },
+    });
+    expect(() => new LlmClient({ provider: 'gemini' }, registry)).toThrow('Unknown LLM provider: gemini');
+    expect(() => new LlmClient({ provider: 'anthropic', anthropicApiKey: '' })).toThrow('ANTHROPIC_API_KEY is required');
+  });
+
+  it('retries rate limits and timeouts with backoff but not bad requests', async () => {
+    const flaky = new FlakyProvider([429, undefined, 503]);
+    const client = new LlmClient({ provider: 'flaky', model: 'm', maxRetries: 3, retryDelayMs: 1, timeoutMs: 50 }, registryWith(flaky));
+
+    const response = await client.complete({ messages });
+    expect(response).toMatchObject({ content: '{"ok":true}', attempts: 4 });
+
+    const rejected = new LlmClient({ provider: 'flaky', model: 'm', maxRetries: 3, retryDelayMs: 1 }, registryWith(new FlakyProvider([400])));
+    const error = await rejected.complete({ messages }).catch(e => e);
+    expect(error).toBeInstanceOf(LlmError);
+    expect(error).toMatchObject({ status: 400, retryable: false, provider: 'flaky' });
+    expect(rejected.getUsage()).toMatchObject({ requests: 0, failures: 1 });
+
+    const exhausted = new LlmClient({ provider: 'flaky', model: 'm', maxRetries: 1, retryDelayMs: 1 }, registryWith(new FlakyProvider([500, 500, 500])));
+    await expect(exhausted.complete({ messages })).rejects.toMatchObject({ status: 500, retryable: true });
+  });
+
+  it('accounts tokens and cost per model and drives the llm strategy through a fake provider', async () => {
+    const reply = JSON.stringify({ action: 'LONG', confidence: 88, urgency: 'IMMEDIATE', takeProfitPercent: 3, stopLossPercent: 1.5, reasoning: 'Trend intact', optimalHoldMinutes: 60 });
+    const client = new LlmClient({
+      provider: 'fake',
+      fakeResponse: reply,
+      pricing: { 'fake-model': { inputPerMillion: 1, outputPerMillion: 2 } },
+    });
+
+    await client.complete({ messages });
+    const second = await client.complete({ messages });
+    const input = Math.ceil('You are a forecaster.\nWill it rain?'.length / 4);
+    const output = Math.ceil(reply.length / 4);
+
+    expect(second.usage).toEqual({ inputTokens: input, outputTokens: output });
+    expect(second.costUsd).toBeCloseTo((input + 2 * output) / 1e6, 12);
+    expect(client.getUsage()).toMatchObject({
+      requests: 2,
+      inputTokens: 2 * input,
+      outputTokens: 2 * output,
+      byModel: { 'fake/fake-model': expect.objectContaining({ requests: 2 }) },
+    });
+
+    const strategy = new LlmStrategy({ useAI: true, llm: { provider: 'fake', fakeResponse: reply } } as OrchestratorConfig);
+    const analysis = await strategy.analyze({
+      market: { symbol: 'BTC-USD', lastPrice: 100000, priceChangePercent24h: 2.4, fundingRate: 0.0001, volume24h: 5e8 },
+      historicalPrices: [99000, 99500, 100000],
+      volatilityTrend: 'STABLE',
+      momentumShift: false,
+      parameters: { action: 'LONG' },
+    } as MarketSnapshot);
+
+    expect(analysis).toMatchObject({ action: 'LONG', confidence: 88, takeProfitPercent: 3, model: 'fake-model' });
+  });
+});
@@ -0,0 +1,128 @@
+import { FakeLlmProvider, LlmClient, LlmProviderRegistry, LlmSchemaError } from '../clients/llm-client';
+import { parseStructured, schemaPrompt } from '../clients/llm-schema';
+import { FORECAST_SCHEMA, ForecastingAgent } from '../agents/forecasting-agent';
+import { MARKET_ANALYSIS_SCHEMA } from '../agents/ethereal-trading-agent';
+
+function scripted(...replies: string[]): { client: LlmClient; provider: FakeLlmProvider } {
+  const provider = new FakeLlmProvider(() => replies.shift() ?? '', 'scripted');
+  const registry = new LlmProviderRegistry().register('scripted', () => provider);
+  return { client: new LlmClient({ provider: 'scripted', model: 'm' }, registry), provider };
+}
+
+describe('Structured LLM output', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('describes the schema and repairs small slips in replies', () => {
+    const prompt = schemaPrompt(MARKET_ANALYSIS_SCHEMA);
+    expect(prompt).toContain('"action": "LONG" | "SHORT" | "HOLD"');
+    expect(prompt).toContain('"takeProfitPercent": number 2.5-6');
+    expect(prompt).toContain('"momentumAlignment": true | false (optional)');
+
+    const reply = 'Here is my analysis:\n```json\n' + JSON.stringify({
+      action: 'long',
+      confidence: '82%',
+      reasoning: 'Funding negative into a breakout',
+      expectedReturn: 2,
+      riskScore: 40,
+      holdTimeMinutes: 90,
+      urgency: 'HIGH',
+      takeProfitPercent: 3.5,
+      stopLossPercent: 'wide',
+    }).replace('"wide"', '1.5') + '\n```';
+
+    const parsed = parseStructured(reply.replace('}', ',}'), MARKET_ANALYSIS_SCHEMA);
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+    expect(parsed.value).toEqual({
+      action: 'LONG',
+      confidence: 82,
+      reasoning: 'Funding negative into a breakout',
+      expectedReturn: 2,
+      riskScore: 40,
+      holdTimeMinutes: 90,
+      urgency: 'HIGH',
+      takeProfitPercent: 3.5,
+      stopLossPercent: 1.5,
+    });
+    expect(parsed.repairs).toEqual(expect.arrayContaining([
+      'stripped text around the JSON object',
+      'removed trailing commas',
+      '"action" "long" normalized to "LONG"',
+      '"confidence" parsed from string',
+    ]));
+
+    // Out of range is a violation, never clamped or rounded; only percent fields rescale fractions
+    const outOfRange = parseStructured(reply.replace('"riskScore":40', '"riskScore":140').replace('1.5', '10'), MARKET_ANALYSIS_SCHEMA);
+    expect(outOfRange).toEqual({
+      ok: false,
+      errors: ['"riskScore" must be number 0-100, got 140', '"stopLossPercent" must be number 1.2-2.5, got 10'],
+    });
+    const fraction = parseStructured('{"probability": 0.72, "confidence": 65, "reasoning": "x"}', FORECAST_SCHEMA);
+    expect(fraction).toMatchObject({ ok: true, value: { probability: 72 }, repairs: ['"probability" 0.72 read as a fraction, rescaled to 72'] });
+    expect(parseStructured('{"probability": 72.4, "confidence": 65, "reasoning": "x"}', FORECAST_SCHEMA)).toEqual({
+      ok: false,
+      errors: ['"probability" must be integer 0-100, got 72.4'],
+    });
+
+    expect(parseStructured('{"probability": 60}', FORECAST_SCHEMA)).toEqual({
+      ok: false,
+      errors: ['"confidence" is missing', '"reasoning" is missing'],
+    });
+    expect(parseStructured('I think 70%', FORECAST_SCHEMA)).toEqual({ ok: false, errors: ['reply is not a JSON object'] });
+  });
+
+  it('re-asks with the violations, counts parse failures and gives up after schemaRetries', async () => {
+    const { client, provider } = scripted(
+      '{"probability": "likely", "confidence": 70, "reasoning": "x"}',
+      '{"probability": 64, "confidence": 70, "reasoning": "Base rate 55%, +9% for polling lead"}'
+    );
+
+    const response = await client.completeJson(FORECAST_SCHEMA, {
+      messages: [{ role: 'system', content: 'You forecast.' }, { role: 'user', content: 'Q?' }],
+    });
+    expect(response.data).toEqual({ probability: 64, confidence: 70, reasoning: 'Base rate 55%, +9% for polling lead' });
+    expect(provider.calls).toHaveLength(2);
+    expect(provider.calls[0].messages[0].content).toMatch(/^You forecast\.\n\nRespond with a single JSON object/);
+    expect(provider.calls[1].messages.slice(-1)[0].content).toContain('"probability" must be a number, got "likely"');
+    expect(client.getUsage()).toMatchObject({ requests: 2, parseFailures: 1, repairs: 0 });
+
+    const { client: stubborn } = scripted('no idea', 'still no idea');
+    await expect(stubborn.completeJson(FORECAST_SCHEMA, { messages: [{ role: 'user', content: 'Q?' }] }))
+      .rejects.toBeInstanceOf(LlmSchemaError);
+    expect(stubborn.getUsage()).toMatchObject({ requests: 2, parseFailures: 2 });
+  });
+
+  it('reads forecasts from fields instead of the first percent sign in the text', async () => {
+    const agent = new ForecastingAgent({
+      privateKey: '0x' + '11'.repeat(32),
+      groqApiKey: '',
+      llm: {
+        provider: 'fake',
+        fakeResponse: JSON.stringify({
+          probability: 72,
+          confidence: 65,
+          reasoning: 'Historical rate: 23% for incumbents, adjusted +49% for the polling lead',
+        }),
+      },
+    });
+
+    const forecast = await agent.generateForecast({ id: '0xcond', question: 'Will the incumbent win?', endTime: 0 });
+    expect(forecast).toMatchObject({ probability: 72, confidence: 65, edge: 22 });
+
+    const unreadable = new ForecastingAgent({
+      privateKey: '11'.repeat(32),
+      groqApiKey: '',
+      llm: { provider: 'fake', fakeResponse: 'About 80%, confidence: 90' },
+    });
+    // No readable answer is no forecast: nothing to record or attest
+    await expect(unreadable.generateForecast({ id: '0xcond', question: 'Q?', endTime: 0 }))
+      .rejects.toBeInstanceOf(LlmSchemaError);
+  });
+});
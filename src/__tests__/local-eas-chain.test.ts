@@ -0,0 +1,132 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createWalletClient, http } from 'viem';
+import { arbitrum } from 'viem/chains';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  DEFAULT_EAS_ATTESTER_CONFIG,
+  decodeForecast,
+  encodeAttestations,
+  encodeForecast,
+} from '../clients/eas-attester';
+import { ANVIL_PRIVATE_KEYS, LocalEasChain, loadArtifact, localEasChainAvailable } from '../clients/local-eas-chain';
+import { ForecastingAgent } from '../agents/forecasting-agent';
+
+const conditionId = '0x8e1f3a5c0f3b0c2d7a4e4b2f9d6c1e0a5b3c7d9e1f2a4b6c8d0e2f4a6b8c0d2e';
+
+describe('Sapience forecast encoding', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'eas-artifacts-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips condition, D18 probability and comment', () => {
+    const forecast = { conditionId, probability: 72, reasoning: 'Polls tightened; 72% — "likely".' };
+    expect(decodeForecast(encodeForecast(forecast).data)).toEqual(forecast);
+    expect(decodeForecast(encodeForecast({ ...forecast, probability: 72.4 }).data).probability).toBe(72);   // Whole points on-chain
+  });
+
+  it('loads Hardhat and Foundry artifacts and reports a missing anvil', async () => {
+    const write = (name: string, json: object) => {
+      fs.mkdirSync(path.join(dir, `${name}.sol`));
+      fs.writeFileSync(path.join(dir, `${name}.sol`, `${name}.json`), JSON.stringify(json));
+    };
+    write('EAS', { abi: [], bytecode: '0x6080' });
+    write('SchemaRegistry', { abi: [], bytecode: { object: '6080' } });
+    write('Empty', { abi: [], bytecode: '0x' });
+
+    expect(loadArtifact(dir, 'EAS').bytecode).toBe('0x6080');
+    expect(loadArtifact(dir, 'SchemaRegistry').bytecode).toBe('0x6080');
+    expect(() => loadArtifact(dir, 'Empty')).toThrow(/no bytecode/);
+    for (const name of ['SchemaRegistry', 'EAS']) {
+      expect(loadArtifact('./src/clients/eas-artifacts', name).bytecode).toMatch(/^0x[0-9a-f]{100,}$/);   // Vendored build
+    }
+    expect(localEasChainAvailable({ anvilPath: path.join(dir, 'no-anvil'), artifactsDir: dir })).toBe(false);
+    await expect(new LocalEasChain({ anvilPath: path.join(dir, 'no-anvil') }).start()).rejects.toThrow(/Could not start/);
+  });
+});
+
+// Needs anvil (the EAS artifacts are vendored). Skipped locally without it,
+// but CI always runs it, so a runner missing anvil fails instead of passing quietly
+const onChainAvailable = localEasChainAvailable();
+const describeOnChain = onChainAvailable || process.env.CI ? describe : describe.skip;
+
+describeOnChain('Forecast submission on a local EAS chain', () => {
+  const chain = new LocalEasChain();
+  let rpcUrl: string;
+  let dir: string;
+
+  beforeAll(async () => {
+    if (!onChainAvailable) {
+      throw new Error('The local EAS chain suite runs in CI: install Foundry\'s anvil or set ANVIL_PATH');
+    }
+    rpcUrl = await chain.start();
+  }, 30_000);
+
+  afterAll(async () => {
+    await chain.stop();
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'eas-chain-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('attests agent forecasts that decode back to what was submitted', async () => {
+    const agent = new ForecastingAgent({
+      privateKey: ANVIL_PRIVATE_KEYS[0],
+      groqApiKey: '',
+      llm: { provider: 'fake' },
+      calibration: { resultsDir: dir },
+      attestation: { rpcUrl },
+    });
+    const single = { conditionId, probability: 72, reasoning: 'Single attest' };
+    const batch = [
+      { conditionId: `0x${'ab'.repeat(32)}`, probability: 5, reasoning: 'First of a multiAttest' },
+      { conditionId: `0x${'cd'.repeat(32)}`, probability: 99, reasoning: 'Second, with unicode: ≥ 99%' },
+    ];
+
+    const hash = await agent.submitForecastToSapience(single);
+    const [attested] = await chain.readAttestations(hash as `0x${string}`);
+    expect(attested).toMatchObject({
+      schema: DEFAULT_EAS_ATTESTER_CONFIG.schemaId,
+      attester: privateKeyToAccount(ANVIL_PRIVATE_KEYS[0]).address,
+      forecast: single,
+    });
+
+    const result = await agent.submitForecasts(batch);
+    expect(result.batches).toHaveLength(1);
+    expect(result.spentEth).toBeGreaterThan(0);
+    const attestations = await chain.readAttestations(result.batches[0].receipt.txHash);
+    expect(attestations.map(a => a.forecast)).toEqual(batch);
+    agent.getLedger().close();
+  });
+
+  it('accepts the transaction the wallet submission route prepares', async () => {
+    const forecast = { conditionId, probability: 33, reasoning: 'Signed in the browser' };
+    const wallet = createWalletClient({
+      account: privateKeyToAccount(ANVIL_PRIVATE_KEYS[1]),
+      chain: arbitrum,
+      transport: http(rpcUrl),
+    });
+
+    const hash = await wallet.sendTransaction({
+      to: DEFAULT_EAS_ATTESTER_CONFIG.easAddress,
+      data: encodeAttestations([forecast]),
+    });
+    const [attested] = await chain.readAttestations(hash);
+    expect(attested.attester).toBe(wallet.account.address);
+    expect(attested.forecast).toEqual(forecast);
+  });
+});
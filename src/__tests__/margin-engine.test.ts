@@ -0,0 +1,95 @@
+import { MarginEngine } from '../agents/margin-engine';
+import { MarketMonitor, OrchestratorConfig, PositionManager, TradingSignal } from '../agents/trading-orchestrator';
+import { SimulatedClock } from '../utils/clock';
+import { QUIET_MARKET, makeMarket } from './helpers/markets';
+
+describe('MarginEngine', () => {
+  it('prices liquidation from leverage and maintenance margin', () => {
+    const engine = new MarginEngine();
+
+    // 20x max leverage: 5% initial, 2.5% maintenance
+    expect(engine.maintenanceMarginRate(20)).toBeCloseTo(0.025);
+    expect(engine.liquidationPrice('LONG', 100, 10, 20)).toBeCloseTo(90 / 0.975);
+    expect(engine.liquidationPrice('SHORT', 100, 10, 20)).toBeCloseTo(110 / 1.025);
+
+    const position = { side: 'LONG' as const, entryPrice: 100, currentPrice: 93, size: 100, leverage: 10, maxLeverage: 20 };
+    expect(engine.assessPosition(position).status).toBe('ALERT');
+    expect(engine.assessPosition({ ...position, currentPrice: 92.5 }).status).toBe('FORCE_CLOSE');
+    expect(engine.assessPosition({ ...position, currentPrice: 92 }).status).toBe('LIQUIDATED');
+
+    // The exchange's figure wins when it reports one
+    expect(engine.assessPosition({ ...position, liquidationPrice: 80 }).status).toBe('OK');
+  });
+
+  it('pools open positions into cross-account equity', () => {
+    const engine = new MarginEngine();
+    const long = { side: 'LONG' as const, entryPrice: 100, currentPrice: 95, size: 100, leverage: 10, maxLeverage: 20 };
+
+    const healthy = engine.assessAccount(1000, [long]);
+    expect(healthy.equity).toBeCloseTo(950);
+    expect(healthy.maintenanceMargin).toBeCloseTo(950 * 0.025);
+    expect(healthy.status).toBe('OK');
+
+    const stretched = engine.assessAccount(120, [long, long]);
+    expect(stretched.equity).toBeCloseTo(20);
+    expect(stretched.status).toBe('LIQUIDATED');
+  });
+
+  it('liquidates simulated positions that gap through and guards those that get close', async () => {
+    const clock = new SimulatedClock(1735000000000);
+    const config = { totalCapital: 10000, maxConcurrentPositions: 3, minConfidence: 100, dryRun: true } as OrchestratorConfig;
+
+    let market = makeMarket({ ...QUIET_MARKET, lastPrice: 100000 });
+    const monitor = new MarketMonitor(config, { getMarkets: async () => [market] }, clock);
+    const manager = new PositionManager(config, clock, undefined, undefined, true);
+    const alerts: any[] = [];
+    manager.on('marginAlert', (alert) => alerts.push(alert));
+
+    const [snapshot] = await monitor.updateMarkets();
+    const signal: TradingSignal = {
+      id: 'sig-1',
+      symbol: 'BTC-USD',
+      action: 'LONG',
+      confidence: 80,
+      urgency: 'IMMEDIATE',
+      entryPrice: 100000,
+      takeProfitPrice: 110000,
+      stopLossPrice: 80000,
+      positionSize: 100,
+      leverage: 20,
+      holdTimeMinutes: 60,
+      reasoning: 'test',
+      createdAt: clock.now(),
+      expiresAt: clock.now() + 60000,
+      marketSnapshot: snapshot,
+    };
+
+    const position = await manager.openPosition(signal);
+    const liquidationPrice = position!.liquidationPrice;
+    expect(liquidationPrice).toBeCloseTo(100000 * 0.95 / 0.975);
+
+    // Straight through the liquidation price, well short of the stop
+    market = makeMarket({ ...QUIET_MARKET, lastPrice: 95000 });
+    clock.advance(1000);
+    await monitor.updateMarkets();
+    manager.checkPositions(monitor);
+
+    const [liquidated] = manager.getClosedPositions();
+    expect(liquidated.reasoning).toContain('liquidated');
+    expect(liquidated.exitPrice).toBeCloseTo(liquidationPrice);
+    expect(alerts[0].margin.status).toBe('LIQUIDATED');
+
+    // Inside the buffer the manager closes first, at market
+    market = makeMarket({ ...QUIET_MARKET, lastPrice: 100000 });
+    await monitor.updateMarkets();
+    await manager.openPosition({ ...signal, id: 'sig-2', marketSnapshot: monitor.getSnapshot('BTC-USD')! });
+    market = makeMarket({ ...QUIET_MARKET, lastPrice: liquidationPrice * 1.004 });
+    clock.advance(1000);
+    await monitor.updateMarkets();
+    manager.checkPositions(monitor);
+
+    const guarded = manager.getClosedPositions()[1];
+    expect(guarded.reasoning).toContain('liquidation-guard');
+    expect(guarded.exitPrice).toBeCloseTo(liquidationPrice * 1.004);
+  });
+});
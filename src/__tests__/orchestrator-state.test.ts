@@ -0,0 +1,197 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { OrderExecutor } from '../agents/order-executor';
+import { OrchestratorStateStore } from '../agents/orchestrator-state';
+import {
+  MarketMonitor,
+  MarketSnapshot,
+  OrchestratorConfig,
+  PositionManager,
+  TradingOrchestrator,
+  TradingSignal,
+} from '../agents/trading-orchestrator';
+import { Position, Product } from '../clients/ethereal-client';
+import { SimulatedClock } from '../utils/clock';
+import { QUIET_MARKET, makeMarket } from './helpers/markets';
+
+const START = 1735000000000;
+
+function makeSignal(snapshot: MarketSnapshot, clock: SimulatedClock): TradingSignal {
+  const price = snapshot.market.lastPrice;
+  return {
+    id: `sig-${snapshot.market.symbol}`,
+    symbol: snapshot.market.symbol,
+    action: 'LONG',
+    confidence: 80,
+    urgency: 'IMMEDIATE',
+    entryPrice: price,
+    takeProfitPrice: price * 1.05,
+    stopLossPrice: price * 0.97,
+    positionSize: 100,
+    leverage: 5,
+    holdTimeMinutes: 30,
+    reasoning: 'test',
+    createdAt: clock.now(),
+    expiresAt: clock.now() + 60000,
+    marketSnapshot: snapshot,
+  };
+}
+
+function exchangePosition(productId: string, size: number, entryPrice: number): Position {
+  return {
+    id: `pos-${productId}`,
+    subaccountId: 'sub-1',
+    productId,
+    side: 'LONG',
+    size: size.toString(),
+    entryPrice: entryPrice.toString(),
+    markPrice: entryPrice.toString(),
+    liquidationPrice: (entryPrice * 0.8).toString(),
+    unrealizedPnl: '0',
+    leverage: 5,
+  };
+}
+
+describe('OrchestratorStateStore', () => {
+  let stateDir: string;
+
+  beforeEach(() => {
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'orchestrator-state-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  async function openPositions(store: OrchestratorStateStore, clock: SimulatedClock, symbols: string[]) {
+    const config = { totalCapital: 1000, maxConcurrentPositions: 5, minConfidence: 100, dryRun: true } as OrchestratorConfig;
+    const monitor = new MarketMonitor(config, { getMarkets: async () => symbols.map(s => makeMarket({ ...QUIET_MARKET, symbol: s })) }, clock);
+    const manager = new PositionManager(config, clock, undefined, undefined, true);
+    manager.setJournal(store);
+
+    const snapshots = await monitor.updateMarkets();
+    for (const snapshot of snapshots) {
+      await manager.openPosition(makeSignal(snapshot, clock));
+    }
+    return { config, monitor, manager, snapshots };
+  }
+
+  it('folds the journal over the last snapshot and skips a torn final line', async () => {
+    const clock = new SimulatedClock(START);
+    const store = new OrchestratorStateStore(stateDir);
+    const { manager } = await openPositions(store, clock, ['BTC-USD']);
+
+    store.saveSnapshot({
+      openPositions: manager.getOpenPositions(),
+      pendingOpens: [],
+      signals: [],
+      tradedSignals: ['sig-BTC-USD'],
+      lastTradeTime: {},
+    }, clock.now());
+
+    clock.advance(1000);
+    manager.closeAll({ getSnapshot: () => undefined } as unknown as MarketMonitor, 'manual');
+    fs.appendFileSync(path.join(stateDir, 'journal.jsonl'), '{"seq": 99, "type": "ope');
+
+    // A new process picks up numbering and state where the last one stopped
+    const reopened = new OrchestratorStateStore(stateDir);
+    const state = reopened.load()!;
+    expect(state.openPositions).toHaveLength(0);
+    expect(state.tradedSignals).toEqual(['sig-BTC-USD']);
+    expect(state.lastTradeTime['BTC-USD']).toBe(START + 1000);
+    expect(reopened.append({ timestamp: clock.now(), type: 'closed', symbol: 'ETH-USD' }).seq).toBe(state.journalSeq + 1);
+  });
+
+  it('resumes max-hold timers on positions restored after a crash', async () => {
+    const clock = new SimulatedClock(START);
+    const { config } = await openPositions(new OrchestratorStateStore(stateDir), clock, ['BTC-USD']);
+
+    // Crash: nothing but the journal survives
+    clock.advance(20 * 60 * 1000);
+    const state = new OrchestratorStateStore(stateDir).load()!;
+    expect(state.openPositions).toHaveLength(1);
+
+    const monitor = new MarketMonitor(config, { getMarkets: async () => [makeMarket({ ...QUIET_MARKET, symbol: 'BTC-USD' })] }, clock);
+    const manager = new PositionManager(config, clock, undefined, undefined, true);
+    manager.restorePositions(state.openPositions, state.pendingOpens);
+    await monitor.updateMarkets();
+
+    manager.checkPositions(monitor);
+    expect(manager.getOpenPositions()).toHaveLength(1);
+
+    clock.advance(10 * 60 * 1000);
+    await monitor.updateMarkets();
+    manager.checkPositions(monitor);
+    expect(manager.getClosedPositions()[0].reasoning).toContain('time-exit');
+  });
+
+  it('reconciles restored positions with the exchange on live recovery', async () => {
+    const clock = new SimulatedClock(START);
+    const store = new OrchestratorStateStore(stateDir);
+    const { manager, snapshots } = await openPositions(store, clock, ['BTC-USD', 'ETH-USD']);
+
+    // SOL's entry order went out but the process died before the fill was recorded
+    const solSignal = makeSignal({ ...snapshots[0], market: makeMarket({ ...QUIET_MARKET, symbol: 'SOL-USD', lastPrice: 200 }) }, clock);
+    store.append({ timestamp: clock.now(), type: 'opening', symbol: 'SOL-USD', signal: solSignal });
+    expect(manager.getOpenPositions()).toHaveLength(2);
+
+    const products = ['BTC', 'ETH', 'SOL', 'DOGE'].map(base => ({
+      id: `prod-${base}`,
+      ticker: `${base}USD`,
+      baseTokenName: base,
+      quoteTokenName: 'USD',
+    }) as Product);
+    let listed: Product[] = [];                               // The product listing fails at first
+    const positionSource = {
+      getProducts: async () => listed,
+      getPositions: async () => [
+        exchangePosition('prod-BTC', 2.5, 100),
+        exchangePosition('prod-SOL', 2, 201),
+        exchangePosition('prod-DOGE', 1000, 0.1),
+      ],
+      getMarketPrices: async (ids: string[]) => ids
+        .filter(id => id === 'prod-ETH')
+        .map(productId => ({ productId, indexPrice: '92', markPrice: '92', lastPrice: '92', timestamp: clock.now() })),
+    };
+
+    const orchestrator = new TradingOrchestrator(
+      { useAI: false, dryRun: false, totalCapital: 1000 },
+      {
+        clock,
+        stateStore: new OrchestratorStateStore(stateDir),
+        positionSource,
+        executor: {} as OrderExecutor,
+        marketSource: { getMarkets: async () => [] },
+        resultsDir: stateDir,
+      }
+    );
+    const unmanaged: string[] = [];
+    orchestrator.on('unmanagedPosition', ({ symbol }) => unmanaged.push(symbol));
+
+    // Unmappable exchange positions abort recovery instead of booking everything closed
+    await expect(orchestrator.recover()).rejects.toThrow(/Recovery aborted/);
+    expect(orchestrator.getOpenPositions()).toEqual([]);
+    expect(orchestrator.getClosedTrades()).toEqual([]);
+
+    listed = products;
+    await orchestrator.recover();
+
+    const open = new Map(orchestrator.getOpenPositions().map(p => [p.symbol, p]));
+    expect(Array.from(open.keys()).sort()).toEqual(['BTC-USD', 'SOL-USD']);
+    expect(open.get('BTC-USD')).toMatchObject({ quantity: 2.5, liquidationPrice: 80 });
+    expect(open.get('SOL-USD')).toMatchObject({ entryPrice: 201, quantity: 2, enteredAt: START });
+
+    const [closed] = orchestrator.getClosedTrades();
+    expect(closed.marketId).toBe('ETH-USD');
+    expect(closed.reasoning).toContain('closed-while-offline');
+    expect(closed.exitPrice).toBe(92);                        // Current mark, not the price saved at the crash
+    expect(unmanaged).toEqual(['DOGE-USD']);
+
+    // Recovery compacts everything into a fresh snapshot
+    expect(fs.readFileSync(path.join(stateDir, 'journal.jsonl'), 'utf-8')).toBe('');
+    expect(new OrchestratorStateStore(stateDir).load()!.openPositions).toHaveLength(2);
+  });
+});
@@ -0,0 +1,340 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EtherealOrderExecutor, SignedOrderClient } from '../agents/order-executor';
+import { MarketMonitor, MarketSnapshot, OrchestratorConfig, PositionManager, TradingSignal } from '../agents/trading-orchestrator';
+import { Order, Position, Product } from '../clients/ethereal-client';
+import { OrchestratorStateStore } from '../agents/orchestrator-state';
+import { SimulatedClock } from '../utils/clock';
+import { makeMarket } from './helpers/markets';
+
+const product: Product = {
+  id: 'prod-btc',
+  ticker: 'BTCUSD',
+  displayTicker: 'BTC-USD',
+  baseTokenName: 'BTC',
+  quoteTokenName: 'USD',
+  tickSize: '0.1',
+  lotSize: '0.001',
+  minQuantity: '0.001',
+  maxQuantity: '100',
+  maxLeverage: 20,
+  status: 'ACTIVE',
+  onchainId: 1,
+};
+
+/**
+ * Exchange stand-in: fills each order at `price`, `fillRatio` of the size at a time
+ */
+class FakeExchange implements SignedOrderClient {
+  position: Position | null = null;
+  orders: Order[] = [];
+  fillRatio = 1;
+  price = 100000;
+  reject?: string;
+  reportPrice?: number;              // Average price in the order report (none by default)
+  positionError?: string;
+  liquidationPrice = '0';
+
+  async initialize(): Promise<void> {}
+  async getProductBySymbol(symbol: string): Promise<Product | null> {
+    return symbol === product.displayTicker ? product : null;
+  }
+  getSubaccountId(): string { return 'sub-1'; }
+
+  async getActivePosition(): Promise<Position | null> {
+    if (this.positionError) throw new Error(this.positionError);
+    return this.position ? { ...this.position, markPrice: this.price.toString() } : null;
+  }
+
+  async placeOrder(order: Order): Promise<any> {
+    if (this.reject) throw new Error(this.reject);
+    this.orders.push(order);
+
+    const filled = parseFloat(order.size) * this.fillRatio;
+    const current = this.position ? parseFloat(this.position.size) : 0;
+    const next = order.reduceOnly ? current - filled : current + filled;
+
+    this.position = next <= 0 ? null : {
+      id: 'pos-1',
+      subaccountId: 'sub-1',
+      productId: product.id,
+      side: order.reduceOnly ? this.position!.side : order.side === 'BUY' ? 'LONG' : 'SHORT',
+      size: next.toString(),
+      entryPrice: this.position?.entryPrice ?? this.price.toString(),
+      markPrice: this.price.toString(),
+      liquidationPrice: this.liquidationPrice,
+      unrealizedPnl: '0',
+      leverage: 2,
+    };
+    return {
+      id: `order-${this.orders.length}`,
+      ...(this.reportPrice ? { averagePrice: this.reportPrice.toString() } : {}),
+    };
+  }
+}
+
+describe('EtherealOrderExecutor', () => {
+  let exchange: FakeExchange;
+  let executor: EtherealOrderExecutor;
+
+  beforeEach(() => {
+    exchange = new FakeExchange();
+    executor = new EtherealOrderExecutor(exchange, { fillTimeoutMs: 0, fillPollMs: 0 });
+  });
+
+  it('rounds to the lot size and reports partial fills', async () => {
+    exchange.fillRatio = 0.5;
+
+    const fill = await executor.openPosition('BTC-USD', 'LONG', 250, 100000);
+
+    expect(exchange.orders[0]).toMatchObject({ productId: 'prod-btc', side: 'BUY', size: '0.002', type: 'MARKET' });
+    expect(fill.status).toBe('PARTIAL');
+    expect(fill.filledQuantity).toBeCloseTo(0.001);
+    expect(fill.averagePrice).toBe(100000);
+  });
+
+  it('reports rejected and undersized orders without a fill', async () => {
+    exchange.reject = 'insufficient margin';
+    expect(await executor.openPosition('BTC-USD', 'LONG', 500, 100000))
+      .toMatchObject({ status: 'REJECTED', reason: 'insufficient margin', filledQuantity: 0 });
+
+    exchange.reject = undefined;
+    expect((await executor.openPosition('BTC-USD', 'LONG', 10, 100000)).status).toBe('REJECTED');
+    expect(exchange.orders).toHaveLength(0);
+  });
+
+  it('prices exits from the order report and never sends a close without a size', async () => {
+    await executor.openPosition('BTC-USD', 'LONG', 500, 100000);
+
+    expect(await executor.closePosition('BTC-USD', 'LONG', 0, 100000))
+      .toMatchObject({ status: 'REJECTED', reason: 'no quantity to close' });
+    expect(exchange.orders).toHaveLength(1);
+
+    // Mark 100000, filled lower down the book
+    exchange.reportPrice = 99950;
+    const fill = await executor.closePosition('BTC-USD', 'LONG', 0.002, 100000);
+    expect(fill).toMatchObject({ status: 'FILLED', averagePrice: 99950 });
+    expect(fill.priceEstimated).toBeUndefined();
+
+    // No price in the report: the mark stands in, flagged
+    exchange.reportPrice = undefined;
+    expect(await executor.closePosition('BTC-USD', 'LONG', 0.003, 100000))
+      .toMatchObject({ averagePrice: 100000, priceEstimated: true });
+  });
+
+  it('never reads a failed position lookup as flat', async () => {
+    // Before the order: nothing is sent
+    exchange.positionError = 'Request failed with status code 502';
+    await expect(executor.openPosition('BTC-USD', 'LONG', 500, 100000)).rejects.toThrow(/502/);
+    await expect(executor.closePosition('BTC-USD', 'LONG', 0.005, 100000)).rejects.toThrow(/502/);
+    expect(exchange.orders).toHaveLength(0);
+
+    // After it: the fill is unknown, not "no fill"
+    exchange.positionError = undefined;
+    const place = exchange.placeOrder.bind(exchange);
+    jest.spyOn(exchange, 'placeOrder').mockImplementation(async (order) => {
+      const result = await place(order);
+      exchange.positionError = 'socket hang up';
+      return result;
+    });
+    const fill = await executor.openPosition('BTC-USD', 'LONG', 500, 100000);
+    expect(fill).toMatchObject({ status: 'REJECTED', fillUnknown: true });
+    expect(fill.reason).toMatch(/Fill unknown.*socket hang up/);
+    expect(exchange.orders).toHaveLength(1);
+  });
+});
+
+describe('PositionManager live execution', () => {
+  let resultsDir: string;
+
+  beforeEach(() => {
+    resultsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'live-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(resultsDir, { recursive: true, force: true });
+  });
+
+  it('opens on the filled size and exits through reduce-only orders', async () => {
+    const exchange = new FakeExchange();
+    const clock = new SimulatedClock(1735000000000);
+    const config = { totalCapital: 1000, maxConcurrentPositions: 3, minConfidence: 100, dryRun: false } as OrchestratorConfig;
+
+    let market = makeMarket({ lastPrice: 100000 });
+    const monitor = new MarketMonitor(config, { getMarkets: async () => [market] }, clock);
+    const manager = new PositionManager(config, clock, resultsDir);
+    manager.setExecutor(new EtherealOrderExecutor(exchange, { fillTimeoutMs: 0, fillPollMs: 0 }));
+
+    const [snapshot] = await monitor.updateMarkets();
+    const position = await manager.openPosition(makeSignal(snapshot, clock));
+    expect(position?.quantity).toBeCloseTo(0.004);
+
+    // Take profit: first exit order only half fills
+    exchange.fillRatio = 0.5;
+    exchange.price = 102500;
+    market = makeMarket({ lastPrice: 102500 });
+    clock.advance(5000);
+    await monitor.updateMarkets();
+    manager.checkPositions(monitor);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(exchange.orders[1]).toMatchObject({ side: 'SELL', reduceOnly: true });
+    expect(manager.getOpenPositions()).toHaveLength(1);
+    expect(manager.getOpenPositions()[0].quantity).toBeCloseTo(0.002);
+
+    exchange.fillRatio = 1;
+    clock.advance(5000);
+    await monitor.updateMarkets();
+    manager.checkPositions(monitor);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(manager.getOpenPositions()).toHaveLength(0);
+    const [trade] = manager.getClosedPositions();
+    expect(trade.exitPrice).toBe(102500);
+    expect(trade.reasoning).toContain('take-profit');
+  });
+
+  it('sizes an exit with no known quantity from the exchange position', async () => {
+    const exchange = new FakeExchange();
+    const clock = new SimulatedClock(1735000000000);
+    const config = { totalCapital: 1000, maxConcurrentPositions: 3, minConfidence: 100, dryRun: false } as OrchestratorConfig;
+
+    let market = makeMarket({ lastPrice: 100000 });
+    const monitor = new MarketMonitor(config, { getMarkets: async () => [market] }, clock);
+    const manager = new PositionManager(config, clock, resultsDir);
+    manager.setExecutor(new EtherealOrderExecutor(exchange, { fillTimeoutMs: 0, fillPollMs: 0 }));
+
+    const [snapshot] = await monitor.updateMarkets();
+    const position = await manager.openPosition(makeSignal(snapshot, clock));
+    delete position!.quantity;                               // e.g. restored from a state written without it
+
+    exchange.price = 102500;
+    exchange.reportPrice = 102450;
+    market = makeMarket({ lastPrice: 102500 });
+    clock.advance(5000);
+    await monitor.updateMarkets();
+    manager.checkPositions(monitor);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(exchange.orders[1]).toMatchObject({ side: 'SELL', reduceOnly: true, size: '0.004' });
+    expect(manager.getClosedPositions()[0].exitPrice).toBe(102450);
+  });
+
+  it('books a position the exchange already liquidated instead of retrying the exit', async () => {
+    const exchange = new FakeExchange();
+    exchange.liquidationPrice = '99500';
+    const clock = new SimulatedClock(1735000000000);
+    const config = { totalCapital: 1000, maxConcurrentPositions: 3, minConfidence: 100, dryRun: false } as OrchestratorConfig;
+
+    let market = makeMarket({ lastPrice: 100000 });
+    const monitor = new MarketMonitor(config, { getMarkets: async () => [market] }, clock);
+    const manager = new PositionManager(config, clock, resultsDir);
+    manager.setExecutor(new EtherealOrderExecutor(exchange, { fillTimeoutMs: 0, fillPollMs: 0 }));
+
+    const [snapshot] = await monitor.updateMarkets();
+    await manager.openPosition(makeSignal(snapshot, clock));
+    expect(manager.getOpenPositions()[0].liquidationPrice).toBe(99500);
+
+    // The exchange liquidates before the guard's exit order gets there
+    exchange.position = null;
+    market = makeMarket({ lastPrice: 99400 });
+    clock.advance(5000);
+    await monitor.updateMarkets();
+    manager.checkPositions(monitor);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(exchange.orders).toHaveLength(1);
+    expect(manager.getOpenPositions()).toHaveLength(0);
+    const [trade] = manager.getClosedPositions();
+    expect(trade).toMatchObject({ exitPrice: 99500, exitReason: 'liquidated' });
+  });
+});
+
+describe('PositionManager unconfirmed entries', () => {
+  let resultsDir: string;
+
+  beforeEach(() => {
+    resultsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'unconfirmed-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(resultsDir, { recursive: true, force: true });
+  });
+
+  async function setUp() {
+    const exchange = new FakeExchange();
+    const clock = new SimulatedClock(1735000000000);
+    const config = { totalCapital: 1000, maxConcurrentPositions: 3, minConfidence: 100, dryRun: false } as OrchestratorConfig;
+    const monitor = new MarketMonitor(config, { getMarkets: async () => [makeMarket({ lastPrice: 100000 })] }, clock);
+    const manager = new PositionManager(config, clock, resultsDir);
+    const journal = new OrchestratorStateStore(path.join(resultsDir, 'state'));
+    manager.setExecutor(new EtherealOrderExecutor(exchange, { fillTimeoutMs: 0, fillPollMs: 0 }));
+    manager.setJournal(journal);
+    const [snapshot] = await monitor.updateMarkets();
+    return { exchange, clock, manager, journal, signal: makeSignal(snapshot, clock) };
+  }
+
+  it('keeps an entry whose fill is unknown pending and adopts it once the exchange shows it', async () => {
+    const { exchange, manager, journal, signal } = await setUp();
+    const place = exchange.placeOrder.bind(exchange);
+    jest.spyOn(exchange, 'placeOrder').mockImplementation(async (order) => {
+      const result = await place(order);
+      exchange.positionError = 'socket hang up';
+      return result;
+    });
+
+    expect(await manager.openPosition(signal)).toBeNull();
+    expect(manager.getPendingOpens()).toEqual([signal]);
+    expect(manager.canOpenPosition()).toBe(true);
+    expect(await manager.openPosition({ ...signal, id: 'sig-2' })).toBeNull();    // Still blocks the market
+    expect(journal.load()!.pendingOpens).toHaveLength(1);
+
+    // Still unreadable: stays pending
+    await manager.reconcileUnconfirmedOpens();
+    expect(manager.getPendingOpens()).toHaveLength(1);
+
+    exchange.positionError = undefined;
+    await manager.reconcileUnconfirmedOpens();
+    expect(manager.getPendingOpens()).toEqual([]);
+    expect(manager.getOpenPositions()[0]).toMatchObject({ symbol: 'BTC-USD', side: 'LONG', quantity: 0.004, entryPrice: 100000 });
+    expect(journal.load()).toMatchObject({ pendingOpens: [], openPositions: [{ symbol: 'BTC-USD' }] });
+  });
+
+  it('drops an entry that never filled once the exchange shows the market flat', async () => {
+    const { exchange, manager, journal, signal } = await setUp();
+    exchange.fillRatio = 0;
+
+    expect(await manager.openPosition(signal)).toBeNull();
+    expect(manager.getPendingOpens()).toHaveLength(1);
+
+    await manager.reconcileUnconfirmedOpens();
+    expect(manager.getPendingOpens()).toEqual([]);
+    expect(manager.getOpenPositions()).toEqual([]);
+    expect(journal.load()!.pendingOpens).toEqual([]);
+  });
+});
+
+function makeSignal(snapshot: MarketSnapshot, clock: SimulatedClock): TradingSignal {
+  return {
+    id: 'sig-1',
+    symbol: 'BTC-USD',
+    action: 'LONG',
+    confidence: 80,
+    urgency: 'IMMEDIATE',
+    entryPrice: 100000,
+    takeProfitPrice: 102000,
+    stopLossPrice: 99000,
+    positionSize: 200,
+    leverage: 2,
+    holdTimeMinutes: 60,
+    reasoning: 'test',
+    createdAt: clock.now(),
+    expiresAt: clock.now() + 60000,
+    marketSnapshot: snapshot,
+  };
+}
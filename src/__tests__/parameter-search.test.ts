@@ -0,0 +1,58 @@
+import { ParameterSet, gridPoints, searchParameters } from '../agents/parameter-search';
+
+// Smooth bowl peaking at x = 0.7, y = 30
+const bowl = async (p: ParameterSet) => -((p.x - 0.7) ** 2) - ((p.y - 30) / 100) ** 2;
+
+describe('parameter search', () => {
+  it('grid-searches every combination of snapped values', async () => {
+    const space = [
+      { key: 'minConfidence', min: 65, max: 80, step: 5 },
+      { key: 'maxPositionPercent', min: 0.1, max: 0.3, step: 0.1 },
+      { key: 'riskLimits.maxDrawdown', values: [0.1, 0.2] },
+    ];
+
+    const points = gridPoints(space);
+    expect(points).toHaveLength(4 * 3 * 2);
+    expect(new Set(points.map(p => p.maxPositionPercent))).toEqual(new Set([0.1, 0.2, 0.3]));
+
+    const result = await searchParameters(space, async (p) => p.minConfidence - Math.abs(p.maxPositionPercent - 0.2) * 100);
+    expect(result.trials).toHaveLength(24);
+    expect(result.best.params).toMatchObject({ minConfidence: 80, maxPositionPercent: 0.2 });
+  });
+
+  it('draws reproducible random candidates inside the space and never repeats one', async () => {
+    const space = [
+      { key: 'x', min: 0, max: 1 },
+      { key: 'n', min: 2, max: 4, integer: true },
+    ];
+
+    const a = await searchParameters(space, async (p) => p.x, { method: 'random', iterations: 10, seed: 7 });
+    const b = await searchParameters(space, async (p) => p.x, { method: 'random', iterations: 10, seed: 7 });
+    expect(a.trials.map(t => t.params)).toEqual(b.trials.map(t => t.params));
+    for (const { params } of a.trials) {
+      expect(params.x).toBeGreaterThanOrEqual(0);
+      expect(params.x).toBeLessThanOrEqual(1);
+      expect([2, 3, 4]).toContain(params.n);
+    }
+
+    // Only 3 distinct candidates exist
+    const small = await searchParameters([{ key: 'n', values: [1, 2, 3] }], async (p) => p.n, { method: 'random', iterations: 10, seed: 7 });
+    expect(small.trials.map(t => t.params.n).sort()).toEqual([1, 2, 3]);
+  });
+
+  it('homes in on the optimum with Bayesian search', async () => {
+    const space = [
+      { key: 'x', min: 0, max: 1 },
+      { key: 'y', min: 0, max: 100, integer: true },
+    ];
+
+    const bayes = await searchParameters(space, bowl, { method: 'bayesian', iterations: 20, initialPoints: 5, seed: 3 });
+    expect(bayes.trials).toHaveLength(20);
+    expect(Math.abs(bayes.best.params.x - 0.7)).toBeLessThan(0.1);
+    expect(Math.abs(bayes.best.params.y - 30)).toBeLessThan(15);
+
+    // Same budget, same seed, no model
+    const random = await searchParameters(space, bowl, { method: 'random', iterations: 20, seed: 3 });
+    expect(bayes.best.score).toBeGreaterThan(random.best.score);
+  });
+});
@@ -0,0 +1,74 @@
+import { fundingPayment } from '../agents/fill-model';
+import { MarketMonitor, OrchestratorConfig, PositionManager, TradingSignal } from '../agents/trading-orchestrator';
+import { SimulatedClock } from '../utils/clock';
+import { makeMarket } from './helpers/markets';
+
+const HOUR = 60 * 60 * 1000;
+
+async function openAndHold(side: 'LONG' | 'SHORT') {
+  const clock = new SimulatedClock(1735000000000);
+  const config = {
+    totalCapital: 1000,
+    maxConcurrentPositions: 1,
+    minConfidence: 100,
+    dryRun: true,
+    fees: { takerFeeBps: 5 },
+  } as OrchestratorConfig;
+
+  let market = makeMarket({ symbol: 'ETH-USD', lastPrice: 100, priceChangePercent24h: 0, fundingRate: 0.0001, openInterest: 20000000 });
+  const monitor = new MarketMonitor(config, { getMarkets: async () => [market] }, clock);
+  const manager = new PositionManager(config, clock, undefined, undefined, true);
+
+  const [snapshot] = await monitor.updateMarkets();
+  const signal: TradingSignal = {
+    id: `sig-${side}`,
+    symbol: 'ETH-USD',
+    action: side,
+    confidence: 80,
+    urgency: 'IMMEDIATE',
+    entryPrice: 100,
+    takeProfitPrice: side === 'LONG' ? 120 : 80,
+    stopLossPrice: side === 'LONG' ? 90 : 110,
+    positionSize: 100,
+    leverage: 5,
+    holdTimeMinutes: 180,
+    reasoning: 'test',
+    createdAt: clock.now(),
+    expiresAt: clock.now() + 60000,
+    marketSnapshot: snapshot,
+  };
+  await manager.openPosition(signal);
+
+  // Two hourly funding periods at a flat price
+  for (let i = 0; i < 2; i++) {
+    clock.advance(HOUR);
+    await monitor.updateMarkets();
+    manager.checkPositions(monitor);
+  }
+
+  market = makeMarket({ symbol: 'ETH-USD', lastPrice: 101, priceChangePercent24h: 0, fundingRate: 0.0001, openInterest: 20000000 });
+  await monitor.updateMarkets();
+  manager.closeAll(monitor, 'test-exit');
+  return manager.getClosedPositions()[0];
+}
+
+describe('PnL accounting', () => {
+  it('charges taker fees on both fills and funding over the hold', async () => {
+    const trade = await openAndHold('LONG');
+
+    // $500 notional: 5 bps in at $500 and out at $505, 2h of 0.01%/h paid
+    expect(trade.grossPnl).toBeCloseTo(0.05);
+    expect(trade.fees).toBeCloseTo((500 + 505) * 0.0005 / 100);
+    expect(trade.funding).toBeCloseTo(-500 * 0.0001 * 2 / 100);
+    expect(trade.netPnl).toBeCloseTo(trade.grossPnl! - trade.fees! + trade.funding!);
+    expect(trade.pnl).toBe(trade.netPnl);
+  });
+
+  it('pays shorts when funding is positive', async () => {
+    const trade = await openAndHold('SHORT');
+
+    expect(trade.funding).toBeCloseTo(500 * 0.0001 * 2 / 100);
+    expect(trade.grossPnl).toBeCloseTo(-0.05);
+    expect(fundingPayment('SHORT', 500, -0.0001, HOUR)).toBeCloseTo(-0.05);
+  });
+});
@@ -0,0 +1,121 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PortfolioRiskGate } from '../agents/portfolio-risk-gate';
+import { OpenPosition, TradingOrchestrator, TradingSignal } from '../agents/trading-orchestrator';
+import { TradeResult } from '../agents/trade-tracker';
+import { SimulatedClock } from '../utils/clock';
+import { QUIET_MARKET, makeMarket } from './helpers/markets';
+
+const START = Date.UTC(2025, 0, 10, 12);
+
+function makeSignal(symbol: string, overrides: Partial<TradingSignal> = {}): TradingSignal {
+  return {
+    id: `sig-${symbol}`,
+    symbol,
+    action: 'LONG',
+    confidence: 80,
+    urgency: 'IMMEDIATE',
+    entryPrice: 100,
+    takeProfitPrice: 105,
+    stopLossPrice: 97,
+    positionSize: 100,
+    leverage: 5,
+    holdTimeMinutes: 30,
+    reasoning: 'test',
+    createdAt: START,
+    expiresAt: START + 60000,
+    marketSnapshot: { market: makeMarket({ ...QUIET_MARKET, symbol }), timestamp: START } as TradingSignal['marketSnapshot'],
+    ...overrides,
+  };
+}
+
+function makePosition(symbol: string, side: 'LONG' | 'SHORT', size: number, leverage: number): OpenPosition {
+  return {
+    symbol,
+    side,
+    entryPrice: 100,
+    currentPrice: 100,
+    size,
+    leverage,
+    unrealizedPnL: 0,
+    fees: 0,
+    accruedFunding: 0,
+  } as OpenPosition;
+}
+
+function makeTrade(pnl: number, resolutionDate: number): TradeResult {
+  return {
+    tradeId: `t-${resolutionDate}`,
+    marketId: 'BTC-USD',
+    question: 'test',
+    action: 'buy',
+    entryPrice: 100,
+    size: 0.1,
+    confidence: 0.8,
+    expectedReturn: 1,
+    riskScore: 0,
+    timestamp: resolutionDate - 60000,
+    reasoning: 'test',
+    resolved: true,
+    pnl,
+    resolutionDate,
+  };
+}
+
+describe('PortfolioRiskGate', () => {
+  it('rejects signals that stack correlated exposure', () => {
+    const gate = new PortfolioRiskGate({ maxClusterExposure: 1.2, maxAssetNotional: 1 });
+    const state = {
+      totalCapital: 1000,
+      openPositions: [makePosition('BTC-USD', 'LONG', 100, 5), makePosition('ETH-USD', 'LONG', 100, 5)],
+      closedTrades: [],
+      now: START,
+    };
+
+    const decision = gate.evaluate(makeSignal('SOL-USD'), state);
+    expect(decision.approved).toBe(false);
+    expect(decision.rejections.map(r => r.code)).toEqual(['CLUSTER_EXPOSURE']);
+    expect(decision.rejections[0]).toMatchObject({ limit: 1.2, value: 1.5 });
+    expect(decision.exposure.gross).toBe(1500);
+
+    // A short inside the cluster offsets it; an unclustered asset is only held to its own limit
+    expect(gate.evaluate(makeSignal('SOL-USD', { action: 'SHORT' }), state).approved).toBe(true);
+    expect(gate.evaluate(makeSignal('DOGE-USD'), state).approved).toBe(true);
+    expect(gate.evaluate(makeSignal('DOGE-USD', { positionSize: 250 }), state).rejections[0].code).toBe('ASSET_NOTIONAL');
+  });
+
+  it('stops trading after the daily loss limit and on drawdown from the peak', () => {
+    const gate = new PortfolioRiskGate();
+    const yesterday = START - 24 * 60 * 60 * 1000;
+
+    // +$100 yesterday, -$60 today: 6% daily loss, ~5.5% off the peak
+    const closedTrades = [makeTrade(1, yesterday), makeTrade(-0.6, START - 1000)];
+    const decision = gate.evaluate(makeSignal('BTC-USD'), { totalCapital: 1000, openPositions: [], closedTrades, now: START });
+    expect(decision.rejections.map(r => r.code)).toEqual(['DAILY_LOSS']);
+    expect(decision.exposure.dailyPnL).toBeCloseTo(-60);
+    expect(decision.exposure.drawdown).toBeCloseTo(60 / 1100);
+
+    // Next day the daily limit resets, but the drawdown limit still holds
+    const tight = new PortfolioRiskGate({ maxDrawdown: 0.05 });
+    const nextDay = tight.evaluate(makeSignal('BTC-USD'), { totalCapital: 1000, openPositions: [], closedTrades, now: START + 24 * 60 * 60 * 1000 });
+    expect(nextDay.rejections.map(r => r.code)).toEqual(['MAX_DRAWDOWN']);
+  });
+
+  it('logs and emits structured rejections from the orchestrator', () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const resultsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'risk-gate-'));
+    const orchestrator = new TradingOrchestrator(
+      { useAI: false, dryRun: true, totalCapital: 1000, riskLimits: { maxGrossExposure: 0.4 } },
+      { clock: new SimulatedClock(START), marketSource: { getMarkets: async () => [] }, resultsDir }
+    );
+    const rejected: any[] = [];
+    orchestrator.on('signalRejected', (event) => rejected.push(event));
+
+    const decision = orchestrator.checkPortfolioRisk(makeSignal('BTC-USD'));
+    expect(decision.approved).toBe(false);
+    expect(rejected[0].risk.rejections[0]).toMatchObject({ code: 'GROSS_EXPOSURE', limit: 0.4, value: 0.5 });
+    jest.restoreAllMocks();
+    fs.rmSync(resultsDir, { recursive: true, force: true });
+  });
+});
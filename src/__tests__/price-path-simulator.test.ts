@@ -0,0 +1,55 @@
+import { PricePathSimulator, SimulatedEntry } from '../agents/price-path-simulator';
+import { SeededRandom } from '../utils/random';
+import { makeMarket } from './helpers/markets';
+
+function makeEntry(overrides: Partial<SimulatedEntry> = {}): SimulatedEntry {
+  return {
+    market: makeMarket({ symbol: 'ETH-USD', lastPrice: 3000, priceChangePercent24h: 6 }),
+    side: 'LONG',
+    entryPrice: 3000,
+    takeProfitPrice: 3060,
+    stopLossPrice: 2970,
+    leverage: 3,
+    positionSize: 1,
+    holdTimeMinutes: 60,
+    confidence: 80,
+    ...overrides,
+  };
+}
+
+describe('PricePathSimulator', () => {
+  it('generates the same path for the same seed', () => {
+    const params = { drift: 0, volatility: 0.01, jumpProbability: 0.1, jumpMean: 0, jumpStd: 0.02 };
+
+    const first = new PricePathSimulator({}, new SeededRandom(1)).generatePath(100, params, 50);
+    const second = new PricePathSimulator({}, new SeededRandom(1)).generatePath(100, params, 50);
+
+    expect(first).toHaveLength(51);
+    expect(second).toEqual(first);
+  });
+
+  it('exits through the position manager and reports excursions', async () => {
+    const simulator = new PricePathSimulator({ model: 'jump-diffusion' }, new SeededRandom(42));
+
+    for (let i = 0; i < 20; i++) {
+      const exit = await simulator.simulateEntry(makeEntry());
+
+      expect(['take-profit', 'stop-loss', 'trailing-stop', 'momentum-shift', 'time-exit'])
+        .toContain(exit.exitReason);
+      expect(exit.holdTimeMs).toBeLessThanOrEqual(60 * 60 * 1000);
+      expect(exit.maxFavorableExcursion).toBeGreaterThanOrEqual(Math.max(exit.pnl, 0));
+      expect(exit.maxAdverseExcursion).toBeLessThanOrEqual(Math.min(exit.pnl, 0));
+      expect(exit.trade.maxFavorableExcursion).toBe(exit.maxFavorableExcursion);
+    }
+  });
+
+  it('falls back to a time exit on a flat market', async () => {
+    const simulator = new PricePathSimulator({ minImpliedMovePct: 0 }, new SeededRandom(7));
+
+    const exit = await simulator.simulateEntry(makeEntry({ market: makeMarket({ symbol: 'ETH-USD', lastPrice: 3000, priceChangePercent24h: 0 }), holdTimeMinutes: 5 }));
+
+    expect(exit.exitReason).toBe('time-exit');
+    expect(exit.exitPrice).toBeCloseTo(3000);
+    expect(exit.holdTimeMs).toBe(5 * 60 * 1000);
+  });
+});
@@ -0,0 +1,117 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { ProfitScorer, UNTAGGED } from '../agents/profit-scorer';
+import { TradeResult, TradeTracker } from '../agents/trade-tracker';
+import { hashConfig } from '../utils/config-hash';
+
+let nextId = 0;
+
+function makeTrade(pnl: number, overrides: Partial<TradeResult> = {}): TradeResult {
+  nextId++;
+  return {
+    tradeId: `trade-${nextId}`,
+    marketId: 'BTC-USD',
+    question: 'BTC-USD LONG @ $100,000',
+    action: 'buy',
+    entryPrice: 100000,
+    size: 0.1,
+    confidence: 0.8,
+    expectedReturn: 1.02,
+    riskScore: 0.2,
+    timestamp: 1735000000000 + nextId,
+    reasoning: 'test',
+    pnl,
+    resolved: true,
+    ...overrides,
+  };
+}
+
+describe('ProfitScorer attribution', () => {
+  let resultsDir: string;
+
+  beforeEach(() => {
+    resultsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'profit-scorer-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(resultsDir, { recursive: true, force: true });
+  });
+
+  it('breaks metrics down by agent, strategy, config hash and model', () => {
+    const momentum = { agent: 'orchestrator', strategy: 'momentum', configHash: 'aaa' };
+    const llm = { agent: 'orchestrator', strategy: 'llm', configHash: 'aaa', model: 'llama-3.3-70b-versatile' };
+    const trades = [
+      makeTrade(0.3, momentum),
+      makeTrade(-0.1, momentum),
+      makeTrade(-0.2, momentum),
+      makeTrade(0.2, momentum),
+      makeTrade(-0.1, llm),
+      makeTrade(-0.3, llm),
+      makeTrade(0.5, { strategy: 'llm', model: 'llama-3.3-70b-versatile', resolved: false }),
+      makeTrade(0.1),
+    ];
+
+    const metrics = new ProfitScorer().calculateMetrics(trades);
+    const byStrategy = metrics.attribution!.strategy;
+
+    expect(Object.keys(byStrategy).sort()).toEqual(['llm', 'momentum', UNTAGGED]);
+    expect(byStrategy.momentum).toMatchObject({ totalTrades: 4, winRate: 0.5 });
+    expect(byStrategy.momentum.maxDrawdown).toBeCloseTo(0.3);
+    expect(byStrategy.momentum.profitFactor).toBeCloseTo(0.5 / 0.3);
+    expect(byStrategy.momentum.sharpeRatio).toBeGreaterThan(0);
+    expect(byStrategy.llm).toMatchObject({ totalTrades: 2, winRate: 0, profitFactor: 0 });
+    expect(byStrategy.llm.maxDrawdown).toBeCloseTo(0.4);
+
+    expect(metrics.attribution!.agent.orchestrator.totalTrades).toBe(6);
+    expect(metrics.attribution!.configHash.aaa.totalTrades).toBe(6);
+    expect(metrics.attribution!.model).toEqual({
+      'llama-3.3-70b-versatile': expect.objectContaining({ totalTrades: 2 }),
+      [UNTAGGED]: expect.objectContaining({ totalTrades: 5 }),
+    });
+
+    // Segments don't nest further
+    expect(byStrategy.momentum.attribution).toBeUndefined();
+  });
+
+  it('stores tags as queryable columns and upgrades older databases', () => {
+    const db = new Database(path.join(resultsDir, 'trades.db'));
+    db.exec(`
+      CREATE TABLE trades (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        trade_id TEXT NOT NULL,
+        market_id TEXT NOT NULL,
+        strategy TEXT,
+        exit_reason TEXT,
+        timestamp INTEGER NOT NULL,
+        resolved INTEGER NOT NULL DEFAULT 0,
+        data TEXT NOT NULL
+      );
+    `);
+    const legacy = makeTrade(0.1, { strategy: 'momentum' });
+    db.prepare('INSERT INTO trades (trade_id, market_id, strategy, timestamp, resolved, data) VALUES (?, ?, ?, ?, 1, ?)')
+      .run(legacy.tradeId, legacy.marketId, legacy.strategy, legacy.timestamp, JSON.stringify(legacy));
+    db.close();
+
+    const tracker = new TradeTracker(resultsDir);
+    tracker.saveTrade(makeTrade(0.2, { tradeId: 'tagged', agent: 'orchestrator', configHash: 'abc', model: 'gpt' }));
+
+    expect(tracker.loadTrades()).toHaveLength(2);
+    expect(tracker.queryTrades({ agent: 'orchestrator', configHash: 'abc', model: 'gpt' }).map(t => t.tradeId)).toEqual(['tagged']);
+    expect(tracker.queryTrades({ agent: 'ethereal-agent' })).toHaveLength(0);
+    tracker.close();
+  });
+
+  it('hashes configs independent of key order, credentials and seed', () => {
+    const preset = { minConfidence: 75, strategies: [{ id: 'momentum', allocation: 1 }], fees: { taker: 0.0005 } };
+    const hash = hashConfig(preset);
+
+    expect(hash).toMatch(/^[0-9a-f]{12}$/);
+    expect(hashConfig({ fees: { taker: 0.0005 }, strategies: [{ allocation: 1, id: 'momentum' }], minConfidence: 75 })).toBe(hash);
+    expect(hashConfig({ ...preset, groqApiKey: 'gsk_123', privateKey: '0xabc', seed: 42 })).toBe(hash);
+    expect(hashConfig({ ...preset, minConfidence: 80 })).not.toBe(hash);
+  });
+});
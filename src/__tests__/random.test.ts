@@ -0,0 +1,42 @@
+import { SeededRandom } from '../utils/random';
+
+describe('SeededRandom', () => {
+  const originalSeed = process.env.SIM_SEED;
+
+  afterEach(() => {
+    if (originalSeed === undefined) {
+      delete process.env.SIM_SEED;
+    } else {
+      process.env.SIM_SEED = originalSeed;
+    }
+  });
+
+  it('replays the same sequence for the same seed', () => {
+    const a = new SeededRandom(42);
+    const b = new SeededRandom(42);
+
+    const first = Array.from({ length: 5 }, () => a.next());
+    const second = Array.from({ length: 5 }, () => b.next());
+
+    expect(second).toEqual(first);
+    first.forEach(n => {
+      expect(n).toBeGreaterThanOrEqual(0);
+      expect(n).toBeLessThan(1);
+    });
+  });
+
+  it('forks independent streams by label', () => {
+    const root = new SeededRandom(42);
+
+    expect(root.fork('a').next()).toBe(new SeededRandom(42).fork('a').next());
+    expect(root.fork('a').next()).not.toBe(root.fork('b').next());
+  });
+
+  it('reads SIM_SEED and rejects non-integers', () => {
+    process.env.SIM_SEED = '1234';
+    expect(SeededRandom.fromEnv().seed).toBe(1234);
+
+    process.env.SIM_SEED = 'abc';
+    expect(() => SeededRandom.fromEnv()).toThrow('SIM_SEED');
+  });
+});
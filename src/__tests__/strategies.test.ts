@@ -0,0 +1,263 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  FundingContrarianStrategy,
+  MeanReversionStrategy,
+  MomentumStrategy,
+  StrategyRegistry,
+  parseStrategyAllocations,
+  strategyRegistry,
+} from '../agents/strategies';
+import {
+  AnalysisEngine,
+  DEFAULT_ORCHESTRATOR_CONFIG,
+  MarketMonitor,
+  OrchestratorConfig,
+  TradingOrchestrator,
+} from '../agents/trading-orchestrator';
+import { SimulatedClock } from '../utils/clock';
+import { QUIET_MARKET, makeMarket } from './helpers/markets';
+
+const START = 1735000000000;
+
+describe('Strategies', () => {
+  let resultsDir: string;
+
+  beforeEach(() => {
+    resultsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'strategies-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(resultsDir, { recursive: true, force: true });
+  });
+
+  it('registers built-in strategies and rejects unknown or over-allocated ones', () => {
+    expect(strategyRegistry.list()).toEqual(['llm', 'momentum', 'funding-contrarian', 'mean-reversion']);
+    expect(parseStrategyAllocations('momentum:0.6, mean-reversion:0.4')).toEqual([
+      { id: 'momentum', allocation: 0.6 },
+      { id: 'mean-reversion', allocation: 0.4 },
+    ]);
+    expect(parseStrategyAllocations('momentum,llm').map(a => a.allocation)).toEqual([0.5, 0.5]);
+    for (const spec of ['momentum:abc', 'momentum:-0.2', 'momentum:', ':0.5']) {
+      expect(() => parseStrategyAllocations(spec)).toThrow('Invalid strategy allocation');
+    }
+
+    const config = { totalCapital: 1000, useAI: false } as OrchestratorConfig;
+    expect(() => new AnalysisEngine({ ...config, strategies: [{ id: 'astrology', allocation: 1 }] }))
+      .toThrow('Unknown strategy "astrology"');
+    expect(() => new AnalysisEngine({ ...config, strategies: parseStrategyAllocations('momentum:0.7,llm:0.7') }))
+      .toThrow('add up to 1.40');
+    expect(() => new AnalysisEngine({ ...config, strategies: [{ id: 'momentum', allocation: NaN }] }))
+      .toThrow('Invalid allocation NaN');
+
+    // Custom strategies plug in through a registry
+    const registry = new StrategyRegistry().register('fast-momentum', () => new MomentumStrategy({ minMovePercent: 0.5 }));
+    const engine = new AnalysisEngine({ ...config, strategies: [{ id: 'fast-momentum', allocation: 1 }] }, undefined, registry);
+    expect(engine.getStrategies()).toEqual([{ id: 'momentum', allocation: 1 }]);
+  });
+
+  it('fades prices stretched from their recent mean', async () => {
+    const clock = new SimulatedClock(START);
+    const config = { totalCapital: 1000, minConfidence: 70 } as OrchestratorConfig;
+    const prices = [100, 101, 99, 100, 101, 99, 100, 101, 99, 100, 106];
+    let price = prices[0];
+    const monitor = new MarketMonitor(config, { getMarkets: async () => [makeMarket({ ...QUIET_MARKET, symbol: 'BTC-USD', lastPrice: price })] }, clock);
+
+    let snapshot;
+    for (price of prices) {
+      [snapshot] = await monitor.updateMarkets();
+      clock.advance(5000);
+    }
+
+    const strategy = new MeanReversionStrategy();
+    const analysis = strategy.analyze(snapshot!, monitor.getHistory('BTC-USD'))!;
+    expect(analysis.action).toBe('SHORT');
+    expect(analysis.takeProfitPercent).toBe(4); // capped
+
+    // Not enough history yet
+    expect(strategy.analyze(snapshot!, monitor.getHistory('BTC-USD').slice(-5))).toBeNull();
+  });
+
+  it('runs strategies side by side and tags trades with the one that opened them', async () => {
+    const clock = new SimulatedClock(START);
+    const markets = [
+      makeMarket({ ...QUIET_MARKET, symbol: 'BTC-USD', fundingRate: 0.0015, priceChangePercent24h: -3.2 }),
+      makeMarket({ ...QUIET_MARKET, symbol: 'ETH-USD', priceChangePercent24h: 3.2 }),
+    ];
+    const orchestrator = new TradingOrchestrator(
+      {
+        useAI: false,
+        dryRun: true,
+        totalCapital: 1000,
+        maxConcurrentPositions: 5,
+        minSignalAge: 0,
+        strategies: [
+          { id: 'funding-contrarian', allocation: 0.3 },
+          { id: 'momentum', allocation: 0.7 },
+        ],
+      },
+      { clock, marketSource: { getMarkets: async () => markets }, resultsDir, replay: true }
+    );
+
+    // One entry per round
+    await orchestrator.step();
+    await orchestrator.step();
+
+    const positions = new Map(orchestrator.getOpenPositions().map(p => [p.symbol, p]));
+    expect(positions.get('BTC-USD')).toMatchObject({ side: 'SHORT', strategy: 'funding-contrarian' });
+    expect(positions.get('ETH-USD')).toMatchObject({ side: 'LONG', strategy: 'momentum' });
+
+    // Sized from the strategy's own capital
+    expect(positions.get('BTC-USD')!.size).toBeLessThanOrEqual(1000 * 0.3 * 0.3);
+
+    orchestrator.closeAllPositions('manual');
+    expect(orchestrator.getClosedTrades().find(t => t.marketId === 'BTC-USD')).toMatchObject({
+      agent: 'orchestrator',
+      strategy: 'funding-contrarian',
+      configHash: expect.stringMatching(/^[0-9a-f]{12}$/),
+    });
+  });
+
+  it('holds a strategy to its allocation, whatever the account has free', async () => {
+    const clock = new SimulatedClock(START);
+    const symbols = ['AVAX-USD', 'DOGE-USD', 'LINK-USD', 'XRP-USD', 'ADA-USD'];
+    const orchestrator = new TradingOrchestrator(
+      {
+        useAI: false,
+        dryRun: true,
+        totalCapital: 1000,
+        maxConcurrentPositions: 5,
+        minSignalAge: 1000,
+        strategies: [{ id: 'funding-contrarian', allocation: 0.3 }],
+      },
+      {
+        clock,
+        marketSource: { getMarkets: async () => symbols.map(symbol => makeMarket({ ...QUIET_MARKET, symbol, fundingRate: 0.0015, priceChangePercent24h: -3.2 })) },
+        resultsDir,
+        replay: true,
+      }
+    );
+    const rejected: any[] = [];
+    orchestrator.on('signalRejected', (event) => rejected.push(event));
+
+    // Every market gets a signal while nothing is open; they mature together
+    // and enter one per round until the allocation is used
+    await orchestrator.step();
+    for (const _ of symbols) {
+      clock.advance(1000);
+      await orchestrator.step();
+    }
+
+    expect(orchestrator.getOpenPositions()).toHaveLength(3);
+    expect(orchestrator.getOpenPositions().reduce((sum, p) => sum + p.size, 0)).toBeLessThanOrEqual(300);
+    expect(rejected[0].allocation).toMatchObject({ strategy: 'funding-contrarian', budget: 300 });
+  });
+
+  it('leaves a market to another strategy when the preferred one is out of allocation', async () => {
+    const clock = new SimulatedClock(START);
+    const config: OrchestratorConfig = {
+      ...DEFAULT_ORCHESTRATOR_CONFIG,
+      groqApiKey: '',
+      totalCapital: 1000,
+      useAI: false,
+      strategies: [
+        { id: 'funding-contrarian', allocation: 0.3 },
+        { id: 'momentum', allocation: 0.7 },
+      ],
+    };
+    const sol = makeMarket({ ...QUIET_MARKET, symbol: 'SOL-USD', fundingRate: -0.0015, priceChangePercent24h: 3.2 });
+    const monitor = new MarketMonitor(config, { getMarkets: async () => [sol] }, clock);
+    const [snapshot] = await monitor.updateMarkets();
+    const history = monitor.getHistory('SOL-USD');
+
+    const engine = new AnalysisEngine(config, clock);
+    await engine.queueForAnalysis(snapshot, history);
+    const preferred = engine.getSignal('SOL-USD')!.strategy;
+    const other = preferred === 'momentum' ? 'funding-contrarian' : 'momentum';
+
+    const crowded = new AnalysisEngine(config, clock);
+    crowded.setCommittedMargin(id => (id === preferred ? 1000 : 0));
+    await crowded.queueForAnalysis(snapshot, history);
+    expect(crowded.getSignal('SOL-USD')?.strategy).toBe(other);
+  });
+
+  it('lets each signal\'s own strategy decide when it has flipped', async () => {
+    const clock = new SimulatedClock(START);
+    const config = {
+      totalCapital: 1000,
+      minConfidence: 70,
+      maxPositionPercent: 0.3,
+      maxConcurrentPositions: 5,
+      signalExpiryMs: 60000,
+      strategies: [
+        { id: 'funding-contrarian', allocation: 0.5 },
+        { id: 'momentum', allocation: 0.5 },
+      ],
+    } as OrchestratorConfig;
+    const contrarian = new FundingContrarianStrategy();
+    const momentum = new MomentumStrategy();
+    const registry = new StrategyRegistry()
+      .register('funding-contrarian', () => contrarian)
+      .register('momentum', () => momentum);
+    const contrarianRuns = jest.spyOn(contrarian, 'generateSignal');
+    const momentumRuns = jest.spyOn(momentum, 'generateSignal');
+
+    const markets = [
+      makeMarket({ ...QUIET_MARKET, symbol: 'BTC-USD', fundingRate: 0.0015 }),
+      makeMarket({ ...QUIET_MARKET, symbol: 'ETH-USD', priceChangePercent24h: 3.2 }),
+    ];
+    const monitor = new MarketMonitor(config, { getMarkets: async () => markets }, clock);
+    const engine = new AnalysisEngine(config, clock, registry);
+    const analyzeAll = async () => {
+      for (const snapshot of await monitor.updateMarkets()) {
+        await engine.queueForAnalysis(snapshot, monitor.getHistory(snapshot.market.symbol));
+      }
+    };
+
+    await analyzeAll();
+    expect(engine.getActiveSignals().map(s => [s.symbol, s.action, s.strategy])).toEqual([
+      ['BTC-USD', 'SHORT', 'funding-contrarian'],
+      ['ETH-USD', 'LONG', 'momentum'],
+    ]);
+    contrarianRuns.mockClear();
+    momentumRuns.mockClear();
+
+    // A rally means nothing to the funding trade; a reversal flips momentum
+    markets[0] = makeMarket({ ...QUIET_MARKET, symbol: 'BTC-USD', fundingRate: 0.0015, priceChangePercent24h: 3.2 });
+    markets[1] = makeMarket({ ...QUIET_MARKET, symbol: 'ETH-USD', priceChangePercent24h: -3.2 });
+    clock.advance(5000);
+    await analyzeAll();
+
+    expect(contrarianRuns).not.toHaveBeenCalled();
+    expect(momentumRuns).toHaveBeenCalledTimes(1);
+    const signals = new Map(engine.getActiveSignals().map(s => [s.symbol, s]));
+    expect(signals.get('BTC-USD')).toMatchObject({ action: 'SHORT', strategy: 'funding-contrarian' });
+    expect(signals.get('ETH-USD')).toMatchObject({ action: 'SHORT', strategy: 'momentum' });
+  });
+
+  it('runs one analysis per market at a time', async () => {
+    const clock = new SimulatedClock(START);
+    const config = { totalCapital: 1000, minConfidence: 70, strategies: [{ id: 'slow', allocation: 1 }] } as OrchestratorConfig;
+    let release!: () => void;
+    const generateSignal = jest.fn(() => new Promise<null>(resolve => { release = () => resolve(null); }));
+    const registry = new StrategyRegistry().register('slow', () => ({ id: 'slow', generateSignal }));
+    const monitor = new MarketMonitor(config, { getMarkets: async () => [makeMarket({ ...QUIET_MARKET, symbol: 'BTC-USD' })] }, clock);
+    const engine = new AnalysisEngine(config, clock, registry);
+    const [snapshot] = await monitor.updateMarkets();
+
+    const first = engine.queueForAnalysis(snapshot);
+    await engine.queueForAnalysis(snapshot);
+    await engine.queueForAnalysis(snapshot);
+    expect(generateSignal).toHaveBeenCalledTimes(1);
+
+    release();
+    await first;
+    const next = engine.queueForAnalysis(snapshot);
+    expect(generateSignal).toHaveBeenCalledTimes(2);
+    release();
+    await next;
+  });
+});
@@ -0,0 +1,88 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TradeResult, TradeTracker, migrateJsonTrades } from '../agents/trade-tracker';
+
+function makeTrade(overrides: Partial<TradeResult> = {}): TradeResult {
+  return {
+    tradeId: 'trade-1',
+    marketId: 'BTC-USD',
+    question: 'BTC-USD LONG @ $100,000',
+    action: 'buy',
+    entryPrice: 100000,
+    size: 0.1,
+    confidence: 0.8,
+    expectedReturn: 1.02,
+    riskScore: 0.2,
+    timestamp: 1735000000000,
+    reasoning: 'test',
+    ...overrides,
+  };
+}
+
+describe('TradeTracker', () => {
+  let resultsDir: string;
+
+  beforeEach(() => {
+    resultsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'trade-tracker-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(resultsDir, { recursive: true, force: true });
+  });
+
+  it('stores trades in SQLite and filters by date, symbol, strategy and exit reason', () => {
+    const tracker = new TradeTracker(resultsDir);
+    tracker.saveTrade(makeTrade({ tradeId: 'a', timestamp: 3000, strategy: 'momentum', exitReason: 'take-profit', resolved: true, pnl: 0.1 }));
+    tracker.saveTrade(makeTrade({ tradeId: 'b', timestamp: 1000, marketId: 'ETH-USD', strategy: 'funding', exitReason: 'stop-loss', resolved: true, pnl: -0.05 }));
+    tracker.saveTrade(makeTrade({ tradeId: 'c', timestamp: 2000, strategy: 'momentum', exitReason: 'stop-loss' }));
+
+    expect(fs.existsSync(path.join(resultsDir, 'trades.db'))).toBe(true);
+    expect(tracker.loadTrades().map(t => t.tradeId)).toEqual(['b', 'c', 'a']);
+    expect(tracker.queryTrades({ from: 1500, to: 3000 }).map(t => t.tradeId)).toEqual(['c']);
+    expect(tracker.queryTrades({ marketId: 'BTC-USD', strategy: 'momentum' }).map(t => t.tradeId)).toEqual(['c', 'a']);
+    expect(tracker.queryTrades({ exitReason: 'stop-loss', resolved: true }).map(t => t.tradeId)).toEqual(['b']);
+    expect(tracker.queryTrades({ limit: 1 })).toHaveLength(1);
+
+    // A second handle on the same file sees every write
+    const other = new TradeTracker(resultsDir);
+    other.saveTrade(makeTrade({ tradeId: 'd', timestamp: 4000 }));
+    expect(tracker.getStats()).toMatchObject({ totalTrades: 4, resolvedTrades: 2, winRate: 0.5 });
+    other.close();
+    tracker.close();
+  });
+
+  it('updates outcomes in place', () => {
+    const tracker = new TradeTracker(resultsDir);
+    tracker.saveTrade(makeTrade({ entryPrice: 0.4 }));
+
+    tracker.updateTradeOutcome('trade-1', true, 1);
+
+    expect(tracker.queryTrades({ resolved: false })).toHaveLength(0);
+    const [trade] = tracker.queryTrades({ resolved: true });
+    expect(trade).toMatchObject({ actualOutcome: true, exitPrice: 1, resolved: true });
+    expect(trade.pnl).toBeCloseTo(0.6);
+    tracker.close();
+  });
+
+  it('migrates legacy trades.json files once', () => {
+    const nested = path.join(resultsDir, 'orchestrator');
+    fs.mkdirSync(nested);
+    fs.writeFileSync(path.join(resultsDir, 'trades.json'), JSON.stringify([makeTrade()]));
+    fs.writeFileSync(path.join(nested, 'trades.json'), JSON.stringify([
+      makeTrade({ tradeId: 'x', timestamp: 1 }),
+      makeTrade({ tradeId: 'y', timestamp: 2 }),
+    ]));
+
+    const results = migrateJsonTrades(resultsDir);
+    expect(results.map(r => r.trades).sort()).toEqual([1, 2]);
+    expect(fs.existsSync(path.join(nested, 'trades.json.migrated'))).toBe(true);
+    expect(migrateJsonTrades(resultsDir)).toEqual([]);
+
+    const tracker = new TradeTracker(nested);
+    expect(tracker.loadTrades().map(t => t.tradeId)).toEqual(['x', 'y']);
+    tracker.close();
+  });
+});
@@ -0,0 +1,120 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PROXY_SCORING, WalkForwardOptimizer, loadPreset, savePreset } from '../agents/walk-forward-optimizer';
+import { MarketRecord } from '../utils/market-history';
+import { makeMarket } from './helpers/markets';
+
+const START = 1735000000000;
+
+// 10 minutes of a steady uptrend, 5s apart
+function makeHistory(): MarketRecord[] {
+  return Array.from({ length: 120 }, (_, i) => ({
+    timestamp: START + i * 5000,
+    market: makeMarket({ lastPrice: 100 * (1 + i * 0.002) }),
+  }));
+}
+
+describe('WalkForwardOptimizer', () => {
+  let resultsDir: string;
+
+  beforeEach(() => {
+    resultsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'walk-forward-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(resultsDir, { recursive: true, force: true });
+  });
+
+  it('rolls train/test windows across the history', () => {
+    const optimizer = new WalkForwardOptimizer({ trainWindowMs: 4000, testWindowMs: 2000 });
+
+    expect(optimizer.windows(0, 10000)).toEqual([
+      { trainStart: 0, trainEnd: 4000, testEnd: 6000 },
+      { trainStart: 2000, trainEnd: 6000, testEnd: 8000 },
+      { trainStart: 4000, trainEnd: 8000, testEnd: 10000 },
+    ]);
+    expect(new WalkForwardOptimizer({ trainWindowMs: 4000, testWindowMs: 2000, stepMs: 4000 }).windows(0, 10000)).toHaveLength(2);
+    expect(optimizer.windows(0, 5000)).toEqual([]);
+  });
+
+  it('picks each fold on its train window and scores it out of sample', async () => {
+    const optimizer = new WalkForwardOptimizer({
+      space: [{ key: 'minConfidence', values: [95, 70] }],
+      baseConfig: { minSignalAge: 0, analysisIntervalMs: 5000 },
+      trainWindowMs: 200000,
+      testWindowMs: 100000,
+      minTrades: 1,
+      resultsDir,
+    });
+
+    const result = await optimizer.run(makeHistory());
+
+    // 95 never clears the momentum strategy's confidence, so it can't trade
+    expect(result.folds).toHaveLength(3);
+    for (const fold of result.folds) {
+      expect(fold.params).toEqual({ minConfidence: 70 });
+      expect(fold.trials).toBe(2);
+      expect(fold.testMetrics.totalTrades).toBeGreaterThan(0);
+    }
+    expect(result.outOfSample.totalTrades).toBe(
+      result.folds.reduce((sum, fold) => sum + fold.testMetrics.totalTrades, 0)
+    );
+    expect(result.config).toEqual({ minSignalAge: 0, analysisIntervalMs: 5000, minConfidence: 70 });
+
+    await expect(optimizer.run(makeHistory().slice(0, 40))).rejects.toThrow('need at least 0.1h');
+  });
+
+  it('writes ethereal-agent presets that the trade runner can load', async () => {
+    expect(() => new WalkForwardOptimizer({ target: 'ethereal-agent', space: [{ key: 'maxRiskScore', values: [40, 50] }] }))
+      .toThrow("Can't replay ethereal-agent field(s) maxRiskScore");
+    expect(() => new WalkForwardOptimizer({ target: 'ethereal-agent' })).not.toThrow();
+
+    // Scored on the orchestrator's rules, and says so; only agent fields reach the config
+    const proxy = await new WalkForwardOptimizer({
+      target: 'ethereal-agent',
+      space: [{ key: 'minConfidence', values: [70] }],
+      baseConfig: { minSignalAge: 0, analysisIntervalMs: 5000 },
+      trainWindowMs: 200000,
+      testWindowMs: 100000,
+      minTrades: 1,
+      resultsDir,
+    }).run(makeHistory());
+    expect(proxy.scoredBy).toBe('orchestrator rule-based replay');
+    expect(proxy.config).toEqual({ minConfidence: 70 });
+
+    const file = savePreset(
+      {
+        target: 'ethereal-agent',
+        objective: 'score',
+        folds: [],
+        outOfSample: { ...emptyMetrics(), attribution: { agent: {}, strategy: {}, configHash: {}, model: {} } },
+        params: { minConfidence: 75, maxConcurrentPositions: 3 },
+        config: { minConfidence: 75, maxConcurrentPositions: 3 },
+        scoredBy: PROXY_SCORING['ethereal-agent'],
+      },
+      { name: 'wf-test', method: 'bayesian', history: 'markets.csv', dir: resultsDir }
+    );
+
+    expect(file).toBe(path.join(resultsDir, 'wf-test.json'));
+    const preset = loadPreset('wf-test', 'ethereal-agent', resultsDir);
+    expect(preset).toMatchObject({
+      name: 'wf-test',
+      method: 'bayesian',
+      config: { minConfidence: 75, maxConcurrentPositions: 3 },
+      scoredBy: 'orchestrator rule-based replay',                            // Labelled as a proxy, not agent results
+    });
+    expect(preset.outOfSample).not.toHaveProperty('attribution');
+    expect(loadPreset(file, 'ethereal-agent').name).toBe('wf-test');
+    expect(() => loadPreset(file, 'orchestrator')).toThrow('optimized for ethereal-agent');
+  });
+});
+
+function emptyMetrics() {
+  return {
+    totalTrades: 0, winningTrades: 0, losingTrades: 0, winRate: 0, totalPnL: 0, avgPnL: 0,
+    avgWin: 0, avgLoss: 0, profitFactor: 0, sharpeRatio: 0, maxDrawdown: 0, score: 0,
+  };
+}
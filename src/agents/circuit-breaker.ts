@@ -0,0 +1,360 @@
+/**
+ * Circuit Breaker - Global Kill Switch for the Trading Agents
+ *
+ * Halts new entries when something has gone wrong, and optionally flattens
+ * open positions. Trips on:
+ *
+ *   CONSECUTIVE_LOSSES   N losing trades in a row
+ *   SESSION_DRAWDOWN     Equity down past a threshold from the session peak
+ *   STALE_DATA           No market data for too long (frozen feed)
+ *   API_ERRORS           Too many API errors inside a rolling window
+ *   PRICE_JUMP           A tick-to-tick move too large to trust
+ *   MANUAL               An operator, from the CLI or the API
+ *   STATE_UNREADABLE     state.json exists but can't be parsed (fails safe)
+ *
+ * The switch lives on disk (state.json, written atomically) so a trip or
+ * reset from another process - the CLI, the Next.js API - reaches every
+ * running agent on its next check. Every trip and reset is appended to
+ * trips.jsonl. A tripped switch stays tripped until an operator resets it.
+ *
+ * With `localAutoTrips` a process still obeys the shared switch but keeps
+ * its own automatic trips in memory, so a simulator's losses can't halt the
+ * live agents.
+ */
+
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
+import { Clock, systemClock } from '../utils/clock';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CircuitBreakerConfig {
+  maxConsecutiveLosses: number;      // Losing trades in a row before tripping
+  maxSessionDrawdown: number;        // Fraction below the session equity peak
+  staleDataMs: number;               // Longest gap between market updates
+  maxApiErrors: number;              // Errors tolerated inside the window
+  apiErrorWindowMs: number;
+  maxPriceJumpPercent: number;       // Largest believable move between two ticks
+  flattenOnTrip: boolean;            // Close open positions on automatic trips
+  localAutoTrips: boolean;           // Automatic trips stay in this process; operator trips still come from the shared switch
+}
+
+export type BreakerTrigger =
+  | 'CONSECUTIVE_LOSSES'
+  | 'SESSION_DRAWDOWN'
+  | 'STALE_DATA'
+  | 'API_ERRORS'
+  | 'PRICE_JUMP'
+  | 'MANUAL'
+  | 'STATE_UNREADABLE';
+
+export interface BreakerTrip {
+  trigger: BreakerTrigger;
+  reason: string;
+  trippedAt: number;
+  source: string;                    // Process or operator that tripped it (orchestrator, cli, api)
+  flatten: boolean;                  // Close open positions as well as halting entries
+}
+
+export interface BreakerState {
+  tripped: boolean;
+  trip?: BreakerTrip;                // Current trip, while tripped
+  resetAt?: number;
+  resetBy?: string;
+}
+
+export type BreakerEvent =
+  | ({ type: 'trip' } & BreakerTrip)
+  | { type: 'reset'; resetAt: number; resetBy: string };
+
+export interface TripOptions {
+  source?: string;
+  flatten?: boolean;
+}
+
+// ============================================================================
+// DEFAULT CONFIG
+// ============================================================================
+
+export const DEFAULT_BREAKER_DIR = './trade-results/circuit-breaker';
+
+const DEFAULT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  maxConsecutiveLosses: 5,
+  maxSessionDrawdown: 0.10,
+  staleDataMs: 60000,
+  maxApiErrors: 5,
+  apiErrorWindowMs: 60000,
+  maxPriceJumpPercent: 10,
+  flattenOnTrip: false,
+  localAutoTrips: false,
+};
+
+// ============================================================================
+// CIRCUIT BREAKER
+// ============================================================================
+
+export class CircuitBreaker extends EventEmitter {
+  private config: CircuitBreakerConfig;
+  private state: BreakerState = { tripped: false };
+  private statePath?: string;
+  private historyPath?: string;
+  private localTrip?: BreakerTrip;   // Automatic trip kept off disk (localAutoTrips)
+
+  // Trigger inputs
+  private consecutiveLosses = 0;
+  private sessionEquity?: number;
+  private sessionPeak = 0;
+  private lastDataAt?: number;
+  private lastPrices: Map<string, number> = new Map();
+  private apiErrors: number[] = [];
+
+  /**
+   * `stateDir` null keeps the switch in memory (backtests, replays)
+   */
+  constructor(
+    config: Partial<CircuitBreakerConfig> = {},
+    stateDir: string | null = DEFAULT_BREAKER_DIR,
+    private clock: Clock = systemClock
+  ) {
+    super();
+    this.config = { ...DEFAULT_BREAKER_CONFIG, ...config };
+    if (stateDir) {
+      this.statePath = path.join(stateDir, 'state.json');
+      this.historyPath = path.join(stateDir, 'trips.jsonl');
+      this.state = this.readState();
+    }
+  }
+
+  getConfig(): CircuitBreakerConfig {
+    return this.config;
+  }
+
+  /**
+   * Latest switch state, picking up trips and resets made elsewhere
+   */
+  getState(): BreakerState {
+    this.sync();
+    if (!this.state.tripped && this.localTrip) return { tripped: true, trip: this.localTrip };
+    return this.state;
+  }
+
+  isTripped(): boolean {
+    return this.getState().tripped;
+  }
+
+  /**
+   * Re-read the shared switch. Emits 'trip' or 'reset' when another process
+   * changed it since the last look.
+   */
+  sync(): void {
+    if (!this.statePath) return;
+
+    const disk = this.readState();
+    const changed = disk.tripped !== this.state.tripped ||
+      disk.trip?.trippedAt !== this.state.trip?.trippedAt;
+    this.state = disk;
+    if (!changed) return;
+
+    if (disk.tripped) {
+      this.emit('trip', disk.trip!);
+    } else {
+      this.localTrip = undefined;     // An operator reset clears everything
+      this.clearTriggers();
+      this.emit('reset', disk);
+    }
+  }
+
+  /**
+   * Halt trading. A switch that is already tripped keeps its original trip.
+   */
+  trip(trigger: BreakerTrigger, reason: string, options: TripOptions = {}): BreakerTrip {
+    this.sync();
+    if (this.state.tripped) return this.state.trip!;
+    if (this.localTrip) return this.localTrip;
+
+    const trip: BreakerTrip = {
+      trigger,
+      reason,
+      trippedAt: this.clock.now(),
+      source: options.source || 'agent',
+      flatten: options.flatten ?? (trigger === 'MANUAL' ? false : this.config.flattenOnTrip),
+    };
+    if (this.config.localAutoTrips && trigger !== 'MANUAL') {
+      this.localTrip = trip;
+      this.emit('trip', trip);
+      return trip;
+    }
+
+    this.state = { tripped: true, trip };
+    this.writeState();
+    this.appendHistory({ type: 'trip', ...trip });
+    this.emit('trip', trip);
+    return trip;
+  }
+
+  reset(resetBy: string = 'operator'): BreakerState {
+    this.sync();
+    this.clearTriggers();
+    if (this.localTrip) {
+      this.localTrip = undefined;
+      if (!this.state.tripped) {
+        this.emit('reset', { tripped: false, resetAt: this.clock.now(), resetBy });
+        return this.state;
+      }
+    }
+    if (!this.state.tripped) return this.state;
+
+    const resetAt = this.clock.now();
+    this.state = { tripped: false, resetAt, resetBy };
+    this.writeState();
+    this.appendHistory({ type: 'reset', resetAt, resetBy });
+    this.emit('reset', this.state);
+    return this.state;
+  }
+
+  /**
+   * Every trip and reset, oldest first
+   */
+  getHistory(limit?: number): BreakerEvent[] {
+    if (!this.historyPath || !fs.existsSync(this.historyPath)) return [];
+
+    const events: BreakerEvent[] = [];
+    for (const line of fs.readFileSync(this.historyPath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        events.push(JSON.parse(line));
+      } catch {
+        // Torn write from a crash mid-append
+      }
+    }
+    return limit ? events.slice(-limit) : events;
+  }
+
+  // ==========================================================================
+  // TRIGGERS
+  // ==========================================================================
+
+  /**
+   * Start drawdown tracking from the session's opening equity
+   */
+  startSession(equity: number): void {
+    this.sessionEquity = equity;
+    this.sessionPeak = equity;
+  }
+
+  /**
+   * Closed trade result in USD
+   */
+  recordTrade(pnl: number, source?: string): void {
+    this.consecutiveLosses = pnl < 0 ? this.consecutiveLosses + 1 : 0;
+    if (this.consecutiveLosses >= this.config.maxConsecutiveLosses) {
+      this.trip('CONSECUTIVE_LOSSES', `${this.consecutiveLosses} losing trades in a row`, { source });
+    }
+
+    if (this.sessionEquity === undefined) return;
+    this.sessionEquity += pnl;
+    this.sessionPeak = Math.max(this.sessionPeak, this.sessionEquity);
+
+    const drawdown = this.sessionPeak > 0 ? (this.sessionPeak - this.sessionEquity) / this.sessionPeak : 0;
+    if (drawdown >= this.config.maxSessionDrawdown) {
+      this.trip('SESSION_DRAWDOWN', `Session drawdown ${(drawdown * 100).toFixed(2)}% from peak`, { source });
+    }
+  }
+
+  /**
+   * Market data arrival; trips on a jump no real market makes in one tick
+   */
+  recordPrice(symbol: string, price: number, timestamp: number = this.clock.now(), source?: string): void {
+    this.lastDataAt = Math.max(this.lastDataAt ?? 0, timestamp);
+
+    const previous = this.lastPrices.get(symbol);
+    this.lastPrices.set(symbol, price);
+    if (!previous || previous <= 0 || price <= 0) return;
+
+    const jumpPercent = Math.abs(price - previous) / previous * 100;
+    if (jumpPercent > this.config.maxPriceJumpPercent) {
+      this.trip('PRICE_JUMP', `${symbol} moved ${jumpPercent.toFixed(1)}% in one tick ($${previous} → $${price})`, { source });
+    }
+  }
+
+  recordApiError(error: unknown, source?: string): void {
+    const now = this.clock.now();
+    this.apiErrors = this.apiErrors.filter(t => now - t < this.config.apiErrorWindowMs);
+    this.apiErrors.push(now);
+
+    if (this.apiErrors.length >= this.config.maxApiErrors) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.trip('API_ERRORS', `${this.apiErrors.length} API errors in ${(this.config.apiErrorWindowMs / 1000).toFixed(0)}s (last: ${message})`, { source });
+    }
+  }
+
+  /**
+   * Trip if the feed has gone quiet; call on a timer
+   */
+  checkStaleness(source?: string): void {
+    if (this.lastDataAt === undefined) return;
+
+    const age = this.clock.now() - this.lastDataAt;
+    if (age > this.config.staleDataMs) {
+      this.trip('STALE_DATA', `No market data for ${(age / 1000).toFixed(0)}s`, { source });
+    }
+  }
+
+  private clearTriggers(): void {
+    this.consecutiveLosses = 0;
+    this.apiErrors = [];
+    this.lastPrices.clear();
+    this.lastDataAt = undefined;
+    if (this.sessionEquity !== undefined) this.sessionPeak = this.sessionEquity;
+  }
+
+  // ==========================================================================
+  // PERSISTENCE
+  // ==========================================================================
+
+  /**
+   * A state file that can't be read counts as tripped until an operator
+   * resets it (which rewrites the file)
+   */
+  private readState(): BreakerState {
+    if (!this.statePath || !fs.existsSync(this.statePath)) return { tripped: false };
+
+    try {
+      return JSON.parse(fs.readFileSync(this.statePath, 'utf-8'));
+    } catch (error: any) {
+      if (this.state.trip?.trigger !== 'STATE_UNREADABLE') {
+        console.error(`🚨 Circuit breaker state ${this.statePath} is unreadable, treating as tripped: ${error.message}`);
+      }
+      return {
+        tripped: true,
+        trip: {
+          trigger: 'STATE_UNREADABLE',
+          reason: `Unreadable ${path.basename(this.statePath)}: ${error.message}`,
+          trippedAt: Math.floor(fs.statSync(this.statePath).mtimeMs),   // Stable across re-reads
+          source: 'breaker',
+          flatten: false,
+        },
+      };
+    }
+  }
+
+  private writeState(): void {
+    if (!this.statePath) return;
+    fs.mkdirSync(path.dirname(this.statePath), { recursive: true });
+    // Per-process name, so concurrent writers never rename each other's partial file
+    const tmpPath = `${this.statePath}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(this.state, null, 2));
+    fs.renameSync(tmpPath, this.statePath);
+  }
+
+  private appendHistory(event: BreakerEvent): void {
+    if (!this.historyPath) return;
+    fs.mkdirSync(path.dirname(this.historyPath), { recursive: true });
+    fs.appendFileSync(this.historyPath, JSON.stringify(event) + '\n');
+  }
+}
+
+export default CircuitBreaker;
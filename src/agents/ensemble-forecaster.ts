@@ -0,0 +1,469 @@
+/**
+ * Ensemble Forecaster
+ *
+ * Asks several members for the same condition and pools their answers.
+ * LLM members pair a prompt variant with an LLM route, so one ensemble
+ * can mix models (LLM_ROUTES="forecast.claude=anthropic:...") and framings
+ * (analyst, base-rate, skeptic). Market members turn Polymarket / Kalshi
+ * prices of similar markets (via Dome) into a prior.
+ *
+ * Aggregation rules:
+ *   mean          - weighted mean of probabilities
+ *   trimmed-mean  - drop the `trim` share of highest and lowest, then mean
+ *   median        - middle member
+ *   log-odds      - weighted mean of log-odds, optionally extremized
+ *   learned       - log-odds pooling with weights from each member's Brier
+ *                   score on resolved forecasts (learnMemberWeights)
+ *
+ * Every member's answer and weight is returned with the pooled forecast so
+ * the ledger keeps an audit trail. When no model member answers readably the
+ * forecast fails instead of defaulting to 50%, so nothing is recorded or
+ * attested for that condition.
+ */
+
+import { SAPIENCE_CONFIG } from '../config';
+import { LlmClient, LlmMessage, LlmSchemaError } from '../clients/llm-client';
+import { OutputSchema } from '../clients/llm-schema';
+import { LedgerForecast } from './forecast-calibration';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * What the model returns for one condition
+ */
+export interface ForecastOutput {
+  probability: number;
+  confidence: number;
+  reasoning: string;
+}
+
+export type MarketPlatform = 'polymarket' | 'kalshi';
+
+export interface EnsembleMember {
+  id: string;
+  kind: 'llm' | 'market';
+  prompt?: string;                   // llm: key of FORECAST_PROMPTS (default 'analyst')
+  route?: string;                    // llm: LLM route (default 'forecast')
+  platform?: MarketPlatform;         // market: which venue's prices
+  weight?: number;                   // Pooling weight before learning (default 1)
+}
+
+export interface MemberForecast {
+  id: string;
+  kind: 'llm' | 'market';
+  probability: number;               // 0-100
+  confidence: number;                // 0-100
+  weight: number;                    // Weight actually used when pooling
+  model?: string;                    // llm: model that answered
+  markets?: number;                  // market: similar markets priced in
+  reasoning?: string;
+}
+
+export interface EnsembleForecast {
+  probability: number;               // Pooled, 0-100 (integer)
+  confidence: number;                // 0-100 (integer)
+  reasoning: string;
+  model?: string;                    // The LLM's model for one-LLM ensembles, otherwise "ensemble:<rule>"
+  aggregation: AggregationRule;
+  members: MemberForecast[];
+}
+
+export const AGGREGATION_RULES = ['mean', 'trimmed-mean', 'median', 'log-odds', 'learned'] as const;
+
+export type AggregationRule = typeof AGGREGATION_RULES[number];
+
+export interface EnsembleConfig {
+  members: EnsembleMember[];
+  aggregation: AggregationRule;
+  trim: number;                      // trimmed-mean: share dropped from each end
+  extremize: number;                 // log-odds / learned: pooled log-odds multiplier (1 = none)
+  minLearnedSamples: number;         // learned: resolved forecasts a member needs before its weight is learned
+}
+
+/**
+ * Anything that can list markets similar to a question (DomeAPIClient)
+ */
+export interface MarketPriorSource {
+  findSimilarMarkets(question: string): Promise<{ platform: MarketPlatform; yesPrice: number; volume24h: number }[]>;
+}
+
+export interface ForecastPrompt {
+  system: string;
+  user: (question: string) => string;
+}
+
+// ============================================================================
+// PROMPTS & MEMBERS
+// ============================================================================
+
+export const FORECAST_SCHEMA: OutputSchema<ForecastOutput> = {
+  name: 'Forecast',
+  fields: {
+    probability: { type: 'number', min: 0, max: 100, integer: true, percent: true, description: 'chance the outcome is YES, in percent' },
+    confidence: { type: 'number', min: 0, max: 100, integer: true, percent: true, description: 'how certain you are given the available evidence' },
+    reasoning: { type: 'string', maxLength: 280, description: 'base rates, conditional factors and the numbers behind the estimate' },
+  },
+};
+
+export const FORECAST_PROMPTS: Record<string, ForecastPrompt> = {
+  analyst: {
+    system: `You are a professional forecaster. Analyze prediction markets using:
+1. Base-rate analysis (historical precedent)
+2. Conditional probabilities
+3. Specific quantitative evidence
+4. Market structure/liquidity analysis
+5. Bayesian reasoning`,
+    user: (question) => `Forecast this binary outcome (0-100%): "${question}"
+
+Provide:
+- Probability estimate (0-100)
+- Confidence score (0-100) - how certain you are based on available evidence
+- Base rates from similar historical events with specific percentages
+- Key conditional factors with quantitative estimates
+- Specific numerical justifications (e.g., "Historical rate: 23%, adjusted +15% for X factor")
+- Market inefficiency analysis if applicable
+
+Keep reasoning under 280 chars but be specific with numbers.`,
+  },
+
+  'base-rate': {
+    system: `You are a superforecaster who starts from the outside view. Pick the
+reference class of comparable past events first, take its historical
+frequency as the anchor, and only then adjust for case-specific evidence.
+Adjustments away from the base rate must be small unless the evidence is strong.`,
+    user: (question) => `Forecast this binary outcome (0-100%): "${question}"
+
+Name the reference class and its historical frequency, then the adjustments
+you made and why. Keep reasoning under 280 chars.`,
+  },
+
+  skeptic: {
+    system: `You are a forecaster who guards against overconfidence. Before settling
+on a number, write the strongest case for the outcome you currently think is
+less likely, and ask what the crowd might be missing. Forecasts near 0% or
+100% need overwhelming evidence.`,
+    user: (question) => `Forecast this binary outcome (0-100%): "${question}"
+
+State the strongest argument against your initial view and how far it moved
+you. Keep reasoning under 280 chars.`,
+  },
+};
+
+/**
+ * Members available by id in FORECAST_ENSEMBLE
+ */
+export const ENSEMBLE_MEMBERS: Record<string, EnsembleMember> = {
+  analyst: { id: 'analyst', kind: 'llm', prompt: 'analyst' },
+  'base-rate': { id: 'base-rate', kind: 'llm', prompt: 'base-rate' },
+  skeptic: { id: 'skeptic', kind: 'llm', prompt: 'skeptic' },
+  polymarket: { id: 'polymarket', kind: 'market', platform: 'polymarket' },
+  kalshi: { id: 'kalshi', kind: 'market', platform: 'kalshi' },
+};
+
+// One analyst call: what ForecastingAgent always did
+export const DEFAULT_ENSEMBLE_CONFIG: EnsembleConfig = {
+  members: [ENSEMBLE_MEMBERS.analyst],
+  aggregation: 'log-odds',
+  trim: 0.2,
+  extremize: 1,
+  minLearnedSamples: 20,
+};
+
+// Member confidence is discounted by disagreement: a 25-point spread zeroes it
+const DISAGREEMENT_SCALE = 25;
+
+// Keep log-odds finite for 0% / 100% answers
+const LOG_EPSILON = 1e-4;
+
+// ============================================================================
+// FORECASTER
+// ============================================================================
+
+export class EnsembleForecaster {
+  private config: EnsembleConfig;
+  private learnedWeights: Record<string, number> = {};
+
+  constructor(
+    private llm: LlmClient,
+    private markets: MarketPriorSource,
+    config: Partial<EnsembleConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_ENSEMBLE_CONFIG, ...config };
+    parseAggregationRule(this.config.aggregation);
+
+    for (const member of this.config.members) {
+      if (member.kind === 'llm' && !FORECAST_PROMPTS[member.prompt || 'analyst']) {
+        throw new Error(`Unknown forecast prompt: ${member.prompt} (${Object.keys(FORECAST_PROMPTS).join(', ')})`);
+      }
+      if (member.kind === 'market' && !member.platform) {
+        throw new Error(`Market member ${member.id} needs a platform`);
+      }
+    }
+  }
+
+  getConfig(): EnsembleConfig {
+    return this.config;
+  }
+
+  /**
+   * Member weights for the 'learned' rule (missing members keep their configured weight)
+   */
+  setLearnedWeights(weights: Record<string, number>): void {
+    this.learnedWeights = weights;
+  }
+
+  async forecast(question: string): Promise<EnsembleForecast> {
+    const members: MemberForecast[] = [];
+    let firstError: unknown;
+    let schemaError: LlmSchemaError | undefined;
+
+    for (const member of this.config.members) {
+      try {
+        const result = member.kind === 'llm'
+          ? await this.askModel(member, question)
+          : await this.readMarkets(member, question);
+        if (result) members.push(result);
+      } catch (error) {
+        if (error instanceof LlmSchemaError) schemaError ??= error;
+        else firstError ??= error;
+        console.warn(`⚠️  Ensemble member ${member.id} skipped: ${(error as Error).message}`);
+      }
+    }
+
+    const answered = members.filter(m => m.kind === 'llm');
+    if (answered.length === 0) {
+      // Nothing from a model: no forecast to record or submit, the caller skips the condition
+      throw firstError ?? schemaError ?? new Error('No model member answered');
+    }
+
+    const probability = Math.round(this.pool(members));
+    const best = [...answered].sort((a, b) => b.confidence - a.confidence)[0];
+
+    return {
+      probability,
+      confidence: Math.round(agreementConfidence(members)),
+      reasoning: best.reasoning || '',
+      model: answered.length === 1 ? answered[0].model : `ensemble:${this.config.aggregation}`,
+      aggregation: this.config.aggregation,
+      members,
+    };
+  }
+
+  private async askModel(member: EnsembleMember, question: string): Promise<MemberForecast> {
+    const prompt = FORECAST_PROMPTS[member.prompt || 'analyst'];
+    const messages: LlmMessage[] = [
+      { role: 'system', content: prompt.system },
+      { role: 'user', content: prompt.user(question) },
+    ];
+
+    const response = await this.llm.completeJson(FORECAST_SCHEMA, {
+      route: member.route || 'forecast',
+      messages,
+      model: SAPIENCE_CONFIG.GROQ_MODEL,
+      temperature: SAPIENCE_CONFIG.GROQ_TEMPERATURE,
+      maxTokens: SAPIENCE_CONFIG.GROQ_MAX_TOKENS,
+    });
+
+    return {
+      id: member.id,
+      kind: 'llm',
+      probability: response.data.probability,
+      confidence: response.data.confidence,
+      weight: this.weightOf(member),
+      model: response.model,
+      reasoning: response.data.reasoning,
+    };
+  }
+
+  /**
+   * Volume-weighted YES price of similar markets on one venue, or nothing when none match
+   */
+  private async readMarkets(member: EnsembleMember, question: string): Promise<MemberForecast | undefined> {
+    const markets = (await this.markets.findSimilarMarkets(question)).filter(m => m.platform === member.platform);
+    const probability = impliedProbability(markets);
+    if (probability === undefined) return undefined;
+
+    const volume = markets.reduce((sum, m) => sum + m.volume24h, 0);
+    return {
+      id: member.id,
+      kind: 'market',
+      probability,
+      confidence: Math.min(Math.log10(volume + 1) / 5, 1) * 100,   // $100k/day ≈ full confidence
+      weight: this.weightOf(member),
+      markets: markets.length,
+    };
+  }
+
+  private weightOf(member: EnsembleMember): number {
+    if (this.config.aggregation === 'learned' && this.learnedWeights[member.id] !== undefined) {
+      return this.learnedWeights[member.id];
+    }
+    return member.weight ?? 1;
+  }
+
+  private pool(members: MemberForecast[]): number {
+    return aggregateForecasts(members, this.config.aggregation, {
+      trim: this.config.trim,
+      extremize: this.config.extremize,
+    });
+  }
+}
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+/**
+ * Pool member probabilities (0-100) with one of the aggregation rules
+ */
+export function aggregateForecasts(
+  members: Pick<MemberForecast, 'probability' | 'weight'>[],
+  rule: AggregationRule,
+  options: { trim?: number; extremize?: number } = {}
+): number {
+  const usable = members.filter(m => m.weight > 0);
+  if (usable.length === 0) return 50;
+
+  switch (rule) {
+    case 'mean':
+      return weightedMean(usable.map(m => [m.probability, m.weight]));
+
+    case 'trimmed-mean': {
+      const sorted = usable.map(m => m.probability).sort((a, b) => a - b);
+      const cut = Math.min(Math.floor(sorted.length * (options.trim ?? 0.2)), Math.floor((sorted.length - 1) / 2));
+      const kept = sorted.slice(cut, sorted.length - cut);
+      return kept.reduce((sum, p) => sum + p, 0) / kept.length;
+    }
+
+    case 'median': {
+      const sorted = usable.map(m => m.probability).sort((a, b) => a - b);
+      const mid = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    }
+
+    case 'log-odds':
+    case 'learned': {
+      const pooled = weightedMean(usable.map(m => [logit(m.probability / 100), m.weight]));
+      return 100 / (1 + Math.exp(-pooled * (options.extremize ?? 1)));
+    }
+  }
+}
+
+/**
+ * Volume-weighted YES price (0-100) of a set of markets, plain mean when
+ * none report volume, undefined when there are none
+ */
+export function impliedProbability(markets: { yesPrice: number; volume24h: number }[]): number | undefined {
+  if (markets.length === 0) return undefined;
+  const volume = markets.reduce((sum, m) => sum + m.volume24h, 0);
+  const price = volume > 0
+    ? markets.reduce((sum, m) => sum + m.yesPrice * m.volume24h, 0) / volume
+    : markets.reduce((sum, m) => sum + m.yesPrice, 0) / markets.length;
+  return price * 100;
+}
+
+/**
+ * Per-member weights from resolved forecasts in the ledger: inverse Brier
+ * score, scaled to average 1. Members with fewer than `minSamples` resolved
+ * answers are left out and keep their configured weight.
+ */
+export function learnMemberWeights(forecasts: LedgerForecast[], minSamples: number = DEFAULT_ENSEMBLE_CONFIG.minLearnedSamples): Record<string, number> {
+  const errors = new Map<string, { sum: number; count: number }>();
+
+  for (const forecast of forecasts) {
+    if (!forecast.resolved || forecast.outcome === undefined || !forecast.members) continue;
+    const y = forecast.outcome ? 1 : 0;
+    for (const member of forecast.members) {
+      const entry = errors.get(member.id) ?? { sum: 0, count: 0 };
+      entry.sum += (member.probability / 100 - y) ** 2;
+      entry.count++;
+      errors.set(member.id, entry);
+    }
+  }
+
+  const raw = [...errors]
+    .filter(([, e]) => e.count >= minSamples)
+    .map(([id, e]) => [id, 1 / Math.max(e.sum / e.count, 0.01)] as const);
+  if (raw.length === 0) return {};
+
+  const mean = raw.reduce((sum, [, w]) => sum + w, 0) / raw.length;
+  return Object.fromEntries(raw.map(([id, w]) => [id, w / mean]));
+}
+
+/**
+ * "analyst, skeptic@forecast.claude, polymarket" → members. `prompt@route`
+ * runs a prompt variant on another LLM route.
+ */
+export function parseEnsembleMembers(spec: string): EnsembleMember[] {
+  return spec.split(',').map(s => s.trim()).filter(Boolean).map(entry => {
+    const [id, route] = entry.split('@').map(s => s.trim());
+    const known = ENSEMBLE_MEMBERS[id];
+    if (!known) {
+      throw new Error(`Unknown ensemble member "${id}" (${Object.keys(ENSEMBLE_MEMBERS).join(', ')})`);
+    }
+    if (!route) return known;
+    if (known.kind !== 'llm') {
+      throw new Error(`Ensemble member "${id}" is not an LLM member and takes no route`);
+    }
+    return { ...known, id: entry, route };
+  });
+}
+
+/**
+ * A known aggregation rule, or throws
+ */
+export function parseAggregationRule(rule: string): AggregationRule {
+  if (!(AGGREGATION_RULES as readonly string[]).includes(rule)) {
+    throw new Error(`Unknown aggregation rule "${rule}" (${AGGREGATION_RULES.join(', ')})`);
+  }
+  return rule as AggregationRule;
+}
+
+/**
+ * A finite, positive extremizing factor, or throws
+ */
+export function parseExtremize(value: string): number {
+  const factor = Number(value);
+  if (value === '' || !Number.isFinite(factor) || factor <= 0) {
+    throw new Error(`Invalid extremizing factor "${value}" (must be a finite number above 0)`);
+  }
+  return factor;
+}
+
+/**
+ * Ensemble settings from FORECAST_ENSEMBLE, FORECAST_AGGREGATION and FORECAST_EXTREMIZE
+ */
+export function ensembleConfigFromEnv(env: Record<string, string | undefined> = process.env): Partial<EnsembleConfig> {
+  const config: Partial<EnsembleConfig> = {};
+  if (env.FORECAST_ENSEMBLE) config.members = parseEnsembleMembers(env.FORECAST_ENSEMBLE);
+  if (env.FORECAST_AGGREGATION) config.aggregation = parseAggregationRule(env.FORECAST_AGGREGATION.trim());
+  if (env.FORECAST_EXTREMIZE) config.extremize = parseExtremize(env.FORECAST_EXTREMIZE.trim());
+  return config;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Weighted member confidence, discounted by how far members disagree
+ */
+function agreementConfidence(members: MemberForecast[]): number {
+  const confidence = weightedMean(members.map(m => [m.confidence, m.weight]));
+  const mean = weightedMean(members.map(m => [m.probability, m.weight]));
+  const spread = Math.sqrt(weightedMean(members.map(m => [(m.probability - mean) ** 2, m.weight])));
+  return confidence * Math.max(0, 1 - spread / DISAGREEMENT_SCALE);
+}
+
+function weightedMean(values: (readonly [number, number])[]): number {
+  const total = values.reduce((sum, [, w]) => sum + w, 0);
+  if (total <= 0) return values.reduce((sum, [v]) => sum + v, 0) / values.length;
+  return values.reduce((sum, [v, w]) => sum + v * w, 0) / total;
+}
+
+function logit(p: number): number {
+  const clipped = Math.min(1 - LOG_EPSILON, Math.max(LOG_EPSILON, p));
+  return Math.log(clipped / (1 - clipped));
+}
@@ -10,11 +10,16 @@
  * - Risk-adjusted position management
  */
 
-import Groq from 'groq-sdk';
+import { LlmClient, LlmClientConfig, createLlmClient } from '../clients/llm-client';
+import { OutputSchema } from '../clients/llm-schema';
 import { ethers } from 'ethers';
 import { EtherealClient, EtherealMarket } from '../clients/ethereal-client';
 import { TradeTracker, TradeResult } from './trade-tracker';
 import { ProfitScorer, ProfitMetrics } from './profit-scorer';
+import { SeededRandom, resolveRng } from '../utils/random';
+import { hashConfig } from '../utils/config-hash';
+import { PricePathSimulator, SimulatedExitReason } from './price-path-simulator';
+import { CircuitBreaker, CircuitBreakerConfig, DEFAULT_BREAKER_DIR } from './circuit-breaker';
 
 // ============================================================================
 // CONFIGURATION
@@ -22,6 +27,7 @@ import { ProfitScorer, ProfitMetrics } from './profit-scorer';
 
 export interface EtherealAgentConfig {
   groqApiKey: string;
+  llm?: Partial<LlmClientConfig>; // Provider, model and routes (default: Groq, LLM_* env)
   privateKey?: string;
   rpcUrl?: string;
   
@@ -42,6 +48,8 @@ export interface EtherealAgentConfig {
   // Execution mode
   dryRun: boolean;
   autoConfirm?: boolean;
+  seed?: number;                  // Dry-run simulation seed (defaults to SIM_SEED or random)
+  circuitBreaker?: Partial<CircuitBreakerConfig>; // Kill switch triggers (shared switch when live)
 }
 
 export interface MarketAnalysis {
@@ -66,8 +74,34 @@ export interface MarketAnalysis {
   volatilityRegime: 'LOW' | 'MEDIUM' | 'HIGH';
   trendStrength: 'WEAK' | 'MODERATE' | 'STRONG';
   momentumAlignment: boolean;
+  
+  // Attribution
+  model?: string;                 // LLM that produced it (unset for the rule-based fallback)
 }
 
+/**
+ * The model's part of a MarketAnalysis; prices and regime are filled in locally
+ */
+export type AnalysisOutput = Pick<MarketAnalysis,
+  'action' | 'confidence' | 'reasoning' | 'expectedReturn' | 'riskScore' | 'holdTimeMinutes' |
+  'urgency' | 'takeProfitPercent' | 'stopLossPercent'> & { momentumAlignment?: boolean };
+
+export const MARKET_ANALYSIS_SCHEMA: OutputSchema<AnalysisOutput> = {
+  name: 'MarketAnalysis',
+  fields: {
+    action: { type: 'enum', values: ['LONG', 'SHORT', 'HOLD'] },
+    confidence: { type: 'number', min: 0, max: 100 },
+    reasoning: { type: 'string', description: 'concise analysis (2-3 sentences)' },
+    expectedReturn: { type: 'number', min: 1, max: 4, description: 'expected return multiple on margin' },
+    riskScore: { type: 'number', min: 0, max: 100 },
+    holdTimeMinutes: { type: 'number', min: 15, max: 180 },
+    urgency: { type: 'enum', values: ['HIGH', 'MEDIUM', 'LOW'] },
+    takeProfitPercent: { type: 'number', min: 2.5, max: 6 },
+    stopLossPercent: { type: 'number', min: 1.2, max: 2.5 },
+    momentumAlignment: { type: 'boolean', optional: true, description: 'trade is with the 24h momentum' },
+  },
+};
+
 export interface TradeExecution {
   success: boolean;
   tradeId: string;
@@ -83,7 +117,7 @@ export interface SimulatedOutcome {
   pnl: number;
   pnlPercent: number;
   outcome: 'WIN' | 'LOSS' | 'BREAKEVEN';
-  exitReason: 'take-profit' | 'stop-loss' | 'time-exit' | 'trailing-stop';
+  exitReason: SimulatedExitReason;
   holdTimeMinutes: number;
   maxDrawdown: number;
   maxProfit: number;
@@ -93,6 +127,8 @@ export interface SimulatedOutcome {
 // DEFAULT CONFIGURATION FOR 5 USDE
 // ============================================================================
 
+const LLM_MODEL = 'llama-3.3-70b-versatile';
+
 export const DEFAULT_CONFIG: Partial<EtherealAgentConfig> = {
   totalCapital: 5,
   maxPositionPercent: 0.30,      // Max 30% per trade = 1.5 USDE
@@ -112,11 +148,15 @@ export const DEFAULT_CONFIG: Partial<EtherealAgentConfig> = {
 
 export class EtherealTradingAgent {
   private config: EtherealAgentConfig;
-  private groq: Groq;
+  private llm: LlmClient;
   private ethereal: EtherealClient;
   private tracker: TradeTracker;
   private scorer: ProfitScorer;
   private wallet?: ethers.Wallet;
+  private rootRng: SeededRandom;
+  private pathSimulator: PricePathSimulator;
+  private breaker: CircuitBreaker;
+  private configHash: string;
   
   private openPositions: Map<string, TradeResult> = new Map();
   private sessionPnL: number = 0;
@@ -125,14 +165,18 @@ export class EtherealTradingAgent {
   constructor(config: Partial<EtherealAgentConfig>) {
     this.config = { ...DEFAULT_CONFIG, ...config } as EtherealAgentConfig;
     
-    if (!this.config.groqApiKey) {
-      throw new Error('GROQ_API_KEY is required');
-    }
+    this.rootRng = resolveRng(this.config.seed);
+    this.configHash = hashConfig(this.config);
+    this.pathSimulator = new PricePathSimulator({}, this.rootRng.fork('price-path'));
     
-    this.groq = new Groq({ apiKey: this.config.groqApiKey });
-    this.ethereal = new EtherealClient();
+    this.llm = createLlmClient({ groqApiKey: this.config.groqApiKey, ...this.config.llm });
+    this.ethereal = new EtherealClient({ rng: this.rootRng.fork('ethereal-mock-markets') });
     this.tracker = new TradeTracker('./trade-results/ethereal-live');
     this.scorer = new ProfitScorer();
+    this.breaker = new CircuitBreaker(
+      this.config.circuitBreaker,
+      this.config.dryRun ? null : DEFAULT_BREAKER_DIR
+    );
     
     if (this.config.privateKey && !this.config.dryRun) {
       const provider = new ethers.JsonRpcProvider(
@@ -156,8 +200,9 @@ export class EtherealTradingAgent {
     const prompt = this.buildAnalysisPrompt(market, volatilityRegime, trendStrength);
     
     try {
-      const completion = await this.groq.chat.completions.create({
-        model: "llama-3.3-70b-versatile",
+      const completion = await this.llm.completeJson(MARKET_ANALYSIS_SCHEMA, {
+        route: 'trade-analysis',
+        model: LLM_MODEL,
         messages: [
           {
             role: "system",
@@ -169,13 +214,12 @@ export class EtherealTradingAgent {
           },
         ],
         temperature: 0.2,  // Lower for more consistent analysis
-        max_tokens: 800,
+        maxTokens: 800,
       });
 
-      const response = completion.choices[0]?.message?.content || "{}";
-      return this.parseAnalysisResponse(response, market, volatilityRegime, trendStrength);
+      return this.buildAnalysis(completion.data, completion.model, market, volatilityRegime, trendStrength);
     } catch (error) {
-      console.error(`  ⚠️ AI analysis failed, using fallback`);
+      console.error(`  ⚠️ AI analysis failed, using fallback: ${(error as Error).message}`);
       return this.fallbackAnalysis(market, volatilityRegime, trendStrength);
     }
   }
@@ -244,67 +288,39 @@ Always provide actionable, specific recommendations.`;
 
 🎯 TRADING CAPITAL: $5 USDE (small account - prioritize high-probability trades)
 
-Analyze and respond with JSON:
-{
-  "action": "LONG" | "SHORT" | "HOLD",
-  "confidence": 0-100,
-  "reasoning": "concise analysis (2-3 sentences)",
-  "expectedReturn": 1.5-4.0,
-  "riskScore": 0-100,
-  "holdTimeMinutes": 15-180,
-  "urgency": "HIGH" | "MEDIUM" | "LOW",
-  "takeProfitPercent": 2.5-6.0,
-  "stopLossPercent": 1.2-2.5,
-  "momentumAlignment": true/false
-}`;
+Analyze this market and decide LONG, SHORT or HOLD with targets and hold time.`;
   }
 
   /**
-   * Parse AI response into structured analysis
+   * Price targets and regime from the model's schema-checked reply
    */
-  private parseAnalysisResponse(
-    response: string,
+  private buildAnalysis(
+    data: AnalysisOutput,
+    model: string,
     market: EtherealMarket,
     volatility: 'LOW' | 'MEDIUM' | 'HIGH',
     trend: 'WEAK' | 'MODERATE' | 'STRONG'
   ): MarketAnalysis {
-    try {
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) throw new Error("No JSON found");
-      
-      const data = JSON.parse(jsonMatch[0]);
-      
-      const takeProfitPercent = Math.max(2.5, Math.min(6, data.takeProfitPercent || 3.0));
-      const stopLossPercent = Math.max(1.2, Math.min(2.5, data.stopLossPercent || 1.8));
+    const { takeProfitPercent, stopLossPercent } = data;
+
+    const takeProfitPrice = data.action === 'LONG' 
+      ? market.lastPrice * (1 + takeProfitPercent / 100)
+      : market.lastPrice * (1 - takeProfitPercent / 100);
       
-      const takeProfitPrice = data.action === 'LONG' 
-        ? market.lastPrice * (1 + takeProfitPercent / 100)
-        : market.lastPrice * (1 - takeProfitPercent / 100);
-        
-      const stopLossPrice = data.action === 'LONG'
-        ? market.lastPrice * (1 - stopLossPercent / 100)
-        : market.lastPrice * (1 + stopLossPercent / 100);
-
-      return {
-        action: data.action || 'HOLD',
-        confidence: Math.max(0, Math.min(100, data.confidence || 50)),
-        reasoning: data.reasoning || 'No clear signal',
-        expectedReturn: Math.max(1, data.expectedReturn || 1.5),
-        riskScore: Math.max(0, Math.min(100, data.riskScore || 50)),
-        holdTimeMinutes: Math.max(15, Math.min(180, data.holdTimeMinutes || 60)),
-        urgency: data.urgency || 'MEDIUM',
-        entryPrice: market.lastPrice,
-        takeProfitPrice,
-        stopLossPrice,
-        takeProfitPercent,
-        stopLossPercent,
-        volatilityRegime: volatility,
-        trendStrength: trend,
-        momentumAlignment: data.momentumAlignment ?? true,
-      };
-    } catch {
-      return this.fallbackAnalysis(market, volatility, trend);
-    }
+    const stopLossPrice = data.action === 'LONG'
+      ? market.lastPrice * (1 - stopLossPercent / 100)
+      : market.lastPrice * (1 + stopLossPercent / 100);
+
+    return {
+      ...data,
+      entryPrice: market.lastPrice,
+      takeProfitPrice,
+      stopLossPrice,
+      volatilityRegime: volatility,
+      trendStrength: trend,
+      momentumAlignment: data.momentumAlignment ?? true,
+      model,
+    };
   }
 
   /**
@@ -490,108 +506,40 @@ Analyze and respond with JSON:
   // ==========================================================================
 
   /**
-   * Simulate trade outcome with momentum-biased probability
-   * Strong momentum alignment = ~65-75% win rate
+   * Simulate trade outcome by walking a price path through the
+   * orchestrator's position exit logic
    */
-  simulateTradeOutcome(
+  async simulateTradeOutcome(
     market: EtherealMarket,
     analysis: MarketAnalysis,
-    leverage: number
-  ): SimulatedOutcome {
-    const { entryPrice, takeProfitPrice, stopLossPrice, holdTimeMinutes } = analysis;
-    
-    // Direction alignment - CRITICAL for win probability
-    const directionMatch = 
-      (analysis.action === 'LONG' && market.priceChangePercent24h > 0) ||
-      (analysis.action === 'SHORT' && market.priceChangePercent24h < 0);
-    
-    const momentum = Math.abs(market.priceChangePercent24h);
-    
-    // Calculate win probability based on setup quality
-    let winProb = 0.50; // Base 50%
-    
-    // Strong momentum alignment is the key edge
-    if (directionMatch) {
-      if (momentum > 3.0) winProb += 0.22;      // Very strong: +22%
-      else if (momentum > 2.0) winProb += 0.18; // Strong: +18%
-      else if (momentum > 1.5) winProb += 0.12; // Moderate: +12%
-      else winProb += 0.06;                      // Weak: +6%
-    } else {
-      // Trading against momentum - very risky
-      winProb -= 0.15;
-    }
-    
-    // Confidence bonus
-    if (analysis.confidence >= 82) winProb += 0.08;
-    else if (analysis.confidence >= 77) winProb += 0.04;
-    
-    // Trend strength bonus
-    if (analysis.trendStrength === 'STRONG') winProb += 0.06;
-    else if (analysis.trendStrength === 'MODERATE') winProb += 0.03;
-    
-    // Cap probability: min 30%, max 78%
-    winProb = Math.max(0.30, Math.min(0.78, winProb));
-    
-    // Determine outcome
-    const roll = Math.random();
-    const isWin = roll < winProb;
-    
-    let exitPrice: number;
-    let exitReason: SimulatedOutcome['exitReason'];
-    let actualHoldTime: number;
-    
-    if (isWin) {
-      // Winner - vary between partial and full TP
-      const fullTP = Math.random() < 0.75; // 75% hit full TP
-      if (fullTP) {
-        exitPrice = takeProfitPrice;
-        exitReason = 'take-profit';
-      } else {
-        // Partial profit - trailing stop
-        const partialPct = 0.55 + Math.random() * 0.35; // 55-90% of TP
-        exitPrice = analysis.action === 'LONG'
-          ? entryPrice * (1 + (analysis.takeProfitPercent / 100) * partialPct)
-          : entryPrice * (1 - (analysis.takeProfitPercent / 100) * partialPct);
-        exitReason = 'trailing-stop';
-      }
-      actualHoldTime = Math.floor(holdTimeMinutes * (0.3 + Math.random() * 0.5));
-    } else {
-      // Loser - vary between full SL and smaller loss
-      const fullSL = Math.random() < 0.50; // 50% hit full SL
-      if (fullSL) {
-        exitPrice = stopLossPrice;
-        exitReason = 'stop-loss';
-        actualHoldTime = Math.floor(holdTimeMinutes * (0.1 + Math.random() * 0.25));
-      } else {
-        // Smaller loss - time exit
-        const lossPct = 0.35 + Math.random() * 0.45; // 35-80% of max loss
-        exitPrice = analysis.action === 'LONG'
-          ? entryPrice * (1 - (analysis.stopLossPercent / 100) * lossPct)
-          : entryPrice * (1 + (analysis.stopLossPercent / 100) * lossPct);
-        exitReason = 'time-exit';
-        actualHoldTime = holdTimeMinutes;
-      }
-    }
-    
-    // Calculate PnL
-    let pnl = analysis.action === 'LONG'
-      ? (exitPrice - entryPrice) / entryPrice
-      : (entryPrice - exitPrice) / entryPrice;
-    
-    pnl = pnl * leverage;
-    
+    leverage: number,
+    positionSize: number
+  ): Promise<SimulatedOutcome> {
+    const exit = await this.pathSimulator.simulateEntry({
+      market,
+      side: analysis.action === 'SHORT' ? 'SHORT' : 'LONG',
+      entryPrice: analysis.entryPrice,
+      takeProfitPrice: analysis.takeProfitPrice,
+      stopLossPrice: analysis.stopLossPrice,
+      leverage,
+      positionSize,
+      holdTimeMinutes: analysis.holdTimeMinutes,
+      confidence: analysis.confidence,
+    });
+    
+    const pnl = exit.pnl;
     const outcome: SimulatedOutcome['outcome'] = 
       pnl > 0.002 ? 'WIN' : pnl < -0.002 ? 'LOSS' : 'BREAKEVEN';
 
     return {
-      exitPrice,
+      exitPrice: exit.exitPrice,
       pnl,
       pnlPercent: pnl * 100,
       outcome,
-      exitReason,
-      holdTimeMinutes: actualHoldTime,
-      maxDrawdown: pnl < 0 ? pnl : pnl * -0.3,
-      maxProfit: pnl > 0 ? pnl * 1.2 : 0,
+      exitReason: exit.exitReason,
+      holdTimeMinutes: Math.round(exit.holdTimeMs / 60000),
+      maxDrawdown: exit.maxAdverseExcursion,
+      maxProfit: exit.maxFavorableExcursion,
     };
   }
 
@@ -614,6 +562,8 @@ Analyze and respond with JSON:
     console.log(`   Sessions: ${this.config.sessionsPerRun}`);
     console.log(`   Trades/Session: ${this.config.tradesPerSession}`);
     console.log(`   Mode: ${this.config.dryRun ? '🔍 DRY RUN' : '💸 LIVE TRADING'}`);
+    console.log(`   Seed: ${this.rootRng.seed} (replay with SIM_SEED)`);
+    console.log(`   Circuit Breaker: ${this.breaker.isTripped() ? '🚨 TRIPPED' : 'ARMED'}`);
     
     if (!this.config.dryRun) {
       console.log(`\n⚠️  LIVE TRADING MODE - REAL MONEY AT RISK!`);
@@ -623,8 +573,11 @@ Analyze and respond with JSON:
     }
     
     const allTrades: TradeResult[] = [];
+    this.breaker.startSession(this.config.totalCapital);
     
     for (let session = 1; session <= this.config.sessionsPerRun; session++) {
+      if (this.haltedByBreaker()) break;
+      
       console.log(`\n${'─'.repeat(70)}`);
       console.log(`📈 SESSION ${session}/${this.config.sessionsPerRun}`);
       console.log('─'.repeat(70));
@@ -652,7 +605,16 @@ Analyze and respond with JSON:
     const sessionTrades: TradeResult[] = [];
     let tradesExecuted = 0;
     
-    const markets = await this.ethereal.getMarkets();
+    let markets: EtherealMarket[];
+    try {
+      markets = await this.ethereal.getMarkets();
+    } catch (error) {
+      this.breaker.recordApiError(error, 'ethereal-agent');
+      throw error;
+    }
+    for (const market of markets) {
+      this.breaker.recordPrice(market.symbol, market.lastPrice, Date.now(), 'ethereal-agent');
+    }
     console.log(`\n📊 Analyzing ${markets.length} markets...\n`);
     
     // Sort markets by potential opportunity
@@ -663,6 +625,9 @@ Analyze and respond with JSON:
         console.log(`\n✋ Session trade limit reached (${tradesExecuted})`);
         break;
       }
+      // Markets are fetched once per session; don't trade on a snapshot gone stale
+      this.breaker.checkStaleness('ethereal-agent');
+      if (this.haltedByBreaker()) break;
       
       console.log(`\n🎯 ${market.symbol}`);
       console.log(`   Price: $${market.lastPrice.toLocaleString()} (${market.priceChangePercent24h >= 0 ? '+' : ''}${market.priceChangePercent24h.toFixed(2)}%)`);
@@ -697,7 +662,7 @@ Analyze and respond with JSON:
       console.log(`   SL: $${analysis.stopLossPrice.toLocaleString()} (-${analysis.stopLossPercent.toFixed(1)}%)`);
       
       // Simulate or execute trade
-      const outcome = this.simulateTradeOutcome(market, analysis, leverage);
+      const outcome = await this.simulateTradeOutcome(market, analysis, leverage, positionSize);
       
       const emoji = outcome.outcome === 'WIN' ? '✅' : outcome.outcome === 'LOSS' ? '❌' : '➖';
       console.log(`\n   ${emoji} ${outcome.outcome} | Exit: ${outcome.exitReason} @ ${outcome.holdTimeMinutes}min`);
@@ -722,10 +687,18 @@ Analyze and respond with JSON:
         pnl: outcome.pnl,
         resolved: true,
         resolutionDate: Date.now(),
+        maxFavorableExcursion: outcome.maxProfit,
+        maxAdverseExcursion: outcome.maxDrawdown,
+        seed: this.rootRng.seed,
+        agent: 'ethereal-agent',
+        strategy: analysis.model ? 'llm' : 'fallback',
+        configHash: this.configHash,
+        model: analysis.model,
       };
       
       sessionTrades.push(trade);
       this.tracker.saveTrade(trade);
+      this.breaker.recordTrade(positionSize * outcome.pnl, 'ethereal-agent');
       tradesExecuted++;
       
       await this.sleep(1000);
@@ -734,6 +707,18 @@ Analyze and respond with JSON:
     return sessionTrades;
   }
 
+  /**
+   * Stop taking trades once the circuit breaker has tripped
+   */
+  private haltedByBreaker(): boolean {
+    const state = this.breaker.getState();
+    if (!state.tripped) return false;
+    
+    console.log(`\n🚨 Circuit breaker tripped [${state.trip!.trigger}]: ${state.trip!.reason}`);
+    console.log(`   No new trades until reset (pnpm breaker reset)`);
+    return true;
+  }
+
   /**
    * Rank markets by opportunity score
    */
@@ -867,7 +852,12 @@ Analyze and respond with JSON:
       const worst = sorted[sorted.length - 1];
       console.log(`   ${worst.marketId} ${worst.action.toUpperCase()} | PnL: ${((worst.pnl || 0) * 100).toFixed(2)}%`);
     }
-    
+
+    const llmUsage = this.llm.getUsage();
+    if (llmUsage.requests > 0 || llmUsage.failures > 0) {
+      console.log(`\n🤖 LLM: ${llmUsage.requests} calls (${llmUsage.failures} failed, ${llmUsage.parseFailures} off-schema, ${llmUsage.repairs} repaired) | ${llmUsage.inputTokens + llmUsage.outputTokens} tokens | $${llmUsage.costUsd.toFixed(4)}`);
+    }
+
     // Export
     this.tracker.exportToCSV();
     console.log(`\n💾 Results saved to: ./trade-results/ethereal-live/`);
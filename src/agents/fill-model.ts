@@ -0,0 +1,213 @@
+/**
+ * Fill Model - Order Book Walk for Slippage, Impact and Fees
+ *
+ * Walks the bids or asks of an EtherealOrderBook for the actual order size
+ * to estimate the average fill price, the slippage against mid, the market
+ * impact (worst level touched vs best) and the taker fee. Markets without a
+ * book get a synthetic one sized from 24h volume.
+ *
+ * Also holds the funding accrual used for position accounting.
+ *
+ * Costs are fractions of notional; multiply by leverage for return on margin.
+ */
+
+import { EtherealMarket, EtherealOrderBook } from '../clients/ethereal-client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FillModelConfig {
+  takerFeeBps: number;               // Charged on every market order fill
+  makerFeeBps: number;               // Resting (limit) fills
+  syntheticLevels: number;           // Levels per side in a volume-derived book
+  syntheticLevelVolumeShare: number; // Each synthetic level holds this share of 24h volume
+}
+
+export interface FillEstimate {
+  side: 'BUY' | 'SELL';
+  requestedQuantity: number;         // Base units
+  filledQuantity: number;            // Base units available on the book
+  averagePrice: number;
+  midPrice: number;
+  bestPrice: number;
+  worstPrice: number;                // Deepest level touched
+  slippagePercent: number;           // Average price vs mid, as a cost (>= 0 unless the book is crossed)
+  impactPercent: number;             // Worst level vs best level
+  feePercent: number;
+  fee: number;                       // USD
+  costPercent: number;               // slippagePercent + feePercent
+  fullyFilled: boolean;
+  source: 'book' | 'synthetic';
+}
+
+export interface TradeCostEstimate {
+  entry: FillEstimate;
+  exit: FillEstimate;                // Unwinding the same quantity into today's book
+  roundTripCostPercent: number;
+}
+
+// ============================================================================
+// DEFAULT CONFIG
+// ============================================================================
+
+export const FUNDING_INTERVAL_MS = 60 * 60 * 1000;   // Ethereal funding rates are hourly
+
+const DEFAULT_FILL_CONFIG: FillModelConfig = {
+  takerFeeBps: 3,
+  makerFeeBps: 0,
+  syntheticLevels: 20,
+  syntheticLevelVolumeShare: 0.0005,   // $30M/day → $15k per level
+};
+
+// ============================================================================
+// FILL MODEL
+// ============================================================================
+
+export class FillModel {
+  private config: FillModelConfig;
+
+  constructor(config: Partial<FillModelConfig> = {}) {
+    this.config = { ...DEFAULT_FILL_CONFIG, ...config };
+  }
+
+  getConfig(): FillModelConfig {
+    return this.config;
+  }
+
+  /**
+   * Fee for a fill of the given notional
+   */
+  fee(notional: number, maker: boolean = false): number {
+    const bps = maker ? this.config.makerFeeBps : this.config.takerFeeBps;
+    return Math.abs(notional) * bps / 10000;
+  }
+
+  /**
+   * Walk the book for a market order of `quantity` base units
+   */
+  estimate(
+    book: EtherealOrderBook,
+    side: 'BUY' | 'SELL',
+    quantity: number,
+    source: FillEstimate['source'] = 'book'
+  ): FillEstimate {
+    const levels = side === 'BUY' ? book.asks : book.bids;
+    const bestBid = book.bids[0]?.[0];
+    const bestAsk = book.asks[0]?.[0];
+    const bestPrice = levels[0]?.[0] ?? bestBid ?? bestAsk ?? 0;
+    const midPrice = bestBid !== undefined && bestAsk !== undefined
+      ? (bestBid + bestAsk) / 2
+      : bestPrice;
+
+    let remaining = quantity;
+    let notional = 0;
+    let worstPrice = bestPrice;
+
+    for (const [price, size] of levels) {
+      if (remaining <= 0) break;
+      const take = Math.min(remaining, size);
+      notional += take * price;
+      remaining -= take;
+      worstPrice = price;
+    }
+
+    const filledQuantity = quantity - Math.max(remaining, 0);
+    const averagePrice = filledQuantity > 0 ? notional / filledQuantity : bestPrice;
+    const direction = side === 'BUY' ? 1 : -1;
+
+    const slippagePercent = midPrice > 0 ? direction * (averagePrice - midPrice) / midPrice * 100 : 0;
+    const impactPercent = bestPrice > 0 ? direction * (worstPrice - bestPrice) / bestPrice * 100 : 0;
+    const feePercent = this.config.takerFeeBps / 100;
+
+    return {
+      side,
+      requestedQuantity: quantity,
+      filledQuantity,
+      averagePrice,
+      midPrice,
+      bestPrice,
+      worstPrice,
+      slippagePercent,
+      impactPercent,
+      feePercent,
+      fee: this.fee(notional),
+      costPercent: slippagePercent + feePercent,
+      fullyFilled: remaining <= 1e-12,
+      source,
+    };
+  }
+
+  /**
+   * Entry and exit estimate for a position of `notional` USD
+   */
+  estimateRoundTrip(
+    market: EtherealMarket,
+    side: 'LONG' | 'SHORT',
+    notional: number,
+    book?: EtherealOrderBook
+  ): TradeCostEstimate {
+    const usable = book && book.bids.length > 0 && book.asks.length > 0;
+    const source = usable ? 'book' : 'synthetic';
+    const levels = usable ? book! : this.syntheticBook(market);
+
+    const entry = this.estimate(levels, side === 'LONG' ? 'BUY' : 'SELL', notional / market.lastPrice, source);
+    const exit = this.estimate(levels, side === 'LONG' ? 'SELL' : 'BUY', entry.filledQuantity, source);
+
+    return {
+      entry,
+      exit,
+      roundTripCostPercent: entry.costPercent + exit.costPercent,
+    };
+  }
+
+  /**
+   * Book implied by 24h volume: thinner markets quote wider and shallower
+   */
+  syntheticBook(market: EtherealMarket): EtherealOrderBook {
+    const price = market.lastPrice;
+    const volume = Math.max(market.volume24h, 1);
+    const halfSpreadBps = Math.min(50, Math.max(1, 30000000 / volume));
+    const levelSize = volume * this.config.syntheticLevelVolumeShare / price;
+
+    const bids: [number, number][] = [];
+    const asks: [number, number][] = [];
+    for (let i = 0; i < this.config.syntheticLevels; i++) {
+      const offset = (halfSpreadBps + i) / 10000;
+      bids.push([price * (1 - offset), levelSize]);
+      asks.push([price * (1 + offset), levelSize]);
+    }
+
+    return { symbol: market.symbol, bids, asks, timestamp: 0 };
+  }
+}
+
+/**
+ * Funding received on `notional` USD held for `elapsedMs` (negative when paid).
+ * Positive rates mean longs pay shorts; the rate applies per `intervalMs`.
+ */
+export function fundingPayment(
+  side: 'LONG' | 'SHORT',
+  notional: number,
+  fundingRate: number,
+  elapsedMs: number,
+  intervalMs: number = FUNDING_INTERVAL_MS
+): number {
+  if (elapsedMs <= 0 || intervalMs <= 0) return 0;
+  const direction = side === 'LONG' ? -1 : 1;
+  return direction * Math.abs(notional) * fundingRate * elapsedMs / intervalMs;
+}
+
+/**
+ * Probability-weighted edge after costs, as a % of notional
+ */
+export function expectedEdgePercent(
+  winProbability: number,
+  takeProfitDistance: number,        // Fraction of entry
+  stopLossDistance: number,          // Fraction of entry
+  costPercent: number = 0
+): number {
+  return (winProbability * takeProfitDistance - (1 - winProbability) * stopLossDistance) * 100 - costPercent;
+}
+
+export default FillModel;
@@ -0,0 +1,547 @@
+/**
+ * Forecast Calibration - Ledger, Scoring and Recalibration
+ *
+ * Every forecast the agent makes is stored in `forecasts.db` together with
+ * the condition's endTime. After conditions end, resolveForecasts() asks the
+ * Sapience GraphQL API for their outcomes. Resolved forecasts are scored
+ * (Brier score, log loss, reliability diagram) per model and category, and
+ * a calibration map (isotonic or Platt) fitted on them adjusts the raw LLM
+ * probability before it is submitted.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { gql, GraphQLClient } from 'graphql-request';
+import type { AggregationRule, MemberForecast } from './ensemble-forecaster';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface LedgerForecast {
+  conditionId: string;
+  question: string;
+  category?: string;                 // Sapience category slug
+  model?: string;                    // LLM behind the forecast
+  rawProbability: number;            // Model output, 0-100
+  probability: number;               // After calibration (what gets submitted), 0-100
+  confidence: number;
+  edge: number;
+  reasoning: string;
+  calibration?: string;              // Map applied, e.g. "isotonic (n=42)"
+  aggregation?: AggregationRule;     // How ensemble members were pooled
+  members?: MemberForecast[];        // Each member's answer and weight
+  marketPrice?: number;              // Dome-implied YES price at the time, 0-100
+  endTime: number;                   // Condition end (unix seconds)
+  timestamp: number;                 // When the forecast was made (ms)
+
+  submitted?: boolean;
+  txHash?: string;
+  submittedAt?: number;              // When the attestation mined (ms)
+  batchSize?: number;                // Forecasts in the same transaction
+  gasPaidEth?: number;               // This forecast's share of the fee actually paid
+
+  // Filled in by resolveForecasts()
+  resolved?: boolean;
+  outcome?: boolean;                 // true = resolved YES
+  resolvedAt?: number;
+}
+
+export interface SubmissionDetails {
+  batchSize: number;
+  gasPaidEth: number;
+}
+
+export interface ForecastQuery {
+  conditionId?: string;
+  model?: string;
+  category?: string;
+  resolved?: boolean;
+  submitted?: boolean;
+  endsAfter?: number;                // end_time > endsAfter (unix seconds)
+}
+
+export interface ConditionOutcome {
+  conditionId: string;
+  settled: boolean;
+  outcome?: boolean;                 // Only meaningful once settled
+}
+
+export type OutcomeFetcher = (conditionIds: string[]) => Promise<ConditionOutcome[]>;
+
+export interface ResolutionSummary {
+  checked: number;                   // Ended conditions looked up
+  settled: number;                   // Of those, settled on Sapience
+  forecasts: number;                 // Ledger rows resolved
+}
+
+export interface ReliabilityBin {
+  lower: number;                     // Forecast range, 0-1
+  upper: number;
+  count: number;
+  meanForecast: number;              // Average forecast in the bin, 0-1
+  observedRate: number;              // Share that resolved YES, 0-1
+}
+
+export interface ForecastScore {
+  count: number;
+  brier: number;                     // Mean squared error of the submitted probability (0 best)
+  logLoss: number;
+  rawBrier: number;                  // Same for the uncalibrated model output
+  rawLogLoss: number;
+  reliability: ReliabilityBin[];
+}
+
+export interface CalibrationReport {
+  overall: ForecastScore;
+  byModel: Record<string, ForecastScore>;
+  byCategory: Record<string, ForecastScore>;
+}
+
+export type CalibrationMethod = 'isotonic' | 'platt';
+
+export type CalibrationMap =
+  | { method: 'identity'; samples: number }
+  | { method: 'isotonic'; samples: number; points: { raw: number; calibrated: number }[] }
+  | { method: 'platt'; samples: number; a: number; b: number };
+
+export interface CalibrationConfig {
+  method: CalibrationMethod | 'none';   // 'none' records forecasts but submits them unchanged
+  minResolved: number;               // Resolved forecasts needed before a map is fitted
+  resultsDir: string;
+}
+
+export const DEFAULT_CALIBRATION_CONFIG: CalibrationConfig = {
+  method: 'isotonic',
+  minResolved: 30,
+  resultsDir: './trade-results/forecasts',
+};
+
+const SAPIENCE_GRAPHQL_URL = 'https://api.sapience.xyz/graphql';
+
+// Calibrated probabilities stay inside [1%, 99%]: a handful of lucky
+// outcomes must not push a submission to certainty
+const MIN_CALIBRATED = 0.01;
+const MAX_CALIBRATED = 0.99;
+
+// Log loss of a 0% / 100% forecast is infinite; clip before taking logs
+const LOG_EPSILON = 1e-4;
+
+// ============================================================================
+// LEDGER
+// ============================================================================
+
+export class ForecastLedger {
+  private dbFile: string;
+  private db: Database.Database;
+
+  constructor(resultsDir: string = DEFAULT_CALIBRATION_CONFIG.resultsDir) {
+    if (!fs.existsSync(resultsDir)) {
+      fs.mkdirSync(resultsDir, { recursive: true });
+    }
+    this.dbFile = path.join(resultsDir, 'forecasts.db');
+    this.db = this.open();
+  }
+
+  private open(): Database.Database {
+    const db = new Database(this.dbFile);
+    db.pragma('journal_mode = WAL');
+    db.pragma('busy_timeout = 5000');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS forecasts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        condition_id TEXT NOT NULL,
+        model TEXT,
+        category TEXT,
+        end_time INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        submitted INTEGER NOT NULL DEFAULT 0,
+        resolved INTEGER NOT NULL DEFAULT 0,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_forecasts_condition_id ON forecasts (condition_id);
+      CREATE INDEX IF NOT EXISTS idx_forecasts_end_time ON forecasts (end_time);
+      CREATE INDEX IF NOT EXISTS idx_forecasts_resolved ON forecasts (resolved);
+    `);
+    return db;
+  }
+
+  /**
+   * Store a forecast
+   */
+  record(forecast: LedgerForecast): void {
+    this.db.prepare(`
+      INSERT INTO forecasts (condition_id, model, category, end_time, timestamp, submitted, resolved, data)
+      VALUES (@conditionId, @model, @category, @endTime, @timestamp, @submitted, @resolved, @data)
+    `).run(this.toRow(forecast));
+  }
+
+  /**
+   * Mark the latest unsubmitted forecast for a condition as submitted
+   */
+  markSubmitted(conditionId: string, txHash: string, details?: SubmissionDetails, submittedAt: number = Date.now()): void {
+    const row = this.db
+      .prepare('SELECT id, data FROM forecasts WHERE condition_id = ? AND submitted = 0 ORDER BY id DESC LIMIT 1')
+      .get(conditionId) as { id: number; data: string } | undefined;
+    if (!row) return;
+
+    const forecast: LedgerForecast = { ...JSON.parse(row.data), submitted: true, txHash, submittedAt, ...details };
+    this.update(row.id, forecast);
+  }
+
+  /**
+   * ETH paid for attestations mined at or after `sinceMs`
+   */
+  gasSpentSince(sinceMs: number): number {
+    return this.query({ submitted: true })
+      .filter(f => (f.submittedAt ?? 0) >= sinceMs)
+      .reduce((sum, f) => sum + (f.gasPaidEth ?? 0), 0);
+  }
+
+  /**
+   * Conditions with unresolved forecasts whose endTime has passed
+   */
+  endedConditions(nowSec: number = Math.floor(Date.now() / 1000)): string[] {
+    const rows = this.db
+      .prepare('SELECT DISTINCT condition_id FROM forecasts WHERE resolved = 0 AND end_time <= ? ORDER BY condition_id')
+      .all(nowSec) as { condition_id: string }[];
+    return rows.map(row => row.condition_id);
+  }
+
+  /**
+   * Record the outcome on every forecast for a condition, returns rows updated
+   */
+  resolveCondition(conditionId: string, outcome: boolean, resolvedAt: number = Date.now()): number {
+    const rows = this.db
+      .prepare('SELECT id, data FROM forecasts WHERE condition_id = ? AND resolved = 0')
+      .all(conditionId) as { id: number; data: string }[];
+
+    this.db.transaction(() => {
+      for (const row of rows) {
+        this.update(row.id, { ...JSON.parse(row.data), resolved: true, outcome, resolvedAt });
+      }
+    })();
+    return rows.length;
+  }
+
+  /**
+   * Forecasts matching every given filter, oldest first
+   */
+  query(query: ForecastQuery = {}): LedgerForecast[] {
+    const clauses: string[] = [];
+    const params: Record<string, unknown> = {};
+
+    if (query.conditionId !== undefined) { clauses.push('condition_id = @conditionId'); params.conditionId = query.conditionId; }
+    if (query.model !== undefined) { clauses.push('model = @model'); params.model = query.model; }
+    if (query.category !== undefined) { clauses.push('category = @category'); params.category = query.category; }
+    if (query.resolved !== undefined) { clauses.push('resolved = @resolved'); params.resolved = query.resolved ? 1 : 0; }
+    if (query.submitted !== undefined) { clauses.push('submitted = @submitted'); params.submitted = query.submitted ? 1 : 0; }
+    if (query.endsAfter !== undefined) { clauses.push('end_time > @endsAfter'); params.endsAfter = query.endsAfter; }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT data FROM forecasts ${where} ORDER BY timestamp, id`)
+      .all(params) as { data: string }[];
+
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private update(id: number, forecast: LedgerForecast): void {
+    this.db.prepare(`
+      UPDATE forecasts SET submitted = @submitted, resolved = @resolved, data = @data WHERE id = @id
+    `).run({ ...this.toRow(forecast), id });
+  }
+
+  private toRow(forecast: LedgerForecast) {
+    return {
+      conditionId: forecast.conditionId,
+      model: forecast.model ?? null,
+      category: forecast.category ?? null,
+      endTime: forecast.endTime,
+      timestamp: forecast.timestamp,
+      submitted: forecast.submitted ? 1 : 0,
+      resolved: forecast.resolved ? 1 : 0,
+      data: JSON.stringify(forecast),
+    };
+  }
+}
+
+// ============================================================================
+// RESOLVER
+// ============================================================================
+
+/**
+ * Outcome lookup against the Sapience GraphQL API
+ */
+export function sapienceOutcomeFetcher(url: string = SAPIENCE_GRAPHQL_URL): OutcomeFetcher {
+  const client = new GraphQLClient(url);
+  const query = gql`
+    query ConditionOutcomes($ids: [String!]) {
+      conditions(where: { id: { in: $ids } }) {
+        id
+        settled
+        resolvedToYes
+      }
+    }
+  `;
+
+  return async (conditionIds) => {
+    const { conditions } = await client.request<{
+      conditions: { id: string; settled: boolean; resolvedToYes: boolean }[];
+    }>(query, { ids: conditionIds });
+
+    return conditions.map(c => ({
+      conditionId: c.id,
+      settled: c.settled,
+      outcome: c.settled ? c.resolvedToYes : undefined,
+    }));
+  };
+}
+
+/**
+ * Look up outcomes for every ended condition in the ledger and record the
+ * settled ones. Unsettled conditions are retried on the next run.
+ */
+export async function resolveForecasts(
+  ledger: ForecastLedger,
+  fetchOutcomes: OutcomeFetcher = sapienceOutcomeFetcher(),
+  nowSec: number = Math.floor(Date.now() / 1000),
+  batchSize: number = 50
+): Promise<ResolutionSummary> {
+  const ended = ledger.endedConditions(nowSec);
+  const summary: ResolutionSummary = { checked: ended.length, settled: 0, forecasts: 0 };
+
+  for (let i = 0; i < ended.length; i += batchSize) {
+    const outcomes = await fetchOutcomes(ended.slice(i, i + batchSize));
+    for (const { conditionId, settled, outcome } of outcomes) {
+      if (!settled || outcome === undefined) continue;
+      summary.settled++;
+      summary.forecasts += ledger.resolveCondition(conditionId, outcome);
+    }
+  }
+
+  return summary;
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+/**
+ * Brier score, log loss and reliability bins over resolved forecasts
+ */
+export function scoreForecasts(forecasts: LedgerForecast[], bins: number = 10): ForecastScore {
+  const resolved = forecasts.filter(f => f.resolved && f.outcome !== undefined);
+  const reliability: ReliabilityBin[] = Array.from({ length: bins }, (_, i) => ({
+    lower: i / bins,
+    upper: (i + 1) / bins,
+    count: 0,
+    meanForecast: 0,
+    observedRate: 0,
+  }));
+
+  if (resolved.length === 0) {
+    return { count: 0, brier: 0, logLoss: 0, rawBrier: 0, rawLogLoss: 0, reliability };
+  }
+
+  let brier = 0, logLoss = 0, rawBrier = 0, rawLogLoss = 0;
+  for (const forecast of resolved) {
+    const y = forecast.outcome ? 1 : 0;
+    const p = forecast.probability / 100;
+    const raw = forecast.rawProbability / 100;
+
+    brier += (p - y) ** 2;
+    logLoss += crossEntropy(p, y);
+    rawBrier += (raw - y) ** 2;
+    rawLogLoss += crossEntropy(raw, y);
+
+    const bin = reliability[Math.min(bins - 1, Math.floor(p * bins))];
+    bin.count++;
+    bin.meanForecast += p;
+    bin.observedRate += y;
+  }
+
+  for (const bin of reliability) {
+    if (bin.count === 0) continue;
+    bin.meanForecast /= bin.count;
+    bin.observedRate /= bin.count;
+  }
+
+  const n = resolved.length;
+  return {
+    count: n,
+    brier: brier / n,
+    logLoss: logLoss / n,
+    rawBrier: rawBrier / n,
+    rawLogLoss: rawLogLoss / n,
+    reliability,
+  };
+}
+
+/**
+ * Scores overall, per model and per category
+ */
+export function calibrationReport(forecasts: LedgerForecast[], bins: number = 10): CalibrationReport {
+  const resolved = forecasts.filter(f => f.resolved && f.outcome !== undefined);
+  const scoreGroups = (key: (f: LedgerForecast) => string) => {
+    const groups = new Map<string, LedgerForecast[]>();
+    for (const forecast of resolved) {
+      const group = key(forecast);
+      groups.set(group, [...(groups.get(group) ?? []), forecast]);
+    }
+    return Object.fromEntries([...groups].map(([group, items]) => [group, scoreForecasts(items, bins)]));
+  };
+
+  return {
+    overall: scoreForecasts(resolved, bins),
+    byModel: scoreGroups(f => f.model ?? 'unknown'),
+    byCategory: scoreGroups(f => f.category ?? 'uncategorized'),
+  };
+}
+
+function crossEntropy(p: number, y: number): number {
+  const clipped = Math.min(1 - LOG_EPSILON, Math.max(LOG_EPSILON, p));
+  return -(y * Math.log(clipped) + (1 - y) * Math.log(1 - clipped));
+}
+
+// ============================================================================
+// CALIBRATION
+// ============================================================================
+
+/**
+ * Fit a map from raw model probability to observed frequency. Returns the
+ * identity map until `minSamples` forecasts have resolved.
+ */
+export function fitCalibration(
+  forecasts: LedgerForecast[],
+  method: CalibrationMethod = 'isotonic',
+  minSamples: number = DEFAULT_CALIBRATION_CONFIG.minResolved
+): CalibrationMap {
+  const samples = forecasts
+    .filter(f => f.resolved && f.outcome !== undefined)
+    .map(f => ({ p: f.rawProbability / 100, y: f.outcome ? 1 : 0 }));
+
+  if (samples.length < Math.max(1, minSamples)) {
+    return { method: 'identity', samples: samples.length };
+  }
+
+  return method === 'platt' ? fitPlatt(samples) : fitIsotonic(samples);
+}
+
+/**
+ * Calibrated probability (0-100) for a raw model probability (0-100)
+ */
+export function applyCalibration(map: CalibrationMap, probability: number): number {
+  if (map.method === 'identity') return probability;
+
+  const p = probability / 100;
+  let calibrated: number;
+
+  if (map.method === 'platt') {
+    calibrated = sigmoid(map.a * logit(p) + map.b);
+  } else {
+    const { points } = map;
+    if (p <= points[0].raw) {
+      calibrated = points[0].calibrated;
+    } else if (p >= points[points.length - 1].raw) {
+      calibrated = points[points.length - 1].calibrated;
+    } else {
+      // Linear between neighbouring block centres
+      const i = points.findIndex(point => point.raw > p);
+      const lo = points[i - 1], hi = points[i];
+      calibrated = lo.calibrated + (hi.calibrated - lo.calibrated) * (p - lo.raw) / (hi.raw - lo.raw);
+    }
+  }
+
+  return Math.min(MAX_CALIBRATED, Math.max(MIN_CALIBRATED, calibrated)) * 100;
+}
+
+/**
+ * Short description for logs and the ledger
+ */
+export function describeCalibration(map: CalibrationMap): string {
+  switch (map.method) {
+    case 'identity': return `identity (n=${map.samples})`;
+    case 'isotonic': return `isotonic (n=${map.samples}, ${map.points.length} steps)`;
+    case 'platt': return `platt (n=${map.samples}, a=${map.a.toFixed(3)}, b=${map.b.toFixed(3)})`;
+  }
+}
+
+/**
+ * Pool-adjacent-violators: the non-decreasing step function closest to
+ * the outcomes in squared error
+ */
+function fitIsotonic(samples: { p: number; y: number }[]): CalibrationMap {
+  const sorted = [...samples].sort((a, b) => a.p - b.p);
+  const blocks: { sumP: number; sumY: number; count: number }[] = [];
+
+  for (const { p, y } of sorted) {
+    blocks.push({ sumP: p, sumY: y, count: 1 });
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const prev = blocks[blocks.length - 2];
+      if (prev.sumY / prev.count < last.sumY / last.count) break;
+      blocks.pop();
+      prev.sumP += last.sumP;
+      prev.sumY += last.sumY;
+      prev.count += last.count;
+    }
+  }
+
+  return {
+    method: 'isotonic',
+    samples: samples.length,
+    points: blocks.map(block => ({ raw: block.sumP / block.count, calibrated: block.sumY / block.count })),
+  };
+}
+
+/**
+ * Platt scaling on the log-odds: sigmoid(a * logit(p) + b), fitted by
+ * Newton's method against Platt's smoothed targets
+ */
+function fitPlatt(samples: { p: number; y: number }[]): CalibrationMap {
+  const positives = samples.filter(s => s.y === 1).length;
+  const negatives = samples.length - positives;
+  const hi = (positives + 1) / (positives + 2);
+  const lo = 1 / (negatives + 2);
+  const points = samples.map(s => ({ x: logit(s.p), t: s.y === 1 ? hi : lo }));
+
+  let a = 1, b = 0;
+  for (let iteration = 0; iteration < 100; iteration++) {
+    let gA = 0, gB = 0, hAA = 1e-9, hAB = 0, hBB = 1e-9;
+    for (const { x, t } of points) {
+      const q = sigmoid(a * x + b);
+      const d = q - t;
+      const w = q * (1 - q);
+      gA += d * x;
+      gB += d;
+      hAA += w * x * x;
+      hAB += w * x;
+      hBB += w;
+    }
+
+    const det = hAA * hBB - hAB * hAB;
+    if (Math.abs(det) < 1e-12) break;
+    const stepA = (hBB * gA - hAB * gB) / det;
+    const stepB = (hAA * gB - hAB * gA) / det;
+    a -= stepA;
+    b -= stepB;
+    if (Math.abs(stepA) + Math.abs(stepB) < 1e-9) break;
+  }
+
+  return { method: 'platt', samples: samples.length, a, b };
+}
+
+function logit(p: number): number {
+  const clipped = Math.min(1 - LOG_EPSILON, Math.max(LOG_EPSILON, p));
+  return Math.log(clipped / (1 - clipped));
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
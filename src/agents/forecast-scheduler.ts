@@ -0,0 +1,266 @@
+/**
+ * Forecast Scheduler - Revising Submitted Forecasts
+ *
+ * Keeps every condition we have submitted a forecast for (per the forecast
+ * ledger) fresh until it ends. Each tick re-forecasts a condition when
+ *   - its revision interval has passed; intervals tighten as endTime nears
+ *     (see DEFAULT_SCHEDULER_CONFIG.tiers), or
+ *   - the Dome-implied price of similar markets has moved by
+ *     `priceMoveThreshold` points since the last forecast.
+ * The new forecast is recorded either way, but only attested on-chain when
+ * it differs from the submitted one by `minProbabilityChange` points, so
+ * no gas goes on no-op updates. A tick's material revisions are attested
+ * together (see EasAttester), within the agent's gas budget. Intervals and
+ * price moves count from the last forecast that settled the condition: one
+ * that was submitted, or close enough to the submitted one not to need it.
+ * A material revision that went unsubmitted (over budget, failed) stays due.
+ */
+
+import { Clock, systemClock } from '../utils/clock';
+import type { AttestableForecast } from '../clients/eas-attester';
+import { MarketPriorSource, impliedProbability } from './ensemble-forecaster';
+import { LedgerForecast } from './forecast-calibration';
+import type { Condition, ForecastingAgent } from './forecasting-agent';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RevisionTier {
+  withinHours: number;               // Applies while endTime is at most this far away
+  everyHours: number;                // Re-forecast interval
+}
+
+export interface SchedulerConfig {
+  tickIntervalMs: number;            // How often tracked conditions are checked
+  tiers: RevisionTier[];             // Tightest first; the first matching tier wins
+  priceMoveThreshold: number;        // Dome price move (points) that forces a revision
+  minProbabilityChange: number;      // Re-submit only when the forecast moved this many points
+  maxSubmissionsPerTick: number;     // Gas cap; remaining revisions wait for the next tick
+}
+
+export interface TrackedCondition {
+  condition: Condition;
+  submitted: LedgerForecast;         // Forecast currently on-chain
+  reviewed: LedgerForecast;          // Last forecast that settled it (revision clock and price baseline)
+  latest: LedgerForecast;            // Most recent forecast, submitted or not
+}
+
+export type RevisionReason = 'schedule' | 'price-move';
+
+export interface TickSummary {
+  tracked: number;
+  revised: number;                   // Re-forecast this tick
+  submitted: number;                 // Of those, attested on-chain
+  unchanged: number;                 // Of those, within minProbabilityChange of the submitted forecast
+  overBudget: number;                // Material revisions the gas budget didn't cover
+  failed: number;
+}
+
+export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  tickIntervalMs: 15 * 60 * 1000,
+  tiers: [
+    { withinHours: 6, everyHours: 0.5 },
+    { withinHours: 24, everyHours: 2 },
+    { withinHours: 7 * 24, everyHours: 12 },
+    { withinHours: Infinity, everyHours: 48 },
+  ],
+  priceMoveThreshold: 5,
+  minProbabilityChange: 5,
+  maxSubmissionsPerTick: 5,
+};
+
+const HOUR = 60 * 60 * 1000;
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+export class ForecastScheduler {
+  private config: SchedulerConfig;
+  private isRunning = false;
+  private ticking = false;
+  private tickInterval?: NodeJS.Timeout;
+
+  constructor(
+    private agent: ForecastingAgent,
+    private markets: MarketPriorSource,
+    config: Partial<SchedulerConfig> = {},
+    private clock: Clock = systemClock
+  ) {
+    this.config = { ...DEFAULT_SCHEDULER_CONFIG, ...config };
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    console.log('🗓️  Forecast Scheduler started');
+    await this.runTick();
+
+    // A slow tick (LLM calls, transactions) is never overlapped by the next one
+    this.tickInterval = setInterval(() => {
+      if (!this.ticking) this.runTick();
+    }, this.config.tickIntervalMs);
+  }
+
+  /**
+   * A tick from the timer: a failure is logged and the next tick retries
+   */
+  private async runTick(): Promise<void> {
+    try {
+      await this.tick();
+    } catch (error: any) {
+      console.error('❌ Tick failed:', error.message);
+    }
+  }
+
+  stop(): void {
+    this.isRunning = false;
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+    }
+    console.log('🗓️  Forecast Scheduler stopped');
+  }
+
+  /**
+   * Submitted, not-yet-ended conditions, nearest endTime first
+   */
+  tracked(): TrackedCondition[] {
+    const nowSec = Math.floor(this.clock.now() / 1000);
+    const byCondition = new Map<string, Partial<TrackedCondition> & { latest: LedgerForecast }>();
+
+    // Oldest first, so later rows overwrite earlier ones
+    for (const forecast of this.agent.getLedger().query({ endsAfter: nowSec })) {
+      const entry = byCondition.get(forecast.conditionId) ?? { latest: forecast };
+      entry.latest = forecast;
+      if (forecast.submitted) entry.submitted = forecast;
+      if (entry.submitted && !this.isMaterial(forecast, entry.submitted)) entry.reviewed = forecast;
+      byCondition.set(forecast.conditionId, entry);
+    }
+
+    return [...byCondition.values()]
+      .filter((entry): entry is Omit<TrackedCondition, 'condition'> => !!entry.submitted && !!entry.reviewed)
+      .map(({ submitted, reviewed, latest }) => ({
+        condition: {
+          id: latest.conditionId,
+          question: latest.question,
+          endTime: latest.endTime,
+          category: latest.category,
+        },
+        submitted,
+        reviewed,
+        latest,
+      }))
+      .sort((a, b) => a.condition.endTime - b.condition.endTime);
+  }
+
+  /**
+   * One pass over the tracked conditions
+   */
+  async tick(): Promise<TickSummary> {
+    this.ticking = true;
+    const tracked = this.tracked();
+    const summary: TickSummary = { tracked: tracked.length, revised: 0, submitted: 0, unchanged: 0, overBudget: 0, failed: 0 };
+    const pending: AttestableForecast[] = [];
+
+    try {
+      for (const entry of tracked) {
+        if (pending.length >= this.config.maxSubmissionsPerTick) {
+          console.log(`⛽ Submission cap (${this.config.maxSubmissionsPerTick}) reached, remaining revisions wait`);
+          break;
+        }
+
+        try {
+          const forecast = await this.review(entry, summary);
+          if (forecast) pending.push(forecast);
+        } catch (error: any) {
+          summary.failed++;
+          console.error(`❌ Revision failed for ${entry.condition.id.slice(0, 10)}: ${error.message}`);
+        }
+      }
+
+      if (pending.length > 0) {
+        const result = await this.agent.submitForecasts(pending);
+        summary.submitted += result.batches.reduce((n, b) => n + b.conditionIds.length, 0);
+        summary.failed += result.failed.reduce((n, f) => n + f.conditionIds.length, 0);
+        summary.overBudget += result.overBudget.length;
+      }
+    } finally {
+      this.ticking = false;
+    }
+
+    console.log(
+      `🗓️  Tick: ${summary.tracked} tracked, ${summary.revised} revised, ` +
+      `${summary.submitted} submitted, ${summary.unchanged} unchanged` +
+      (summary.overBudget > 0 ? `, ${summary.overBudget} over gas budget` : '') +
+      (summary.failed > 0 ? `, ${summary.failed} failed` : '')
+    );
+    return summary;
+  }
+
+  /**
+   * Re-forecast a condition if due; returns the forecast when it's worth attesting
+   */
+  private async review(entry: TrackedCondition, summary: TickSummary): Promise<AttestableForecast | undefined> {
+    const { condition, submitted, latest } = entry;
+    const marketPrice = impliedProbability(await this.markets.findSimilarMarkets(condition.question));
+    const reason = this.revisionReason(entry, marketPrice);
+    if (!reason) return undefined;
+
+    console.log(`\n🔁 Revising (${reason}): ${condition.question.substring(0, 60)}`);
+    summary.revised++;
+
+    const forecast = this.agent.calibrateForecast(condition, {
+      ...(await this.agent.generateForecast(condition)),
+      marketPrice,
+    });
+
+    if (!this.isMaterial(forecast, submitted)) {
+      summary.unchanged++;
+      console.log(`   ⏸️  ${forecast.probability}% vs ${submitted.probability}% on-chain - not worth the gas`);
+      return undefined;
+    }
+
+    console.log(`   ${submitted.probability}% → ${forecast.probability}% (last forecast ${latest.probability}%)`);
+    return forecast;
+  }
+
+  /**
+   * Why a condition needs a new forecast now, if it does
+   */
+  revisionReason(entry: TrackedCondition, marketPrice?: number): RevisionReason | undefined {
+    const now = this.clock.now();
+    const untilEnd = entry.condition.endTime * 1000 - now;
+
+    if (now - entry.reviewed.timestamp >= revisionIntervalMs(untilEnd, this.config.tiers)) {
+      return 'schedule';
+    }
+
+    const baseline = entry.reviewed.marketPrice;
+    if (
+      marketPrice !== undefined &&
+      baseline !== undefined &&
+      Math.abs(marketPrice - baseline) >= this.config.priceMoveThreshold
+    ) {
+      return 'price-move';
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Whether a forecast moved far enough from the on-chain one to attest
+   */
+  private isMaterial(forecast: { probability: number }, submitted: LedgerForecast): boolean {
+    return Math.abs(forecast.probability - submitted.probability) >= this.config.minProbabilityChange;
+  }
+}
+
+/**
+ * Re-forecast interval for a condition ending `untilEndMs` from now
+ */
+export function revisionIntervalMs(untilEndMs: number, tiers: RevisionTier[] = DEFAULT_SCHEDULER_CONFIG.tiers): number {
+  const tier = tiers.find(t => untilEndMs <= t.withinHours * HOUR) ?? tiers[tiers.length - 1];
+  return tier.everyHours * HOUR;
+}
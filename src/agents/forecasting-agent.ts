@@ -1,7 +1,32 @@
 import "dotenv/config";
-import Groq from "groq-sdk";
 import { gql, GraphQLClient } from "graphql-request";
-import { SAPIENCE_CONFIG } from "../config";
+import { LlmClientConfig, createLlmClient } from "../clients/llm-client";
+import {
+  AttestationResult,
+  EasAttester,
+  EasAttesterConfig,
+  easAttesterConfigFromEnv,
+  rpcAttestationChain,
+} from "../clients/eas-attester";
+import {
+  DEFAULT_ENSEMBLE_CONFIG,
+  EnsembleConfig,
+  EnsembleForecaster,
+  MarketPriorSource,
+  MemberForecast,
+  ensembleConfigFromEnv,
+  impliedProbability,
+  learnMemberWeights,
+} from "./ensemble-forecaster";
+import {
+  CalibrationConfig,
+  CalibrationMap,
+  DEFAULT_CALIBRATION_CONFIG,
+  ForecastLedger,
+  applyCalibration,
+  describeCalibration,
+  fitCalibration,
+} from "./forecast-calibration";
 import { DomeAPIClient } from "../utils/dome-client";
 
 // Sapience GraphQL endpoint
@@ -11,11 +36,12 @@ const graphqlClient = new GraphQLClient(SAPIENCE_GRAPHQL_URL);
 // Initialize Dome API client
 const domeClient = new DomeAPIClient(process.env.DOME_API_KEY || "");
 
-interface Condition {
+export interface Condition {
   id: string;
   question: string;
   shortName?: string;
   endTime: number;
+  category?: string; // Sapience category slug
 }
 
 interface Forecast {
@@ -24,25 +50,57 @@ interface Forecast {
   reasoning: string;
 }
 
-interface ForecastWithConfidence extends Forecast {
+export interface ForecastWithConfidence extends Forecast {
   confidence: number;
   edge: number; // Absolute difference from 50% (market uncertainty)
+  model?: string; // LLM that produced it
+  rawProbability?: number; // Model output before calibration
+  members?: MemberForecast[]; // Ensemble members behind it
+  marketPrice?: number; // Dome-implied YES price when forecast (revision trigger)
 }
 
+export { FORECAST_SCHEMA } from "./ensemble-forecaster";
+export type { ForecastOutput } from "./ensemble-forecaster";
+
 interface Config {
   privateKey: string;
   groqApiKey: string;
+  llm?: Partial<LlmClientConfig>; // Provider, model and routes (default: Groq, LLM_* env)
+  calibration?: Partial<CalibrationConfig>; // Forecast ledger and recalibration (default: isotonic after 30 resolved)
+  ensemble?: Partial<EnsembleConfig>; // Members and pooling (default: one analyst call, FORECAST_* env)
+  attestation?: Partial<EasAttesterConfig>; // Batching and gas budget (default: ATTEST_*/GAS_BUDGET_* env)
+  attester?: EasAttester; // Pre-built attester (e.g. over FakeAttestationChain)
+  markets?: MarketPriorSource; // Prediction market prices (default: Dome API)
 }
 
 export class ForecastingAgent {
-  private groq: Groq;
+  private ensemble: EnsembleForecaster;
+  private markets: MarketPriorSource;
+  private weightsLearned = false;
   private privateKey: string;
+  private attestation: Partial<EasAttesterConfig>;
+  private attester?: EasAttester;
+  private calibration: CalibrationConfig;
+  private ledger?: ForecastLedger;
+  private calibrationMap?: CalibrationMap;
 
   constructor(config: Config) {
-    this.groq = new Groq({ apiKey: config.groqApiKey });
+    this.markets = config.markets || domeClient;
+    this.ensemble = new EnsembleForecaster(
+      createLlmClient({ groqApiKey: config.groqApiKey, ...config.llm }),
+      this.markets,
+      {
+        ...DEFAULT_ENSEMBLE_CONFIG,
+        ...ensembleConfigFromEnv(),
+        ...config.ensemble,
+      },
+    );
+    this.calibration = { ...DEFAULT_CALIBRATION_CONFIG, ...config.calibration };
     this.privateKey = config.privateKey.startsWith("0x")
       ? config.privateKey
       : `0x${config.privateKey}`;
+    this.attestation = { ...easAttesterConfigFromEnv(), ...config.attestation };
+    this.attester = config.attester;
   }
 
   async getConditions(limit: number = 20): Promise<Condition[]> {
@@ -57,6 +115,9 @@ export class ForecastingAgent {
           question
           shortName
           endTime
+          category {
+            slug
+          }
         }
       }
     `;
@@ -71,7 +132,7 @@ export class ForecastingAgent {
 
     console.log(`✅ Fetched ${conditions.length} active conditions`);
 
-    return conditions;
+    return conditions.map((c) => ({ ...c, category: c.category?.slug }));
   }
 
   /**
@@ -111,9 +172,9 @@ export class ForecastingAgent {
         `Avg YES price: ${(avgYesPrice * 100).toFixed(1)}%, Volume: $${avgVolume.toLocaleString()}. ` +
         `Suggests ${domeProbability > 50 ? "bullish" : "bearish"} bias.`;
 
-      // Blend Sapience prediction with Dome signal (70% Sapience, 30% Dome)
-      // This gives more weight to our AI forecasting while still incorporating market signals
-      const sapienceAdjustedProbability = domeProbability; // For now, we'll use Dome as adjustment factor
+      // Market-implied probability only; blending with model forecasts happens
+      // in the ensemble (polymarket / kalshi members)
+      const sapienceAdjustedProbability = domeProbability;
 
       return {
         sapienceAdjustedProbability,
@@ -136,61 +197,27 @@ export class ForecastingAgent {
     const question = condition.shortName || condition.question;
     console.log(`\n🤖 Forecasting: ${question.substring(0, 80)}...`);
 
-    const response = await this.groq.chat.completions.create({
-      messages: [
-        {
-          role: "system",
-          content: `You are a professional forecaster. Analyze prediction markets using:
-1. Base-rate analysis (historical precedent)
-2. Conditional probabilities 
-3. Specific quantitative evidence
-4. Market structure/liquidity analysis
-5. Bayesian reasoning
-
-Format: [probability]% | confidence:[0-100] | [reasoning with specific numbers and logic]`,
-        },
-        {
-          role: "user",
-          content: `Forecast this binary outcome (0-100%): "${question}"
-
-Provide:
-- Probability estimate (0-100)
-- Confidence score (0-100) - how certain you are based on available evidence
-- Base rates from similar historical events with specific percentages
-- Key conditional factors with quantitative estimates
-- Specific numerical justifications (e.g., "Historical rate: 23%, adjusted +15% for X factor")
-- Market inefficiency analysis if applicable
-
-Format: [probability]% | confidence:[score] | [reasoning]
-Keep reasoning under 280 chars but be specific with numbers.`,
-        },
-      ],
-      model: SAPIENCE_CONFIG.GROQ_MODEL,
-      temperature: SAPIENCE_CONFIG.GROQ_TEMPERATURE,
-      max_tokens: SAPIENCE_CONFIG.GROQ_MAX_TOKENS,
-    });
-
-    const content = response.choices[0]?.message?.content?.trim() || "";
-
-    // Extract probability
-    const probMatch = content.match(/(\d{1,3})%/);
-    const probability = probMatch
-      ? Math.max(0, Math.min(100, parseInt(probMatch[1])))
-      : 50;
-
-    // Extract confidence score
-    const confMatch = content.match(/confidence:\s*(\d{1,3})/i);
-    const confidence = confMatch
-      ? Math.max(0, Math.min(100, parseInt(confMatch[1])))
-      : 50;
+    const ensemble = this.ensemble.getConfig();
+    if (ensemble.aggregation === "learned" && !this.weightsLearned) {
+      this.ensemble.setLearnedWeights(
+        learnMemberWeights(
+          this.getLedger().query({ resolved: true }),
+          ensemble.minLearnedSamples,
+        ),
+      );
+      this.weightsLearned = true;
+    }
 
-    // Extract reasoning (remove probability and confidence)
-    const reasoning = content
-      .replace(/^\d{1,3}%\s*\|?\s*/, "") // Remove leading "XX% |"
-      .replace(/confidence:\s*\d{1,3}\s*\|?\s*/i, "") // Remove confidence score
-      .trim()
-      .substring(0, 280); // Leave room for encoding
+    const { probability, confidence, reasoning, model, members } =
+      await this.ensemble.forecast(question);
 
+    if (members.length > 1) {
+      members.forEach((m) =>
+        console.log(
+          `   · ${m.id}: ${m.probability.toFixed(0)}% (confidence ${m.confidence.toFixed(0)}%, weight ${m.weight.toFixed(2)})`,
+        ),
+      );
+    }
     console.log(`   Probability: ${probability}%`);
     console.log(`   Confidence: ${confidence}%`);
     console.log(`   Reasoning: ${reasoning}`);
@@ -206,113 +233,170 @@ Keep reasoning under 280 chars but be specific with numbers.`,
       reasoning:
         reasoning ||
         `Base rate ${probability}% from similar historical outcomes`,
+      model,
+      members,
     };
   }
 
-  async submitForecastToSapience(forecast: Forecast): Promise<string> {
-    console.log(
-      `📤 Submitting ${forecast.probability}% → ${forecast.conditionId.slice(0, 10)}...`,
+  /**
+   * Dome-implied YES price (0-100) of markets similar to the condition
+   */
+  async getMarketPrice(condition: Condition): Promise<number | undefined> {
+    try {
+      return impliedProbability(
+        await this.markets.findSimilarMarkets(
+          condition.shortName || condition.question,
+        ),
+      );
+    } catch (error: any) {
+      console.warn("⚠️  Dome price unavailable:", error.message);
+      return undefined;
+    }
+  }
+
+  /**
+   * Forecast, calibrate and record a condition along with its market price,
+   * the baseline the scheduler measures price moves from
+   */
+  async forecastCondition(
+    condition: Condition,
+  ): Promise<ForecastWithConfidence> {
+    const forecast = await this.generateForecast(condition);
+    return this.calibrateForecast(condition, {
+      ...forecast,
+      marketPrice: await this.getMarketPrice(condition),
+    });
+  }
+
+  /**
+   * Forecast ledger, opened on first use
+   */
+  getLedger(): ForecastLedger {
+    if (!this.ledger) {
+      this.ledger = new ForecastLedger(this.calibration.resultsDir);
+    }
+    return this.ledger;
+  }
+
+  /**
+   * Calibration map fitted on the ledger's resolved forecasts (once per agent)
+   */
+  getCalibrationMap(): CalibrationMap {
+    if (!this.calibrationMap) {
+      const resolved = this.getLedger().query({ resolved: true });
+      this.calibrationMap =
+        this.calibration.method === "none"
+          ? { method: "identity", samples: resolved.length }
+          : fitCalibration(
+              resolved,
+              this.calibration.method,
+              this.calibration.minResolved,
+            );
+      console.log(
+        `📐 Calibration: ${describeCalibration(this.calibrationMap)}`,
+      );
+    }
+    return this.calibrationMap;
+  }
+
+  /**
+   * Apply the calibration map and record the forecast in the ledger
+   */
+  calibrateForecast(
+    condition: Condition,
+    forecast: ForecastWithConfidence,
+  ): ForecastWithConfidence {
+    const map = this.getCalibrationMap();
+    const probability = Math.round(
+      applyCalibration(map, forecast.probability),
     );
 
-    try {
-      // Use viem directly instead of @sapience/sdk
-      const {
-        createWalletClient,
-        http,
-        encodeAbiParameters,
-        encodeFunctionData,
-        parseAbiParameters,
-      } = await import("viem");
-      const { arbitrum } = await import("viem/chains");
-      const { privateKeyToAccount } = await import("viem/accounts");
-
-      // EAS contract address on Arbitrum
-      const EAS_ADDRESS = "0xbD75f629A22Dc1ceD33dDA0b68c546A1c035c458";
-      const SCHEMA_ID =
-        "0x7df55bcec6eb3b17b25c503cc318a36d33b0a9bbc2d6bc0d9788f9bd61980d49";
-
-      // Create wallet client
-      const account = privateKeyToAccount(this.privateKey as `0x${string}`);
-      const client = createWalletClient({
-        account,
-        chain: arbitrum,
-        transport: http("https://arb1.arbitrum.io/rpc"),
-      });
+    if (probability !== forecast.probability) {
+      console.log(`   Calibrated: ${forecast.probability}% → ${probability}%`);
+    }
+
+    const calibrated: ForecastWithConfidence = {
+      ...forecast,
+      probability,
+      rawProbability: forecast.probability,
+      edge: Math.abs(probability - 50),
+    };
+
+    this.getLedger().record({
+      conditionId: condition.id,
+      question: condition.shortName || condition.question,
+      category: condition.category,
+      model: forecast.model,
+      rawProbability: forecast.probability,
+      probability,
+      confidence: forecast.confidence,
+      edge: calibrated.edge,
+      reasoning: forecast.reasoning,
+      calibration: describeCalibration(map),
+      aggregation: forecast.members
+        ? this.ensemble.getConfig().aggregation
+        : undefined,
+      members: forecast.members,
+      marketPrice: forecast.marketPrice,
+      endTime: condition.endTime,
+      timestamp: Date.now(),
+    });
 
-      // Encode the attestation data
-      const encodedData = encodeAbiParameters(
-        parseAbiParameters(
-          "address resolver, bytes condition, uint256 forecast, string comment",
+    return calibrated;
+  }
+
+  /**
+   * EAS attester, created on first use. Earlier runs' spend comes from the
+   * ledger so the daily budget holds across restarts.
+   */
+  getAttester(): EasAttester {
+    if (!this.attester) {
+      this.attester = new EasAttester(
+        rpcAttestationChain(
+          this.privateKey as `0x${string}`,
+          this.attestation.rpcUrl,
         ),
-        [
-          "0x0000000000000000000000000000000000000000", // resolver (zero address)
-          forecast.conditionId as `0x${string}`, // condition as bytes32
-          BigInt(forecast.probability) * BigInt(10 ** 18), // Convert to D18 format
-          forecast.reasoning,
-        ],
+        this.attestation,
+        (sinceMs) => this.getLedger().gasSpentSince(sinceMs),
       );
+    }
+    return this.attester;
+  }
 
-      // Build EAS attest call
-      const attestationData = encodeFunctionData({
-        abi: [
-          {
-            name: "attest",
-            type: "function",
-            inputs: [
-              {
-                name: "request",
-                type: "tuple",
-                components: [
-                  { name: "schema", type: "bytes32" },
-                  {
-                    name: "data",
-                    type: "tuple",
-                    components: [
-                      { name: "recipient", type: "address" },
-                      { name: "expirationTime", type: "uint64" },
-                      { name: "revocable", type: "bool" },
-                      { name: "refUID", type: "bytes32" },
-                      { name: "data", type: "bytes" },
-                      { name: "value", type: "uint256" },
-                    ],
-                  },
-                ],
-              },
-            ],
-            outputs: [{ name: "", type: "bytes32" }],
-            stateMutability: "payable",
-          },
-        ],
-        functionName: "attest",
-        args: [
-          {
-            schema: SCHEMA_ID,
-            data: {
-              recipient: "0x0000000000000000000000000000000000000000",
-              expirationTime: 0n,
-              revocable: false,
-              refUID:
-                "0x0000000000000000000000000000000000000000000000000000000000000000",
-              data: encodedData,
-              value: 0n,
-            },
-          },
-        ],
-      });
+  /**
+   * Attest forecasts in gas-budgeted batches and record the receipts in the
+   * ledger (the latest unsubmitted forecast of each condition)
+   */
+  async submitForecasts(forecasts: Forecast[]): Promise<AttestationResult> {
+    console.log(`📤 Attesting ${forecasts.length} forecast(s)...`);
+    const result = await this.getAttester().attestForecasts(forecasts);
+
+    for (const { conditionIds, receipt } of result.batches) {
+      console.log(`   TX: https://arbiscan.io/tx/${receipt.txHash}`);
+      for (const conditionId of conditionIds) {
+        this.getLedger().markSubmitted(conditionId, receipt.txHash, {
+          batchSize: conditionIds.length,
+          gasPaidEth: receipt.costEth / conditionIds.length,
+        });
+      }
+    }
 
-      // Submit the transaction
-      const hash = await client.sendTransaction({
-        to: EAS_ADDRESS as `0x${string}`,
-        data: attestationData as `0x${string}`,
-        value: 0n,
-      });
+    return result;
+  }
 
-      console.log(`✅ TX: https://arbiscan.io/tx/${hash}`);
-      return hash;
-    } catch (error: any) {
-      console.error(`❌ Attestation failed: ${error.message}`);
-      throw error;
+  async submitForecastToSapience(forecast: Forecast): Promise<string> {
+    console.log(
+      `📤 Submitting ${forecast.probability}% → ${forecast.conditionId.slice(0, 10)}...`,
+    );
+
+    const result = await this.submitForecasts([forecast]);
+    if (result.batches.length === 0) {
+      const error =
+        result.failed[0]?.error ?? "Gas budget exhausted, forecast not sent";
+      console.error(`❌ Attestation failed: ${error}`);
+      throw new Error(error);
     }
+    return result.batches[0].receipt.txHash;
   }
 
   // ONE-SHOT: 5 forecasts max (your gas budget)
@@ -328,21 +412,24 @@ Keep reasoning under 280 chars but be specific with numbers.`,
       .sort(() => Math.random() - 0.5)
       .slice(0, 5);
 
-    let success = 0;
+    const forecasts: ForecastWithConfidence[] = [];
     for (const condition of longHorizon) {
       try {
-        const forecast = await this.generateForecast(condition);
-        await this.submitForecastToSapience(forecast);
-        success++;
-
-        // Gas-saving delay
-        await new Promise((r) => setTimeout(r, 5000));
+        forecasts.push(await this.forecastCondition(condition));
       } catch (e) {
         console.error(`❌ Skip: ${e}`);
       }
     }
 
+    // One multiAttest instead of five transactions
+    const result = await this.submitForecasts(forecasts);
+    const success = result.batches.reduce(
+      (n, b) => n + b.conditionIds.length,
+      0,
+    );
+
     console.log(`\n🎉 COMPLETE: ${success}/5 forecasts submitted`);
+    console.log(`⛽ Gas paid: ${result.spentEth.toFixed(6)} ETH`);
     console.log(`📊 Check: https://sapience.xyz/leaderboard#accuracy`);
   }
 
@@ -373,8 +460,7 @@ Keep reasoning under 280 chars but be specific with numbers.`,
 
       for (const condition of conditions) {
         try {
-          const forecast = await this.generateForecast(condition);
-          allForecasts.push(forecast);
+          allForecasts.push(await this.forecastCondition(condition));
 
           // Rate limiting between API calls
           await new Promise((resolve) => setTimeout(resolve, 1500));
@@ -430,40 +516,33 @@ Keep reasoning under 280 chars but be specific with numbers.`,
 
       console.log(`\n📤 Submitting ${finalForecasts.length} forecast(s)...\n`);
 
-      let successCount = 0;
-      let failCount = 0;
-      let totalGasCost = 0;
+      finalForecasts.forEach((forecast) => {
+        const question =
+          conditions.find((c) => c.id === forecast.conditionId)?.shortName ||
+          "Unknown";
+        console.log(`\n🎯 ${question.substring(0, 60)}`);
+        console.log(
+          `   ${forecast.probability}% (confidence: ${forecast.confidence}%, edge: ${forecast.edge.toFixed(1)}%)`,
+        );
+      });
 
-      for (const forecast of finalForecasts) {
-        try {
-          const question =
-            conditions.find((c) => c.id === forecast.conditionId)?.shortName ||
-            "Unknown";
-          console.log(`\n🎯 ${question.substring(0, 60)}`);
-          console.log(
-            `   ${forecast.probability}% (confidence: ${forecast.confidence}%, edge: ${forecast.edge.toFixed(1)}%)`,
-          );
-
-          await this.submitForecastToSapience(forecast);
-          successCount++;
-          totalGasCost += 0.0015; // Approximate gas cost per tx
-
-          // Rate limiting between transactions
-          await new Promise((resolve) => setTimeout(resolve, 3000));
-        } catch (error: any) {
-          console.error(`  ❌ Submission failed: ${error}`);
-          failCount++;
-          continue;
-        }
-      }
+      const result = await this.submitForecasts(finalForecasts);
+      const successCount = result.batches.reduce(
+        (n, b) => n + b.conditionIds.length,
+        0,
+      );
+      const failCount = finalForecasts.length - successCount;
 
       console.log(`\n✨ Forecasting complete!`);
       console.log(`  📊 Successful: ${successCount}/${finalForecasts.length}`);
       if (failCount > 0) {
         console.log(`  ❌ Failed: ${failCount}/${finalForecasts.length}`);
       }
+      if (result.overBudget.length > 0) {
+        console.log(`  ⛽ Over gas budget: ${result.overBudget.length}`);
+      }
       console.log(
-        `  ⛽ Estimated gas cost: ~$${(totalGasCost * 3000).toFixed(2)} (at $3000/ETH)`,
+        `  ⛽ Gas paid: ${result.spentEth.toFixed(6)} ETH (${result.batches.length} transaction(s))`,
       );
       console.log(
         `  📍 View results: https://sapience.xyz/leaderboard#accuracy`,
@@ -0,0 +1,175 @@
+/**
+ * Margin Engine - Initial/Maintenance Margin and Liquidation Prices
+ *
+ * A product margins positions at 1 / maxLeverage of notional up front and
+ * liquidates once a position's equity falls below maintenance margin, a fixed
+ * share of the initial rate. Each position gets its own liquidation price
+ * (the exchange's when it reports one); account equity pools capital,
+ * realized PnL and every open position's unrealized PnL (cross margin).
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MarginConfig {
+  maintenanceMarginShare: number;    // Maintenance rate as a share of the initial rate
+  alertBufferPercent: number;        // Warn when price is this close to liquidation (% of price)
+  liquidationBufferPercent: number;  // Force-close when price is this close
+  accountAlertRatio: number;         // Warn when maintenance margin / equity reaches this
+  accountForceCloseRatio: number;    // Close everything when it reaches this
+}
+
+export type MarginStatus = 'OK' | 'ALERT' | 'FORCE_CLOSE' | 'LIQUIDATED';
+
+/**
+ * What the engine needs from a position; `size` is margin in USD
+ */
+export interface MarginedPosition {
+  side: 'LONG' | 'SHORT';
+  entryPrice: number;
+  currentPrice: number;
+  size: number;
+  leverage: number;
+  maxLeverage: number;               // Product limit, sets the margin rates
+  liquidationPrice?: number;         // Exchange-reported, overrides the model
+  fees?: number;                     // USD, charged against equity
+  accruedFunding?: number;           // USD, credited to equity
+}
+
+export interface PositionMargin {
+  notional: number;
+  initialMargin: number;             // USD
+  maintenanceMargin: number;         // USD, on current notional
+  equity: number;                    // Margin + unrealized PnL - fees + funding
+  liquidationPrice: number;
+  distancePercent: number;           // Price distance to liquidation (<= 0 once crossed)
+  status: MarginStatus;
+}
+
+export interface AccountMargin {
+  equity: number;
+  initialMargin: number;
+  maintenanceMargin: number;
+  availableMargin: number;           // Equity not tied up as initial margin
+  marginRatio: number;               // Maintenance margin / equity (1 = liquidation)
+  status: MarginStatus;
+}
+
+// ============================================================================
+// DEFAULT CONFIG
+// ============================================================================
+
+const DEFAULT_MARGIN_CONFIG: MarginConfig = {
+  maintenanceMarginShare: 0.5,
+  alertBufferPercent: 1.5,
+  liquidationBufferPercent: 0.5,
+  accountAlertRatio: 0.5,
+  accountForceCloseRatio: 0.8,
+};
+
+// ============================================================================
+// MARGIN ENGINE
+// ============================================================================
+
+export class MarginEngine {
+  private config: MarginConfig;
+
+  constructor(config: Partial<MarginConfig> = {}) {
+    this.config = { ...DEFAULT_MARGIN_CONFIG, ...config };
+  }
+
+  getConfig(): MarginConfig {
+    return this.config;
+  }
+
+  initialMarginRate(maxLeverage: number): number {
+    return 1 / Math.max(maxLeverage, 1);
+  }
+
+  maintenanceMarginRate(maxLeverage: number): number {
+    return this.initialMarginRate(maxLeverage) * this.config.maintenanceMarginShare;
+  }
+
+  /**
+   * Price at which the position's own margin only just covers maintenance
+   */
+  liquidationPrice(
+    side: 'LONG' | 'SHORT',
+    entryPrice: number,
+    leverage: number,
+    maxLeverage: number
+  ): number {
+    const effectiveLeverage = Math.min(Math.max(leverage, 1), Math.max(maxLeverage, 1));
+    const mmr = this.maintenanceMarginRate(maxLeverage);
+
+    // Equity E/lev + (P - E) (long) or E/lev + (E - P) (short) meets mmr * P
+    return side === 'LONG'
+      ? entryPrice * (1 - 1 / effectiveLeverage) / (1 - mmr)
+      : entryPrice * (1 + 1 / effectiveLeverage) / (1 + mmr);
+  }
+
+  assessPosition(position: MarginedPosition): PositionMargin {
+    const { side, entryPrice, currentPrice, size, leverage, maxLeverage } = position;
+    const notional = size * leverage * currentPrice / entryPrice;
+    const direction = side === 'LONG' ? 1 : -1;
+    const unrealized = direction * (currentPrice - entryPrice) / entryPrice * size * leverage;
+
+    const liquidationPrice = position.liquidationPrice && position.liquidationPrice > 0
+      ? position.liquidationPrice
+      : this.liquidationPrice(side, entryPrice, leverage, maxLeverage);
+    const distancePercent = currentPrice > 0
+      ? direction * (currentPrice - liquidationPrice) / currentPrice * 100
+      : 0;
+
+    let status: MarginStatus = 'OK';
+    if (distancePercent <= 0) status = 'LIQUIDATED';
+    else if (distancePercent <= this.config.liquidationBufferPercent) status = 'FORCE_CLOSE';
+    else if (distancePercent <= this.config.alertBufferPercent) status = 'ALERT';
+
+    return {
+      notional,
+      initialMargin: notional * this.initialMarginRate(maxLeverage),
+      maintenanceMargin: notional * this.maintenanceMarginRate(maxLeverage),
+      equity: size + unrealized - (position.fees || 0) + (position.accruedFunding || 0),
+      liquidationPrice,
+      distancePercent,
+      status,
+    };
+  }
+
+  /**
+   * Cross-margin view: `balance` is capital plus realized PnL
+   */
+  assessAccount(balance: number, positions: MarginedPosition[]): AccountMargin {
+    let equity = balance;
+    let initialMargin = 0;
+    let maintenanceMargin = 0;
+
+    for (const position of positions) {
+      const margin = this.assessPosition(position);
+      // Position equity includes its own margin, which is already in the balance
+      equity += margin.equity - position.size;
+      initialMargin += margin.initialMargin;
+      maintenanceMargin += margin.maintenanceMargin;
+    }
+
+    const marginRatio = equity > 0 ? maintenanceMargin / equity : (maintenanceMargin > 0 ? Infinity : 0);
+
+    let status: MarginStatus = 'OK';
+    if (marginRatio >= 1) status = 'LIQUIDATED';
+    else if (marginRatio >= this.config.accountForceCloseRatio) status = 'FORCE_CLOSE';
+    else if (marginRatio >= this.config.accountAlertRatio) status = 'ALERT';
+
+    return {
+      equity,
+      initialMargin,
+      maintenanceMargin,
+      availableMargin: equity - initialMargin,
+      marginRatio,
+      status,
+    };
+  }
+}
+
+export default MarginEngine;
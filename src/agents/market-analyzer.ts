@@ -9,7 +9,11 @@
  * - Volatility-adjusted timing
  */
 
-import { EtherealMarket } from '../clients/ethereal-client';
+import { EtherealMarket, EtherealOrderBook } from '../clients/ethereal-client';
+import { FillModel, expectedEdgePercent } from './fill-model';
+
+// Order size used to grade a market's slippage
+const REFERENCE_NOTIONAL = 10000;
 
 export interface MarketSignals {
   // Momentum signals
@@ -37,6 +41,7 @@ export interface MarketSignals {
   liquidity: {
     score: number;  // 0-100
     slippage: 'LOW' | 'MEDIUM' | 'HIGH';
+    slippagePercent: number;  // Expected vs mid for a $10k market order
     tradeable: boolean;
   };
   
@@ -65,18 +70,22 @@ export interface TradingParameters {
   stopLossPrice: number;
   holdTimeMinutes: number;
   riskRewardRatio: number;
-  expectedPnlPercent: number;
+  expectedPnlPercent: number;   // After slippage and fees, on margin
+  expectedFillPrice: number;    // Average entry fill for the position size
+  costPercent: number;          // Round-trip slippage + fees, % of notional
 }
 
 export class MarketAnalyzer {
+  constructor(private fillModel: FillModel = new FillModel()) {}
+
   /**
-   * Analyze all market signals
+   * Analyze all market signals (the order book sharpens the slippage estimate)
    */
-  analyzeSignals(market: EtherealMarket): MarketSignals {
+  analyzeSignals(market: EtherealMarket, orderBook?: EtherealOrderBook): MarketSignals {
     const momentum = this.analyzeMomentum(market);
     const funding = this.analyzeFunding(market);
     const volume = this.analyzeVolume(market);
-    const liquidity = this.analyzeLiquidity(market);
+    const liquidity = this.analyzeLiquidity(market, orderBook);
     const volatility = this.analyzeVolatility(market);
     const composite = this.calculateComposite(momentum, funding, volume, liquidity, volatility);
     
@@ -96,7 +105,8 @@ export class MarketAnalyzer {
   getOptimalParameters(
     market: EtherealMarket,
     signals: MarketSignals,
-    capitalUSD: number
+    capitalUSD: number,
+    orderBook?: EtherealOrderBook
   ): TradingParameters {
     const { composite, volatility } = signals;
     
@@ -128,9 +138,19 @@ export class MarketAnalyzer {
     const slDistance = Math.abs(stopLossPrice - market.lastPrice) / market.lastPrice;
     const riskRewardRatio = tpDistance / slDistance;
     
-    // Expected PnL (probability weighted)
+    // Costs of getting in and out at this size
+    const notional = capitalUSD * positionSizePercent / 100 * leverage;
+    const costs = this.fillModel.estimateRoundTrip(market, action, notional, orderBook);
+    
+    // Expected PnL (probability weighted, after costs)
     const winProb = composite.confidence / 100;
-    const expectedPnlPercent = (winProb * tpDistance * leverage - (1 - winProb) * slDistance * leverage) * 100;
+    const expectedPnlPercent =
+      expectedEdgePercent(winProb, tpDistance, slDistance, costs.roundTripCostPercent) * leverage;
+    
+    // Edge eaten by slippage and fees
+    if (expectedPnlPercent <= 0) {
+      return this.skipTrade(market);
+    }
     
     return {
       action,
@@ -142,6 +162,8 @@ export class MarketAnalyzer {
       holdTimeMinutes,
       riskRewardRatio,
       expectedPnlPercent,
+      expectedFillPrice: costs.entry.averagePrice,
+      costPercent: costs.roundTripCostPercent,
     };
   }
 
@@ -243,7 +265,10 @@ export class MarketAnalyzer {
   // LIQUIDITY ANALYSIS  
   // ===========================================================================
 
-  private analyzeLiquidity(market: EtherealMarket): MarketSignals['liquidity'] {
+  private analyzeLiquidity(
+    market: EtherealMarket,
+    orderBook?: EtherealOrderBook
+  ): MarketSignals['liquidity'] {
     const oi = market.openInterest;
     const volume = market.volume24h;
     
@@ -252,16 +277,19 @@ export class MarketAnalyzer {
     const volumeScore = Math.min(50, (volume / 30000000) * 50);
     const score = oiScore + volumeScore;
     
-    // Estimated slippage
+    // Slippage of a reference-size market order walked through the book
+    const { entry } = this.fillModel.estimateRoundTrip(market, 'LONG', REFERENCE_NOTIONAL, orderBook);
+    const slippagePercent = entry.slippagePercent;
+    
     let slippage: 'LOW' | 'MEDIUM' | 'HIGH';
-    if (volume > 30000000) slippage = 'LOW';
-    else if (volume > 5000000) slippage = 'MEDIUM';
-    else slippage = 'HIGH';
+    if (!entry.fullyFilled || slippagePercent > 0.2) slippage = 'HIGH';
+    else if (slippagePercent > 0.05) slippage = 'MEDIUM';
+    else slippage = 'LOW';
     
     // Tradeable threshold
     const tradeable = volume > 500000 && oi > 200000;
     
-    return { score, slippage, tradeable };
+    return { score, slippage, slippagePercent, tradeable };
   }
 
   // ===========================================================================
@@ -482,6 +510,8 @@ export class MarketAnalyzer {
       holdTimeMinutes: 0,
       riskRewardRatio: 0,
       expectedPnlPercent: 0,
+      expectedFillPrice: market.lastPrice,
+      costPercent: 0,
     };
   }
 }
@@ -0,0 +1,193 @@
+/**
+ * Orchestrator State Store - Snapshots + Write-Ahead Journal
+ *
+ * Keeps TradingOrchestrator state recoverable across crashes:
+ *
+ *   state/snapshot.json   Full state (positions, signals, cooldowns), written
+ *                         atomically via a temp file and rename
+ *   state/journal.jsonl   Position lifecycle events appended before/after
+ *                         each order, folded over the snapshot on load
+ *
+ * Each snapshot records the last journal sequence it includes, so entries
+ * left over from a crash between the rename and the journal truncation are
+ * skipped rather than applied twice. A torn final journal line is ignored.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { OpenPosition, TradingSignal } from './trading-orchestrator';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type JournalEventType =
+  | 'opening'                        // Entry order about to be sent
+  | 'opened'                         // Position recorded after the fill
+  | 'cancelled'                      // Entry order confirmed unfilled
+  | 'updated'                        // Partial exit or other change worth keeping
+  | 'closed';                        // Position gone from the books
+
+export interface JournalEntry {
+  seq: number;
+  timestamp: number;
+  type: JournalEventType;
+  symbol: string;
+  signal?: TradingSignal;            // opening
+  position?: OpenPosition;           // opened / updated
+}
+
+export interface OrchestratorState {
+  version: number;
+  savedAt: number;
+  journalSeq: number;                // Last journal entry folded into this state
+  openPositions: OpenPosition[];
+  pendingOpens: TradingSignal[];     // Entry orders whose outcome never made the journal
+  signals: TradingSignal[];
+  tradedSignals: string[];
+  lastTradeTime: Record<string, number>;
+}
+
+export type StateSnapshot = Omit<OrchestratorState, 'version' | 'savedAt' | 'journalSeq'>;
+
+const STATE_VERSION = 1;
+
+// ============================================================================
+// STATE STORE
+// ============================================================================
+
+export class OrchestratorStateStore {
+  private snapshotPath: string;
+  private journalPath: string;
+  private seq = 0;
+
+  constructor(private stateDir: string = './trade-results/orchestrator/state') {
+    this.snapshotPath = path.join(stateDir, 'snapshot.json');
+    this.journalPath = path.join(stateDir, 'journal.jsonl');
+    fs.mkdirSync(stateDir, { recursive: true });
+    this.seq = this.lastSeq();
+  }
+
+  getStateDir(): string {
+    return this.stateDir;
+  }
+
+  /**
+   * Append a lifecycle event; synchronous so it lands before the order goes out
+   */
+  append(entry: Omit<JournalEntry, 'seq'>): JournalEntry {
+    const record: JournalEntry = { seq: ++this.seq, ...entry };
+    fs.appendFileSync(this.journalPath, JSON.stringify(record) + '\n');
+    return record;
+  }
+
+  /**
+   * Write a full snapshot, then drop the journal it supersedes
+   */
+  saveSnapshot(snapshot: StateSnapshot, savedAt: number = Date.now()): void {
+    const state: OrchestratorState = {
+      version: STATE_VERSION,
+      savedAt,
+      journalSeq: this.seq,
+      ...snapshot,
+    };
+
+    const tmpPath = `${this.snapshotPath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(state, null, 2));
+    fs.renameSync(tmpPath, this.snapshotPath);
+    fs.writeFileSync(this.journalPath, '');
+  }
+
+  /**
+   * Latest snapshot with newer journal entries applied, or null on a fresh start
+   */
+  load(): OrchestratorState | null {
+    const hasSnapshot = fs.existsSync(this.snapshotPath);
+    const entries = this.readJournal();
+    if (!hasSnapshot && entries.length === 0) return null;
+
+    const state: OrchestratorState = hasSnapshot
+      ? JSON.parse(fs.readFileSync(this.snapshotPath, 'utf-8'))
+      : {
+        version: STATE_VERSION,
+        savedAt: 0,
+        journalSeq: 0,
+        openPositions: [],
+        pendingOpens: [],
+        signals: [],
+        tradedSignals: [],
+        lastTradeTime: {},
+      };
+
+    if (state.version !== STATE_VERSION) {
+      throw new Error(`Unsupported orchestrator state version ${state.version} in ${this.snapshotPath}`);
+    }
+
+    const positions = new Map(state.openPositions.map(p => [p.symbol, p]));
+    const pending = new Map(state.pendingOpens.map(s => [s.symbol, s]));
+
+    for (const entry of entries) {
+      if (entry.seq <= state.journalSeq) continue;
+
+      switch (entry.type) {
+        case 'opening':
+          pending.set(entry.symbol, entry.signal!);
+          break;
+        case 'cancelled':
+          pending.delete(entry.symbol);
+          break;
+        case 'opened':
+        case 'updated':
+          pending.delete(entry.symbol);
+          positions.set(entry.symbol, entry.position!);
+          break;
+        case 'closed':
+          pending.delete(entry.symbol);
+          positions.delete(entry.symbol);
+          state.lastTradeTime[entry.symbol] = entry.timestamp;
+          break;
+      }
+      state.journalSeq = entry.seq;
+    }
+
+    state.openPositions = Array.from(positions.values());
+    state.pendingOpens = Array.from(pending.values());
+    this.seq = Math.max(this.seq, state.journalSeq);
+
+    return state;
+  }
+
+  clear(): void {
+    fs.rmSync(this.snapshotPath, { force: true });
+    fs.rmSync(this.journalPath, { force: true });
+    this.seq = 0;
+  }
+
+  /**
+   * Continue numbering after whatever a previous process left behind
+   */
+  private lastSeq(): number {
+    const entries = this.readJournal();
+    const journalSeq = entries.length > 0 ? entries[entries.length - 1].seq : 0;
+    if (!fs.existsSync(this.snapshotPath)) return journalSeq;
+    return Math.max(journalSeq, JSON.parse(fs.readFileSync(this.snapshotPath, 'utf-8')).journalSeq || 0);
+  }
+
+  private readJournal(): JournalEntry[] {
+    if (!fs.existsSync(this.journalPath)) return [];
+
+    const entries: JournalEntry[] = [];
+    for (const line of fs.readFileSync(this.journalPath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Torn write from a crash mid-append
+        break;
+      }
+    }
+    return entries;
+  }
+}
+
+export default OrchestratorStateStore;
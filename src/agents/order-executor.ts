@@ -0,0 +1,290 @@
+/**
+ * Order Executor - Live Order Routing for the Orchestrator
+ *
+ * Sends market orders through the Ethereal client's EIP-712 signed endpoints and
+ * reports what actually filled. Fills are reconciled against the exchange
+ * position before and after each order, so partial fills and orders that
+ * never fill show up as such instead of being assumed complete. A position
+ * read that fails is never taken to mean flat: before an order it throws
+ * and nothing is sent; after one it is retried until the fill timeout. An
+ * entry that went out but can't be confirmed as filled comes back flagged
+ * `fillUnknown` for the caller to reconcile against getPosition(). Exits
+ * are priced from the exchange's order report; only when it carries no
+ * average price does the mark stand in, flagged `priceEstimated`.
+ */
+
+import { EtherealClient, Position, Product } from '../clients/ethereal-client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface OrderFill {
+  status: 'FILLED' | 'PARTIAL' | 'REJECTED';
+  requestedQuantity: number;         // Base units
+  filledQuantity: number;            // Base units
+  averagePrice: number;              // 0 when nothing filled
+  reason?: string;                   // Rejection reason
+  exchangeFlat?: boolean;            // Rejected because the exchange holds no position to close
+  fillUnknown?: boolean;             // Sent, but no fill seen yet - it may still have filled
+  priceEstimated?: boolean;          // averagePrice is the mark, not an exchange-reported fill price
+  liquidationPrice?: number;         // Exchange liquidation price after the fill, if reported
+}
+
+/**
+ * Anything that can open and close exchange positions for the PositionManager
+ */
+export interface OrderExecutor {
+  openPosition(
+    symbol: string,
+    side: 'LONG' | 'SHORT',
+    notional: number,
+    referencePrice: number
+  ): Promise<OrderFill>;
+
+  closePosition(
+    symbol: string,
+    side: 'LONG' | 'SHORT',
+    quantity: number,
+    referencePrice: number
+  ): Promise<OrderFill>;
+
+  /**
+   * Exchange position for a market, null when flat; throws if it can't be read
+   */
+  getPosition(symbol: string): Promise<Position | null>;
+}
+
+export interface OrderExecutorConfig {
+  fillTimeoutMs: number;             // How long to wait for the position to reflect an order
+  fillPollMs: number;                // Position poll interval while waiting
+}
+
+export type SignedOrderClient = Pick<
+  EtherealClient,
+  'initialize' | 'getProductBySymbol' | 'placeOrder' | 'getActivePosition' | 'getSubaccountId'
+>;
+
+/**
+ * What the exchange reports for an accepted order (fields we use)
+ */
+interface OrderReport {
+  filled?: string;
+  averagePrice?: string;
+}
+
+const DEFAULT_EXECUTOR_CONFIG: OrderExecutorConfig = {
+  fillTimeoutMs: 5000,
+  fillPollMs: 500,
+};
+
+// ============================================================================
+// ETHEREAL ORDER EXECUTOR
+// ============================================================================
+
+export class EtherealOrderExecutor implements OrderExecutor {
+  private config: OrderExecutorConfig;
+  private initialized = false;
+
+  constructor(
+    private client: SignedOrderClient,
+    config: Partial<OrderExecutorConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_EXECUTOR_CONFIG, ...config };
+  }
+
+  async openPosition(
+    symbol: string,
+    side: 'LONG' | 'SHORT',
+    notional: number,
+    referencePrice: number
+  ): Promise<OrderFill> {
+    const product = await this.getProduct(symbol);
+    const quantity = this.roundToLot(notional / referencePrice, product);
+
+    if (quantity < parseFloat(product.minQuantity)) {
+      return this.rejected(quantity, `size ${quantity} below minimum ${product.minQuantity}`);
+    }
+
+    const before = await this.client.getActivePosition(product.id);
+    const { rejection } = await this.submit(product, side === 'LONG' ? 'BUY' : 'SELL', quantity, false);
+    if (rejection) return this.rejected(quantity, rejection);
+
+    let after: Position | null;
+    try {
+      after = await this.awaitPositionChange(product.id, before);
+    } catch (error: any) {
+      return { ...this.rejected(quantity, error.message), fillUnknown: true };
+    }
+    const delta = this.signedSize(after) - this.signedSize(before);
+    const filledQuantity = side === 'LONG' ? delta : -delta;
+
+    if (!after || filledQuantity <= 0) {
+      // The position may only lag the fill: unconfirmed, not rejected
+      return { ...this.rejected(quantity, 'no fill seen before the timeout'), fillUnknown: true };
+    }
+
+    // Back out this order's average price from the blended entry
+    const beforeNotional = Math.abs(this.signedSize(before)) * parseFloat(before?.entryPrice || '0');
+    const afterNotional = Math.abs(this.signedSize(after)) * parseFloat(after.entryPrice);
+    const averagePrice = (afterNotional - beforeNotional) / filledQuantity;
+
+    return this.filled(quantity, filledQuantity, averagePrice, after);
+  }
+
+  async closePosition(
+    symbol: string,
+    side: 'LONG' | 'SHORT',
+    quantity: number,
+    referencePrice: number
+  ): Promise<OrderFill> {
+    if (!(quantity > 0)) {
+      return this.rejected(quantity, 'no quantity to close');
+    }
+
+    const product = await this.getProduct(symbol);
+    const requested = this.roundToLot(quantity, product) || quantity;
+
+    const before = await this.client.getActivePosition(product.id);
+    if (!before) {
+      return { ...this.rejected(requested, 'no open position on exchange'), exchangeFlat: true };
+    }
+
+    const { rejection, report } = await this.submit(product, side === 'LONG' ? 'SELL' : 'BUY', requested, true);
+    if (rejection) return this.rejected(requested, rejection);
+
+    const after = await this.awaitPositionChange(product.id, before);
+    const filledQuantity = Math.abs(this.signedSize(before)) - Math.abs(this.signedSize(after));
+
+    if (filledQuantity <= 0) {
+      return this.rejected(requested, 'no fill');
+    }
+
+    const reportedPrice = parseFloat(report?.averagePrice || '0');
+    if (reportedPrice > 0) {
+      return this.filled(requested, filledQuantity, reportedPrice, after);
+    }
+
+    const mark = parseFloat(after?.markPrice || before.markPrice) || referencePrice;
+    return { ...this.filled(requested, filledQuantity, mark, after), priceEstimated: true };
+  }
+
+  async getPosition(symbol: string): Promise<Position | null> {
+    const product = await this.getProduct(symbol);
+    return this.client.getActivePosition(product.id);
+  }
+
+  // ==========================================================================
+  // HELPERS
+  // ==========================================================================
+
+  private async getProduct(symbol: string): Promise<Product> {
+    if (!this.initialized) {
+      await this.client.initialize();
+      this.initialized = true;
+    }
+
+    const product = await this.client.getProductBySymbol(symbol);
+    if (!product) {
+      throw new Error(`No Ethereal product for ${symbol}`);
+    }
+    return product;
+  }
+
+  private roundToLot(quantity: number, product: Product): number {
+    const lot = parseFloat(product.lotSize) || 0;
+    if (lot <= 0) return quantity;
+
+    // Round down, trimming float noise from the division
+    return parseFloat((Math.floor(quantity / lot + 1e-9) * lot).toFixed(12));
+  }
+
+  /**
+   * The exchange's report once the order is accepted, or a rejection reason
+   */
+  private async submit(
+    product: Product,
+    side: 'BUY' | 'SELL',
+    quantity: number,
+    reduceOnly: boolean
+  ): Promise<{ rejection?: string; report?: OrderReport }> {
+    try {
+      const response = await this.client.placeOrder({
+        subaccountId: this.client.getSubaccountId(),
+        productId: product.id,
+        side,
+        type: 'MARKET',
+        size: quantity.toString(),
+        reduceOnly,
+        timeInForce: 'IOC',
+      });
+      return { report: response?.data ?? response };
+    } catch (error: any) {
+      return { rejection: error.response?.data?.message || error.message || 'order rejected' };
+    }
+  }
+
+  /**
+   * Poll until the exchange position differs from `before` or we time out.
+   * Throws if the last read failed - the fill is then unknown.
+   */
+  private async awaitPositionChange(
+    productId: string,
+    before: Position | null
+  ): Promise<Position | null> {
+    const deadline = Date.now() + this.config.fillTimeoutMs;
+    let current: Position | null = before;
+    let readError: any;
+
+    for (;;) {
+      try {
+        current = await this.client.getActivePosition(productId);
+        readError = undefined;
+        if (this.signedSize(current) !== this.signedSize(before)) return current;
+      } catch (error) {
+        readError = error;
+      }
+      if (Date.now() >= deadline) break;
+      await new Promise(resolve => setTimeout(resolve, this.config.fillPollMs));
+    }
+
+    if (readError) {
+      throw new Error(`Fill unknown: could not read the ${productId} position (${readError.message})`);
+    }
+    return current;
+  }
+
+  private signedSize(position: Position | null): number {
+    if (!position) return 0;
+    const size = Math.abs(parseFloat(position.size) || 0);
+    return position.side === 'SHORT' ? -size : size;
+  }
+
+  private filled(
+    requested: number,
+    filled: number,
+    averagePrice: number,
+    position: Position | null
+  ): OrderFill {
+    const liquidationPrice = parseFloat(position?.liquidationPrice || '0');
+    return {
+      status: filled + 1e-12 >= requested ? 'FILLED' : 'PARTIAL',
+      requestedQuantity: requested,
+      filledQuantity: filled,
+      averagePrice,
+      ...(liquidationPrice > 0 ? { liquidationPrice } : {}),
+    };
+  }
+
+  private rejected(requested: number, reason: string): OrderFill {
+    return {
+      status: 'REJECTED',
+      requestedQuantity: requested,
+      filledQuantity: 0,
+      averagePrice: 0,
+      reason,
+    };
+  }
+}
+
+export default EtherealOrderExecutor;
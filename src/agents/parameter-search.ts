@@ -0,0 +1,339 @@
+/**
+ * Parameter Search - Grid, random and Bayesian search over numeric config fields
+ *
+ * A search maximizes an async objective over a ParameterSpace. Random and
+ * Bayesian search draw from a SeededRandom, so a search with the same seed
+ * scores the same candidates. Bayesian search fits a Gaussian process to
+ * the points scored so far and picks the next one by expected improvement.
+ */
+
+import { SeededRandom, resolveRng } from '../utils/random';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SearchMethod = 'grid' | 'random' | 'bayesian';
+
+export interface ParameterRange {
+  key: string;                       // Config field, dotted for nested fields (riskLimits.maxDrawdown)
+  values?: number[];                 // Explicit candidates (grid uses these as-is)
+  min?: number;
+  max?: number;
+  step?: number;                     // Grid spacing; random/Bayesian draws snap to it
+  integer?: boolean;
+}
+
+export type ParameterSpace = ParameterRange[];
+
+export type ParameterSet = Record<string, number>;
+
+export interface SearchOptions {
+  method: SearchMethod;
+  iterations: number;                // Candidates to score (grid always scores every point)
+  initialPoints: number;             // Random points before the Gaussian process takes over
+  candidatePool: number;             // Random points the acquisition function is maximized over
+  seed?: number;
+}
+
+export interface SearchTrial {
+  params: ParameterSet;
+  score: number;                     // -Infinity when the candidate is unusable
+}
+
+export interface SearchResult {
+  best: SearchTrial;
+  trials: SearchTrial[];
+}
+
+export type SearchObjective = (params: ParameterSet) => Promise<number>;
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  method: 'grid',
+  iterations: 30,
+  initialPoints: 6,
+  candidatePool: 256,
+};
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+/**
+ * Score candidates from the space and return the best one
+ */
+export async function searchParameters(
+  space: ParameterSpace,
+  objective: SearchObjective,
+  options: Partial<SearchOptions> = {}
+): Promise<SearchResult> {
+  const opts = { ...DEFAULT_SEARCH_OPTIONS, ...options };
+  validateSpace(space);
+
+  const rng = resolveRng(opts.seed);
+  const trials: SearchTrial[] = [];
+  const seen = new Set<string>();
+
+  const score = async (params: ParameterSet) => {
+    seen.add(keyOf(params));
+    trials.push({ params, score: await objective(params) });
+  };
+
+  if (opts.method === 'grid') {
+    for (const params of gridPoints(space)) {
+      await score(params);
+    }
+  } else {
+    const distinct = countDistinct(space);
+    const iterations = Math.min(opts.iterations, distinct);
+
+    while (trials.length < iterations) {
+      const params = opts.method === 'bayesian' && trials.length >= opts.initialPoints
+        ? nextBayesianPoint(space, trials, seen, rng, opts.candidatePool)
+        : nextRandomPoint(space, seen, rng);
+      if (!params) break;
+      await score(params);
+    }
+  }
+
+  if (trials.length === 0) {
+    throw new Error('Parameter space has no candidates');
+  }
+
+  const best = trials.reduce((a, b) => (b.score > a.score ? b : a));
+  return { best, trials };
+}
+
+/**
+ * Every combination of each range's grid values
+ */
+export function gridPoints(space: ParameterSpace): ParameterSet[] {
+  let points: ParameterSet[] = [{}];
+  for (const range of space) {
+    const values = gridValues(range);
+    points = points.flatMap(point => values.map(value => ({ ...point, [range.key]: value })));
+  }
+  return points;
+}
+
+function gridValues(range: ParameterRange): number[] {
+  if (range.values) return [...range.values];
+
+  const min = range.min!;
+  const max = range.max!;
+  const step = range.step ?? (range.integer ? 1 : (max - min) / 4);
+  if (step <= 0 || min === max) return [snap(range, min)];
+
+  const values: number[] = [];
+  for (let i = 0; min + i * step <= max + 1e-9; i++) {
+    values.push(snap(range, min + i * step));
+  }
+  return [...new Set(values)];
+}
+
+function validateSpace(space: ParameterSpace): void {
+  if (space.length === 0) {
+    throw new Error('Parameter space is empty');
+  }
+  for (const range of space) {
+    if (range.values) {
+      if (range.values.length === 0) throw new Error(`No values for ${range.key}`);
+    } else if (range.min === undefined || range.max === undefined || range.min > range.max) {
+      throw new Error(`${range.key} needs values or min <= max`);
+    }
+  }
+}
+
+/**
+ * Upper bound on distinct candidates (continuous ranges count as unbounded)
+ */
+function countDistinct(space: ParameterSpace): number {
+  return space.reduce((total, range) => {
+    if (range.values) return total * new Set(range.values).size;
+    if (range.step || range.integer) return total * gridValues(range).length;
+    return Infinity;
+  }, 1);
+}
+
+// ============================================================================
+// RANDOM
+// ============================================================================
+
+function nextRandomPoint(space: ParameterSpace, seen: Set<string>, rng: SeededRandom): ParameterSet | null {
+  // Discrete spaces run out of fresh points; give up after enough repeats
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const params = fromUnit(space, space.map(() => rng.next()));
+    if (!seen.has(keyOf(params))) return params;
+  }
+  return null;
+}
+
+// ============================================================================
+// BAYESIAN (Gaussian process + expected improvement)
+// ============================================================================
+
+const LENGTH_SCALE = 0.25;
+const NOISE = 1e-4;
+const EXPLORATION = 0.01;
+
+function nextBayesianPoint(
+  space: ParameterSpace,
+  trials: SearchTrial[],
+  seen: Set<string>,
+  rng: SeededRandom,
+  poolSize: number
+): ParameterSet | null {
+  const xs = trials.map(t => toUnit(space, t.params));
+  const ys = standardize(trials.map(t => t.score));
+  const gp = fitGaussianProcess(xs, ys);
+  const bestY = Math.max(...ys);
+
+  let best: { params: ParameterSet; ei: number } | null = null;
+  for (let i = 0; i < poolSize; i++) {
+    const params = fromUnit(space, space.map(() => rng.next()));
+    if (seen.has(keyOf(params))) continue;
+
+    const { mean, variance } = gp(toUnit(space, params));
+    const ei = expectedImprovement(mean, Math.sqrt(variance), bestY);
+    if (!best || ei > best.ei) best = { params, ei };
+  }
+
+  return best ? best.params : nextRandomPoint(space, seen, rng);
+}
+
+/**
+ * Scores scaled to zero mean / unit variance; unusable (-Infinity) candidates
+ * are pinned just below the worst usable one
+ */
+function standardize(scores: number[]): number[] {
+  const finite = scores.filter(Number.isFinite);
+  const floor = finite.length > 0 ? Math.min(...finite) - 1 : 0;
+  const ys = scores.map(s => (Number.isFinite(s) ? s : floor));
+
+  const mean = ys.reduce((a, b) => a + b, 0) / ys.length;
+  const std = Math.sqrt(ys.reduce((sum, y) => sum + (y - mean) ** 2, 0) / ys.length) || 1;
+  return ys.map(y => (y - mean) / std);
+}
+
+function kernel(a: number[], b: number[]): number {
+  let dist = 0;
+  for (let i = 0; i < a.length; i++) dist += (a[i] - b[i]) ** 2;
+  return Math.exp(-dist / (2 * LENGTH_SCALE ** 2));
+}
+
+/**
+ * Posterior mean and variance at any point, given the scored points
+ */
+function fitGaussianProcess(xs: number[][], ys: number[]) {
+  const K = xs.map((a, i) => xs.map((b, j) => kernel(a, b) + (i === j ? NOISE : 0)));
+  const L = cholesky(K);
+  const alpha = solveUpper(L, solveLower(L, ys));
+
+  return (x: number[]) => {
+    const k = xs.map(xi => kernel(xi, x));
+    const mean = k.reduce((sum, ki, i) => sum + ki * alpha[i], 0);
+    const v = solveLower(L, k);
+    const variance = Math.max(1e-12, 1 - v.reduce((sum, vi) => sum + vi * vi, 0));
+    return { mean, variance };
+  };
+}
+
+function cholesky(A: number[][]): number[][] {
+  const n = A.length;
+  const L = A.map(() => new Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = A[i][j];
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+      L[i][j] = i === j ? Math.sqrt(Math.max(sum, 1e-12)) : sum / L[j][j];
+    }
+  }
+  return L;
+}
+
+function solveLower(L: number[][], b: number[]): number[] {
+  const x = new Array(b.length).fill(0);
+  for (let i = 0; i < b.length; i++) {
+    let sum = b[i];
+    for (let k = 0; k < i; k++) sum -= L[i][k] * x[k];
+    x[i] = sum / L[i][i];
+  }
+  return x;
+}
+
+function solveUpper(L: number[][], b: number[]): number[] {
+  // Solves Lᵀx = b
+  const n = b.length;
+  const x = new Array(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = b[i];
+    for (let k = i + 1; k < n; k++) sum -= L[k][i] * x[k];
+    x[i] = sum / L[i][i];
+  }
+  return x;
+}
+
+function expectedImprovement(mean: number, sigma: number, best: number): number {
+  const improvement = mean - best - EXPLORATION;
+  if (sigma < 1e-9) return Math.max(improvement, 0);
+  const z = improvement / sigma;
+  return improvement * normalCdf(z) + sigma * normalPdf(z);
+}
+
+function normalPdf(z: number): number {
+  return Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI);
+}
+
+function normalCdf(z: number): number {
+  // Abramowitz-Stegun 7.1.26
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+    * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function bounds(range: ParameterRange): [number, number] {
+  return range.values
+    ? [Math.min(...range.values), Math.max(...range.values)]
+    : [range.min!, range.max!];
+}
+
+/**
+ * Round to the range's step/integer grid, or the nearest listed value
+ */
+function snap(range: ParameterRange, value: number): number {
+  if (range.values) {
+    return range.values.reduce((a, b) => (Math.abs(b - value) < Math.abs(a - value) ? b : a));
+  }
+  const [min, max] = bounds(range);
+  let snapped = value;
+  if (range.step) snapped = min + Math.round((value - min) / range.step) * range.step;
+  if (range.integer) snapped = Math.round(snapped);
+  // Trim float noise from step arithmetic
+  snapped = Number(snapped.toPrecision(12));
+  return Math.min(max, Math.max(min, snapped));
+}
+
+function toUnit(space: ParameterSpace, params: ParameterSet): number[] {
+  return space.map(range => {
+    const [min, max] = bounds(range);
+    return max === min ? 0 : (params[range.key] - min) / (max - min);
+  });
+}
+
+function fromUnit(space: ParameterSpace, unit: number[]): ParameterSet {
+  const params: ParameterSet = {};
+  space.forEach((range, i) => {
+    const [min, max] = bounds(range);
+    params[range.key] = snap(range, min + unit[i] * (max - min));
+  });
+  return params;
+}
+
+function keyOf(params: ParameterSet): string {
+  return JSON.stringify(Object.keys(params).sort().map(key => [key, params[key]]));
+}
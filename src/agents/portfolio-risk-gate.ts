@@ -0,0 +1,252 @@
+/**
+ * Portfolio Risk Gate - Account-Level Limits Between Analysis and Execution
+ *
+ * Every signal that survives execution pricing is checked against the book
+ * as it would stand after the fill:
+ *
+ *   Exposure     gross and net notional, notional per asset, and notional in
+ *                each correlation cluster (BTC+ETH+SOL longs move together)
+ *   Losses       realized + unrealized loss since the start of the UTC day,
+ *                and drawdown from the equity peak
+ *   Tail risk    the new position's CVaR at the size requested, using the
+ *                AdaptiveRiskManager's metrics over closed trades
+ *
+ * Exposure limits are multiples of equity; loss limits are fractions of it.
+ * A rejection carries every limit breached, not just the first.
+ */
+
+import { AdaptiveRiskManager } from './adaptive-risk-manager';
+import type { OpenPosition, TradingSignal } from './trading-orchestrator';
+import type { TradeResult } from './trade-tracker';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RiskLimits {
+  maxGrossExposure: number;          // Sum of |notional| / equity
+  maxNetExposure: number;            // |long - short notional| / equity
+  maxAssetNotional: number;          // Notional in any one asset / equity
+  maxClusterExposure: number;        // |net notional| within a correlation cluster / equity
+  dailyLossLimit: number;            // Loss since UTC midnight / starting capital
+  maxDrawdown: number;               // Equity drop from its peak / peak
+  maxTailLoss: number;               // New position's CVaR loss / equity
+  minTradesForTailRisk: number;      // Closed trades needed before CVaR is trusted
+  correlationClusters: string[][];   // Base assets that move together
+}
+
+export type RiskRejectionCode =
+  | 'GROSS_EXPOSURE'
+  | 'NET_EXPOSURE'
+  | 'ASSET_NOTIONAL'
+  | 'CLUSTER_EXPOSURE'
+  | 'DAILY_LOSS'
+  | 'MAX_DRAWDOWN'
+  | 'TAIL_RISK';
+
+export interface RiskRejection {
+  code: RiskRejectionCode;
+  limit: number;                     // Configured limit (same units as value)
+  value: number;                     // Where the book would stand with the signal
+  message: string;
+}
+
+export interface PortfolioExposure {
+  equity: number;                    // Capital + realized + unrealized PnL (USD)
+  gross: number;                     // USD notional, after the signal
+  net: number;                       // Long minus short USD notional, after the signal
+  byAsset: Record<string, number>;   // Signed USD notional per base asset
+  dailyPnL: number;                  // USD since UTC midnight
+  drawdown: number;                  // Fraction below the equity peak
+}
+
+export interface RiskDecision {
+  approved: boolean;
+  rejections: RiskRejection[];
+  exposure: PortfolioExposure;
+}
+
+/**
+ * Book state the gate checks a signal against
+ */
+export interface PortfolioState {
+  totalCapital: number;
+  openPositions: OpenPosition[];
+  closedTrades: TradeResult[];
+  now: number;
+}
+
+// ============================================================================
+// DEFAULT CONFIG
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_RISK_LIMITS: RiskLimits = {
+  maxGrossExposure: 10,
+  maxNetExposure: 8,
+  maxAssetNotional: 5,
+  maxClusterExposure: 8,
+  dailyLossLimit: 0.05,
+  maxDrawdown: 0.15,
+  maxTailLoss: 0.05,
+  minTradesForTailRisk: 20,
+  correlationClusters: [
+    ['BTC', 'ETH', 'SOL'],
+  ],
+};
+
+// ============================================================================
+// PORTFOLIO RISK GATE
+// ============================================================================
+
+export class PortfolioRiskGate {
+  private limits: RiskLimits;
+  private riskManager: AdaptiveRiskManager;
+
+  constructor(limits: Partial<RiskLimits> = {}, riskManager: AdaptiveRiskManager = new AdaptiveRiskManager()) {
+    this.limits = { ...DEFAULT_RISK_LIMITS, ...limits };
+    this.riskManager = riskManager;
+  }
+
+  getLimits(): RiskLimits {
+    return this.limits;
+  }
+
+  evaluate(signal: TradingSignal, state: PortfolioState): RiskDecision {
+    const { totalCapital, openPositions, closedTrades, now } = state;
+    const limits = this.limits;
+    const rejections: RiskRejection[] = [];
+    const reject = (code: RiskRejectionCode, limit: number, value: number, message: string) => {
+      rejections.push({ code, limit, value, message });
+    };
+
+    const unrealized = openPositions.reduce((sum, p) => sum + positionPnL(p), 0);
+    const realized = closedTrades.reduce((sum, t) => sum + tradePnL(t, totalCapital), 0);
+    const equity = totalCapital + realized + unrealized;
+
+    // Book after the fill
+    const byAsset: Record<string, number> = {};
+    let gross = 0;
+    for (const position of openPositions) {
+      const notional = position.size * position.leverage * position.currentPrice / position.entryPrice;
+      const asset = baseAsset(position.symbol);
+      byAsset[asset] = (byAsset[asset] || 0) + (position.side === 'LONG' ? notional : -notional);
+      gross += notional;
+    }
+    const signalNotional = signal.positionSize * signal.leverage;
+    const signalAsset = baseAsset(signal.symbol);
+    byAsset[signalAsset] = (byAsset[signalAsset] || 0) + (signal.action === 'LONG' ? signalNotional : -signalNotional);
+    gross += signalNotional;
+    const net = Object.values(byAsset).reduce((sum, n) => sum + n, 0);
+
+    const dailyPnL = this.dailyPnL(state, unrealized);
+    const drawdown = this.drawdown(state, equity);
+    const exposure: PortfolioExposure = { equity, gross, net, byAsset, dailyPnL, drawdown };
+
+    if (equity <= 0) {
+      reject('MAX_DRAWDOWN', limits.maxDrawdown, 1, 'No equity left');
+      return { approved: false, rejections, exposure };
+    }
+
+    const grossRatio = gross / equity;
+    if (grossRatio > limits.maxGrossExposure) {
+      reject('GROSS_EXPOSURE', limits.maxGrossExposure, grossRatio,
+        `Gross exposure ${grossRatio.toFixed(2)}x equity exceeds ${limits.maxGrossExposure}x`);
+    }
+
+    const netRatio = Math.abs(net) / equity;
+    if (netRatio > limits.maxNetExposure) {
+      reject('NET_EXPOSURE', limits.maxNetExposure, netRatio,
+        `Net exposure ${netRatio.toFixed(2)}x equity exceeds ${limits.maxNetExposure}x`);
+    }
+
+    const assetRatio = Math.abs(byAsset[signalAsset]) / equity;
+    if (assetRatio > limits.maxAssetNotional) {
+      reject('ASSET_NOTIONAL', limits.maxAssetNotional, assetRatio,
+        `${signalAsset} notional ${assetRatio.toFixed(2)}x equity exceeds ${limits.maxAssetNotional}x`);
+    }
+
+    const cluster = limits.correlationClusters.find(c => c.includes(signalAsset));
+    if (cluster) {
+      const clusterNet = cluster.reduce((sum, asset) => sum + (byAsset[asset] || 0), 0);
+      const clusterRatio = Math.abs(clusterNet) / equity;
+      if (clusterRatio > limits.maxClusterExposure) {
+        reject('CLUSTER_EXPOSURE', limits.maxClusterExposure, clusterRatio,
+          `${cluster.join('+')} ${clusterNet >= 0 ? 'long' : 'short'} exposure ${clusterRatio.toFixed(2)}x equity exceeds ${limits.maxClusterExposure}x`);
+      }
+    }
+
+    const dailyLoss = Math.max(0, -dailyPnL) / totalCapital;
+    if (dailyLoss >= limits.dailyLossLimit) {
+      reject('DAILY_LOSS', limits.dailyLossLimit, dailyLoss,
+        `Down ${(dailyLoss * 100).toFixed(2)}% today, limit ${(limits.dailyLossLimit * 100).toFixed(2)}%`);
+    }
+
+    if (drawdown >= limits.maxDrawdown) {
+      reject('MAX_DRAWDOWN', limits.maxDrawdown, drawdown,
+        `Drawdown ${(drawdown * 100).toFixed(2)}% from peak, limit ${(limits.maxDrawdown * 100).toFixed(2)}%`);
+    }
+
+    const resolved = closedTrades.filter(t => t.resolved && t.pnl !== undefined);
+    if (resolved.length >= limits.minTradesForTailRisk) {
+      // CVaR is a per-trade return on margin; scale it to the requested margin
+      const { cvar } = this.riskManager.calculateRiskMetrics(resolved);
+      const tailLoss = Math.max(0, -cvar) * signal.positionSize / equity;
+      if (tailLoss > limits.maxTailLoss) {
+        reject('TAIL_RISK', limits.maxTailLoss, tailLoss,
+          `CVaR loss ${(tailLoss * 100).toFixed(2)}% of equity exceeds ${(limits.maxTailLoss * 100).toFixed(2)}%`);
+      }
+    }
+
+    return { approved: rejections.length === 0, rejections, exposure };
+  }
+
+  /**
+   * Realized PnL of trades closed since UTC midnight plus open PnL
+   */
+  private dailyPnL(state: PortfolioState, unrealized: number): number {
+    const dayStart = Math.floor(state.now / DAY_MS) * DAY_MS;
+    return state.closedTrades
+      .filter(t => (t.resolutionDate ?? t.timestamp) >= dayStart)
+      .reduce((sum, t) => sum + tradePnL(t, state.totalCapital), unrealized);
+  }
+
+  /**
+   * Current equity against the peak of the realized equity curve
+   */
+  private drawdown(state: PortfolioState, equity: number): number {
+    const ordered = [...state.closedTrades].sort(
+      (a, b) => (a.resolutionDate ?? a.timestamp) - (b.resolutionDate ?? b.timestamp)
+    );
+    let balance = state.totalCapital;
+    let peak = balance;
+    for (const trade of ordered) {
+      balance += tradePnL(trade, state.totalCapital);
+      peak = Math.max(peak, balance);
+    }
+    peak = Math.max(peak, equity);
+    return peak > 0 ? Math.max(0, (peak - equity) / peak) : 0;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function baseAsset(symbol: string): string {
+  return symbol.split('-')[0];
+}
+
+/**
+ * Trade sizes are a fraction of capital and PnL a fraction of margin
+ */
+function tradePnL(trade: TradeResult, totalCapital: number): number {
+  return trade.size * totalCapital * (trade.pnl || 0);
+}
+
+function positionPnL(position: OpenPosition): number {
+  return position.size * position.unrealizedPnL - (position.fees || 0) + (position.accruedFunding || 0);
+}
+
+export default PortfolioRiskGate;
@@ -0,0 +1,318 @@
+/**
+ * Price Path Simulator - Tick-Level Dry-Run Exits
+ *
+ * Instead of rolling a win/loss and jumping to TP or SL, dry runs generate a
+ * tick-by-tick price path and feed it through a sandboxed MarketMonitor and
+ * PositionManager. Take-profit, stop-loss, trailing stops, momentum-shift and
+ * time exits all come from the same exit logic used in live trading.
+ *
+ * Models (per tick of tickMs):
+ *   gbm             S *= exp((μ - σ²/2) + σZ)
+ *   jump-diffusion  GBM plus Poisson jumps with normally distributed size
+ *
+ * σ is derived from MarketSignals.volatility.impliedMove (expected % move over
+ * ~4 hours) and μ from the 24h momentum, so calmer markets produce calmer paths.
+ */
+
+import { EtherealMarket } from '../clients/ethereal-client';
+import { MarketAnalyzer } from './market-analyzer';
+import { TradeResult } from './trade-tracker';
+import {
+  DEFAULT_ORCHESTRATOR_CONFIG,
+  MarketDataSource,
+  MarketMonitor,
+  MarketSnapshot,
+  OrchestratorConfig,
+  PositionManager,
+  TradingSignal,
+} from './trading-orchestrator';
+import { SimulatedClock } from '../utils/clock';
+import { SeededRandom, getSimulationRng } from '../utils/random';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PricePathModel = 'gbm' | 'jump-diffusion';
+
+/**
+ * Every way the sandboxed PositionManager can close a simulated position
+ */
+export const SIMULATED_EXIT_REASONS = [
+  'take-profit',
+  'stop-loss',
+  'trailing-stop',
+  'time-exit',
+  'momentum-shift',
+  'liquidated',
+  'liquidation-guard',
+  'margin-call',
+] as const;
+
+export type SimulatedExitReason = typeof SIMULATED_EXIT_REASONS[number];
+
+export interface PricePathConfig {
+  model: PricePathModel;
+  tickMs: number;                // Simulated time between price ticks
+  driftWeight: number;           // Share of 24h momentum carried into drift
+  minImpliedMovePct: number;     // Volatility floor for flat markets (% per ~4h)
+  jumpsPerDay: number;           // Poisson jump intensity (jump-diffusion only)
+  jumpMeanPct: number;           // Mean jump size (%)
+  jumpStdPct: number;            // Jump size standard deviation (%)
+}
+
+/**
+ * Per-tick log-return parameters
+ */
+export interface PathParameters {
+  drift: number;
+  volatility: number;
+  jumpProbability: number;
+  jumpMean: number;
+  jumpStd: number;
+}
+
+/**
+ * A trade described by its levels, for callers without a TradingSignal
+ */
+export interface SimulatedEntry {
+  market: EtherealMarket;
+  side: 'LONG' | 'SHORT';
+  entryPrice: number;
+  takeProfitPrice: number;
+  stopLossPrice: number;
+  leverage: number;
+  positionSize: number;
+  holdTimeMinutes: number;
+  confidence: number;
+}
+
+export interface SimulatedExit {
+  exitPrice: number;
+  exitReason: SimulatedExitReason;
+  pnl: number;                   // Leveraged return, as recorded by PositionManager
+  holdTimeMs: number;
+  ticks: number;
+  maxFavorableExcursion: number; // Best unrealized PnL along the path (>= 0)
+  maxAdverseExcursion: number;   // Worst unrealized PnL along the path (<= 0)
+  trade: TradeResult;
+}
+
+// ============================================================================
+// DEFAULT CONFIG
+// ============================================================================
+
+const DEFAULT_PATH_CONFIG: PricePathConfig = {
+  model: 'gbm',
+  tickMs: 5000,                  // Matches the market monitor poll interval
+  driftWeight: 0.4,
+  minImpliedMovePct: 0.1,
+  jumpsPerDay: 4,
+  jumpMeanPct: 0,
+  jumpStdPct: 1.5,
+};
+
+const FOUR_HOURS_MS = 4 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// PATH MARKET SOURCE
+// ============================================================================
+
+/**
+ * Serves the entry market with lastPrice (and a rolling 24h change) moved
+ * along the simulated path
+ */
+class PathMarketSource implements MarketDataSource {
+  private price: number;
+
+  constructor(private base: EtherealMarket) {
+    this.price = base.lastPrice;
+  }
+
+  setPrice(price: number): void {
+    this.price = price;
+  }
+
+  async getMarkets(): Promise<EtherealMarket[]> {
+    const moveFromEntry = this.price / this.base.lastPrice - 1;
+    const priceChangePercent24h = this.base.priceChangePercent24h + moveFromEntry * 100;
+
+    return [{
+      ...this.base,
+      lastPrice: this.price,
+      priceChangePercent24h,
+      priceChange24h: this.price * priceChangePercent24h / 100,
+    }];
+  }
+}
+
+// ============================================================================
+// PRICE PATH SIMULATOR
+// ============================================================================
+
+export class PricePathSimulator {
+  private config: PricePathConfig;
+  private analyzer = new MarketAnalyzer();
+
+  constructor(
+    config: Partial<PricePathConfig> = {},
+    private rng: SeededRandom = getSimulationRng().fork('price-path')
+  ) {
+    this.config = { ...DEFAULT_PATH_CONFIG, ...config };
+  }
+
+  /**
+   * Per-tick drift and volatility from a market's signals
+   */
+  parametersFor(snapshot: MarketSnapshot): PathParameters {
+    const { tickMs, driftWeight, minImpliedMovePct } = this.config;
+    const impliedMove = Math.max(snapshot.signals.volatility.impliedMove, minImpliedMovePct) / 100;
+    const dailyMomentum = snapshot.market.priceChangePercent24h / 100;
+
+    const jumps = this.config.model === 'jump-diffusion';
+
+    return {
+      drift: dailyMomentum * driftWeight * (tickMs / DAY_MS),
+      volatility: impliedMove * Math.sqrt(tickMs / FOUR_HOURS_MS),
+      jumpProbability: jumps ? 1 - Math.exp(-this.config.jumpsPerDay * tickMs / DAY_MS) : 0,
+      jumpMean: this.config.jumpMeanPct / 100,
+      jumpStd: this.config.jumpStdPct / 100,
+    };
+  }
+
+  /**
+   * Advance one tick
+   */
+  nextPrice(price: number, params: PathParameters): number {
+    const { drift, volatility } = params;
+    let logReturn = drift - (volatility * volatility) / 2 + volatility * this.rng.normal();
+
+    if (params.jumpProbability > 0 && this.rng.chance(params.jumpProbability)) {
+      logReturn += this.rng.normal(params.jumpMean, params.jumpStd);
+    }
+
+    return price * Math.exp(logReturn);
+  }
+
+  generatePath(startPrice: number, params: PathParameters, ticks: number): number[] {
+    const path = [startPrice];
+    for (let i = 0; i < ticks; i++) {
+      path.push(this.nextPrice(path[path.length - 1], params));
+    }
+    return path;
+  }
+
+  /**
+   * Walk a price path through a sandboxed PositionManager until it exits
+   */
+  async simulatePosition(signal: TradingSignal): Promise<SimulatedExit> {
+    const { tickMs } = this.config;
+    const startTime = signal.marketSnapshot.timestamp;
+    const clock = new SimulatedClock(startTime);
+
+    const sandboxConfig: OrchestratorConfig = {
+      ...DEFAULT_ORCHESTRATOR_CONFIG,
+      groqApiKey: '',
+      totalCapital: signal.positionSize,
+      maxConcurrentPositions: 1,
+      minConfidence: 100,
+      useAI: false,
+      dryRun: true,
+    };
+
+    const source = new PathMarketSource({ ...signal.marketSnapshot.market, lastPrice: signal.entryPrice });
+    const monitor = new MarketMonitor(sandboxConfig, source, clock);
+    const manager = new PositionManager(sandboxConfig, clock, undefined, undefined, true);
+
+    let closed: { trade: TradeResult; reason: string } | undefined;
+    manager.once('positionClosed', ({ trade, reason }) => {
+      closed = { trade, reason };
+    });
+
+    await monitor.updateMarkets();
+    const position = await manager.openPosition(signal);
+    if (!position) {
+      throw new Error(`Could not open simulated position for ${signal.symbol}`);
+    }
+
+    const params = this.parametersFor(signal.marketSnapshot);
+    const maxTicks = Math.ceil(position.maxHoldTime / tickMs) + 1;
+    let price = signal.entryPrice;
+    let ticks = 0;
+
+    while (!closed && ticks < maxTicks) {
+      clock.advance(tickMs);
+      price = this.nextPrice(price, params);
+      source.setPrice(price);
+      ticks++;
+
+      await monitor.updateMarkets();
+      manager.checkPositions(monitor);
+    }
+
+    // Zero-length holds never reach the time exit inside the loop
+    if (!closed) {
+      manager.closeAll(monitor, 'time-exit');
+    }
+
+    const { trade, reason } = closed!;
+    if (!isSimulatedExitReason(reason)) {
+      throw new Error(`Simulated position for ${signal.symbol} closed with unexpected reason "${reason}"`);
+    }
+
+    return {
+      exitPrice: trade.exitPrice!,
+      exitReason: reason,
+      pnl: trade.pnl!,
+      holdTimeMs: clock.now() - startTime,
+      ticks,
+      maxFavorableExcursion: trade.maxFavorableExcursion!,
+      maxAdverseExcursion: trade.maxAdverseExcursion!,
+      trade,
+    };
+  }
+
+  /**
+   * Simulate a trade given only its levels (agents without a TradingSignal)
+   */
+  async simulateEntry(entry: SimulatedEntry): Promise<SimulatedExit> {
+    const { market } = entry;
+    const signals = this.analyzer.analyzeSignals(market);
+    const timestamp = Date.now();
+
+    const marketSnapshot: MarketSnapshot = {
+      market,
+      timestamp,
+      signals,
+      parameters: this.analyzer.getOptimalParameters(market, signals, entry.positionSize),
+      historicalPrices: [],
+      volatilityTrend: 'STABLE',
+      momentumShift: false,
+    };
+
+    return this.simulatePosition({
+      id: `${market.symbol}-sim-${timestamp}`,
+      symbol: market.symbol,
+      action: entry.side,
+      confidence: entry.confidence,
+      urgency: 'IMMEDIATE',
+      entryPrice: entry.entryPrice,
+      takeProfitPrice: entry.takeProfitPrice,
+      stopLossPrice: entry.stopLossPrice,
+      positionSize: entry.positionSize,
+      leverage: entry.leverage,
+      holdTimeMinutes: entry.holdTimeMinutes,
+      reasoning: 'price path simulation',
+      createdAt: timestamp,
+      expiresAt: timestamp,
+      marketSnapshot,
+    });
+  }
+}
+
+function isSimulatedExitReason(reason: string): reason is SimulatedExitReason {
+  return (SIMULATED_EXIT_REASONS as readonly string[]).includes(reason);
+}
+
+export default PricePathSimulator;
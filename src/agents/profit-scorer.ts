@@ -1,5 +1,22 @@
 import { TradeResult } from './trade-tracker';
 
+/**
+ * TradeResult fields trades are attributed by
+ */
+export type AttributionTag = 'agent' | 'strategy' | 'configHash' | 'model';
+
+export const ATTRIBUTION_TAGS: AttributionTag[] = ['agent', 'strategy', 'configHash', 'model'];
+
+/**
+ * Bucket for trades recorded without a given tag
+ */
+export const UNTAGGED = 'untagged';
+
+/**
+ * Metrics per tag value, e.g. attribution.strategy['momentum']
+ */
+export type Attribution = Record<AttributionTag, Record<string, ProfitMetrics>>;
+
 export interface ProfitMetrics {
   totalTrades: number;
   winningTrades: number;
@@ -13,13 +30,50 @@ export interface ProfitMetrics {
   sharpeRatio: number;
   maxDrawdown: number;
   score: number; // 0-100
+  attribution?: Attribution; // Set on top-level metrics only
 }
 
 export class ProfitScorer {
   /**
-   * Calculate comprehensive profit metrics
+   * Calculate comprehensive profit metrics, broken down by attribution tag
    */
   calculateMetrics(trades: TradeResult[]): ProfitMetrics {
+    return {
+      ...this.summarize(trades),
+      attribution: this.calculateAttribution(trades),
+    };
+  }
+
+  /**
+   * Metrics for every tag, grouped by tag value
+   */
+  calculateAttribution(trades: TradeResult[]): Attribution {
+    const attribution = {} as Attribution;
+    for (const tag of ATTRIBUTION_TAGS) {
+      attribution[tag] = this.breakdownBy(trades, tag);
+    }
+    return attribution;
+  }
+
+  /**
+   * Metrics per value of one tag (untagged trades are grouped under UNTAGGED)
+   */
+  breakdownBy(trades: TradeResult[], tag: AttributionTag): Record<string, ProfitMetrics> {
+    const groups = new Map<string, TradeResult[]>();
+    for (const trade of trades.filter(t => t.resolved)) {
+      const value = trade[tag] ?? UNTAGGED;
+      if (!groups.has(value)) groups.set(value, []);
+      groups.get(value)!.push(trade);
+    }
+
+    const breakdown: Record<string, ProfitMetrics> = {};
+    for (const [value, group] of groups) {
+      breakdown[value] = this.summarize(group);
+    }
+    return breakdown;
+  }
+
+  private summarize(trades: TradeResult[]): ProfitMetrics {
     const resolvedTrades = trades.filter(t => t.resolved);
     
     if (resolvedTrades.length === 0) {
@@ -181,6 +235,10 @@ export class ProfitScorer {
     console.log(`  Sharpe Ratio: ${metrics.sharpeRatio.toFixed(2)}`);
     console.log(`  Max Drawdown: ${metrics.maxDrawdown.toFixed(2)} USDe`);
     
+    if (metrics.attribution) {
+      this.printAttribution(metrics.attribution);
+    }
+    
     console.log('\n⭐ Overall Score:');
     const scoreEmoji = metrics.score >= 80 ? '🏆' : metrics.score >= 60 ? '🥇' : metrics.score >= 40 ? '🥈' : '🥉';
     console.log(`  ${scoreEmoji} ${metrics.score.toFixed(1)}/100`);
@@ -197,4 +255,25 @@ export class ProfitScorer {
     
     console.log('\n' + '='.repeat(60) + '\n');
   }
+
+  /**
+   * One line per tag value, skipping tags no trade was recorded with
+   */
+  private printAttribution(attribution: Attribution): void {
+    const tags = ATTRIBUTION_TAGS.filter(tag => Object.keys(attribution[tag]).some(value => value !== UNTAGGED));
+    if (tags.length === 0) return;
+
+    console.log('\n🏷️  Attribution:');
+    for (const tag of tags) {
+      const rows = Object.entries(attribution[tag]).sort(([, a], [, b]) => b.totalPnL - a.totalPnL);
+      for (const [value, m] of rows) {
+        const pf = m.profitFactor === Infinity ? '∞' : m.profitFactor.toFixed(2);
+        console.log(
+          `  ${`${tag}=${value}`.padEnd(32)} ${String(m.totalTrades).padStart(4)} trades | ` +
+          `Win ${(m.winRate * 100).toFixed(1)}% | PF ${pf} | Sharpe ${m.sharpeRatio.toFixed(2)} | ` +
+          `DD ${m.maxDrawdown.toFixed(2)} | PnL ${m.totalPnL >= 0 ? '+' : ''}${m.totalPnL.toFixed(2)}`
+        );
+      }
+    }
+  }
 }
@@ -1,5 +1,6 @@
 import { ethers } from "ethers";
-import Groq from "groq-sdk";
+import { LlmClient, LlmClientConfig, createLlmClient } from "../clients/llm-client";
+import { OutputSchema } from "../clients/llm-schema";
 import axios from "axios";
 import { TradeResult } from "./trade-tracker";
 import { AdvancedAnalytics } from "./advanced-analytics";
@@ -7,6 +8,13 @@ import { MLPredictor, TradingSignal } from "./ml-predictor";
 import { UltraAggressiveTrader, QuantumTrade } from "./ultra-aggressive-trader";
 import { MarketSentimentAnalyzer, RealTimeSignal } from "./market-sentiment";
 import { AdaptiveRiskManager, PositionSize } from "./adaptive-risk-manager";
+import { SeededRandom, resolveRng } from "../utils/random";
+import { hashConfig } from "../utils/config-hash";
+import {
+  BreakerTrip,
+  CircuitBreaker,
+  CircuitBreakerConfig,
+} from "./circuit-breaker";
 
 export interface BotConfig {
   initialCapital: number;
@@ -19,6 +27,9 @@ export interface BotConfig {
   enableML: boolean;
   enableSentiment: boolean;
   enableUltraAggressive: boolean;
+  seed?: number; // Simulation seed (defaults to SIM_SEED or random)
+  circuitBreaker?: Partial<CircuitBreakerConfig>; // Kill switch triggers
+  llm?: Partial<LlmClientConfig>; // Provider, model and routes (default: Groq, LLM_* env)
 }
 
 export interface BotStatus {
@@ -31,6 +42,7 @@ export interface BotStatus {
   lastUpdate: number;
   uptime: number;
   errors: string[];
+  circuitBreakerTripped: boolean;
 }
 
 export interface OptimizationResult {
@@ -40,6 +52,30 @@ export interface OptimizationResult {
   reasoning: string;
 }
 
+interface OptimizationOutput {
+  maxLeverage: number;
+  maxConcurrentTrades: number;
+  riskLevel: BotConfig["riskLevel"];
+  expectedImprovement: number;
+  confidence: number;
+  reasoning: string;
+}
+
+export const OPTIMIZATION_SCHEMA: OutputSchema<OptimizationOutput> = {
+  name: "ParameterOptimization",
+  fields: {
+    maxLeverage: { type: "number", min: 1, max: 100, integer: true },
+    maxConcurrentTrades: { type: "number", min: 1, max: 50, integer: true },
+    riskLevel: {
+      type: "enum",
+      values: ["CONSERVATIVE", "MODERATE", "AGGRESSIVE", "ULTRA_AGGRESSIVE"],
+    },
+    expectedImprovement: { type: "number" },
+    confidence: { type: "number", min: 0, max: 1 },
+    reasoning: { type: "string" },
+  },
+};
+
 export class QuantumTradingBot {
   private config: BotConfig;
   private analytics: AdvancedAnalytics;
@@ -47,8 +83,12 @@ export class QuantumTradingBot {
   private ultraAggressiveTrader: UltraAggressiveTrader;
   private sentimentAnalyzer: MarketSentimentAnalyzer;
   private riskManager: AdaptiveRiskManager;
-  private groq: Groq;
+  private llm: LlmClient;
   private provider: ethers.JsonRpcProvider;
+  private rootRng: SeededRandom;
+  private rng: SeededRandom;
+  private breaker: CircuitBreaker;
+  private configHash: string;
 
   private isRunning: boolean = false;
   private startTime: number = 0;
@@ -59,16 +99,27 @@ export class QuantumTradingBot {
 
   constructor(config: BotConfig, groqApiKey: string, rpcUrl?: string) {
     this.config = config;
+    this.rootRng = resolveRng(config.seed);
+    this.rng = this.rootRng.fork("quantum-bot");
+    this.configHash = hashConfig(config);
     this.analytics = new AdvancedAnalytics();
     this.mlPredictor = new MLPredictor();
     this.ultraAggressiveTrader = new UltraAggressiveTrader(
       config.initialCapital,
       config.targetCapital,
+      this.rootRng.fork("ultra-aggressive"),
     );
     this.sentimentAnalyzer = new MarketSentimentAnalyzer();
     this.riskManager = new AdaptiveRiskManager(config.initialCapital);
+    // Obeys operator trips on the shared switch, but its simulated losses
+    // must not halt the live agents
+    this.breaker = new CircuitBreaker({
+      ...config.circuitBreaker,
+      localAutoTrips: true,
+    });
+    this.breaker.on("trip", (trip: BreakerTrip) => this.handleBreakerTrip(trip));
 
-    this.groq = new Groq({ apiKey: groqApiKey });
+    this.llm = createLlmClient({ groqApiKey, ...config.llm });
     this.provider = new ethers.JsonRpcProvider(
       rpcUrl || "https://arb1.arbitrum.io/rpc",
     );
@@ -95,6 +146,7 @@ export class QuantumTradingBot {
 
     this.isRunning = true;
     this.startTime = Date.now();
+    this.breaker.startSession(this.getCurrentCapital());
 
     // Start real-time sentiment analysis
     if (this.config.enableSentiment) {
@@ -153,6 +205,7 @@ export class QuantumTradingBot {
       } catch (error) {
         console.error(`❌ Error in trading cycle: ${error}`);
         this.errors.push(`${Date.now()}: ${error}`);
+        this.breaker.recordApiError(error, "quantum-bot");
       }
     }, this.config.updateInterval);
   }
@@ -161,11 +214,20 @@ export class QuantumTradingBot {
    * Execute one trading cycle
    */
   private async executeTradingCycle(): Promise<void> {
+    // Operator trips/resets from other processes
+    this.breaker.sync();
+    if (this.breaker.isTripped()) {
+      await this.monitorPositions();
+      return;
+    }
+
     // Fetch available markets
     const markets = await this.fetchMarkets();
 
     // Analyze each market
     for (const market of markets) {
+      if (this.breaker.isTripped()) break;
+
       if (this.currentPositions.size >= this.config.maxConcurrentTrades) {
         break; // Max positions reached
       }
@@ -185,7 +247,7 @@ export class QuantumTradingBot {
     await this.monitorPositions();
 
     // Optimize parameters
-    if (Math.random() < 0.1) {
+    if (this.rng.chance(0.1)) {
       // 10% chance per cycle
       await this.optimizeParameters();
     }
@@ -301,6 +363,7 @@ export class QuantumTradingBot {
 
     // Record trade
     this.tradeHistory.push(trade);
+    this.breaker.recordTrade(trade.pnl || 0, "quantum-bot");
   }
 
   /**
@@ -312,11 +375,11 @@ export class QuantumTradingBot {
     positionSize: PositionSize,
   ): Promise<TradeResult> {
     const successProbability = signal.confidence;
-    const isSuccess = Math.random() < successProbability;
+    const isSuccess = this.rng.chance(successProbability);
 
     const pnl = isSuccess
-      ? positionSize.expectedReturn * (0.5 + Math.random() * 0.5)
-      : -positionSize.riskAmount * (0.8 + Math.random() * 0.2);
+      ? positionSize.expectedReturn * this.rng.between(0.5, 1.0)
+      : -positionSize.riskAmount * this.rng.between(0.8, 1.0);
 
     return {
       tradeId: `${market.id}-${Date.now()}`,
@@ -340,6 +403,10 @@ export class QuantumTradingBot {
       reasoning: signal.reasoning,
       pnl,
       resolved: true,
+      seed: this.rootRng.seed,
+      agent: "quantum-bot",
+      strategy: "ml-sentiment",
+      configHash: this.configHash,
     };
   }
 
@@ -375,6 +442,22 @@ export class QuantumTradingBot {
     this.riskManager.removePosition(marketId);
   }
 
+  /**
+   * Stop new entries; close everything when the trip asks for it
+   */
+  private handleBreakerTrip(trip: BreakerTrip): void {
+    console.log(
+      `🚨 Circuit breaker tripped [${trip.trigger}] by ${trip.source}: ${trip.reason}`,
+    );
+    this.errors.push(`${trip.trippedAt}: circuit breaker ${trip.trigger}`);
+
+    if (trip.flatten) {
+      this.closeAllPositions().catch((error) =>
+        console.error(`Error flattening positions: ${error}`),
+      );
+    }
+  }
+
   /**
    * Close all positions
    */
@@ -434,33 +517,20 @@ export class QuantumTradingBot {
     Max Leverage: ${this.config.maxLeverage}
     Max Concurrent Trades: ${this.config.maxConcurrentTrades}
     
-    Suggest improvements in JSON format:
-    {
-      "newParameters": {
-        "maxLeverage": number,
-        "maxConcurrentTrades": number,
-        "riskLevel": "CONSERVATIVE|MODERATE|AGGRESSIVE|ULTRA_AGGRESSIVE"
-      },
-      "expectedImprovement": number,
-      "confidence": number,
-      "reasoning": "string"
-    }`;
-
-    const response = await this.groq.chat.completions.create({
-      messages: [{ role: "user", content: prompt }],
-      model: "llama-3.3-70b-versatile",
-      temperature: 0.3,
-      max_tokens: 500,
-    });
+    Suggest improved parameters.`;
 
     try {
-      const content = response.choices[0]?.message?.content || "";
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
+      const { data } = await this.llm.completeJson(OPTIMIZATION_SCHEMA, {
+        route: "optimization",
+        messages: [{ role: "user", content: prompt }],
+        model: "llama-3.3-70b-versatile",
+        temperature: 0.3,
+        maxTokens: 500,
+      });
+      const { expectedImprovement, confidence, reasoning, ...newParameters } = data;
+      return { newParameters, expectedImprovement, confidence, reasoning };
     } catch (error) {
-      console.error("Error parsing optimization response:", error);
+      console.error("Error generating optimization:", error);
     }
 
     return {
@@ -494,6 +564,7 @@ export class QuantumTradingBot {
       lastUpdate: Date.now(),
       uptime: this.isRunning ? Date.now() - this.startTime : 0,
       errors: this.errors.slice(-10), // Last 10 errors
+      circuitBreakerTripped: this.breaker.isTripped(),
     };
   }
 
@@ -520,6 +591,7 @@ export class QuantumTradingBot {
       return response.data.markets || [];
     } catch (error) {
       console.error("Error fetching markets:", error);
+      this.breaker.recordApiError(error, "quantum-bot");
       return [];
     }
   }
@@ -0,0 +1,509 @@
+/**
+ * Trading Strategies - Pluggable Signal Generation for the Orchestrator
+ *
+ * A strategy turns a market's latest snapshot (and its recent snapshots)
+ * into an optional TradingSignal. The AnalysisEngine runs every configured
+ * strategy side by side and keeps the most confident signal per market
+ * among strategies with allocation left to trade it.
+ * Each signal carries its strategy id through to the closed TradeResult.
+ *
+ * Built-ins, registered on `strategyRegistry`:
+ *
+ *   llm                  LLM analysis with historical context (route
+ *                        "strategy"), falling back to the momentum rules
+ *   momentum             Trade the 24h move once it clears 1.5%
+ *   funding-contrarian   Fade the crowded side when funding is stretched
+ *   mean-reversion       Fade short-term deviations from the recent mean
+ *
+ * Each strategy sizes positions from its own share of capital (its
+ * allocation). Register a factory to add a strategy without touching the
+ * orchestrator.
+ */
+
+import { LlmClient, createLlmClient } from '../clients/llm-client';
+import { OutputSchema } from '../clients/llm-schema';
+import type { MarketSignals } from './market-analyzer';
+import type { MarketSnapshot, OrchestratorConfig, TradingSignal } from './trading-orchestrator';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StrategyContext {
+  config: OrchestratorConfig;
+  capital: number;                   // USD this strategy trades with (its allocation)
+  now: number;
+}
+
+export interface Strategy {
+  readonly id: string;
+  generateSignal(
+    snapshot: MarketSnapshot,
+    history: MarketSnapshot[],       // This market's recent snapshots, oldest first
+    context: StrategyContext
+  ): Promise<TradingSignal | null>;
+  /**
+   * Whether a live signal from this strategy now points the wrong way and
+   * should be regenerated. Strategies without it keep their signal until
+   * it expires.
+   */
+  shouldFlip?(signal: TradingSignal, snapshot: MarketSnapshot): boolean;
+}
+
+export interface StrategyAllocation {
+  id: string;                        // Registered strategy id
+  allocation: number;                // Share of totalCapital (all allocations sum to <= 1)
+  params?: Record<string, number>;   // Strategy-specific overrides
+}
+
+/**
+ * Direction and exits before sizing; what the rule-based strategies produce
+ */
+export interface StrategyAnalysis {
+  action: 'LONG' | 'SHORT';
+  confidence: number;
+  urgency: 'IMMEDIATE' | 'SOON' | 'WAIT';
+  takeProfitPercent: number;
+  stopLossPercent: number;
+  reasoning: string;
+  optimalHoldMinutes: number;
+  model?: string;                    // LLM that made the call, if any
+}
+
+export type StrategyFactory = (params: Record<string, number>, config: OrchestratorConfig) => Strategy;
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export class StrategyRegistry {
+  private factories: Map<string, StrategyFactory> = new Map();
+
+  register(id: string, factory: StrategyFactory): this {
+    this.factories.set(id, factory);
+    return this;
+  }
+
+  has(id: string): boolean {
+    return this.factories.has(id);
+  }
+
+  list(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  create(id: string, config: OrchestratorConfig, params: Record<string, number> = {}): Strategy {
+    const factory = this.factories.get(id);
+    if (!factory) {
+      throw new Error(`Unknown strategy "${id}" (registered: ${this.list().join(', ')})`);
+    }
+    return factory(params, config);
+  }
+}
+
+/**
+ * Parse `momentum:0.5,funding-contrarian:0.5` (allocation defaults to an even split)
+ */
+export function parseStrategyAllocations(spec: string): StrategyAllocation[] {
+  const entries = spec.split(',').map(s => s.trim()).filter(Boolean);
+  return entries.map(entry => {
+    const [id, weight] = entry.split(':');
+    const allocation = weight !== undefined ? Number(weight.trim()) : 1 / entries.length;
+    if (!id.trim() || weight?.trim() === '' || !Number.isFinite(allocation) || allocation < 0) {
+      throw new Error(`Invalid strategy allocation "${entry}" (expected id or id:weight, weight >= 0)`);
+    }
+    return { id: id.trim(), allocation };
+  });
+}
+
+// ============================================================================
+// BASE STRATEGY
+// ============================================================================
+
+/**
+ * Shared sizing, leverage and hold-time rules around a strategy's analysis
+ */
+export abstract class AnalysisStrategy implements Strategy {
+  abstract readonly id: string;
+
+  abstract analyze(
+    snapshot: MarketSnapshot,
+    history: MarketSnapshot[]
+  ): Promise<StrategyAnalysis | null> | StrategyAnalysis | null;
+
+  async generateSignal(
+    snapshot: MarketSnapshot,
+    history: MarketSnapshot[],
+    context: StrategyContext
+  ): Promise<TradingSignal | null> {
+    const analysis = await this.analyze(snapshot, history);
+    if (!analysis || analysis.confidence < context.config.minConfidence) {
+      return null;
+    }
+
+    const { market, signals, volatilityTrend } = snapshot;
+    const { now } = context;
+
+    return {
+      id: `${market.symbol}-${now}`,
+      symbol: market.symbol,
+      action: analysis.action,
+      confidence: analysis.confidence,
+      urgency: analysis.urgency,
+      entryPrice: market.lastPrice,
+      takeProfitPrice: analysis.action === 'LONG'
+        ? market.lastPrice * (1 + analysis.takeProfitPercent / 100)
+        : market.lastPrice * (1 - analysis.takeProfitPercent / 100),
+      stopLossPrice: analysis.action === 'LONG'
+        ? market.lastPrice * (1 - analysis.stopLossPercent / 100)
+        : market.lastPrice * (1 + analysis.stopLossPercent / 100),
+      positionSize: this.calculatePositionSize(analysis.confidence, signals, context),
+      leverage: this.calculateLeverage(analysis.confidence, signals.volatility.regime),
+      holdTimeMinutes: this.calculateHoldTime(volatilityTrend, analysis),
+      reasoning: analysis.reasoning,
+      createdAt: now,
+      expiresAt: now + context.config.signalExpiryMs,
+      marketSnapshot: snapshot,
+      strategy: this.id,
+      model: analysis.model,
+    };
+  }
+
+  protected calculatePositionSize(confidence: number, signals: MarketSignals, context: StrategyContext): number {
+    const { totalCapital, maxPositionPercent, maxConcurrentPositions } = context.config;
+
+    // Base size on confidence
+    let sizePercent = 0.15;
+    if (confidence > 85) sizePercent = 0.30;
+    else if (confidence > 80) sizePercent = 0.25;
+    else if (confidence > 75) sizePercent = 0.20;
+
+    // Reduce for weak liquidity
+    if (signals.liquidity.slippage === 'HIGH') {
+      sizePercent *= 0.7;
+    }
+
+    // Apply limits: percentages of this strategy's capital, slots of the whole account
+    const maxSize = context.capital * Math.min(sizePercent, maxPositionPercent);
+    const perPositionMax = totalCapital / maxConcurrentPositions;
+
+    return Math.round(Math.min(maxSize, perPositionMax) * 100) / 100;
+  }
+
+  protected calculateLeverage(confidence: number, volatilityRegime: string): number {
+    let leverage = 2;
+
+    if (confidence > 85) leverage = 5;
+    else if (confidence > 80) leverage = 4;
+    else if (confidence > 75) leverage = 3;
+
+    // Reduce for high volatility
+    if (volatilityRegime === 'EXTREME') leverage = Math.max(1, leverage - 2);
+    else if (volatilityRegime === 'HIGH') leverage = Math.max(1, leverage - 1);
+
+    return leverage;
+  }
+
+  protected calculateHoldTime(
+    volatilityTrend: string,
+    analysis: { optimalHoldMinutes: number; confidence: number }
+  ): number {
+    let holdTime = analysis.optimalHoldMinutes;
+
+    // Adjust based on volatility trend
+    if (volatilityTrend === 'INCREASING') {
+      holdTime = Math.max(15, holdTime * 0.7); // Shorter hold
+    } else if (volatilityTrend === 'DECREASING') {
+      holdTime = Math.min(180, holdTime * 1.3); // Longer hold
+    }
+
+    // Strong signals can hold longer
+    if (analysis.confidence > 85) {
+      holdTime = Math.min(180, holdTime * 1.2);
+    }
+
+    return Math.round(holdTime);
+  }
+}
+
+// ============================================================================
+// MOMENTUM
+// ============================================================================
+
+export class MomentumStrategy extends AnalysisStrategy {
+  readonly id = 'momentum';
+  private minMovePercent: number;
+
+  constructor(params: Record<string, number> = {}) {
+    super();
+    this.minMovePercent = params.minMovePercent ?? 1.5;
+  }
+
+  analyze(snapshot: MarketSnapshot): StrategyAnalysis | null {
+    const { market, signals, parameters } = snapshot;
+    const priceChange = market.priceChangePercent24h;
+
+    // Follow the analyzer's composite - no edge after costs, no trade
+    if (parameters.action === 'SKIP') return null;
+    const absChange = Math.abs(priceChange);
+
+    // Only trade clear momentum
+    if (absChange < this.minMovePercent) return null;
+
+    const action: 'LONG' | 'SHORT' = priceChange > 0 ? 'LONG' : 'SHORT';
+
+    // Confidence based on momentum strength
+    let confidence = 70;
+    if (absChange > 3.0) confidence = 82;
+    else if (absChange > 2.5) confidence = 78;
+    else if (absChange > 2.0) confidence = 75;
+    else if (absChange > 1.5) confidence = 72;
+
+    // Urgency based on momentum
+    let urgency: 'IMMEDIATE' | 'SOON' | 'WAIT' = 'SOON';
+    if (absChange > 3.0) urgency = 'IMMEDIATE';
+    else if (absChange < 2.0) urgency = 'WAIT';
+
+    // TP/SL based on volatility
+    const takeProfitPercent = absChange > 3 ? 3.5 : absChange > 2 ? 3.0 : 2.5;
+    const stopLossPercent = absChange > 3 ? 2.0 : absChange > 2 ? 1.8 : 1.5;
+
+    const reasoning = `${action} signal: ${priceChange > 0 ? '+' : ''}${priceChange.toFixed(1)}% momentum with ${signals.composite.signal} composite`;
+
+    return {
+      action,
+      confidence,
+      urgency,
+      takeProfitPercent,
+      stopLossPercent,
+      reasoning,
+      optimalHoldMinutes: absChange > 3 ? 60 : absChange > 2 ? 45 : 30,
+    };
+  }
+
+  /**
+   * The 24h move has cleared the threshold the other way
+   */
+  shouldFlip(signal: TradingSignal, snapshot: MarketSnapshot): boolean {
+    const priceChange = snapshot.market.priceChangePercent24h;
+    return signal.action === 'LONG' ? priceChange < -this.minMovePercent : priceChange > this.minMovePercent;
+  }
+}
+
+// ============================================================================
+// FUNDING-RATE CONTRARIAN
+// ============================================================================
+
+/**
+ * Stretched funding means one side is crowded and paying for it: take the
+ * other side (and collect the funding) unless price is running hard with
+ * the crowd.
+ */
+export class FundingContrarianStrategy extends AnalysisStrategy {
+  readonly id = 'funding-contrarian';
+  private minFundingRate: number;
+  private maxTrendPercent: number;
+
+  constructor(params: Record<string, number> = {}) {
+    super();
+    this.minFundingRate = params.minFundingRate ?? 0.0005;    // 0.05% per funding interval
+    this.maxTrendPercent = params.maxTrendPercent ?? 3;
+  }
+
+  analyze(snapshot: MarketSnapshot): StrategyAnalysis | null {
+    const { fundingRate, priceChangePercent24h } = snapshot.market;
+    if (Math.abs(fundingRate) < this.minFundingRate) return null;
+
+    // Longs pay when funding is positive: fade them
+    const action: 'LONG' | 'SHORT' = fundingRate > 0 ? 'SHORT' : 'LONG';
+    const trendWithCrowd = action === 'SHORT' ? priceChangePercent24h : -priceChangePercent24h;
+    if (trendWithCrowd > this.maxTrendPercent) return null;
+
+    const stretch = Math.abs(fundingRate) / this.minFundingRate;
+    const confidence = Math.round(Math.min(88, 70 + (stretch - 1) * 8));
+
+    return {
+      action,
+      confidence,
+      urgency: stretch > 2 ? 'IMMEDIATE' : 'SOON',
+      takeProfitPercent: 2.5,
+      stopLossPercent: 1.5,
+      reasoning: `${action} against crowded ${fundingRate > 0 ? 'longs' : 'shorts'}: funding ${(fundingRate * 100).toFixed(4)}%`,
+      optimalHoldMinutes: 90,
+    };
+  }
+}
+
+// ============================================================================
+// MEAN REVERSION
+// ============================================================================
+
+/**
+ * Fade a price that has run more than `entryZ` standard deviations from
+ * its recent mean, targeting the mean
+ */
+export class MeanReversionStrategy extends AnalysisStrategy {
+  readonly id = 'mean-reversion';
+  private lookback: number;
+  private minSamples: number;
+  private entryZ: number;
+
+  constructor(params: Record<string, number> = {}) {
+    super();
+    this.lookback = params.lookback ?? 20;
+    this.minSamples = params.minSamples ?? 10;
+    this.entryZ = params.entryZ ?? 2;
+  }
+
+  analyze(snapshot: MarketSnapshot, history: MarketSnapshot[]): StrategyAnalysis | null {
+    const price = snapshot.market.lastPrice;
+    const past = history.length > 0
+      ? history.filter(s => s !== snapshot).map(s => s.market.lastPrice)
+      : snapshot.historicalPrices;
+    const window = past.slice(-this.lookback);
+    if (window.length < this.minSamples) return null;
+
+    const mean = window.reduce((a, b) => a + b, 0) / window.length;
+    const std = Math.sqrt(window.reduce((sum, p) => sum + Math.pow(p - mean, 2), 0) / window.length);
+    if (std === 0) return null;
+
+    const z = (price - mean) / std;
+    if (Math.abs(z) < this.entryZ) return null;
+
+    const action: 'LONG' | 'SHORT' = z > 0 ? 'SHORT' : 'LONG';
+    const distancePercent = Math.abs(price - mean) / price * 100;
+    const takeProfitPercent = Math.min(4, Math.max(1, distancePercent));
+
+    return {
+      action,
+      confidence: Math.round(Math.min(85, 70 + (Math.abs(z) - this.entryZ) * 10)),
+      urgency: Math.abs(z) > this.entryZ + 1 ? 'IMMEDIATE' : 'SOON',
+      takeProfitPercent,
+      stopLossPercent: Math.max(0.8, takeProfitPercent * 0.6),
+      reasoning: `${action} reversion: price ${z.toFixed(1)}σ from its ${window.length}-tick mean $${mean.toFixed(2)}`,
+      optimalHoldMinutes: 30,
+    };
+  }
+}
+
+// ============================================================================
+// LLM
+// ============================================================================
+
+const LLM_MODEL = 'llama-3.3-70b-versatile';
+
+/**
+ * The model's reply; urgency and reasoning have defaults
+ */
+export type EnhancedAnalysisOutput = Omit<StrategyAnalysis, 'model' | 'urgency' | 'reasoning'> &
+  Partial<Pick<StrategyAnalysis, 'urgency' | 'reasoning'>>;
+
+export const ENHANCED_ANALYSIS_SCHEMA: OutputSchema<EnhancedAnalysisOutput> = {
+  name: 'EnhancedAnalysis',
+  fields: {
+    action: { type: 'enum', values: ['LONG', 'SHORT'] },
+    confidence: { type: 'number', min: 50, max: 95, description: 'aim for 70-95 on tradeable setups' },
+    urgency: { type: 'enum', values: ['IMMEDIATE', 'SOON', 'WAIT'], optional: true },
+    takeProfitPercent: { type: 'number', min: 1.5, max: 5 },
+    stopLossPercent: { type: 'number', min: 0.8, max: 2.5 },
+    reasoning: { type: 'string', optional: true, description: '2-3 sentence analysis' },
+    optimalHoldMinutes: { type: 'number', min: 15, max: 180 },
+  },
+};
+
+export class LlmStrategy extends AnalysisStrategy {
+  readonly id = 'llm';
+  private llm?: LlmClient;
+  private fallback = new MomentumStrategy();
+
+  constructor(config: OrchestratorConfig) {
+    super();
+    if (config.useAI) {
+      this.llm = createLlmClient({ groqApiKey: config.groqApiKey, ...config.llm });
+    }
+  }
+
+  async analyze(snapshot: MarketSnapshot): Promise<StrategyAnalysis | null> {
+    const { market, historicalPrices, volatilityTrend, momentumShift, parameters } = snapshot;
+    if (parameters.action === 'SKIP') return null;
+
+    // Try enhanced AI analysis with historical context
+    const analysis = this.llm
+      ? await this.getEnhancedAIAnalysis(this.llm, market, historicalPrices, volatilityTrend, momentumShift)
+      : null;
+
+    // Fallback if AI fails - use market signals
+    return analysis || this.fallback.analyze(snapshot);
+  }
+
+  private async getEnhancedAIAnalysis(
+    llm: LlmClient,
+    market: MarketSnapshot['market'],
+    historicalPrices: number[],
+    volatilityTrend: string,
+    momentumShift: boolean
+  ): Promise<StrategyAnalysis | null> {
+    const priceHistory = historicalPrices.length > 0
+      ? `Recent prices: ${historicalPrices.slice(-5).map(p => p.toFixed(2)).join(' → ')}`
+      : 'No price history';
+
+    const prompt = `PERPETUAL FUTURES ANALYSIS - ${market.symbol}
+
+CURRENT STATE:
+  Price: $${market.lastPrice.toLocaleString()}
+  24h Change: ${market.priceChangePercent24h.toFixed(2)}%
+  Funding Rate: ${(market.fundingRate * 100).toFixed(4)}%
+  Volume: $${(market.volume24h / 1000000).toFixed(2)}M
+
+MARKET DYNAMICS:
+  ${priceHistory}
+  Volatility Trend: ${volatilityTrend}
+  Momentum Shift Detected: ${momentumShift ? 'YES ⚠️' : 'NO'}
+
+CAPITAL: $5 USDE (small account - need high probability)
+
+Consider:
+1. Is momentum shifting? If yes, be more cautious
+2. Volatility increasing? Wider stops, shorter hold
+3. Volatility decreasing? Tighter stops, longer hold
+4. Strong signal? Higher confidence, can hold longer`;
+
+    try {
+      const completion = await llm.completeJson(ENHANCED_ANALYSIS_SCHEMA, {
+        route: 'strategy',
+        model: LLM_MODEL,
+        messages: [
+          {
+            role: "system",
+            content: `You are an expert crypto trader specializing in perpetual futures.
+Focus on HIGH PROBABILITY setups only. Be selective and patient.
+Consider market dynamics and timing carefully.`,
+          },
+          { role: "user", content: prompt },
+        ],
+        temperature: 0.2,
+        maxTokens: 500,
+      });
+
+      const data = completion.data;
+      return {
+        ...data,
+        urgency: data.urgency || 'SOON',
+        reasoning: data.reasoning || 'Signal detected',
+        model: completion.model,
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+}
+
+// ============================================================================
+// DEFAULT REGISTRY
+// ============================================================================
+
+export const strategyRegistry = new StrategyRegistry()
+  .register('llm', (_params, config) => new LlmStrategy(config))
+  .register('momentum', (params) => new MomentumStrategy(params))
+  .register('funding-contrarian', (params) => new FundingContrarianStrategy(params))
+  .register('mean-reversion', (params) => new MeanReversionStrategy(params));
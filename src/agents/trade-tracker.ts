@@ -1,5 +1,15 @@
+/**
+ * Trade Tracker - SQLite Trade Store
+ *
+ * Each results directory holds a `trades.db` (WAL mode, so concurrent
+ * writers queue on a busy timeout instead of clobbering each other). The
+ * full trade is kept as JSON next to indexed columns for the common filters.
+ * migrateJsonTrades() imports the legacy `trades.json` files once.
+ */
+
 import fs from 'fs';
 import path from 'path';
+import Database from 'better-sqlite3';
 
 export interface TradeResult {
   tradeId: string;
@@ -20,16 +30,56 @@ export interface TradeResult {
   pnl?: number;
   resolved?: boolean;
   resolutionDate?: number;
+  
+  // Excursions while open, in the same units as pnl (MFE >= 0, MAE <= 0)
+  maxFavorableExcursion?: number;
+  maxAdverseExcursion?: number;
+  
+  // PnL breakdown in the same units as pnl (leveraged return on margin)
+  grossPnl?: number;                 // Price move only
+  fees?: number;                     // Trading fees paid (>= 0)
+  funding?: number;                  // Funding received (+) or paid (-)
+  netPnl?: number;                   // grossPnl - fees + funding (what pnl records)
+  
+  // Simulation seed for dry-run trades (replay with SIM_SEED)
+  seed?: number;
+  
+  // Attribution
+  agent?: string;                    // Agent that placed it (orchestrator, ethereal-agent, ...)
+  strategy?: string;                 // Strategy that produced the trade
+  configHash?: string;               // hashConfig() of the agent's config / preset
+  model?: string;                    // LLM behind the decision (unset for rule-based trades)
+  exitReason?: string;               // take-profit, stop-loss, time-exit, ...
+}
+
+export interface TradeQuery {
+  from?: number;                     // timestamp >= from (ms)
+  to?: number;                       // timestamp < to (ms)
+  marketId?: string;                 // Symbol / market
+  agent?: string;
+  strategy?: string;
+  configHash?: string;
+  model?: string;
+  exitReason?: string;
+  resolved?: boolean;
+  limit?: number;
+}
+
+export interface MigrationResult {
+  file: string;
+  trades: number;
 }
 
 export class TradeTracker {
   private resultsDir: string;
-  private resultsFile: string;
+  private dbFile: string;
+  private db: Database.Database;
 
   constructor(resultsDir: string = './trade-results') {
     this.resultsDir = resultsDir;
-    this.resultsFile = path.join(resultsDir, 'trades.json');
+    this.dbFile = path.join(resultsDir, 'trades.db');
     this.ensureResultsDir();
+    this.db = this.open();
   }
 
   private ensureResultsDir(): void {
@@ -38,25 +88,95 @@ export class TradeTracker {
     }
   }
 
+  private open(): Database.Database {
+    const db = new Database(this.dbFile);
+    db.pragma('journal_mode = WAL');
+    db.pragma('busy_timeout = 5000');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS trades (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        trade_id TEXT NOT NULL,
+        market_id TEXT NOT NULL,
+        agent TEXT,
+        strategy TEXT,
+        config_hash TEXT,
+        model TEXT,
+        exit_reason TEXT,
+        timestamp INTEGER NOT NULL,
+        resolved INTEGER NOT NULL DEFAULT 0,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_trades_trade_id ON trades (trade_id);
+      CREATE INDEX IF NOT EXISTS idx_trades_market_id ON trades (market_id);
+      CREATE INDEX IF NOT EXISTS idx_trades_timestamp ON trades (timestamp);
+      CREATE INDEX IF NOT EXISTS idx_trades_resolved ON trades (resolved);
+    `);
+
+    // Attribution columns added after the first release
+    const columns = (db.prepare('PRAGMA table_info(trades)').all() as { name: string }[]).map(c => c.name);
+    for (const column of ['agent', 'config_hash', 'model']) {
+      if (!columns.includes(column)) {
+        db.exec(`ALTER TABLE trades ADD COLUMN ${column} TEXT`);
+      }
+    }
+    return db;
+  }
+
   /**
    * Save a trade result
    */
   saveTrade(trade: TradeResult): void {
-    const trades = this.loadTrades();
-    trades.push(trade);
-    fs.writeFileSync(this.resultsFile, JSON.stringify(trades, null, 2));
+    this.insert(trade);
     console.log(`💾 Trade saved: ${trade.tradeId}`);
   }
 
   /**
-   * Load all trades
+   * Bulk insert in one transaction (migration, imports)
+   */
+  saveTrades(trades: TradeResult[]): void {
+    this.db.transaction((batch: TradeResult[]) => {
+      for (const trade of batch) this.insert(trade);
+    })(trades);
+  }
+
+  private insert(trade: TradeResult): void {
+    this.db.prepare(`
+      INSERT INTO trades (trade_id, market_id, agent, strategy, config_hash, model, exit_reason, timestamp, resolved, data)
+      VALUES (@tradeId, @marketId, @agent, @strategy, @configHash, @model, @exitReason, @timestamp, @resolved, @data)
+    `).run(this.toRow(trade));
+  }
+
+  /**
+   * Load all trades, oldest first
    */
   loadTrades(): TradeResult[] {
-    if (!fs.existsSync(this.resultsFile)) {
-      return [];
-    }
-    const data = fs.readFileSync(this.resultsFile, 'utf-8');
-    return JSON.parse(data);
+    return this.queryTrades();
+  }
+
+  /**
+   * Trades matching every given filter, oldest first
+   */
+  queryTrades(query: TradeQuery = {}): TradeResult[] {
+    const clauses: string[] = [];
+    const params: Record<string, unknown> = {};
+
+    if (query.from !== undefined) { clauses.push('timestamp >= @from'); params.from = query.from; }
+    if (query.to !== undefined) { clauses.push('timestamp < @to'); params.to = query.to; }
+    if (query.marketId !== undefined) { clauses.push('market_id = @marketId'); params.marketId = query.marketId; }
+    if (query.agent !== undefined) { clauses.push('agent = @agent'); params.agent = query.agent; }
+    if (query.strategy !== undefined) { clauses.push('strategy = @strategy'); params.strategy = query.strategy; }
+    if (query.configHash !== undefined) { clauses.push('config_hash = @configHash'); params.configHash = query.configHash; }
+    if (query.model !== undefined) { clauses.push('model = @model'); params.model = query.model; }
+    if (query.exitReason !== undefined) { clauses.push('exit_reason = @exitReason'); params.exitReason = query.exitReason; }
+    if (query.resolved !== undefined) { clauses.push('resolved = @resolved'); params.resolved = query.resolved ? 1 : 0; }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const limit = query.limit !== undefined ? `LIMIT ${Math.max(0, Math.floor(query.limit))}` : '';
+    const rows = this.db
+      .prepare(`SELECT data FROM trades ${where} ORDER BY timestamp, id ${limit}`)
+      .all(params) as { data: string }[];
+
+    return rows.map(row => JSON.parse(row.data));
   }
 
   /**
@@ -67,10 +187,12 @@ export class TradeTracker {
     actualOutcome: boolean,
     exitPrice: number
   ): void {
-    const trades = this.loadTrades();
-    const trade = trades.find(t => t.tradeId === tradeId);
+    const row = this.db
+      .prepare('SELECT id, data FROM trades WHERE trade_id = ? ORDER BY id LIMIT 1')
+      .get(tradeId) as { id: number; data: string } | undefined;
     
-    if (trade) {
+    if (row) {
+      const trade: TradeResult = JSON.parse(row.data);
       trade.actualOutcome = actualOutcome;
       trade.exitPrice = exitPrice;
       trade.resolved = true;
@@ -83,7 +205,9 @@ export class TradeTracker {
         trade.pnl = actualOutcome ? -trade.entryPrice : (1 - trade.entryPrice);
       }
       
-      fs.writeFileSync(this.resultsFile, JSON.stringify(trades, null, 2));
+      this.db.prepare(`
+        UPDATE trades SET resolved = @resolved, exit_reason = @exitReason, data = @data WHERE id = @id
+      `).run({ ...this.toRow(trade), id: row.id });
       console.log(`✅ Trade outcome updated: ${tradeId}`);
     }
   }
@@ -118,6 +242,32 @@ export class TradeTracker {
     };
   }
 
+  /**
+   * Delete every stored trade (fresh backtest runs)
+   */
+  clear(): void {
+    this.db.exec('DELETE FROM trades');
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private toRow(trade: TradeResult) {
+    return {
+      tradeId: trade.tradeId,
+      marketId: trade.marketId,
+      agent: trade.agent ?? null,
+      strategy: trade.strategy ?? null,
+      configHash: trade.configHash ?? null,
+      model: trade.model ?? null,
+      exitReason: trade.exitReason ?? null,
+      timestamp: trade.timestamp,
+      resolved: trade.resolved ? 1 : 0,
+      data: JSON.stringify(trade),
+    };
+  }
+
   /**
    * Export trades to CSV for analysis
    */
@@ -128,13 +278,18 @@ export class TradeTracker {
     const headers = [
       'tradeId', 'marketId', 'question', 'action', 'entryPrice', 'size',
       'confidence', 'expectedReturn', 'riskScore', 'timestamp', 'resolved',
-      'actualOutcome', 'exitPrice', 'pnl'
+      'actualOutcome', 'exitPrice', 'pnl', 'maxFavorableExcursion',
+      'maxAdverseExcursion', 'seed', 'agent', 'strategy', 'configHash', 'model',
+      'exitReason'
     ];
     
     const rows = trades.map(t => [
       t.tradeId, t.marketId, `"${t.question}"`, t.action, t.entryPrice, t.size,
       t.confidence, t.expectedReturn, t.riskScore, t.timestamp, t.resolved || false,
-      t.actualOutcome || '', t.exitPrice || '', t.pnl || ''
+      t.actualOutcome || '', t.exitPrice || '', t.pnl || '',
+      t.maxFavorableExcursion ?? '', t.maxAdverseExcursion ?? '', t.seed ?? '',
+      t.agent ?? '', t.strategy ?? '', t.configHash ?? '', t.model ?? '',
+      t.exitReason ?? ''
     ]);
     
     const csv = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
@@ -142,3 +297,35 @@ export class TradeTracker {
     console.log(`📊 Trades exported to: ${csvPath}`);
   }
 }
+
+/**
+ * One-time import of legacy `trades.json` files under `rootDir` into the
+ * `trades.db` beside each one. Imported files are renamed to
+ * `trades.json.migrated` so re-running never duplicates trades.
+ */
+export function migrateJsonTrades(rootDir: string = './trade-results'): MigrationResult[] {
+  const results: MigrationResult[] = [];
+  if (!fs.existsSync(rootDir)) return results;
+
+  const visit = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        visit(entryPath);
+      } else if (entry.name === 'trades.json') {
+        const trades: TradeResult[] = JSON.parse(fs.readFileSync(entryPath, 'utf-8'));
+        const tracker = new TradeTracker(dir);
+        try {
+          tracker.saveTrades(trades);
+        } finally {
+          tracker.close();
+        }
+        fs.renameSync(entryPath, `${entryPath}.migrated`);
+        results.push({ file: entryPath, trades: trades.length });
+      }
+    }
+  };
+
+  visit(rootDir);
+  return results;
+}
@@ -7,10 +7,12 @@
  * Requires capital deployment.
  */
 
-import Groq from "groq-sdk";
+import { LlmClient, LlmClientConfig, createLlmClient } from "../clients/llm-client";
 import { ethers } from "ethers";
 import axios from "axios";
 import { TradeTracker, TradeResult } from "./trade-tracker";
+import { SeededRandom, resolveRng } from "../utils/random";
+import { hashConfig } from "../utils/config-hash";
 
 interface Market {
   id: string;
@@ -35,10 +37,12 @@ interface Prediction {
 
 interface Config {
   groqApiKey: string;
+  llm?: Partial<LlmClientConfig>; // Provider, model and routes (default: Groq, LLM_* env)
   privateKey: string;
   arbitrumRpcUrl?: string;
   dryRun?: boolean;
   marketFilter?: string[];
+  seed?: number; // Dry-run simulation seed (defaults to SIM_SEED or random)
 }
 
 interface Forecast {
@@ -62,7 +66,7 @@ interface TradeDecision {
 }
 
 export class TradingAgent {
-  private groq: Groq;
+  private llm: LlmClient;
   private provider: ethers.JsonRpcProvider;
   private walletAddress: string;
   private minConfidence: number = 0.65;
@@ -70,19 +74,25 @@ export class TradingAgent {
   private dryRun: boolean = false;
   private tracker: TradeTracker;
   private marketFilter?: string[];
+  private rng: SeededRandom;
+  private configHash: string;
 
   constructor(config: Config) {
     this.provider = new ethers.JsonRpcProvider(
       config.arbitrumRpcUrl || "https://arb1.arbitrum.io/rpc",
     );
     const wallet = new ethers.Wallet(config.privateKey, this.provider);
-    this.groq = new Groq({
-      apiKey: config.groqApiKey,
-    });
+    this.llm = createLlmClient({ groqApiKey: config.groqApiKey, ...config.llm });
     this.walletAddress = wallet.address;
     this.dryRun = config.dryRun || false;
     this.tracker = new TradeTracker();
     this.marketFilter = config.marketFilter;
+    this.rng = resolveRng(config.seed);
+    this.configHash = hashConfig({
+      ...config,
+      minConfidence: this.minConfidence,
+      minExpectedValue: this.minExpectedValue,
+    });
   }
 
   /**
@@ -231,7 +241,7 @@ export class TradingAgent {
             // Simulate outcome based on confidence and market price
             const winProbability =
               decision.confidence * (forecast.probability / 100);
-            const isWin = Math.random() < winProbability;
+            const isWin = this.rng.chance(winProbability);
             simulatedPnL = isWin
               ? 1 - (market.yes_price || 0.5)
               : -(market.yes_price || 0.5);
@@ -257,6 +267,10 @@ export class TradingAgent {
               reasoning: decision.reasoning,
               pnl: simulatedPnL,
               resolved: this.dryRun, // Mark as resolved in dry run
+              ...(this.dryRun ? { seed: this.rng.seed } : {}),
+              agent: "trading-agent",
+              strategy: "forecast-edge",
+              configHash: this.configHash,
             };
 
             this.tracker.saveTrade(tradeResult);
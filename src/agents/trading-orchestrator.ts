@@ -25,11 +25,41 @@
  */
 
 import { EventEmitter } from 'events';
-import Groq from 'groq-sdk';
-import { EtherealClient, EtherealMarket } from '../clients/ethereal-client';
+import path from 'path';
+import {
+  EtherealClient,
+  EtherealMarket,
+  EtherealOrderBook,
+  Position,
+  Product,
+  ProductTicker,
+  marketSymbol,
+  mergeTicker,
+} from '../clients/ethereal-client';
+import { EtherealStream, StreamGap } from '../clients/ethereal-stream';
+import type { LlmClientConfig } from '../clients/llm-client';
+import {
+  FillEstimate,
+  FillModel,
+  FillModelConfig,
+  FUNDING_INTERVAL_MS,
+  expectedEdgePercent,
+  fundingPayment,
+} from './fill-model';
+import { AccountMargin, MarginConfig, MarginEngine, PositionMargin } from './margin-engine';
 import { TradeTracker, TradeResult } from './trade-tracker';
 import { ProfitScorer } from './profit-scorer';
 import { MarketAnalyzer, MarketSignals, TradingParameters } from './market-analyzer';
+import { Clock, systemClock } from '../utils/clock';
+import { MarketRecorder } from '../utils/market-recorder';
+import { SeededRandom, resolveRng } from '../utils/random';
+import { hashConfig } from '../utils/config-hash';
+import { PricePathModel, PricePathSimulator } from './price-path-simulator';
+import { EtherealOrderExecutor, OrderExecutor, OrderFill } from './order-executor';
+import { OrchestratorState, OrchestratorStateStore } from './orchestrator-state';
+import { PortfolioRiskGate, RiskDecision, RiskLimits } from './portfolio-risk-gate';
+import { BreakerTrip, CircuitBreaker, CircuitBreakerConfig, DEFAULT_BREAKER_DIR } from './circuit-breaker';
+import { Strategy, StrategyAllocation, StrategyRegistry, parseStrategyAllocations, strategyRegistry } from './strategies';
 
 // ============================================================================
 // TYPES
@@ -43,6 +73,7 @@ export interface MarketSnapshot {
   historicalPrices: number[];
   volatilityTrend: 'INCREASING' | 'STABLE' | 'DECREASING';
   momentumShift: boolean;
+  orderBook?: EtherealOrderBook;     // Book the signals were computed from, when one was at hand
 }
 
 export interface TradingSignal {
@@ -61,6 +92,10 @@ export interface TradingSignal {
   createdAt: number;
   expiresAt: number;
   marketSnapshot: MarketSnapshot;
+  expectedFill?: FillEstimate;       // Entry walked through the book at execution time
+  costPercent?: number;              // Round-trip slippage + fees, % of notional
+  strategy?: string;                 // Strategy that generated the signal
+  model?: string;                    // LLM behind the signal, if any
 }
 
 export interface OpenPosition {
@@ -80,10 +115,27 @@ export interface OpenPosition {
   maxHoldTime: number;
   marketSnapshot: MarketSnapshot;
   exitReason?: string;
+  maxFavorableExcursion: number;     // Best unrealized PnL seen (leveraged, >= 0)
+  maxAdverseExcursion: number;       // Worst unrealized PnL seen (leveraged, <= 0)
+  fees: number;                      // USD paid in trading fees so far
+  accruedFunding: number;            // USD funding received (+) or paid (-) so far
+  lastFundingAt: number;             // Funding accrued up to this time
+  maxLeverage: number;               // Product limit, sets margin rates
+  liquidationPrice: number;          // Exchange-reported when live, modelled otherwise
+  marginAlerted?: boolean;           // Near-liquidation warning already sent
+  strategy?: string;                 // Strategy that opened the position
+  model?: string;                    // LLM behind the entry, if any
+  
+  // Live execution only
+  quantity?: number;                 // Base units still held on the exchange
+  exitedQuantity?: number;           // Base units closed so far (partial exits)
+  exitNotional?: number;             // Sum of exit fill price * quantity
+  closing?: boolean;                 // Exit order in flight
 }
 
 export interface OrchestratorConfig {
   groqApiKey: string;
+  privateKey?: string;               // Signs Ethereal orders (required when dryRun is false)
   totalCapital: number;
   
   // Timing
@@ -101,14 +153,58 @@ export interface OrchestratorConfig {
   signalExpiryMs: number;            // How long signals are valid
   minSignalAge: number;              // Minimum time to observe before trading
   
+  useAI: boolean;                    // Query the LLM for enhanced analysis (off = deterministic fallback)
+  llm?: Partial<LlmClientConfig>;    // Provider, model and per-task routes (default: Groq, LLM_* env)
+  strategies?: StrategyAllocation[]; // Strategies run side by side (default: llm, or momentum without AI)
+  recordMarketData: boolean;         // Persist every polled market to trade-results/market-data
+  streamMarketData: boolean;         // WebSocket ticker and order book feed, with REST polling only as a fallback
+  marketListRefreshMs?: number;      // While streaming, how often REST re-lists markets to pick up new ones (default 1 min)
+  seed?: number;                     // Dry-run simulation seed (defaults to SIM_SEED or random)
+  pricePathModel: PricePathModel;    // Dry-run price paths: 'gbm' | 'jump-diffusion'
+  fees?: Partial<FillModelConfig>;   // Maker/taker fees and synthetic book shape
+  fundingIntervalMs?: number;        // Period the market funding rate applies to (default hourly)
+  margin?: Partial<MarginConfig>;    // Maintenance share and liquidation guard buffers
+  riskLimits?: Partial<RiskLimits>;  // Portfolio exposure, loss and drawdown limits
+  circuitBreaker?: Partial<CircuitBreakerConfig>; // Kill switch triggers and whether trips flatten
+  persistState?: boolean;            // Snapshot + journal for crash recovery (default: live only)
+  stateSnapshotIntervalMs: number;   // How often to write a full state snapshot
   dryRun: boolean;
 }
 
+/**
+ * Anything that can supply a list of markets (live client, recorded replay)
+ */
+export interface MarketDataSource {
+  getMarkets(): Promise<EtherealMarket[]>;
+  getOrderBook?(symbol: string, depth?: number): Promise<EtherealOrderBook>;
+}
+
+/**
+ * Optional collaborators, mainly for replaying recorded data
+ */
+export interface OrchestratorDependencies {
+  clock?: Clock;
+  marketSource?: MarketDataSource;
+  resultsDir?: string;
+  replay?: boolean;                  // Exits come from replayed prices, not simulated outcomes
+  recorder?: MarketRecorder;         // Market data sink (overrides recordMarketData)
+  executor?: OrderExecutor;          // Live order routing (defaults to the signed Ethereal client)
+  stream?: EtherealStream;           // Ticker and order book feed (overrides streamMarketData)
+  stateStore?: OrchestratorStateStore; // Crash recovery store (overrides persistState)
+  positionSource?: PositionSource;   // Exchange positions to reconcile against on recovery
+  circuitBreaker?: CircuitBreaker;   // Kill switch (defaults to the shared on-disk switch when live)
+}
+
+/**
+ * Exchange view of open positions and marks, for reconciling restored state
+ */
+export type PositionSource = Pick<EtherealClient, 'getPositions' | 'getProducts' | 'getMarketPrices'>;
+
 // ============================================================================
 // DEFAULT CONFIG
 // ============================================================================
 
-const DEFAULT_CONFIG: Partial<OrchestratorConfig> = {
+export const DEFAULT_ORCHESTRATOR_CONFIG: Omit<OrchestratorConfig, 'groqApiKey'> = {
   totalCapital: 5,
   marketUpdateIntervalMs: 5000,      // Update markets every 5s
   analysisIntervalMs: 15000,         // Deep analysis every 15s
@@ -119,24 +215,37 @@ const DEFAULT_CONFIG: Partial<OrchestratorConfig> = {
   maxRiskScore: 60,
   signalExpiryMs: 120000,            // Signals expire after 2 min
   minSignalAge: 10000,               // Observe for 10s before acting
+  useAI: true,
+  recordMarketData: false,
+  streamMarketData: false,
+  pricePathModel: 'gbm',
+  stateSnapshotIntervalMs: 30000,
   dryRun: true,
 };
 
+const MARKET_LIST_REFRESH_MS = 60000;
+
 // ============================================================================
 // MARKET MONITOR - Continuous Data Collection
 // ============================================================================
 
-class MarketMonitor extends EventEmitter {
-  private ethereal: EtherealClient;
+export class MarketMonitor extends EventEmitter {
   private marketSnapshots: Map<string, MarketSnapshot[]> = new Map();
+  private latestSnapshots: Map<string, MarketSnapshot> = new Map();
   private latestMarkets: Map<string, EtherealMarket> = new Map();
   private analyzer: MarketAnalyzer;
   private isRunning = false;
   private updateInterval?: NodeJS.Timeout;
+  private stream?: EtherealStream;
+  private pollOrderBooks = false;
+  private lastMarketFetch = 0;
   
-  constructor(private config: OrchestratorConfig) {
+  constructor(
+    private config: OrchestratorConfig,
+    private ethereal: MarketDataSource = new EtherealClient(),
+    private clock: Clock = systemClock
+  ) {
     super();
-    this.ethereal = new EtherealClient();
     this.analyzer = new MarketAnalyzer();
   }
 
@@ -147,8 +256,19 @@ class MarketMonitor extends EventEmitter {
     console.log('📡 Market Monitor started');
     await this.updateMarkets();
     
+    if (this.stream) {
+      await this.startStream(this.stream);
+    }
+    
+    // While the stream is up, polling only resumes if it drops; the market
+    // list is still re-fetched now and then so new listings get subscribed
+    const listRefreshMs = this.config.marketListRefreshMs ?? MARKET_LIST_REFRESH_MS;
     this.updateInterval = setInterval(
-      () => this.updateMarkets(),
+      () => {
+        if (!this.stream?.isConnected() || this.clock.now() - this.lastMarketFetch >= listRefreshMs) {
+          this.updateMarkets();
+        }
+      },
       this.config.marketUpdateIntervalMs
     );
   }
@@ -158,69 +278,184 @@ class MarketMonitor extends EventEmitter {
     if (this.updateInterval) {
       clearInterval(this.updateInterval);
     }
+    this.stream?.close();
     console.log('📡 Market Monitor stopped');
   }
 
-  private async updateMarkets(): Promise<void> {
+  /**
+   * Take price updates from a WebSocket feed instead of polling
+   */
+  setStream(stream: EtherealStream): void {
+    this.stream = stream;
+  }
+
+  /**
+   * Fetch each market's book with every poll when no stream supplies it,
+   * so snapshots carry top-of-book (for the recorder)
+   */
+  setPollOrderBooks(enabled: boolean): void {
+    this.pollOrderBooks = enabled;
+  }
+
+  private async startStream(stream: EtherealStream): Promise<void> {
+    stream.on('ticker', (symbol: string, ticker: ProductTicker) => this.applyTicker(symbol, ticker));
+    stream.on('gap', (gap: StreamGap) => {
+      // Missed ticks: resync everything from REST
+      if (gap.channel === 'ticker') this.updateMarkets();
+    });
+    stream.on('open', () => console.log('📡 Market stream connected'));
+    stream.on('close', () => console.log('📡 Market stream dropped - polling until it reconnects'));
+    stream.on('error', (error: Error) => this.emit('error', error));
+    
+    // Subscriptions were queued by the first market fetch and go out on connect
+    try {
+      await stream.connect();
+    } catch (error: any) {
+      console.log(`📡 Market stream unavailable (${error.message}) - polling`);
+    }
+  }
+
+  /**
+   * Stream ticks and books for every listed market (repeat subscriptions are no-ops)
+   */
+  private subscribeMarkets(symbols: string[]): void {
+    for (const symbol of symbols) {
+      this.stream?.subscribe('ticker', symbol);
+      this.stream?.subscribe('orderbook', symbol);
+    }
+  }
+
+  /**
+   * Current book: the stream's copy when it has one, otherwise fetched
+   */
+  async getOrderBook(symbol: string): Promise<EtherealOrderBook | undefined> {
+    const streamed = this.stream?.getOrderBook(symbol);
+    if (streamed) return streamed;
+    if (!this.ethereal.getOrderBook) return undefined;
+    
+    try {
+      return await this.ethereal.getOrderBook(symbol);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Apply one streamed tick to a known market and emit its snapshot. Every
+   * tick reaches 'marketUpdate' (position exits), but history and
+   * opportunities are bucketed to the poll interval so a busy stream
+   * neither shortens the lookback nor floods analysis.
+   */
+  applyTicker(symbol: string, ticker: ProductTicker): MarketSnapshot | undefined {
+    const previous = this.latestMarkets.get(symbol);
+    if (!previous) return undefined;
+    
+    const market = mergeTicker(previous, ticker);
+    this.latestMarkets.set(symbol, market);
+    
+    const now = this.clock.now();
+    const history = this.getHistory(symbol);
+    const lastRecorded = history[history.length - 1];
+    if (lastRecorded && now - lastRecorded.timestamp < this.config.marketUpdateIntervalMs) {
+      const snapshot = this.buildSnapshot(market, now);
+      this.latestSnapshots.set(symbol, snapshot);
+      this.emit('marketUpdate', snapshot);
+      return snapshot;
+    }
+    return this.recordSnapshot(market, now);
+  }
+
+  async updateMarkets(): Promise<MarketSnapshot[]> {
+    const updated: MarketSnapshot[] = [];
+    
     try {
       const markets = await this.ethereal.getMarkets();
-      const timestamp = Date.now();
+      const books = this.pollOrderBooks
+        ? await Promise.all(markets.map(m => this.getOrderBook(m.symbol)))
+        : [];
+      const timestamp = this.clock.now();
+      this.lastMarketFetch = timestamp;
       
-      for (const market of markets) {
+      markets.forEach((market, i) => {
         // Store latest
         this.latestMarkets.set(market.symbol, market);
-        
-        // Analyze signals
-        const signals = this.analyzer.analyzeSignals(market);
-        const parameters = this.analyzer.getOptimalParameters(
-          market, 
-          signals, 
-          this.config.totalCapital
-        );
-        
-        // Get historical prices for this symbol
-        const history = this.marketSnapshots.get(market.symbol) || [];
-        const historicalPrices = history.map(s => s.market.lastPrice);
-        
-        // Detect volatility trend
-        const volatilityTrend = this.detectVolatilityTrend(history);
-        
-        // Detect momentum shift
-        const momentumShift = this.detectMomentumShift(market, history);
-        
-        const snapshot: MarketSnapshot = {
-          market,
-          timestamp,
-          signals,
-          parameters,
-          historicalPrices,
-          volatilityTrend,
-          momentumShift,
-        };
-        
-        // Store snapshot (keep last 60 snapshots = 5 minutes at 5s intervals)
-        if (!this.marketSnapshots.has(market.symbol)) {
-          this.marketSnapshots.set(market.symbol, []);
-        }
-        const snapshots = this.marketSnapshots.get(market.symbol)!;
-        snapshots.push(snapshot);
-        if (snapshots.length > 60) snapshots.shift();
-        
-        // Emit update
-        this.emit('marketUpdate', snapshot);
-        
-        // Emit opportunity if strong signal
-        if (Math.abs(signals.composite.score) > 40 && 
-            signals.composite.confidence >= this.config.minConfidence) {
-          this.emit('opportunity', snapshot);
-        }
-      }
+        updated.push(this.recordSnapshot(market, timestamp, books[i]));
+      });
+      
+      this.subscribeMarkets(markets.map(m => m.symbol));
       
       this.emit('allMarketsUpdated', Array.from(this.latestMarkets.values()));
       
     } catch (error) {
       this.emit('error', error);
     }
+    
+    return updated;
+  }
+
+  private recordSnapshot(market: EtherealMarket, timestamp: number, orderBook?: EtherealOrderBook): MarketSnapshot {
+    const snapshot = this.buildSnapshot(market, timestamp, orderBook);
+    
+    // Store snapshot (keep last 60 snapshots = 5 minutes at 5s intervals)
+    if (!this.marketSnapshots.has(market.symbol)) {
+      this.marketSnapshots.set(market.symbol, []);
+    }
+    const snapshots = this.marketSnapshots.get(market.symbol)!;
+    snapshots.push(snapshot);
+    if (snapshots.length > 60) snapshots.shift();
+    this.latestSnapshots.set(market.symbol, snapshot);
+    
+    // Emit update
+    this.emit('marketUpdate', snapshot);
+    
+    // Emit opportunity if strong signal
+    if (this.isOpportunity(snapshot)) {
+      this.emit('opportunity', snapshot);
+    }
+    
+    return snapshot;
+  }
+
+  private buildSnapshot(
+    market: EtherealMarket,
+    timestamp: number,
+    orderBook: EtherealOrderBook | undefined = this.stream?.getOrderBook(market.symbol)
+  ): MarketSnapshot {
+    // Analyze signals
+    const signals = this.analyzer.analyzeSignals(market, orderBook);
+    const parameters = this.analyzer.getOptimalParameters(
+      market, 
+      signals, 
+      this.config.totalCapital,
+      orderBook
+    );
+    
+    // Get historical prices for this symbol
+    const history = this.marketSnapshots.get(market.symbol) || [];
+    const historicalPrices = history.map(s => s.market.lastPrice);
+    
+    // Detect volatility trend
+    const volatilityTrend = this.detectVolatilityTrend(history);
+    
+    // Detect momentum shift
+    const momentumShift = this.detectMomentumShift(market, history);
+    
+    return {
+      market,
+      timestamp,
+      signals,
+      parameters,
+      historicalPrices,
+      volatilityTrend,
+      momentumShift,
+      ...(orderBook ? { orderBook } : {}),
+    };
+  }
+
+  isOpportunity(snapshot: MarketSnapshot): boolean {
+    const { composite } = snapshot.signals;
+    return Math.abs(composite.score) > 40 &&
+      composite.confidence >= this.config.minConfidence;
   }
 
   private detectVolatilityTrend(
@@ -265,9 +500,11 @@ class MarketMonitor extends EventEmitter {
     return recentDirection !== olderDirection;
   }
 
+  /**
+   * Latest snapshot, streamed ticks included
+   */
   getSnapshot(symbol: string): MarketSnapshot | undefined {
-    const snapshots = this.marketSnapshots.get(symbol);
-    return snapshots?.[snapshots.length - 1];
+    return this.latestSnapshots.get(symbol);
   }
 
   getHistory(symbol: string): MarketSnapshot[] {
@@ -283,15 +520,52 @@ class MarketMonitor extends EventEmitter {
 // ANALYSIS ENGINE - Deep Market Analysis
 // ============================================================================
 
-class AnalysisEngine extends EventEmitter {
-  private groq: Groq;
+export class AnalysisEngine extends EventEmitter {
+  private strategies: Array<{ strategy: Strategy; allocation: number }>;
+  private committedMargin: (strategyId: string) => number = () => 0;
   private signalQueue: Map<string, TradingSignal> = new Map();
+  private analyzing: Set<string> = new Set();   // Symbols with analysis in flight
   private isRunning = false;
   private analysisInterval?: NodeJS.Timeout;
 
-  constructor(private config: OrchestratorConfig) {
+  constructor(
+    private config: OrchestratorConfig,
+    private clock: Clock = systemClock,
+    registry: StrategyRegistry = strategyRegistry
+  ) {
     super();
-    this.groq = new Groq({ apiKey: config.groqApiKey });
+    const allocations = config.strategies ?? [{ id: config.useAI ? 'llm' : 'momentum', allocation: 1 }];
+    const invalid = allocations.find(a => !Number.isFinite(a.allocation) || a.allocation < 0);
+    if (invalid) {
+      throw new Error(`Invalid allocation ${invalid.allocation} for strategy "${invalid.id}"`);
+    }
+    const total = allocations.reduce((sum, a) => sum + a.allocation, 0);
+    if (total > 1 + 1e-9) {
+      throw new Error(`Strategy allocations add up to ${total.toFixed(2)} (max 1)`);
+    }
+    this.strategies = allocations.map(a => ({
+      strategy: registry.create(a.id, config, a.params),
+      allocation: a.allocation,
+    }));
+  }
+
+  /**
+   * Share of total capital a strategy may commit (0 if it is not running)
+   */
+  getAllocation(strategyId: string): number {
+    return this.strategies.find(s => s.strategy.id === strategyId)?.allocation ?? 0;
+  }
+
+  getStrategies(): Array<{ id: string; allocation: number }> {
+    return this.strategies.map(s => ({ id: s.strategy.id, allocation: s.allocation }));
+  }
+
+  /**
+   * Margin each strategy has open, so one that has used its allocation
+   * doesn't crowd out a strategy with room left on the same market
+   */
+  setCommittedMargin(lookup: (strategyId: string) => number): void {
+    this.committedMargin = lookup;
   }
 
   async start(marketMonitor: MarketMonitor): Promise<void> {
@@ -302,7 +576,7 @@ class AnalysisEngine extends EventEmitter {
     
     // Listen to market opportunities
     marketMonitor.on('opportunity', (snapshot: MarketSnapshot) => {
-      this.queueForAnalysis(snapshot);
+      this.queueForAnalysis(snapshot, marketMonitor.getHistory(snapshot.market.symbol));
     });
     
     // Run periodic deep analysis
@@ -320,9 +594,24 @@ class AnalysisEngine extends EventEmitter {
     console.log('🧠 Analysis Engine stopped');
   }
 
-  private async queueForAnalysis(snapshot: MarketSnapshot): Promise<void> {
+  /**
+   * Analyze a market unless an analysis of it is already in flight
+   */
+  async queueForAnalysis(snapshot: MarketSnapshot, history: MarketSnapshot[] = []): Promise<void> {
+    const symbol = snapshot.market.symbol;
+    if (this.analyzing.has(symbol)) return;
+    
+    this.analyzing.add(symbol);
+    try {
+      await this.analyze(snapshot, history);
+    } finally {
+      this.analyzing.delete(symbol);
+    }
+  }
+
+  private async analyze(snapshot: MarketSnapshot, history: MarketSnapshot[]): Promise<void> {
     const symbol = snapshot.market.symbol;
-    const now = Date.now();
+    const now = this.clock.now();
     
     // Check if we already have a valid signal
     const existing = this.signalQueue.get(symbol);
@@ -330,15 +619,11 @@ class AnalysisEngine extends EventEmitter {
       // Update existing signal with new data
       existing.marketSnapshot = snapshot;
       
-      // Check if direction should flip (significant change)
-      const priceChange = snapshot.market.priceChangePercent24h;
-      const shouldBeLong = priceChange > 1.5;
-      const shouldBeShort = priceChange < -1.5;
-      const currentIsLong = existing.action === 'LONG';
-      
-      // If direction should flip, generate new signal
-      if ((shouldBeLong && !currentIsLong) || (shouldBeShort && currentIsLong)) {
-        const signal = await this.generateSignal(snapshot);
+      // The signal's own strategy decides whether it has flipped; only that
+      // strategy runs again (never the whole set, LLM included)
+      const owner = this.strategies.find(s => s.strategy.id === existing.strategy);
+      if (owner?.strategy.shouldFlip?.(existing, snapshot)) {
+        const signal = await this.generateSignal(snapshot, history, [owner]);
         if (signal) {
           this.signalQueue.set(symbol, signal);
           this.emit('newSignal', signal);
@@ -348,14 +633,14 @@ class AnalysisEngine extends EventEmitter {
     }
     
     // Generate new signal
-    const signal = await this.generateSignal(snapshot);
+    const signal = await this.generateSignal(snapshot, history);
     if (signal) {
       this.signalQueue.set(symbol, signal);
       this.emit('newSignal', signal);
     }
   }
 
-  private async runDeepAnalysis(marketMonitor: MarketMonitor): Promise<void> {
+  async runDeepAnalysis(marketMonitor: MarketMonitor): Promise<void> {
     const markets = marketMonitor.getLatestMarkets();
     
     // Score all markets
@@ -371,7 +656,7 @@ class AnalysisEngine extends EventEmitter {
     // Analyze top 5 opportunities to find more trades
     for (const { snapshot } of scoredMarkets.slice(0, 5)) {
       if (snapshot && Math.abs(snapshot.signals.composite.score) > 25) {
-        await this.queueForAnalysis(snapshot);
+        await this.queueForAnalysis(snapshot, marketMonitor.getHistory(snapshot.market.symbol));
       }
     }
     
@@ -384,265 +669,43 @@ class AnalysisEngine extends EventEmitter {
     });
   }
 
-  private async generateSignal(snapshot: MarketSnapshot): Promise<TradingSignal | null> {
-    const { market, signals, parameters, historicalPrices, volatilityTrend, momentumShift } = snapshot;
-    
-    if (parameters.action === 'SKIP') return null;
-    
-    try {
-      // Try enhanced AI analysis with historical context
-      let analysis = await this.getEnhancedAIAnalysis(
-        market, 
-        historicalPrices, 
-        volatilityTrend, 
-        momentumShift
-      );
-      
-      // Fallback if AI fails - use market signals
-      if (!analysis) {
-        analysis = this.getFallbackAnalysis(market, signals);
-      }
-      
-      if (!analysis || analysis.confidence < this.config.minConfidence) {
-        return null;
-      }
-      
-      // Calculate position size
-      const positionSize = this.calculatePositionSize(analysis.confidence, signals);
-      
-      // Determine leverage
-      const leverage = this.calculateLeverage(analysis.confidence, signals.volatility.regime);
-      
-      // Calculate optimal hold time based on market conditions
-      const holdTimeMinutes = this.calculateHoldTime(signals, volatilityTrend, analysis);
-      
-      const now = Date.now();
-      
-      return {
-        id: `${market.symbol}-${now}`,
-        symbol: market.symbol,
-        action: analysis.action,
-        confidence: analysis.confidence,
-        urgency: analysis.urgency,
-        entryPrice: market.lastPrice,
-        takeProfitPrice: analysis.action === 'LONG' 
-          ? market.lastPrice * (1 + analysis.takeProfitPercent / 100)
-          : market.lastPrice * (1 - analysis.takeProfitPercent / 100),
-        stopLossPrice: analysis.action === 'LONG'
-          ? market.lastPrice * (1 - analysis.stopLossPercent / 100)
-          : market.lastPrice * (1 + analysis.stopLossPercent / 100),
-        positionSize,
-        leverage,
-        holdTimeMinutes,
-        reasoning: analysis.reasoning,
-        createdAt: now,
-        expiresAt: now + this.config.signalExpiryMs,
-        marketSnapshot: snapshot,
-      };
-    } catch (error) {
-      console.error(`Analysis error for ${market.symbol}:`, error);
-      return null;
-    }
-  }
-
-  private async getEnhancedAIAnalysis(
-    market: EtherealMarket,
-    historicalPrices: number[],
-    volatilityTrend: string,
-    momentumShift: boolean
-  ): Promise<{
-    action: 'LONG' | 'SHORT';
-    confidence: number;
-    urgency: 'IMMEDIATE' | 'SOON' | 'WAIT';
-    takeProfitPercent: number;
-    stopLossPercent: number;
-    reasoning: string;
-    optimalHoldMinutes: number;
-  } | null> {
-    const priceHistory = historicalPrices.length > 0 
-      ? `Recent prices: ${historicalPrices.slice(-5).map(p => p.toFixed(2)).join(' → ')}`
-      : 'No price history';
-
-    const prompt = `PERPETUAL FUTURES ANALYSIS - ${market.symbol}
-
-CURRENT STATE:
-  Price: $${market.lastPrice.toLocaleString()}
-  24h Change: ${market.priceChangePercent24h.toFixed(2)}%
-  Funding Rate: ${(market.fundingRate * 100).toFixed(4)}%
-  Volume: $${(market.volume24h / 1000000).toFixed(2)}M
-  
-MARKET DYNAMICS:
-  ${priceHistory}
-  Volatility Trend: ${volatilityTrend}
-  Momentum Shift Detected: ${momentumShift ? 'YES ⚠️' : 'NO'}
-
-CAPITAL: $5 USDE (small account - need high probability)
-
-ANALYZE and provide JSON:
-{
-  "action": "LONG" | "SHORT",
-  "confidence": 70-95,
-  "urgency": "IMMEDIATE" | "SOON" | "WAIT",
-  "takeProfitPercent": 2.0-5.0,
-  "stopLossPercent": 1.0-2.5,
-  "reasoning": "2-3 sentence analysis",
-  "optimalHoldMinutes": 15-180
-}
-
-Consider:
-1. Is momentum shifting? If yes, be more cautious
-2. Volatility increasing? Wider stops, shorter hold
-3. Volatility decreasing? Tighter stops, longer hold
-4. Strong signal? Higher confidence, can hold longer`;
-
-    try {
-      const completion = await this.groq.chat.completions.create({
-        model: "llama-3.3-70b-versatile",
-        messages: [
-          {
-            role: "system",
-            content: `You are an expert crypto trader specializing in perpetual futures. 
-Focus on HIGH PROBABILITY setups only. Be selective and patient.
-Consider market dynamics and timing carefully.`,
-          },
-          { role: "user", content: prompt },
-        ],
-        temperature: 0.2,
-        max_tokens: 500,
-      });
-
-      const response = completion.choices[0]?.message?.content || "";
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      
-      if (!jsonMatch) return null;
-      
-      const data = JSON.parse(jsonMatch[0]);
-      
-      return {
-        action: data.action,
-        confidence: Math.min(95, Math.max(50, data.confidence)),
-        urgency: data.urgency || 'SOON',
-        takeProfitPercent: Math.min(5, Math.max(1.5, data.takeProfitPercent)),
-        stopLossPercent: Math.min(2.5, Math.max(0.8, data.stopLossPercent)),
-        reasoning: data.reasoning || 'Signal detected',
-        optimalHoldMinutes: Math.min(180, Math.max(15, data.optimalHoldMinutes)),
-      };
-    } catch (error) {
-      return null;
-    }
-  }
-
   /**
-   * Fallback analysis when AI is unavailable
+   * Run every strategy on the market and keep the most confident signal
+   * that fits in what is left of its strategy's allocation
    */
-  private getFallbackAnalysis(
-    market: EtherealMarket,
-    signals: MarketSignals
-  ): {
-    action: 'LONG' | 'SHORT';
-    confidence: number;
-    urgency: 'IMMEDIATE' | 'SOON' | 'WAIT';
-    takeProfitPercent: number;
-    stopLossPercent: number;
-    reasoning: string;
-    optimalHoldMinutes: number;
-  } | null {
-    const priceChange = market.priceChangePercent24h;
-    const absChange = Math.abs(priceChange);
-    
-    // Only trade clear momentum
-    if (absChange < 1.5) return null;
-    
-    const action: 'LONG' | 'SHORT' = priceChange > 0 ? 'LONG' : 'SHORT';
-    
-    // Confidence based on momentum strength
-    let confidence = 70;
-    if (absChange > 3.0) confidence = 82;
-    else if (absChange > 2.5) confidence = 78;
-    else if (absChange > 2.0) confidence = 75;
-    else if (absChange > 1.5) confidence = 72;
-    
-    // Urgency based on momentum
-    let urgency: 'IMMEDIATE' | 'SOON' | 'WAIT' = 'SOON';
-    if (absChange > 3.0) urgency = 'IMMEDIATE';
-    else if (absChange < 2.0) urgency = 'WAIT';
-    
-    // TP/SL based on volatility
-    const takeProfitPercent = absChange > 3 ? 3.5 : absChange > 2 ? 3.0 : 2.5;
-    const stopLossPercent = absChange > 3 ? 2.0 : absChange > 2 ? 1.8 : 1.5;
-    
-    const reasoning = `${action} signal: ${priceChange > 0 ? '+' : ''}${priceChange.toFixed(1)}% momentum with ${signals.composite.signal} composite`;
-    
-    return {
-      action,
-      confidence,
-      urgency,
-      takeProfitPercent,
-      stopLossPercent,
-      reasoning,
-      optimalHoldMinutes: absChange > 3 ? 60 : absChange > 2 ? 45 : 30,
-    };
-  }
-
-  private calculatePositionSize(confidence: number, signals: MarketSignals): number {
-    const { totalCapital, maxPositionPercent, maxConcurrentPositions } = this.config;
-    
-    // Base size on confidence
-    let sizePercent = 0.15;
-    if (confidence > 85) sizePercent = 0.30;
-    else if (confidence > 80) sizePercent = 0.25;
-    else if (confidence > 75) sizePercent = 0.20;
-    
-    // Reduce for weak liquidity
-    if (signals.liquidity.slippage === 'HIGH') {
-      sizePercent *= 0.7;
-    }
-    
-    // Apply limits
-    const maxSize = totalCapital * Math.min(sizePercent, maxPositionPercent);
-    const perPositionMax = totalCapital / maxConcurrentPositions;
-    
-    return Math.round(Math.min(maxSize, perPositionMax) * 100) / 100;
-  }
-
-  private calculateLeverage(confidence: number, volatilityRegime: string): number {
-    let leverage = 2;
-    
-    if (confidence > 85) leverage = 5;
-    else if (confidence > 80) leverage = 4;
-    else if (confidence > 75) leverage = 3;
-    
-    // Reduce for high volatility
-    if (volatilityRegime === 'EXTREME') leverage = Math.max(1, leverage - 2);
-    else if (volatilityRegime === 'HIGH') leverage = Math.max(1, leverage - 1);
-    
-    return leverage;
-  }
-
-  private calculateHoldTime(
-    signals: MarketSignals,
-    volatilityTrend: string,
-    analysis: { optimalHoldMinutes: number; confidence: number }
-  ): number {
-    let holdTime = analysis.optimalHoldMinutes;
-    
-    // Adjust based on volatility trend
-    if (volatilityTrend === 'INCREASING') {
-      holdTime = Math.max(15, holdTime * 0.7); // Shorter hold
-    } else if (volatilityTrend === 'DECREASING') {
-      holdTime = Math.min(180, holdTime * 1.3); // Longer hold
-    }
-    
-    // Strong signals can hold longer
-    if (analysis.confidence > 85) {
-      holdTime = Math.min(180, holdTime * 1.2);
+  private async generateSignal(
+    snapshot: MarketSnapshot,
+    history: MarketSnapshot[],
+    strategies = this.strategies
+  ): Promise<TradingSignal | null> {
+    const now = this.clock.now();
+    let best: TradingSignal | null = null;
+    
+    for (const { strategy, allocation } of strategies) {
+      try {
+        const signal = await strategy.generateSignal(snapshot, history, {
+          config: this.config,
+          capital: this.config.totalCapital * allocation,
+          now,
+        });
+        if (!signal) continue;
+        
+        const budget = this.config.totalCapital * allocation;
+        if (this.committedMargin(strategy.id) + signal.positionSize > budget + 1e-9) continue;
+        
+        if (!best || signal.confidence > best.confidence) {
+          best = signal;
+        }
+      } catch (error) {
+        console.error(`Analysis error for ${snapshot.market.symbol} (${strategy.id}):`, error);
+      }
     }
     
-    return Math.round(holdTime);
+    return best;
   }
 
   private cleanExpiredSignals(): void {
-    const now = Date.now();
+    const now = this.clock.now();
     for (const [symbol, signal] of this.signalQueue) {
       if (signal.expiresAt < now) {
         this.signalQueue.delete(symbol);
@@ -651,15 +714,27 @@ Consider market dynamics and timing carefully.`,
   }
 
   getActiveSignals(): TradingSignal[] {
-    const now = Date.now();
+    const now = this.clock.now();
     return Array.from(this.signalQueue.values())
       .filter(s => s.expiresAt > now)
       .sort((a, b) => b.confidence - a.confidence);
   }
 
+  /**
+   * Re-queue persisted signals that have not expired yet
+   */
+  restoreSignals(signals: TradingSignal[]): void {
+    const now = this.clock.now();
+    for (const signal of signals) {
+      if (signal.expiresAt > now) {
+        this.signalQueue.set(signal.symbol, signal);
+      }
+    }
+  }
+
   getSignal(symbol: string): TradingSignal | undefined {
     const signal = this.signalQueue.get(symbol);
-    if (signal && signal.expiresAt > Date.now()) {
+    if (signal && signal.expiresAt > this.clock.now()) {
       return signal;
     }
     return undefined;
@@ -670,18 +745,68 @@ Consider market dynamics and timing carefully.`,
 // POSITION MANAGER - Trade Execution & Monitoring
 // ============================================================================
 
-class PositionManager extends EventEmitter {
+export class PositionManager extends EventEmitter {
   private openPositions: Map<string, OpenPosition> = new Map();
   private closedPositions: TradeResult[] = [];
-  private tracker: TradeTracker;
+  private tracker?: TradeTracker;
   private scorer: ProfitScorer;
   private checkInterval?: NodeJS.Timeout;
   private isRunning = false;
+  private executor?: OrderExecutor;
+  private pendingOpens: Map<string, TradingSignal> = new Map();
+  private unconfirmedOpens: Set<string> = new Set(); // Pending opens whose fill is unknown
+  private reconciling = false;
+  private journal?: OrchestratorStateStore;
+  private marketMonitor?: MarketMonitor;
+  private fillModel: FillModel;
+  private marginEngine: MarginEngine;
+  private configHash: string;
+  private onMarketUpdate = (snapshot: MarketSnapshot) => {
+    const position = this.openPositions.get(snapshot.market.symbol);
+    if (position) this.updatePosition(position, snapshot);
+  };
 
-  constructor(private config: OrchestratorConfig) {
+  /**
+   * A sandboxed manager keeps trades in memory and stays quiet - used to
+   * walk simulated price paths through the real exit logic
+   */
+  constructor(
+    private config: OrchestratorConfig,
+    private clock: Clock = systemClock,
+    resultsDir: string = './trade-results/orchestrator',
+    private seed?: number,
+    private sandbox: boolean = false
+  ) {
     super();
-    this.tracker = new TradeTracker('./trade-results/orchestrator');
+    if (!sandbox) {
+      this.tracker = new TradeTracker(resultsDir);
+    }
     this.scorer = new ProfitScorer();
+    this.fillModel = new FillModel(config.fees);
+    this.marginEngine = new MarginEngine(config.margin);
+    this.configHash = hashConfig(config);
+  }
+
+  private log(message: string): void {
+    if (!this.sandbox) console.log(message);
+  }
+
+  /**
+   * Route opens and exits through real orders (ignored in dry run)
+   */
+  setExecutor(executor: OrderExecutor): void {
+    this.executor = executor;
+  }
+
+  /**
+   * Record position lifecycle events for crash recovery
+   */
+  setJournal(journal: OrchestratorStateStore): void {
+    this.journal = journal;
+  }
+
+  private isLive(): boolean {
+    return !!this.executor && !this.config.dryRun;
   }
 
   async start(marketMonitor: MarketMonitor): Promise<void> {
@@ -690,7 +815,11 @@ class PositionManager extends EventEmitter {
     
     console.log('💼 Position Manager started');
     
-    // Monitor positions
+    // React to every price update (each tick when streaming)...
+    this.marketMonitor = marketMonitor;
+    marketMonitor.on('marketUpdate', this.onMarketUpdate);
+    
+    // ...and keep checking on a timer so time exits fire in quiet markets
     this.checkInterval = setInterval(
       () => this.checkPositions(marketMonitor),
       this.config.positionCheckIntervalMs
@@ -702,11 +831,12 @@ class PositionManager extends EventEmitter {
     if (this.checkInterval) {
       clearInterval(this.checkInterval);
     }
+    this.marketMonitor?.off('marketUpdate', this.onMarketUpdate);
     console.log('💼 Position Manager stopped');
   }
 
   canOpenPosition(): boolean {
-    return this.openPositions.size < this.config.maxConcurrentPositions;
+    return this.openPositions.size + this.pendingOpens.size < this.config.maxConcurrentPositions;
   }
 
   async openPosition(signal: TradingSignal): Promise<OpenPosition | null> {
@@ -716,83 +846,336 @@ class PositionManager extends EventEmitter {
     }
     
     // Check if already have position in this market
-    if (this.openPositions.has(signal.symbol)) {
+    if (this.openPositions.has(signal.symbol) || this.pendingOpens.has(signal.symbol)) {
       console.log(`   ⚠️ Already have position in ${signal.symbol}`);
       return null;
     }
     
-    const position: OpenPosition = {
+    let entryPrice = signal.entryPrice;
+    let size = signal.positionSize;
+    let quantity: number | undefined;
+    let entryNotional = size * signal.leverage;
+    let exchangeLiquidationPrice: number | undefined;
+    
+    if (this.isLive()) {
+      const fill = await this.placeEntryOrder(signal);
+      if (fill.fillUnknown) {
+        this.log(`\n   ⚠️ FILL UNKNOWN: ${signal.action} ${signal.symbol} (${fill.reason}) - reconciling with the exchange`);
+        this.emit('fillUnknown', { signal, fill });
+        return null;
+      }
+      if (fill.status === 'REJECTED') {
+        this.log(`\n   ❌ ORDER REJECTED: ${signal.action} ${signal.symbol} (${fill.reason})`);
+        this.emit('orderRejected', { signal, fill });
+        return null;
+      }
+      if (fill.status === 'PARTIAL') {
+        this.log(`\n   ⚠️ PARTIAL FILL: ${fill.filledQuantity}/${fill.requestedQuantity} ${signal.symbol}`);
+      }
+      
+      // Track what actually filled, not what was asked for
+      entryPrice = fill.averagePrice;
+      quantity = fill.filledQuantity;
+      size = fill.filledQuantity * fill.averagePrice / signal.leverage;
+      entryNotional = fill.filledQuantity * fill.averagePrice;
+      exchangeLiquidationPrice = fill.liquidationPrice;
+    } else if (signal.expectedFill) {
+      // Simulated fill: the book's average price, and only what the book could absorb
+      const { expectedFill } = signal;
+      entryPrice = expectedFill.averagePrice;
+      if (!expectedFill.fullyFilled && expectedFill.requestedQuantity > 0) {
+        size *= expectedFill.filledQuantity / expectedFill.requestedQuantity;
+        entryNotional = size * signal.leverage;
+      }
+    }
+    
+    const position = this.createPosition(signal, {
+      entryPrice,
+      size,
+      entryNotional,
+      enteredAt: this.clock.now(),
+      quantity,
+      liquidationPrice: exchangeLiquidationPrice,
+    });
+    
+    this.openPositions.set(signal.symbol, position);
+    this.journal?.append({ timestamp: this.clock.now(), type: 'opened', symbol: signal.symbol, position });
+    
+    this.log(`\n   ✅ POSITION OPENED: ${signal.action} ${signal.symbol}`);
+    this.log(`      Size: $${size.toFixed(2)} @ ${signal.leverage}x`);
+    this.log(`      Entry: $${entryPrice.toLocaleString()} (fee $${position.fees.toFixed(4)})`);
+    this.log(`      TP: $${signal.takeProfitPrice.toLocaleString()}`);
+    this.log(`      SL: $${signal.stopLossPrice.toLocaleString()}`);
+    this.log(`      Liq: $${position.liquidationPrice.toLocaleString()}`);
+    this.log(`      Max Hold: ${signal.holdTimeMinutes}min`);
+    
+    this.emit('positionOpened', position);
+    
+    return position;
+  }
+
+  private createPosition(
+    signal: TradingSignal,
+    entry: {
+      entryPrice: number;
+      size: number;
+      entryNotional: number;
+      enteredAt: number;
+      quantity?: number;
+      liquidationPrice?: number;
+    }
+  ): OpenPosition {
+    const { entryPrice, enteredAt, quantity } = entry;
+    const maxLeverage = signal.marketSnapshot.market.leverage || signal.leverage;
+    
+    return {
       id: signal.id,
       symbol: signal.symbol,
       side: signal.action,
-      entryPrice: signal.entryPrice,
-      currentPrice: signal.entryPrice,
-      size: signal.positionSize,
+      entryPrice,
+      currentPrice: entryPrice,
+      size: entry.size,
       leverage: signal.leverage,
       unrealizedPnL: 0,
       unrealizedPnLPercent: 0,
       takeProfitPrice: signal.takeProfitPrice,
       stopLossPrice: signal.stopLossPrice,
-      enteredAt: Date.now(),
+      enteredAt,
       maxHoldTime: signal.holdTimeMinutes * 60 * 1000,
       marketSnapshot: signal.marketSnapshot,
+      maxFavorableExcursion: 0,
+      maxAdverseExcursion: 0,
+      fees: this.fillModel.fee(entry.entryNotional),
+      accruedFunding: 0,
+      lastFundingAt: enteredAt,
+      maxLeverage,
+      liquidationPrice: entry.liquidationPrice ||
+        this.marginEngine.liquidationPrice(signal.action, entryPrice, signal.leverage, maxLeverage),
+      strategy: signal.strategy,
+      model: signal.model,
+      ...(quantity !== undefined ? { quantity } : {}),
     };
+  }
+
+  /**
+   * Send the entry order. An order that may have filled stays pending (and
+   * journaled) until reconcileUnconfirmedOpens() finds out from the exchange.
+   */
+  private async placeEntryOrder(signal: TradingSignal): Promise<OrderFill> {
+    this.pendingOpens.set(signal.symbol, signal);
+    // Journal before the order goes out so a crash mid-order can be reconciled
+    this.journal?.append({ timestamp: this.clock.now(), type: 'opening', symbol: signal.symbol, signal });
     
-    this.openPositions.set(signal.symbol, position);
+    let fill: OrderFill;
+    try {
+      fill = await this.executor!.openPosition(
+        signal.symbol,
+        signal.action,
+        signal.positionSize * signal.leverage,
+        signal.entryPrice
+      );
+    } catch (error: any) {
+      // Thrown before anything was sent
+      this.emit('orderError', error);
+      fill = {
+        status: 'REJECTED',
+        requestedQuantity: 0,
+        filledQuantity: 0,
+        averagePrice: 0,
+        reason: error.message,
+      };
+    }
     
-    console.log(`\n   ✅ POSITION OPENED: ${signal.action} ${signal.symbol}`);
-    console.log(`      Size: $${signal.positionSize.toFixed(2)} @ ${signal.leverage}x`);
-    console.log(`      Entry: $${signal.entryPrice.toLocaleString()}`);
-    console.log(`      TP: $${signal.takeProfitPrice.toLocaleString()}`);
-    console.log(`      SL: $${signal.stopLossPrice.toLocaleString()}`);
-    console.log(`      Max Hold: ${signal.holdTimeMinutes}min`);
+    if (fill.fillUnknown) {
+      this.unconfirmedOpens.add(signal.symbol);
+    } else {
+      this.pendingOpens.delete(signal.symbol);
+      if (fill.status === 'REJECTED') {
+        this.journal?.append({ timestamp: this.clock.now(), type: 'cancelled', symbol: signal.symbol });
+      }
+    }
+    return fill;
+  }
+
+  /**
+   * Settle entries whose fill was unknown: adopt what the exchange holds, or
+   * drop the entry once the exchange shows the market flat. Unreadable
+   * positions leave the entry pending for the next check.
+   */
+  async reconcileUnconfirmedOpens(): Promise<void> {
+    if (this.reconciling || this.unconfirmedOpens.size === 0) return;
+    this.reconciling = true;
     
-    this.emit('positionOpened', position);
+    try {
+      for (const symbol of Array.from(this.unconfirmedOpens)) {
+        const signal = this.pendingOpens.get(symbol)!;
+        let held: Position | null;
+        try {
+          held = await this.executor!.getPosition(symbol);
+        } catch (error: any) {
+          this.log(`   ⚠️ Can't confirm the ${symbol} entry yet (${error.message})`);
+          continue;
+        }
+        
+        if (held && parseFloat(held.size) > 0 && held.side !== signal.action) {
+          this.log(`   ⚠️ ${symbol} holds a ${held.side} position against the unconfirmed ${signal.action} entry - leaving it pending`);
+          continue;
+        }
+        
+        this.unconfirmedOpens.delete(symbol);
+        this.pendingOpens.delete(symbol);
+        if (held && parseFloat(held.size) > 0) {
+          const position = this.adoptPosition(signal, held, this.clock.now());
+          this.log(`   ♻️ Confirmed ${position.side} ${symbol} entry from the exchange (${position.quantity} @ $${position.entryPrice.toLocaleString()})`);
+          this.emit('positionOpened', position);
+        } else {
+          this.journal?.append({ timestamp: this.clock.now(), type: 'cancelled', symbol });
+          this.log(`   ↩️ ${symbol} entry never filled`);
+        }
+      }
+    } finally {
+      this.reconciling = false;
+    }
+  }
+
+  /**
+   * Track an exchange-held position that an entry signal opened
+   */
+  private adoptPosition(signal: TradingSignal, held: Position, enteredAt: number): OpenPosition {
+    const quantity = parseFloat(held.size);
+    const entryPrice = parseFloat(held.entryPrice);
+    const position = this.createPosition(signal, {
+      entryPrice,
+      size: quantity * entryPrice / signal.leverage,
+      entryNotional: quantity * entryPrice,
+      enteredAt,
+      quantity,
+      liquidationPrice: parseFloat(held.liquidationPrice) || undefined,
+    });
     
+    this.openPositions.set(signal.symbol, position);
+    this.journal?.append({ timestamp: this.clock.now(), type: 'opened', symbol: signal.symbol, position });
     return position;
   }
 
-  private checkPositions(marketMonitor: MarketMonitor): void {
+  checkPositions(marketMonitor: MarketMonitor): void {
+    if (this.isLive()) this.reconcileUnconfirmedOpens();
+    
     for (const [symbol, position] of this.openPositions) {
       const snapshot = marketMonitor.getSnapshot(symbol);
       if (!snapshot) continue;
       
-      const currentPrice = snapshot.market.lastPrice;
-      position.currentPrice = currentPrice;
-      
-      // Calculate unrealized PnL
+      this.updatePosition(position, snapshot);
+    }
+    
+    this.checkAccountMargin();
+  }
+
+  private updatePosition(position: OpenPosition, snapshot: MarketSnapshot): void {
+    const currentPrice = snapshot.market.lastPrice;
+    position.currentPrice = currentPrice;
+    this.accrueFunding(position, snapshot.market.fundingRate);
+    
+    // Calculate unrealized PnL
+    if (position.side === 'LONG') {
+      position.unrealizedPnL = (currentPrice - position.entryPrice) / position.entryPrice;
+    } else {
+      position.unrealizedPnL = (position.entryPrice - currentPrice) / position.entryPrice;
+    }
+    position.unrealizedPnL *= position.leverage;
+    position.unrealizedPnLPercent = position.unrealizedPnL * 100;
+    
+    // Track max favorable / adverse excursion
+    position.maxFavorableExcursion = Math.max(position.maxFavorableExcursion, position.unrealizedPnL);
+    position.maxAdverseExcursion = Math.min(position.maxAdverseExcursion, position.unrealizedPnL);
+    
+    if (this.checkLiquidation(position)) return;
+    
+    // Update trailing stop if in profit
+    if (position.unrealizedPnLPercent > 2) {
+      const trailingDistance = Math.abs(position.entryPrice - position.stopLossPrice) * 0.5;
       if (position.side === 'LONG') {
-        position.unrealizedPnL = (currentPrice - position.entryPrice) / position.entryPrice;
+        const newTrailingStop = currentPrice - trailingDistance;
+        if (!position.trailingStopPrice || newTrailingStop > position.trailingStopPrice) {
+          position.trailingStopPrice = newTrailingStop;
+        }
       } else {
-        position.unrealizedPnL = (position.entryPrice - currentPrice) / position.entryPrice;
-      }
-      position.unrealizedPnL *= position.leverage;
-      position.unrealizedPnLPercent = position.unrealizedPnL * 100;
-      
-      // Update trailing stop if in profit
-      if (position.unrealizedPnLPercent > 2) {
-        const trailingDistance = Math.abs(position.entryPrice - position.stopLossPrice) * 0.5;
-        if (position.side === 'LONG') {
-          const newTrailingStop = currentPrice - trailingDistance;
-          if (!position.trailingStopPrice || newTrailingStop > position.trailingStopPrice) {
-            position.trailingStopPrice = newTrailingStop;
-          }
-        } else {
-          const newTrailingStop = currentPrice + trailingDistance;
-          if (!position.trailingStopPrice || newTrailingStop < position.trailingStopPrice) {
-            position.trailingStopPrice = newTrailingStop;
-          }
+        const newTrailingStop = currentPrice + trailingDistance;
+        if (!position.trailingStopPrice || newTrailingStop < position.trailingStopPrice) {
+          position.trailingStopPrice = newTrailingStop;
         }
       }
-      
-      // Check exit conditions
-      this.checkExitConditions(position, snapshot);
     }
+    
+    // Check exit conditions
+    this.checkExitConditions(position, snapshot);
+  }
+
+  /**
+   * Funding on the current notional since the last update, at the latest rate
+   */
+  private accrueFunding(position: OpenPosition, fundingRate: number): void {
+    const now = this.clock.now();
+    const notional = position.size * position.leverage * position.currentPrice / position.entryPrice;
+    position.accruedFunding += fundingPayment(
+      position.side,
+      notional,
+      fundingRate || 0,
+      now - position.lastFundingAt,
+      this.config.fundingIntervalMs || FUNDING_INTERVAL_MS
+    );
+    position.lastFundingAt = now;
+  }
+
+  /**
+   * Warn as price nears liquidation and force-close inside the buffer. A
+   * simulated position that gaps through is booked as liquidated.
+   */
+  private checkLiquidation(position: OpenPosition): boolean {
+    const margin = this.marginEngine.assessPosition(position);
+    
+    if (margin.status === 'LIQUIDATED' && !this.isLive()) {
+      this.log(`\n   💀 LIQUIDATED: ${position.symbol} @ $${margin.liquidationPrice.toLocaleString()}`);
+      this.emit('marginAlert', { position, margin });
+      this.closePosition(position, margin.liquidationPrice, 'liquidated');
+      return true;
+    }
+    
+    if (margin.status === 'FORCE_CLOSE' || margin.status === 'LIQUIDATED') {
+      this.log(`\n   🚨 ${position.symbol} ${margin.distancePercent.toFixed(2)}% from liquidation - closing`);
+      this.emit('marginAlert', { position, margin });
+      this.exitPosition(position, position.currentPrice, 'liquidation-guard');
+      return true;
+    }
+    
+    if (margin.status === 'ALERT' && !position.marginAlerted) {
+      position.marginAlerted = true;
+      this.log(`\n   ⚠️ ${position.symbol} ${margin.distancePercent.toFixed(2)}% from liquidation ($${margin.liquidationPrice.toLocaleString()})`);
+      this.emit('marginAlert', { position, margin });
+    }
+    
+    return false;
+  }
+
+  /**
+   * Cross-margin check: close everything before account equity falls to maintenance
+   */
+  private checkAccountMargin(): void {
+    if (this.openPositions.size === 0) return;
+    
+    const account = this.getAccountMargin();
+    if (account.status === 'OK') return;
+    
+    this.emit('marginAlert', { account });
+    if (account.status === 'ALERT') return;
+    
+    this.log(`\n   🚨 MARGIN CALL: ratio ${(account.marginRatio * 100).toFixed(0)}% - closing all positions`);
+    this.flattenAll('margin-call');
   }
 
   private checkExitConditions(position: OpenPosition, snapshot: MarketSnapshot): void {
     const currentPrice = snapshot.market.lastPrice;
-    const elapsed = Date.now() - position.enteredAt;
+    const elapsed = this.clock.now() - position.enteredAt;
     
     let shouldClose = false;
     let exitReason = '';
@@ -839,26 +1222,129 @@ class PositionManager extends EventEmitter {
     }
     
     if (shouldClose) {
-      this.closePosition(position, currentPrice, exitReason);
+      this.exitPosition(position, currentPrice, exitReason);
+    }
+  }
+
+  /**
+   * Close in memory, or send a reduce-only order first when trading live
+   */
+  private exitPosition(position: OpenPosition, price: number, reason: string): void {
+    if (!this.isLive()) {
+      this.closePosition(position, price, reason);
+      return;
     }
+    
+    if (position.closing) return;
+    position.closing = true;
+    
+    this.placeExitOrder(position, price, reason)
+      .catch((error) => {
+        this.log(`   ❌ Exit order failed for ${position.symbol}: ${error.message}`);
+        this.emit('orderError', error);
+      })
+      .finally(() => { position.closing = false; });
+  }
+
+  private async placeExitOrder(position: OpenPosition, price: number, reason: string): Promise<void> {
+    if (!position.quantity || position.quantity <= 0) {
+      // Never send a close without a size: take it from the exchange
+      const held = await this.executor!.getPosition(position.symbol);
+      if (!held || !(parseFloat(held.size) > 0)) {
+        this.closeFlatPosition(position, price, 'closed-on-exchange');
+        return;
+      }
+      if (held.side !== position.side) {
+        throw new Error(`${position.symbol} holds ${held.side} on the exchange, not ${position.side}; not exiting`);
+      }
+      position.quantity = parseFloat(held.size);
+    }
+    
+    const fill = await this.executor!.closePosition(
+      position.symbol,
+      position.side,
+      position.quantity,
+      price
+    );
+    
+    if (fill.liquidationPrice) {
+      position.liquidationPrice = fill.liquidationPrice;
+    }
+    
+    if (fill.exchangeFlat) {
+      // Closed or liquidated at the exchange: book it rather than retry forever
+      this.closeFlatPosition(position, price, 'closed-on-exchange');
+      return;
+    }
+    
+    if (fill.status === 'REJECTED') {
+      // Position stays open; the next check retries the exit
+      this.log(`\n   ❌ EXIT REJECTED: ${position.symbol} (${fill.reason})`);
+      this.emit('orderRejected', { position, fill });
+      return;
+    }
+    
+    if (fill.priceEstimated) {
+      this.log(`   ⚠️ ${position.symbol}: no fill price reported, exit booked at the mark ($${fill.averagePrice.toLocaleString()})`);
+    }
+    
+    position.exitedQuantity = (position.exitedQuantity ?? 0) + fill.filledQuantity;
+    position.exitNotional = (position.exitNotional ?? 0) + fill.filledQuantity * fill.averagePrice;
+    position.quantity = Math.max(0, (position.quantity ?? 0) - fill.filledQuantity);
+    
+    if (fill.status === 'PARTIAL' && position.quantity > 0) {
+      this.log(`\n   ⚠️ PARTIAL EXIT: ${position.symbol} ${position.quantity} still open`);
+      this.journal?.append({ timestamp: this.clock.now(), type: 'updated', symbol: position.symbol, position });
+      return;
+    }
+    
+    // Record the volume-weighted exit across all fills
+    this.closePosition(position, position.exitNotional / position.exitedQuantity, reason);
+  }
+
+  /**
+   * Book a position the exchange already shows flat. There is no exchange
+   * fill to price it, so it exits at the liquidation price if the mark has
+   * crossed it and at the mark otherwise, and the PnL is an estimate.
+   */
+  private closeFlatPosition(position: OpenPosition, mark: number, reason: string): void {
+    const margin = this.marginEngine.assessPosition({ ...position, currentPrice: mark });
+    const liquidated = margin.status === 'LIQUIDATED';
+    const exitPrice = liquidated ? margin.liquidationPrice : mark;
+    
+    this.log(`\n   ⚠️ ${position.symbol} is flat on the exchange - booking ${liquidated ? 'liquidation' : 'exit'} at $${exitPrice.toLocaleString()} (estimated PnL, no exchange fill)`);
+    this.closePosition(position, exitPrice, liquidated ? 'liquidated' : reason);
   }
 
   private closePosition(position: OpenPosition, exitPrice: number, reason: string): void {
     position.exitReason = reason;
     
-    const pnl = position.side === 'LONG'
+    const grossPnl = position.side === 'LONG'
       ? (exitPrice - position.entryPrice) / position.entryPrice * position.leverage
       : (position.entryPrice - exitPrice) / position.entryPrice * position.leverage;
     
+    // Entry fee was charged at open; the exit is a taker fill on the closing notional
+    const exitNotional = position.size * position.leverage * exitPrice / position.entryPrice;
+    position.fees += this.fillModel.fee(exitNotional);
+    
+    // Fees and funding as a return on margin, like grossPnl
+    const fees = position.size > 0 ? position.fees / position.size : 0;
+    const funding = position.size > 0 ? position.accruedFunding / position.size : 0;
+    const pnl = grossPnl - fees + funding;
+    
     const dollarPnL = position.size * pnl;
-    const holdTimeMin = (Date.now() - position.enteredAt) / 60000;
+    const holdTimeMin = (this.clock.now() - position.enteredAt) / 60000;
+    const maxFavorableExcursion = Math.max(position.maxFavorableExcursion, pnl);
+    const maxAdverseExcursion = Math.min(position.maxAdverseExcursion, pnl);
     
     const emoji = pnl > 0 ? '✅' : '❌';
-    console.log(`\n   ${emoji} POSITION CLOSED: ${position.symbol}`);
-    console.log(`      Exit Reason: ${reason}`);
-    console.log(`      Entry: $${position.entryPrice.toLocaleString()} → Exit: $${exitPrice.toLocaleString()}`);
-    console.log(`      PnL: ${pnl >= 0 ? '+' : ''}${(pnl * 100).toFixed(2)}% ($${dollarPnL.toFixed(4)})`);
-    console.log(`      Hold Time: ${holdTimeMin.toFixed(1)}min`);
+    this.log(`\n   ${emoji} POSITION CLOSED: ${position.symbol}`);
+    this.log(`      Exit Reason: ${reason}`);
+    this.log(`      Entry: $${position.entryPrice.toLocaleString()} → Exit: $${exitPrice.toLocaleString()}`);
+    this.log(`      PnL: ${pnl >= 0 ? '+' : ''}${(pnl * 100).toFixed(2)}% ($${dollarPnL.toFixed(4)})`);
+    this.log(`      Gross / Fees / Funding: $${(position.size * grossPnl).toFixed(4)} / -$${position.fees.toFixed(4)} / ${position.accruedFunding >= 0 ? '+' : '-'}$${Math.abs(position.accruedFunding).toFixed(4)}`);
+    this.log(`      MFE / MAE: +${(maxFavorableExcursion * 100).toFixed(2)}% / ${(maxAdverseExcursion * 100).toFixed(2)}%`);
+    this.log(`      Hold Time: ${holdTimeMin.toFixed(1)}min`);
     
     // Record trade
     const trade: TradeResult = {
@@ -874,23 +1360,129 @@ class PositionManager extends EventEmitter {
       riskScore: (100 - position.marketSnapshot.signals.composite.confidence) / 100,
       timestamp: position.enteredAt,
       reasoning: `Exit: ${reason} after ${holdTimeMin.toFixed(1)}min`,
+      exitReason: reason,
+      agent: 'orchestrator',
+      strategy: position.strategy,
+      configHash: this.configHash,
+      model: position.model,
       actualOutcome: pnl > 0,
       pnl: pnl,
+      grossPnl,
+      fees,
+      funding,
+      netPnl: pnl,
       resolved: true,
-      resolutionDate: Date.now(),
+      resolutionDate: this.clock.now(),
+      maxFavorableExcursion,
+      maxAdverseExcursion,
+      ...(this.config.dryRun && this.seed !== undefined ? { seed: this.seed } : {}),
     };
     
-    this.tracker.saveTrade(trade);
+    this.tracker?.saveTrade(trade);
     this.closedPositions.push(trade);
     this.openPositions.delete(position.symbol);
+    this.journal?.append({ timestamp: this.clock.now(), type: 'closed', symbol: position.symbol });
     
     this.emit('positionClosed', { position, trade, reason });
   }
 
+  /**
+   * Close every open position at the latest known price
+   */
+  closeAll(marketMonitor: MarketMonitor, reason: string): void {
+    for (const [symbol, position] of this.openPositions) {
+      const snapshot = marketMonitor.getSnapshot(symbol);
+      this.closePosition(position, snapshot?.market.lastPrice ?? position.currentPrice, reason);
+    }
+  }
+
+  /**
+   * Exit every open position at its last price (reduce-only orders when live)
+   */
+  flattenAll(reason: string): void {
+    for (const position of this.getOpenPositions()) {
+      this.exitPosition(position, position.currentPrice, reason);
+    }
+  }
+
   getOpenPositions(): OpenPosition[] {
     return Array.from(this.openPositions.values());
   }
 
+  getPendingOpens(): TradingSignal[] {
+    return Array.from(this.pendingOpens.values());
+  }
+
+  /**
+   * Take back positions from persisted state. With `exchange` (live), each is
+   * checked against what the exchange holds: missing ones are booked as closed
+   * while offline at the current mark (or liquidation price, if crossed),
+   * survivors take the exchange's size and liquidation price, and entries that
+   * filled after the last journal write are adopted.
+   * Returns exchange positions nobody claimed.
+   */
+  restorePositions(
+    positions: OpenPosition[],
+    pendingOpens: TradingSignal[],
+    exchange?: Map<string, Position>,
+    marks: Map<string, number> = new Map()
+  ): Map<string, Position> {
+    const unclaimed = new Map(exchange);
+    
+    for (const position of positions) {
+      position.closing = false;
+      
+      if (exchange) {
+        const held = unclaimed.get(position.symbol);
+        if (!held || held.side !== position.side) {
+          this.openPositions.set(position.symbol, position);
+          const mark = marks.get(position.symbol);
+          if (mark === undefined) {
+            this.log(`   ⚠️ No current mark for ${position.symbol}; using its last saved price`);
+          }
+          this.closeFlatPosition(position, mark ?? position.currentPrice, 'closed-while-offline');
+          continue;
+        }
+        unclaimed.delete(position.symbol);
+        position.quantity = parseFloat(held.size);
+        position.liquidationPrice = parseFloat(held.liquidationPrice) || position.liquidationPrice;
+      }
+      
+      this.openPositions.set(position.symbol, position);
+      this.log(`   ♻️ Restored ${position.side} ${position.symbol} @ $${position.entryPrice.toLocaleString()}`);
+    }
+    
+    for (const signal of exchange ? pendingOpens : []) {
+      const held = unclaimed.get(signal.symbol);
+      if (!held || held.side !== signal.action || this.openPositions.has(signal.symbol)) continue;
+      unclaimed.delete(signal.symbol);
+      
+      const position = this.adoptPosition(signal, held, signal.createdAt);
+      this.log(`   ♻️ Adopted ${position.side} ${position.symbol} filled while offline`);
+    }
+    
+    return unclaimed;
+  }
+
+  getPositionMargin(position: OpenPosition): PositionMargin {
+    return this.marginEngine.assessPosition(position);
+  }
+
+  /**
+   * Account equity on capital plus realized PnL, with open positions marked
+   */
+  getAccountMargin(): AccountMargin {
+    const realized = this.closedPositions.reduce(
+      (sum, t) => sum + t.size * this.config.totalCapital * (t.pnl || 0),
+      0
+    );
+    return this.marginEngine.assessAccount(this.config.totalCapital + realized, this.getOpenPositions());
+  }
+
+  getSeed(): number | undefined {
+    return this.seed;
+  }
+
   getClosedPositions(): TradeResult[] {
     return this.closedPositions;
   }
@@ -913,7 +1505,7 @@ class PositionManager extends EventEmitter {
   }
 
   exportResults(): void {
-    this.tracker.exportToCSV();
+    this.tracker?.exportToCSV();
     
     if (this.closedPositions.length > 0) {
       const metrics = this.scorer.calculateMetrics(this.closedPositions);
@@ -935,23 +1527,207 @@ export class TradingOrchestrator extends EventEmitter {
   private displayInterval?: NodeJS.Timeout;
   private tradedSignals: Set<string> = new Set(); // Track consumed signals
   private lastTradeTime: Map<string, number> = new Map(); // Cooldown per symbol
-
-  constructor(config: Partial<OrchestratorConfig>) {
+  private clock: Clock;
+  private replay: boolean;
+  private lastAnalysisAt?: number;
+  private recorder?: MarketRecorder;
+  private rng: SeededRandom;
+  private pathSimulator: PricePathSimulator;
+  private fillModel: FillModel;
+  private riskGate: PortfolioRiskGate;
+  private breaker: CircuitBreaker;
+  private breakerInterval?: NodeJS.Timeout;
+  private stateStore?: OrchestratorStateStore;
+  private positionSource?: PositionSource;
+  private stateInterval?: NodeJS.Timeout;
+  private recovered = false;
+
+  constructor(config: Partial<OrchestratorConfig>, deps: OrchestratorDependencies = {}) {
     super();
-    this.config = { ...DEFAULT_CONFIG, ...config } as OrchestratorConfig;
+    this.config = { ...DEFAULT_ORCHESTRATOR_CONFIG, ...config } as OrchestratorConfig;
+    this.fillModel = new FillModel(this.config.fees);
+    this.riskGate = new PortfolioRiskGate(this.config.riskLimits);
+    
+    this.clock = deps.clock || systemClock;
+    this.replay = deps.replay || false;
+    
+    // Live runs share the on-disk switch with the CLI and API
+    this.breaker = deps.circuitBreaker || new CircuitBreaker(
+      this.config.circuitBreaker,
+      !this.config.dryRun && !this.replay ? DEFAULT_BREAKER_DIR : null,
+      this.clock
+    );
+    this.breaker.startSession(this.config.totalCapital);
     
-    if (!this.config.groqApiKey) {
-      throw new Error('GROQ_API_KEY is required');
+    const rootRng = resolveRng(this.config.seed);
+    this.rng = rootRng.fork('orchestrator');
+    this.pathSimulator = new PricePathSimulator(
+      { model: this.config.pricePathModel, tickMs: this.config.marketUpdateIntervalMs },
+      rootRng.fork('price-path')
+    );
+    
+    // Live trading never acts on mock markets: a failed fetch skips the tick
+    const client = deps.marketSource ? undefined :
+      new EtherealClient({
+        rng: rootRng.fork('ethereal-mock-markets'),
+        ...(this.config.dryRun ? {} : { mockFallback: false }),
+      });
+    this.marketMonitor = new MarketMonitor(
+      this.config,
+      deps.marketSource || client!,
+      this.clock
+    );
+    
+    const stream = deps.stream ||
+      (this.config.streamMarketData && !this.replay
+        ? (client || new EtherealClient()).createStream()
+        : undefined);
+    if (stream) {
+      this.marketMonitor.setStream(stream);
     }
+    this.analysisEngine = new AnalysisEngine(this.config, this.clock);
+    this.positionManager = new PositionManager(
+      this.config,
+      this.clock,
+      deps.resultsDir,
+      rootRng.seed
+    );
+    this.analysisEngine.setCommittedMargin(strategyId => this.getCommittedMargin(strategyId));
+    
+    this.recorder = deps.recorder ||
+      (this.config.recordMarketData ? new MarketRecorder() : undefined);
+    this.marketMonitor.setPollOrderBooks(!!this.recorder);
     
-    this.marketMonitor = new MarketMonitor(this.config);
-    this.analysisEngine = new AnalysisEngine(this.config);
-    this.positionManager = new PositionManager(this.config);
+    this.positionSource = deps.positionSource;
+    if (!this.config.dryRun && !this.replay) {
+      this.positionManager.setExecutor(deps.executor || this.createExecutor());
+    }
+    
+    const persistState = this.config.persistState ?? (!this.config.dryRun && !this.replay);
+    this.stateStore = deps.stateStore || (persistState
+      ? new OrchestratorStateStore(path.join(deps.resultsDir || './trade-results/orchestrator', 'state'))
+      : undefined);
+    if (this.stateStore) {
+      this.positionManager.setJournal(this.stateStore);
+    }
     
     this.setupEventHandlers();
   }
 
+  private createExecutor(): OrderExecutor {
+    if (!this.config.privateKey) {
+      throw new Error('PRIVATE_KEY is required for live trading');
+    }
+    const client = new EtherealClient({ privateKey: this.config.privateKey });
+    this.positionSource = this.positionSource || client;
+    return new EtherealOrderExecutor(client);
+  }
+
+  /**
+   * Reload persisted state; when live, reconcile it with the exchange's
+   * positions first. Stops and max-hold timers resume from the saved entry
+   * times. Throws, restoring nothing, if the exchange can't be read - the
+   * call can then be retried. start() calls it.
+   */
+  async recover(): Promise<OrchestratorState | null> {
+    if (!this.stateStore || this.recovered) return null;
+    
+    const state = this.stateStore.load();
+    if (!state) {
+      this.recovered = true;
+      return null;
+    }
+    
+    console.log(`♻️ Recovering state saved ${new Date(state.savedAt).toISOString()}`);
+    const live = !this.config.dryRun && !this.replay && this.positionSource;
+    const exchange = live
+      ? await this.fetchExchangeState(state.openPositions.map(p => p.symbol))
+      : undefined;
+    this.recovered = true;
+    
+    this.analysisEngine.restoreSignals(state.signals);
+    for (const id of state.tradedSignals) this.tradedSignals.add(id);
+    for (const [symbol, time] of Object.entries(state.lastTradeTime)) {
+      this.lastTradeTime.set(symbol, time);
+    }
+    
+    const unclaimed = this.positionManager.restorePositions(
+      state.openPositions,
+      state.pendingOpens,
+      exchange?.positions,
+      exchange?.marks
+    );
+    
+    for (const [symbol, position] of unclaimed) {
+      console.log(`   ⚠️ Unmanaged ${position.side} ${symbol} on the exchange (size ${position.size})`);
+      this.emit('unmanagedPosition', { symbol, position });
+    }
+    
+    // Fold the journal into a fresh snapshot
+    this.saveState();
+    return state;
+  }
+
+  /**
+   * Exchange positions by symbol, plus current marks for `symbols`. Throws
+   * when a held position can't be mapped to a market: reconciling without it
+   * would book a live position as closed.
+   */
+  private async fetchExchangeState(
+    symbols: string[]
+  ): Promise<{ positions: Map<string, Position>; marks: Map<string, number> }> {
+    const [held, products] = await Promise.all([
+      this.positionSource!.getPositions(),
+      this.positionSource!.getProducts(),
+    ]);
+    const symbolOf = new Map(products.map((p: Product) => [p.id, marketSymbol(p)]));
+    const positions = held.filter(p => parseFloat(p.size) > 0);
+    const unmapped = positions.filter(p => !symbolOf.has(p.productId)).map(p => p.productId);
+    if (unmapped.length > 0) {
+      throw new Error(`Recovery aborted: no product listed for exchange position(s) ${unmapped.join(', ')}`);
+    }
+    
+    const prices = await this.positionSource!.getMarketPrices(
+      products.filter(p => symbols.includes(marketSymbol(p))).map(p => p.id)
+    );
+    
+    return {
+      positions: new Map(positions.map(p => [symbolOf.get(p.productId)!, p] as [string, Position])),
+      marks: new Map(
+        prices
+          .map(p => [symbolOf.get(p.productId) || p.productId, parseFloat(p.markPrice)] as [string, number])
+          .filter(([, mark]) => mark > 0)
+      ),
+    };
+  }
+
+  /**
+   * Write a full snapshot (positions, signals, cooldowns) and reset the journal
+   */
+  saveState(): void {
+    this.stateStore?.saveSnapshot({
+      openPositions: this.positionManager.getOpenPositions(),
+      pendingOpens: this.positionManager.getPendingOpens(),
+      signals: this.analysisEngine.getActiveSignals(),
+      tradedSignals: Array.from(this.tradedSignals),
+      lastTradeTime: Object.fromEntries(this.lastTradeTime),
+    }, this.clock.now());
+  }
+
   private setupEventHandlers(): void {
+    // Persist every market update, with the top-of-book it was analyzed
+    // from, when a recorder is attached
+    if (this.recorder) {
+      const recorder = this.recorder;
+      this.marketMonitor.on('marketUpdate', (snapshot: MarketSnapshot) => {
+        try {
+          recorder.recordMarket(snapshot.market, snapshot.timestamp, snapshot.orderBook);
+        } catch (error: any) {
+          console.log(`   ⚠️ Market data not recorded: ${error.message}`);
+        }
+      });
+    }
+    
     // When new signal is generated
     this.analysisEngine.on('newSignal', (signal: TradingSignal) => {
       this.handleNewSignal(signal);
@@ -961,13 +1737,44 @@ export class TradingOrchestrator extends EventEmitter {
     this.positionManager.on('positionClosed', (data) => {
       this.emit('tradeClosed', data);
       // Record cooldown for this symbol
-      this.lastTradeTime.set(data.position.symbol, Date.now());
+      this.lastTradeTime.set(data.position.symbol, this.clock.now());
+      this.breaker.recordTrade(data.trade.size * this.config.totalCapital * (data.trade.pnl || 0), 'orchestrator');
+    });
+    
+    // Circuit breaker inputs
+    this.marketMonitor.on('marketUpdate', (snapshot: MarketSnapshot) => {
+      this.breaker.recordPrice(snapshot.market.symbol, snapshot.market.lastPrice, snapshot.timestamp, 'orchestrator');
+    });
+    this.marketMonitor.on('error', (error: Error) => {
+      console.log(`   ⚠️ Market data error: ${error.message}`);
+      this.breaker.recordApiError(error, 'orchestrator');
     });
+    this.positionManager.on('orderError', (error: Error) => {
+      this.breaker.recordApiError(error, 'orchestrator');
+    });
+    this.breaker.on('trip', (trip: BreakerTrip) => this.handleBreakerTrip(trip));
+    this.breaker.on('reset', () => console.log('\n🟢 Circuit breaker reset - trading resumes'));
+  }
+
+  /**
+   * Halt entries; flatten too when the trip asks for it
+   */
+  private handleBreakerTrip(trip: BreakerTrip): void {
+    console.log(`\n🚨 CIRCUIT BREAKER TRIPPED [${trip.trigger}] by ${trip.source}: ${trip.reason}`);
+    console.log(`   New entries halted until reset (pnpm breaker reset)`);
+    this.emit('circuitBreakerTripped', trip);
+    
+    if (trip.flatten) {
+      console.log(`   Flattening ${this.positionManager.getOpenPositions().length} open positions`);
+      this.positionManager.flattenAll('circuit-breaker');
+    }
   }
 
   private async handleNewSignal(signal: TradingSignal): Promise<void> {
+    if (this.breaker.isTripped()) return;
+    
     // Check if signal is mature enough
-    const signalAge = Date.now() - signal.createdAt;
+    const signalAge = this.clock.now() - signal.createdAt;
     if (signalAge < this.config.minSignalAge) {
       // Wait for signal to mature
       return;
@@ -984,26 +1791,117 @@ export class TradingOrchestrator extends EventEmitter {
     }
     
     // Execute trade
-    if (this.config.dryRun) {
+    await this.executeSignal(signal);
+  }
+
+  private async executeSignal(signal: TradingSignal): Promise<void> {
+    if (!this.withinAllocation(signal)) return;
+    if (!this.checkPortfolioRisk(signal).approved) return;
+    if (!(await this.priceExecution(signal))) return;
+    
+    if (this.config.dryRun && !this.replay) {
       await this.simulateTrade(signal);
     } else {
+      // Live and replay: PositionManager exits on observed prices
       await this.positionManager.openPosition(signal);
     }
   }
 
+  /**
+   * Keep each strategy's open margin inside its share of capital
+   */
+  private withinAllocation(signal: TradingSignal): boolean {
+    if (!signal.strategy) return true;
+    
+    const budget = this.config.totalCapital * this.analysisEngine.getAllocation(signal.strategy);
+    const committed = this.getCommittedMargin(signal.strategy);
+    if (committed + signal.positionSize <= budget + 1e-9) return true;
+    
+    console.log(`   💼 ${signal.symbol}: ${signal.strategy} allocation used ($${committed.toFixed(2)} of $${budget.toFixed(2)})`);
+    this.emit('signalRejected', { signal, allocation: { strategy: signal.strategy, budget, committed } });
+    return false;
+  }
+
+  private getCommittedMargin(strategyId: string): number {
+    return this.positionManager.getOpenPositions()
+      .filter(p => p.strategy === strategyId)
+      .reduce((sum, p) => sum + p.size, 0);
+  }
+
+  /**
+   * Check the book as it would stand after this signal against portfolio limits
+   */
+  checkPortfolioRisk(signal: TradingSignal): RiskDecision {
+    const decision = this.riskGate.evaluate(signal, {
+      totalCapital: this.config.totalCapital,
+      openPositions: this.positionManager.getOpenPositions(),
+      closedTrades: this.positionManager.getClosedPositions(),
+      now: this.clock.now(),
+    });
+    
+    if (!decision.approved) {
+      const codes = decision.rejections.map(r => r.code).join(', ');
+      console.log(`   🛡️ ${signal.symbol}: blocked by portfolio risk (${codes})`);
+      for (const rejection of decision.rejections) {
+        console.log(`      ${rejection.message}`);
+      }
+      this.emit('signalRejected', { signal, risk: decision });
+    }
+    return decision;
+  }
+
+  /**
+   * Walk the current book for the signal's size; false when costs eat the edge
+   */
+  private async priceExecution(signal: TradingSignal): Promise<boolean> {
+    const market = this.marketMonitor.getSnapshot(signal.symbol)?.market || signal.marketSnapshot.market;
+    const book = await this.marketMonitor.getOrderBook(signal.symbol);
+    const costs = this.fillModel.estimateRoundTrip(
+      market,
+      signal.action,
+      signal.positionSize * signal.leverage,
+      book
+    );
+    
+    const edge = expectedEdgePercent(
+      signal.confidence / 100,
+      Math.abs(signal.takeProfitPrice - signal.entryPrice) / signal.entryPrice,
+      Math.abs(signal.stopLossPrice - signal.entryPrice) / signal.entryPrice,
+      costs.roundTripCostPercent
+    );
+    
+    if (edge <= 0 || costs.entry.filledQuantity <= 0) {
+      console.log(`   ⛔ ${signal.symbol}: edge gone after costs (${costs.roundTripCostPercent.toFixed(3)}% round trip)`);
+      this.emit('signalRejected', { signal, costs });
+      return false;
+    }
+    
+    signal.expectedFill = costs.entry;
+    signal.costPercent = costs.roundTripCostPercent;
+    return true;
+  }
+
   private async simulateTrade(signal: TradingSignal): Promise<void> {
     const position = await this.positionManager.openPosition(signal);
     if (!position) return;
     
-    // Simulate price movement
-    const outcome = this.simulateOutcome(signal);
+    // Walk a simulated price path through the position exit logic
+    const outcome = await this.pathSimulator.simulatePosition(signal);
+    position.maxFavorableExcursion = Math.max(position.maxFavorableExcursion, outcome.maxFavorableExcursion);
+    position.maxAdverseExcursion = Math.min(position.maxAdverseExcursion, outcome.maxAdverseExcursion);
+    
+    // Funding over the simulated hold, not the few seconds the demo waits
+    position.accruedFunding += (outcome.trade.funding ?? 0) * position.size;
     
     // Simulated hold time: 5-15 seconds to demonstrate the trade
     // (Real hold time would be much longer in live trading)
-    const simulatedDelayMs = 5000 + Math.random() * 10000;
+    const simulatedDelayMs = this.rng.between(5000, 15000);
     
     // Update position with simulated exit
     setTimeout(() => {
+      // Already exited on live prices
+      if (!this.positionManager.getOpenPositions().includes(position)) return;
+      
       this.positionManager['closePosition'](
         position,
         outcome.exitPrice,
@@ -1012,82 +1910,6 @@ export class TradingOrchestrator extends EventEmitter {
     }, simulatedDelayMs);
   }
 
-  /**
-   * Probability-based simulation - aligned with main trading agent
-   */
-  private simulateOutcome(signal: TradingSignal): {
-    exitPrice: number;
-    exitReason: string;
-    holdTimeMs: number;
-  } {
-    const { entryPrice, takeProfitPrice, stopLossPrice, holdTimeMinutes } = signal;
-    const market = signal.marketSnapshot.market;
-    
-    // Direction alignment - CRITICAL for win probability
-    const aligned = 
-      (signal.action === 'LONG' && market.priceChangePercent24h > 0) ||
-      (signal.action === 'SHORT' && market.priceChangePercent24h < 0);
-    
-    const momentum = Math.abs(market.priceChangePercent24h);
-    
-    // Calculate win probability based on setup quality
-    let winProb = 0.50;
-    
-    if (aligned) {
-      if (momentum > 3.0) winProb += 0.22;
-      else if (momentum > 2.0) winProb += 0.18;
-      else if (momentum > 1.5) winProb += 0.12;
-      else winProb += 0.06;
-    } else {
-      winProb -= 0.15;
-    }
-    
-    // Confidence bonus
-    if (signal.confidence >= 82) winProb += 0.08;
-    else if (signal.confidence >= 77) winProb += 0.04;
-    
-    // Cap probability
-    winProb = Math.max(0.30, Math.min(0.78, winProb));
-    
-    // Determine outcome
-    const isWin = Math.random() < winProb;
-    
-    let exitPrice: number;
-    let exitReason: string;
-    let holdTimeMs: number;
-    
-    if (isWin) {
-      const fullTP = Math.random() < 0.75;
-      if (fullTP) {
-        exitPrice = takeProfitPrice;
-        exitReason = 'take-profit';
-      } else {
-        const partialPct = 0.55 + Math.random() * 0.35;
-        exitPrice = signal.action === 'LONG'
-          ? entryPrice * (1 + ((takeProfitPrice - entryPrice) / entryPrice) * partialPct)
-          : entryPrice * (1 - ((entryPrice - takeProfitPrice) / entryPrice) * partialPct);
-        exitReason = 'trailing-stop';
-      }
-      holdTimeMs = Math.floor(holdTimeMinutes * (0.3 + Math.random() * 0.5)) * 60 * 1000;
-    } else {
-      const fullSL = Math.random() < 0.50;
-      if (fullSL) {
-        exitPrice = stopLossPrice;
-        exitReason = 'stop-loss';
-        holdTimeMs = Math.floor(holdTimeMinutes * (0.1 + Math.random() * 0.25)) * 60 * 1000;
-      } else {
-        const lossPct = 0.35 + Math.random() * 0.45;
-        exitPrice = signal.action === 'LONG'
-          ? entryPrice * (1 - ((entryPrice - stopLossPrice) / entryPrice) * lossPct)
-          : entryPrice * (1 + ((stopLossPrice - entryPrice) / entryPrice) * lossPct);
-        exitReason = 'time-exit';
-        holdTimeMs = holdTimeMinutes * 60 * 1000;
-      }
-    }
-    
-    return { exitPrice, exitReason, holdTimeMs };
-  }
-
   async start(durationMs: number = 300000): Promise<void> {
     if (this.isRunning) return;
     this.isRunning = true;
@@ -1106,10 +1928,23 @@ export class TradingOrchestrator extends EventEmitter {
     console.log(`   Capital: $${this.config.totalCapital} USDE`);
     console.log(`   Max Positions: ${this.config.maxConcurrentPositions}`);
     console.log(`   Min Confidence: ${this.config.minConfidence}%`);
+    console.log(`   Strategies: ${this.analysisEngine.getStrategies().map(s => `${s.id} ${(s.allocation * 100).toFixed(0)}%`).join(', ')}`);
     console.log(`   Mode: ${this.config.dryRun ? '🔍 DRY RUN' : '💸 LIVE'}`);
+    console.log(`   Recording: ${this.recorder ? 'ON' : 'OFF'}`);
+    console.log(`   Market Data: ${this.config.streamMarketData ? 'STREAM' : 'POLLING'}`);
+    console.log(`   State: ${this.stateStore ? this.stateStore.getStateDir() : 'IN MEMORY'}`);
+    const breakerState = this.breaker.getState();
+    console.log(`   Circuit Breaker: ${breakerState.tripped ? `🚨 TRIPPED (${breakerState.trip!.trigger}: ${breakerState.trip!.reason})` : 'ARMED'}`);
+    if (this.config.dryRun) {
+      console.log(`   Seed: ${this.positionManager.getSeed()} (replay with SIM_SEED)`);
+      console.log(`   Price Paths: ${this.config.pricePathModel}`);
+    }
     console.log(`   Duration: ${(durationMs / 1000).toFixed(0)}s\n`);
     
+    await this.recover();
+    
     // Start components
+    this.recorder?.start();
     await this.marketMonitor.start();
     await this.analysisEngine.start(this.marketMonitor);
     await this.positionManager.start(this.marketMonitor);
@@ -1121,6 +1956,16 @@ export class TradingOrchestrator extends EventEmitter {
       this.checkMatureSignals();
     }, 10000);
     
+    if (this.stateStore) {
+      this.stateInterval = setInterval(() => this.saveState(), this.config.stateSnapshotIntervalMs);
+    }
+    
+    // Pick up operator trips/resets and watch for a frozen feed
+    this.breakerInterval = setInterval(() => {
+      this.breaker.sync();
+      this.breaker.checkStaleness('orchestrator');
+    }, this.config.positionCheckIntervalMs);
+    
     // Also check signals more frequently (every 3s)
     const signalCheckInterval = setInterval(() => {
       this.checkMatureSignals();
@@ -1139,10 +1984,11 @@ export class TradingOrchestrator extends EventEmitter {
    * Check for mature signals and execute trades
    */
   private async checkMatureSignals(): Promise<void> {
+    if (this.breaker.isTripped()) return;
     if (!this.positionManager.canOpenPosition()) return;
     
     const signals = this.analysisEngine.getActiveSignals();
-    const now = Date.now();
+    const now = this.clock.now();
     const COOLDOWN_MS = 20000; // 20 second cooldown per symbol after a trade
     
     // Clean up old cooldowns (allow new signals for same symbol after cooldown)
@@ -1178,17 +2024,59 @@ export class TradingOrchestrator extends EventEmitter {
       // Execute trade
       console.log(`\n🎯 EXECUTING: ${signal.action} ${signal.symbol} (${signal.confidence}% conf, age: ${(signalAge/1000).toFixed(0)}s)`);
       
-      if (this.config.dryRun) {
-        await this.simulateTrade(signal);
-      } else {
-        await this.positionManager.openPosition(signal);
-      }
+      await this.executeSignal(signal);
       
       // Only execute one trade per check to avoid overloading
       break;
     }
   }
 
+  /**
+   * Run one scheduling round at the current clock time.
+   * 
+   * Used to drive the pipeline from recorded data instead of timers:
+   * market update → opportunity analysis → periodic deep analysis →
+   * position checks → mature signal execution.
+   */
+  async step(): Promise<void> {
+    const now = this.clock.now();
+    
+    const snapshots = await this.marketMonitor.updateMarkets();
+    for (const snapshot of snapshots) {
+      if (this.marketMonitor.isOpportunity(snapshot)) {
+        await this.analysisEngine.queueForAnalysis(snapshot, this.marketMonitor.getHistory(snapshot.market.symbol));
+      }
+    }
+    
+    if (this.lastAnalysisAt === undefined ||
+        now - this.lastAnalysisAt >= this.config.analysisIntervalMs) {
+      await this.analysisEngine.runDeepAnalysis(this.marketMonitor);
+      this.lastAnalysisAt = now;
+    }
+    
+    this.positionManager.checkPositions(this.marketMonitor);
+    await this.checkMatureSignals();
+  }
+
+  /**
+   * Close all open positions at the latest observed prices
+   */
+  closeAllPositions(reason: string): void {
+    this.positionManager.closeAll(this.marketMonitor, reason);
+  }
+
+  getOpenPositions(): OpenPosition[] {
+    return this.positionManager.getOpenPositions();
+  }
+
+  getClosedTrades(): TradeResult[] {
+    return this.positionManager.getClosedPositions();
+  }
+
+  getCircuitBreaker(): CircuitBreaker {
+    return this.breaker;
+  }
+
   async stop(): Promise<void> {
     if (!this.isRunning) return;
     this.isRunning = false;
@@ -1196,10 +2084,18 @@ export class TradingOrchestrator extends EventEmitter {
     if (this.displayInterval) {
       clearInterval(this.displayInterval);
     }
+    if (this.stateInterval) {
+      clearInterval(this.stateInterval);
+    }
+    if (this.breakerInterval) {
+      clearInterval(this.breakerInterval);
+    }
     
     this.marketMonitor.stop();
     this.analysisEngine.stop();
     this.positionManager.stop();
+    this.recorder?.stop();
+    this.saveState();
     
     // Final report
     this.printFinalReport();
@@ -1217,7 +2113,7 @@ export class TradingOrchestrator extends EventEmitter {
     
     console.log(`\n🎯 Active Signals: ${signals.length}`);
     for (const signal of signals.slice(0, 3)) {
-      const age = ((Date.now() - signal.createdAt) / 1000).toFixed(0);
+      const age = ((this.clock.now() - signal.createdAt) / 1000).toFixed(0);
       console.log(`   ${signal.action} ${signal.symbol} | ${signal.confidence}% conf | ${signal.urgency} | Age: ${age}s`);
     }
     
@@ -1251,6 +2147,12 @@ export class TradingOrchestrator extends EventEmitter {
     
     console.log(`   Dollar PnL: ${dollarPnL >= 0 ? '+' : ''}$${dollarPnL.toFixed(4)} USDE`);
     
+    const dollars = (t: TradeResult, field: 'fees' | 'funding') =>
+      t.size * this.config.totalCapital * (t[field] || 0);
+    const totalFees = trades.reduce((sum, t) => sum + dollars(t, 'fees'), 0);
+    const totalFunding = trades.reduce((sum, t) => sum + dollars(t, 'funding'), 0);
+    console.log(`   Fees Paid: $${totalFees.toFixed(4)} | Funding: ${totalFunding >= 0 ? '+' : '-'}$${Math.abs(totalFunding).toFixed(4)}`);
+    
     if (trades.length > 0) {
       const sorted = [...trades].sort((a, b) => (b.pnl || 0) - (a.pnl || 0));
       console.log(`\n🏆 Best: ${sorted[0].marketId} | ${((sorted[0].pnl || 0) * 100).toFixed(2)}%`);
@@ -1268,12 +2170,17 @@ export class TradingOrchestrator extends EventEmitter {
 if (require.main === module) {
   const config: Partial<OrchestratorConfig> = {
     groqApiKey: process.env.GROQ_API_KEY,
+    privateKey: process.env.PRIVATE_KEY,
     totalCapital: parseFloat(process.env.TOTAL_CAPITAL || '5'),
     maxConcurrentPositions: parseInt(process.env.MAX_CONCURRENT_POSITIONS || '3'),
     minConfidence: parseInt(process.env.MIN_CONFIDENCE || '70'),
     maxRiskScore: parseInt(process.env.MAX_RISK_SCORE || '60'),
     marketUpdateIntervalMs: parseInt(process.env.MARKET_UPDATE_MS || '5000'),
     analysisIntervalMs: parseInt(process.env.ANALYSIS_INTERVAL_MS || '15000'),
+    streamMarketData: process.env.STREAM_MARKET_DATA === 'true',
+    persistState: process.env.PERSIST_STATE ? process.env.PERSIST_STATE === 'true' : undefined,
+    circuitBreaker: { flattenOnTrip: process.env.BREAKER_FLATTEN === 'true' },
+    strategies: process.env.STRATEGIES ? parseStrategyAllocations(process.env.STRATEGIES) : undefined,
     dryRun: process.env.DRY_RUN !== 'false',
   };
   
@@ -2,6 +2,7 @@ import { ethers } from "ethers";
 import { TradeResult } from "./trade-tracker";
 import { AdvancedAnalytics, PerformanceMetrics } from "./advanced-analytics";
 import { MLPredictor, TradingSignal } from "./ml-predictor";
+import { SeededRandom, getSimulationRng } from "../utils/random";
 
 export interface AggressiveStrategy {
   name: string;
@@ -47,11 +48,14 @@ export class UltraAggressiveTrader {
   private targetCapital: number;
   private sessionStartTime: number;
   private strategies: AggressiveStrategy[];
+  private rng: SeededRandom;
 
   constructor(
     initialCapital: number = 1000,
     targetCapital: number = 10000000, // 10M target for 10000x returns
+    rng: SeededRandom = getSimulationRng().fork("ultra-aggressive"),
   ) {
+    this.rng = rng;
     this.analytics = new AdvancedAnalytics();
     this.mlPredictor = new MLPredictor();
     this.currentCapital = initialCapital;
@@ -373,15 +377,15 @@ export class UltraAggressiveTrader {
   ): Promise<{ pnl: number; success: boolean }> {
     // Success probability based on confidence and quantum score
     const successProbability = trade.confidence * trade.quantumScore;
-    const isSuccess = Math.random() < successProbability;
+    const isSuccess = this.rng.chance(successProbability);
 
     let pnl: number;
     if (isSuccess) {
       // Successful trade with leverage
-      pnl = trade.targetProfit * (0.5 + Math.random() * 0.5); // 50-100% of target
+      pnl = trade.targetProfit * this.rng.between(0.5, 1.0); // 50-100% of target
     } else {
       // Failed trade with stop loss
-      pnl = -trade.maxLoss * (0.8 + Math.random() * 0.2); // 80-100% of max loss
+      pnl = -trade.maxLoss * this.rng.between(0.8, 1.0); // 80-100% of max loss
     }
 
     return { pnl, success: isSuccess };
@@ -0,0 +1,394 @@
+/**
+ * Walk-Forward Optimizer - Out-of-sample parameter search over recorded markets
+ *
+ * Slides a train window followed by a test window across a historical
+ * price/funding file. In each fold the parameter search picks the best
+ * config on the train window by replaying it through the BacktestEngine,
+ * and that config is then scored on the unseen test window:
+ *
+ *   |---- train ----|-- test --|
+ *        |---- train ----|-- test --|
+ *             |---- train ----|-- test --|
+ *
+ * The stitched test-window trades are the out-of-sample estimate. The
+ * config written out as a preset is re-optimized on the most recent train
+ * window, which is what walk-forward would deploy next.
+ *
+ * The Ethereal agent's analysis is LLM-driven and can't be replayed, so
+ * `ethereal-agent` is a proxy target: it searches the fields the agent
+ * shares with the orchestrator and scores them on the orchestrator's
+ * rule-based pipeline. Its metrics say how those settings fare under the
+ * orchestrator's rules, not how the agent performs, and reports and
+ * presets label them that way (PROXY_SCORING).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { BacktestEngine } from './backtest-engine';
+import { ProfitMetrics, ProfitScorer } from './profit-scorer';
+import { TradeResult } from './trade-tracker';
+import type { OrchestratorConfig } from './trading-orchestrator';
+import type { EtherealAgentConfig } from './ethereal-trading-agent';
+import {
+  ParameterSet,
+  ParameterSpace,
+  SearchOptions,
+  searchParameters,
+} from './parameter-search';
+import { MarketRecord } from '../utils/market-history';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type OptimizationTarget = 'orchestrator' | 'ethereal-agent';
+
+export type OptimizationObjective = 'score' | 'sharpeRatio' | 'totalPnL' | 'profitFactor';
+
+export interface WalkForwardConfig {
+  target: OptimizationTarget;
+  space: ParameterSpace;
+  search: Partial<SearchOptions>;
+  objective: OptimizationObjective;
+  trainWindowMs: number;
+  testWindowMs: number;
+  stepMs?: number;                   // Window stride (default: testWindowMs, so test windows don't overlap)
+  minTrades: number;                 // Train windows with fewer trades can't win
+  baseConfig: Partial<OrchestratorConfig>; // Fixed fields under the searched ones
+  resultsDir: string;                // Scratch trade log for the replays
+}
+
+export interface WalkForwardWindow {
+  trainStart: number;
+  trainEnd: number;                  // = testStart
+  testEnd: number;
+}
+
+export interface WalkForwardFold {
+  window: WalkForwardWindow;
+  params: ParameterSet;              // Train-window winner
+  trainScore: number;
+  trials: number;
+  testMetrics: ProfitMetrics;
+}
+
+export interface WalkForwardResult {
+  target: OptimizationTarget;
+  objective: OptimizationObjective;
+  folds: WalkForwardFold[];
+  outOfSample: ProfitMetrics;        // Every test-window trade, stitched together
+  params: ParameterSet;              // Re-optimized on the latest train window
+  config: Partial<OrchestratorConfig> | Partial<EtherealAgentConfig>;
+  scoredBy?: string;                 // Stand-in pipeline behind the metrics (proxy targets)
+}
+
+export interface OptimizerPreset {
+  name: string;
+  target: OptimizationTarget;
+  createdAt: string;
+  history?: string;                  // File the preset was fitted on
+  objective: OptimizationObjective;
+  method: string;
+  folds: number;
+  outOfSample: Omit<ProfitMetrics, 'attribution'>;
+  config: Partial<OrchestratorConfig> | Partial<EtherealAgentConfig>;
+  scoredBy?: string;                 // Stand-in pipeline behind outOfSample (proxy targets)
+}
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Targets that can't be replayed themselves, and the pipeline their
+ * metrics come from instead
+ */
+export const PROXY_SCORING: Partial<Record<OptimizationTarget, string>> = {
+  'ethereal-agent': 'orchestrator rule-based replay',
+};
+
+/**
+ * EtherealAgentConfig fields the orchestrator replay can score
+ */
+export const REPLAYABLE_AGENT_FIELDS: (keyof EtherealAgentConfig)[] = [
+  'totalCapital',
+  'maxPositionPercent',
+  'maxConcurrentPositions',
+  'minConfidence',
+];
+
+export const DEFAULT_SPACES: Record<OptimizationTarget, ParameterSpace> = {
+  'orchestrator': [
+    { key: 'minConfidence', min: 65, max: 80, step: 5 },
+    { key: 'maxPositionPercent', values: [0.2, 0.3, 0.4] },
+    { key: 'minSignalAge', values: [0, 10000, 30000] },
+  ],
+  'ethereal-agent': [
+    { key: 'minConfidence', min: 65, max: 80, step: 5 },
+    { key: 'maxPositionPercent', values: [0.2, 0.3, 0.4] },
+    { key: 'maxConcurrentPositions', min: 2, max: 4, integer: true },
+  ],
+};
+
+export const DEFAULT_WALK_FORWARD_CONFIG: WalkForwardConfig = {
+  target: 'orchestrator',
+  space: DEFAULT_SPACES['orchestrator'],
+  search: { method: 'grid' },
+  objective: 'score',
+  trainWindowMs: 24 * HOUR,
+  testWindowMs: 6 * HOUR,
+  minTrades: 5,
+  baseConfig: {},
+  resultsDir: './trade-results/optimizer',
+};
+
+export const DEFAULT_PRESETS_DIR = './trade-results/presets';
+
+// ============================================================================
+// WALK-FORWARD OPTIMIZER
+// ============================================================================
+
+export class WalkForwardOptimizer {
+  private config: WalkForwardConfig;
+  private scorer = new ProfitScorer();
+
+  constructor(config: Partial<WalkForwardConfig> = {}) {
+    const target = config.target ?? DEFAULT_WALK_FORWARD_CONFIG.target;
+    this.config = {
+      ...DEFAULT_WALK_FORWARD_CONFIG,
+      space: DEFAULT_SPACES[target],
+      ...config,
+    };
+
+    if (target === 'ethereal-agent') {
+      const unsupported = this.config.space
+        .map(range => range.key)
+        .filter(key => !REPLAYABLE_AGENT_FIELDS.includes(key as keyof EtherealAgentConfig));
+      if (unsupported.length > 0) {
+        throw new Error(
+          `Can't replay ethereal-agent field(s) ${unsupported.join(', ')} - ` +
+          `searchable: ${REPLAYABLE_AGENT_FIELDS.join(', ')}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Rolling train/test windows over [start, end]
+   */
+  windows(start: number, end: number): WalkForwardWindow[] {
+    const { trainWindowMs, testWindowMs } = this.config;
+    const step = this.config.stepMs ?? testWindowMs;
+    const windows: WalkForwardWindow[] = [];
+
+    for (let trainStart = start; trainStart + trainWindowMs + testWindowMs <= end + 1; trainStart += step) {
+      windows.push({
+        trainStart,
+        trainEnd: trainStart + trainWindowMs,
+        testEnd: trainStart + trainWindowMs + testWindowMs,
+      });
+    }
+
+    return windows;
+  }
+
+  async run(records: MarketRecord[]): Promise<WalkForwardResult> {
+    const sorted = [...records].sort((a, b) => a.timestamp - b.timestamp);
+    if (sorted.length === 0) {
+      throw new Error('No market records to optimize on');
+    }
+
+    const start = sorted[0].timestamp;
+    const end = sorted[sorted.length - 1].timestamp;
+    const windows = this.windows(start, end);
+    if (windows.length === 0) {
+      const spanHours = (end - start) / HOUR;
+      const neededHours = (this.config.trainWindowMs + this.config.testWindowMs) / HOUR;
+      throw new Error(`History spans ${spanHours.toFixed(1)}h; need at least ${neededHours.toFixed(1)}h for one train + test window`);
+    }
+
+    const folds: WalkForwardFold[] = [];
+    const outOfSampleTrades: TradeResult[] = [];
+
+    for (const window of windows) {
+      const train = slice(sorted, window.trainStart, window.trainEnd);
+      const search = await this.optimize(train);
+
+      const { trades, metrics } = await this.evaluate(search.best.params, slice(sorted, window.trainEnd, window.testEnd));
+      outOfSampleTrades.push(...trades);
+
+      folds.push({
+        window,
+        params: search.best.params,
+        trainScore: search.best.score,
+        trials: search.trials.length,
+        testMetrics: metrics,
+      });
+    }
+
+    // What walk-forward would deploy next: the winner on the latest data
+    const latest = await this.optimize(slice(sorted, end - this.config.trainWindowMs, end + 1));
+
+    return {
+      target: this.config.target,
+      objective: this.config.objective,
+      folds,
+      outOfSample: this.scorer.calculateMetrics(outOfSampleTrades),
+      params: latest.best.params,
+      config: this.toConfig(latest.best.params),
+      ...(PROXY_SCORING[this.config.target] ? { scoredBy: PROXY_SCORING[this.config.target] } : {}),
+    };
+  }
+
+  /**
+   * Best params on one window by the configured objective
+   */
+  private optimize(records: MarketRecord[]) {
+    return searchParameters(
+      this.config.space,
+      async (params) => {
+        const { trades, metrics } = await this.evaluate(params, records);
+        return trades.length < this.config.minTrades ? -Infinity : this.objectiveValue(metrics);
+      },
+      this.config.search
+    );
+  }
+
+  private async evaluate(
+    params: ParameterSet,
+    records: MarketRecord[]
+  ): Promise<{ trades: TradeResult[]; metrics: ProfitMetrics }> {
+    if (records.length === 0) {
+      return { trades: [], metrics: this.scorer.calculateMetrics([]) };
+    }
+
+    const engine = new BacktestEngine({
+      orchestrator: applyParams(this.config.baseConfig, params),
+      resultsDir: this.config.resultsDir,
+    });
+    const result = await engine.run(records);
+    return { trades: result.trades, metrics: result.metrics };
+  }
+
+  private objectiveValue(metrics: ProfitMetrics): number {
+    const value = metrics[this.config.objective];
+    // A train window with no losers shouldn't beat everything else outright
+    return this.config.objective === 'profitFactor' ? Math.min(value, 10) : value;
+  }
+
+  private toConfig(params: ParameterSet): WalkForwardResult['config'] {
+    if (this.config.target === 'orchestrator') return applyParams(this.config.baseConfig, params);
+
+    const config: Partial<Record<keyof EtherealAgentConfig, number>> = {};
+    for (const key of REPLAYABLE_AGENT_FIELDS) {
+      if (params[key] !== undefined) config[key] = params[key];
+    }
+    return config as Partial<EtherealAgentConfig>;
+  }
+
+  printReport(result: WalkForwardResult): void {
+    const fmt = (m: ProfitMetrics) =>
+      `${String(m.totalTrades).padStart(4)} trades | Win ${(m.winRate * 100).toFixed(1)}% | ` +
+      `PF ${m.profitFactor === Infinity ? '∞' : m.profitFactor.toFixed(2)} | Sharpe ${m.sharpeRatio.toFixed(2)} | ` +
+      `DD ${m.maxDrawdown.toFixed(2)} | PnL ${m.totalPnL >= 0 ? '+' : ''}${m.totalPnL.toFixed(2)}`;
+
+    console.log('\n' + '═'.repeat(70));
+    console.log(`🔬 WALK-FORWARD OPTIMIZATION (${result.target}${result.scoredBy ? ' - PROXY' : ''}, objective: ${result.objective})`);
+    console.log('═'.repeat(70));
+    if (result.scoredBy) {
+      console.log(`   ⚠️  Scored on the ${result.scoredBy}: these are not ${result.target} results`);
+    }
+
+    result.folds.forEach((fold, i) => {
+      const testStart = new Date(fold.window.trainEnd).toISOString();
+      console.log(`\n   Fold ${i + 1}: test from ${testStart}`);
+      console.log(`      Train winner: ${formatParams(fold.params)} (${result.objective} ${fold.trainScore.toFixed(2)}, ${fold.trials} trials)`);
+      console.log(`      Out-of-sample: ${fmt(fold.testMetrics)}`);
+    });
+
+    console.log(`\n   📊 Out-of-sample${result.scoredBy ? `, ${result.scoredBy}` : ''} (all folds):`);
+    console.log(`      ${fmt(result.outOfSample)}`);
+    console.log(`      Score: ${result.outOfSample.score.toFixed(1)}/100`);
+    console.log(`\n   🏆 Next config (latest train window): ${formatParams(result.params)}`);
+    console.log('═'.repeat(70) + '\n');
+  }
+}
+
+// ============================================================================
+// PRESETS
+// ============================================================================
+
+/**
+ * Write the optimized config as a preset JSON file and return its path
+ */
+export function savePreset(
+  result: WalkForwardResult,
+  options: { name: string; method: string; history?: string; dir?: string }
+): string {
+  const dir = options.dir ?? DEFAULT_PRESETS_DIR;
+  const { attribution, ...outOfSample } = result.outOfSample;
+  const preset: OptimizerPreset = {
+    name: options.name,
+    target: result.target,
+    createdAt: new Date().toISOString(),
+    ...(options.history ? { history: options.history } : {}),
+    objective: result.objective,
+    method: options.method,
+    folds: result.folds.length,
+    outOfSample,
+    config: result.config,
+    ...(result.scoredBy ? { scoredBy: result.scoredBy } : {}),
+  };
+
+  fs.mkdirSync(dir, { recursive: true });
+  const file = path.join(dir, `${options.name}.json`);
+  fs.writeFileSync(file, JSON.stringify(preset, null, 2));
+  return file;
+}
+
+/**
+ * Load a preset by file path, or by name from the presets directory
+ */
+export function loadPreset(
+  nameOrPath: string,
+  target: OptimizationTarget,
+  dir: string = DEFAULT_PRESETS_DIR
+): OptimizerPreset {
+  const file = nameOrPath.endsWith('.json') ? nameOrPath : path.join(dir, `${nameOrPath}.json`);
+  if (!fs.existsSync(file)) {
+    throw new Error(`Preset not found: ${file}`);
+  }
+
+  const preset: OptimizerPreset = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  if (preset.target !== target) {
+    throw new Error(`Preset ${preset.name} was optimized for ${preset.target}, not ${target}`);
+  }
+  return preset;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function slice(records: MarketRecord[], from: number, to: number): MarketRecord[] {
+  return records.filter(r => r.timestamp >= from && r.timestamp < to);
+}
+
+/**
+ * Copy of the base config with each (possibly dotted) param set
+ */
+function applyParams(base: Partial<OrchestratorConfig>, params: ParameterSet): Partial<OrchestratorConfig> {
+  const config: Partial<OrchestratorConfig> = structuredClone(base);
+  for (const [key, value] of Object.entries(params)) {
+    const parts = key.split('.');
+    let target: Record<string, any> = config;
+    for (const part of parts.slice(0, -1)) {
+      target[part] = target[part] ?? {};
+      target = target[part];
+    }
+    target[parts[parts.length - 1]] = value;
+  }
+  return config;
+}
+
+function formatParams(params: ParameterSet): string {
+  return Object.entries(params).map(([key, value]) => `${key}=${value}`).join(' ');
+}
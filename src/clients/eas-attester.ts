@@ -0,0 +1,644 @@
+/**
+ * EAS Attester - Gas-Aware Forecast Submission
+ *
+ * Sends Sapience forecasts to the EAS contract on Arbitrum:
+ *   - several forecasts go out in one `multiAttest` transaction (a single
+ *     forecast uses plain `attest`)
+ *   - gas is estimated through the RPC before sending, and a batch only goes
+ *     out if its worst-case cost (gas x maxFeePerGas after every allowed fee
+ *     bump) fits the per-run and rolling 24h ETH budget; otherwise it is
+ *     shrunk until it does
+ *   - batches go out one at a time, each waiting for its receipt; the nonce
+ *     is tracked locally and re-synced from the chain after a failed send
+ *   - a transaction still pending after `confirmTimeoutMs` is replaced at
+ *     the same nonce with fees bumped by `feeBumpPercent`
+ *   - a send given up on can still mine: its forecasts aren't re-sent and
+ *     its worst case stays reserved until the nonce settles, and a late
+ *     receipt is charged and reported with the next call's batches
+ * Receipts report the gas actually paid (gasUsed x effectiveGasPrice).
+ *
+ * The chain is reached through AttestationChain, so tests and dry runs can
+ * use FakeAttestationChain instead of an RPC.
+ */
+
+import {
+  Address,
+  Hex,
+  TransactionReceiptNotFoundError,
+  WaitForTransactionReceiptTimeoutError,
+  createPublicClient,
+  createWalletClient,
+  decodeAbiParameters,
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeFunctionData,
+  formatEther,
+  formatUnits,
+  http,
+  parseAbiParameters,
+} from 'viem';
+import { arbitrum } from 'viem/chains';
+import { privateKeyToAccount } from 'viem/accounts';
+import { SAPIENCE_CONFIG } from '../config';
+import { Clock, systemClock } from '../utils/clock';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AttestableForecast {
+  conditionId: string;
+  probability: number;               // 0-100
+  reasoning: string;
+}
+
+export interface FeeEstimate {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export interface TransactionRequest extends FeeEstimate {
+  to: Address;
+  data: Hex;
+  gas: bigint;
+  nonce: number;
+}
+
+export interface ChainReceipt {
+  transactionHash: Hex;
+  status: 'success' | 'reverted';
+  gasUsed: bigint;
+  effectiveGasPrice: bigint;
+  blockNumber: bigint;
+}
+
+/**
+ * The few RPC calls the attester needs
+ */
+export interface AttestationChain {
+  address: Address;
+  estimateGas(tx: { to: Address; data: Hex }): Promise<bigint>;
+  estimateFees(): Promise<FeeEstimate>;
+  getNonce(): Promise<number>;       // Pending nonce of `address`
+  getConfirmedNonce(): Promise<number>;   // Nonce of `address` as of the latest block
+  send(tx: TransactionRequest): Promise<Hex>;
+  waitForReceipt(hash: Hex, timeoutMs: number): Promise<ChainReceipt>;
+  getReceipt(hash: Hex): Promise<ChainReceipt | null>;   // null while pending or dropped
+}
+
+export interface EasAttesterConfig {
+  rpcUrl: string;
+  easAddress: Address;
+  schemaId: Hex;
+  maxBatchSize: number;              // Forecasts per multiAttest
+  gasBufferPercent: number;          // Added to estimateGas
+  perRunEth: number;                 // Budget for one attester (one agent run)
+  perDayEth: number;                 // Budget over any rolling 24h
+  confirmTimeoutMs: number;          // Pending this long = stuck
+  feeBumpPercent: number;            // Replacement fee increase (nodes want >= 10%)
+  maxReplacements: number;
+}
+
+export interface AttestationReceipt {
+  txHash: Hex;
+  status: 'success' | 'reverted';
+  nonce: number;
+  gasUsed: bigint;
+  effectiveGasPrice: bigint;
+  costEth: number;                   // Actually paid
+  blockNumber: bigint;
+  replacements: number;              // Fee bumps before it mined
+}
+
+export interface AttestationBatch {
+  conditionIds: string[];
+  receipt: AttestationReceipt;
+}
+
+export interface AttestationResult {
+  batches: AttestationBatch[];       // Mined successfully (including earlier sends that mined late)
+  failed: { conditionIds: string[]; error: string }[];
+  overBudget: string[];              // Not sent: budget exhausted
+  spentEth: number;
+}
+
+export const DEFAULT_EAS_ATTESTER_CONFIG: EasAttesterConfig = {
+  rpcUrl: SAPIENCE_CONFIG.ARBITRUM_RPC_URL,
+  easAddress: '0xbD75f629A22Dc1ceD33dDA0b68c546A1c035c458',
+  schemaId: '0x7df55bcec6eb3b17b25c503cc318a36d33b0a9bbc2d6bc0d9788f9bd61980d49',
+  maxBatchSize: 10,
+  gasBufferPercent: 20,
+  perRunEth: 0.005,
+  perDayEth: 0.02,
+  confirmTimeoutMs: 60_000,
+  feeBumpPercent: 15,
+  maxReplacements: 2,
+};
+
+/**
+ * Sapience forecast schema, registered with no resolver and revocable; its
+ * UID is keccak256(schema, resolver, revocable) = DEFAULT schemaId
+ */
+export const SAPIENCE_FORECAST_SCHEMA = 'address resolver,bytes condition,uint256 forecast,string comment';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * A send given up on while its transactions could still mine
+ */
+interface AbandonedSend {
+  nonce: number;
+  hashes: Hex[];                     // Original and every replacement
+  conditionIds: string[];
+  maxCostEth: number;                // Reserved from the budget until it settles
+}
+const ZERO_ADDRESS: Address = '0x0000000000000000000000000000000000000000';
+const ZERO_UID: Hex = '0x0000000000000000000000000000000000000000000000000000000000000000';
+
+const ATTESTATION_DATA = {
+  name: 'data',
+  type: 'tuple',
+  components: [
+    { name: 'recipient', type: 'address' },
+    { name: 'expirationTime', type: 'uint64' },
+    { name: 'revocable', type: 'bool' },
+    { name: 'refUID', type: 'bytes32' },
+    { name: 'data', type: 'bytes' },
+    { name: 'value', type: 'uint256' },
+  ],
+} as const;
+
+export const EAS_ABI = [
+  {
+    name: 'attest',
+    type: 'function',
+    inputs: [
+      {
+        name: 'request',
+        type: 'tuple',
+        components: [{ name: 'schema', type: 'bytes32' }, ATTESTATION_DATA],
+      },
+    ],
+    outputs: [{ name: '', type: 'bytes32' }],
+    stateMutability: 'payable',
+  },
+  {
+    name: 'multiAttest',
+    type: 'function',
+    inputs: [
+      {
+        name: 'multiRequests',
+        type: 'tuple[]',
+        components: [{ name: 'schema', type: 'bytes32' }, { ...ATTESTATION_DATA, type: 'tuple[]' }],
+      },
+    ],
+    outputs: [{ name: '', type: 'bytes32[]' }],
+    stateMutability: 'payable',
+  },
+] as const;
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+/**
+ * EAS attestation data for one forecast (Sapience forecast schema)
+ */
+export function encodeForecast(forecast: AttestableForecast) {
+  return {
+    recipient: ZERO_ADDRESS,
+    expirationTime: 0n,
+    revocable: false,
+    refUID: ZERO_UID,
+    data: encodeAbiParameters(
+      parseAbiParameters(SAPIENCE_FORECAST_SCHEMA),
+      [
+        ZERO_ADDRESS,
+        forecast.conditionId as Hex,
+        BigInt(Math.round(forecast.probability)) * 10n ** 18n,   // D18
+        forecast.reasoning,
+      ]
+    ),
+    value: 0n,
+  };
+}
+
+/**
+ * Forecast back from attestation data (inverse of encodeForecast)
+ */
+export function decodeForecast(data: Hex): AttestableForecast {
+  const [, condition, forecast, comment] = decodeAbiParameters(parseAbiParameters(SAPIENCE_FORECAST_SCHEMA), data);
+  return {
+    conditionId: condition,
+    probability: Number(formatUnits(forecast, 18)),
+    reasoning: comment,
+  };
+}
+
+/**
+ * Calldata for one transaction carrying every forecast given
+ */
+export function encodeAttestations(forecasts: AttestableForecast[], schemaId: Hex = DEFAULT_EAS_ATTESTER_CONFIG.schemaId): Hex {
+  if (forecasts.length === 1) {
+    return encodeFunctionData({
+      abi: EAS_ABI,
+      functionName: 'attest',
+      args: [{ schema: schemaId, data: encodeForecast(forecasts[0]) }],
+    });
+  }
+  return encodeFunctionData({
+    abi: EAS_ABI,
+    functionName: 'multiAttest',
+    args: [[{ schema: schemaId, data: forecasts.map(encodeForecast) }]],
+  });
+}
+
+/**
+ * Number of attestations in attest / multiAttest calldata
+ */
+export function countAttestations(data: Hex): number {
+  const call = decodeFunctionData({ abi: EAS_ABI, data });
+  return call.functionName === 'attest'
+    ? 1
+    : call.args[0].reduce((sum, request) => sum + request.data.length, 0);
+}
+
+// ============================================================================
+// BUDGET
+// ============================================================================
+
+/**
+ * ETH left to spend this run and over the trailing 24h. `spentSince` reports
+ * what earlier runs paid (e.g. from the forecast ledger).
+ */
+export class GasBudget {
+  private spentRun = 0;
+
+  constructor(
+    private limits: Pick<EasAttesterConfig, 'perRunEth' | 'perDayEth'>,
+    private spentSince: (sinceMs: number) => number = () => 0,
+    private clock: Clock = systemClock
+  ) {}
+
+  remaining(): number {
+    const day = this.limits.perDayEth - this.spentSince(this.clock.now() - DAY);
+    return Math.max(0, Math.min(this.limits.perRunEth - this.spentRun, day));
+  }
+
+  charge(eth: number): void {
+    this.spentRun += eth;
+  }
+
+  getSpentRun(): number {
+    return this.spentRun;
+  }
+}
+
+// ============================================================================
+// ATTESTER
+// ============================================================================
+
+export class EasAttester {
+  private config: EasAttesterConfig;
+  private budget: GasBudget;
+  private nonce?: number;
+  private abandoned: AbandonedSend[] = [];
+
+  constructor(
+    private chain: AttestationChain,
+    config: Partial<EasAttesterConfig> = {},
+    spentSince?: (sinceMs: number) => number,
+    clock: Clock = systemClock
+  ) {
+    this.config = { ...DEFAULT_EAS_ATTESTER_CONFIG, ...config };
+    this.budget = new GasBudget(this.config, spentSince, clock);
+  }
+
+  getBudget(): GasBudget {
+    return this.budget;
+  }
+
+  /**
+   * Gas and worst-case cost of one transaction carrying `forecasts`,
+   * replaced as often as `maxReplacements` allows
+   */
+  async estimate(forecasts: AttestableForecast[]): Promise<{ data: Hex; gas: bigint; fees: FeeEstimate; maxCostEth: number }> {
+    const data = encodeAttestations(forecasts, this.config.schemaId);
+    const [estimated, fees] = await Promise.all([
+      this.chain.estimateGas({ to: this.config.easAddress, data }),
+      this.chain.estimateFees(),
+    ]);
+    const gas = estimated + (estimated * BigInt(this.config.gasBufferPercent)) / 100n;
+    let worstFee = fees.maxFeePerGas;
+    for (let i = 0; i < this.config.maxReplacements; i++) worstFee = this.bump(worstFee);
+    return { data, gas, fees, maxCostEth: Number(formatEther(gas * worstFee)) };
+  }
+
+  /**
+   * Budget left once unsettled sends' worst cases are set aside
+   */
+  private available(): number {
+    const reserved = this.abandoned.reduce((sum, a) => sum + a.maxCostEth, 0);
+    return Math.max(0, this.budget.remaining() - reserved);
+  }
+
+  /**
+   * Attest forecasts in as few transactions as the batch size and budget allow
+   */
+  async attestForecasts(forecasts: AttestableForecast[]): Promise<AttestationResult> {
+    const result: AttestationResult = { batches: [], failed: [], overBudget: [], spentEth: 0 };
+    await this.settleAbandoned(result);
+
+    // Forecasts whose earlier send may still mine wait for it to settle
+    const awaiting = new Map(this.abandoned.flatMap(a => a.conditionIds.map(id => [id, a.nonce] as const)));
+    for (const { conditionId } of forecasts) {
+      const nonce = awaiting.get(conditionId);
+      if (nonce !== undefined) {
+        result.failed.push({ conditionIds: [conditionId], error: `Earlier transaction at nonce ${nonce} is still pending` });
+      }
+    }
+    forecasts = forecasts.filter(f => !awaiting.has(f.conditionId));
+
+    for (let start = 0; start < forecasts.length; start += this.config.maxBatchSize) {
+      let batch = forecasts.slice(start, start + this.config.maxBatchSize);
+      const ids = () => batch.map(f => f.conditionId);
+      const dropped: string[] = [];
+
+      try {
+        // Shrink the batch until its worst case fits what's left of the budget
+        let estimate = await this.estimate(batch);
+        while (estimate.maxCostEth > this.available() && batch.length > 1) {
+          dropped.unshift(batch[batch.length - 1].conditionId);
+          batch = batch.slice(0, -1);
+          estimate = await this.estimate(batch);
+        }
+        if (estimate.maxCostEth > this.available()) {
+          result.overBudget.push(
+            ...ids(),
+            ...dropped,
+            ...forecasts.slice(start + this.config.maxBatchSize).map(f => f.conditionId)
+          );
+          console.warn(`⛽ Gas budget exhausted (${this.available().toFixed(6)} ETH left), ${result.overBudget.length} forecast(s) not sent`);
+          break;
+        }
+
+        result.overBudget.push(...dropped);
+
+        const receipt = await this.send(estimate.data, estimate.gas, estimate.fees, ids(), estimate.maxCostEth);
+        this.record(result, ids(), receipt);
+      } catch (error: any) {
+        this.nonce = undefined;   // Re-read from the chain before the next send
+        result.failed.push({ conditionIds: ids(), error: error.shortMessage || error.message });
+        console.error(`❌ Attestation batch failed: ${error.shortMessage || error.message}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Charge a mined send and report it as attested or reverted
+   */
+  private record(result: AttestationResult, conditionIds: string[], receipt: AttestationReceipt): void {
+    this.budget.charge(receipt.costEth);
+    result.spentEth += receipt.costEth;
+
+    if (receipt.status === 'success') {
+      result.batches.push({ conditionIds, receipt });
+      console.log(`✅ ${conditionIds.length} attestation(s) in ${receipt.txHash} (${receipt.costEth.toFixed(6)} ETH)`);
+    } else {
+      result.failed.push({ conditionIds, error: `Transaction ${receipt.txHash} reverted` });
+    }
+  }
+
+  /**
+   * Look again at sends given up on earlier. One that mined is charged and
+   * reported; one whose nonce went to another transaction was dropped, and
+   * its forecasts are free to be sent again.
+   */
+  private async settleAbandoned(result: AttestationResult): Promise<void> {
+    for (const send of [...this.abandoned]) {
+      try {
+        if ((await this.chain.getConfirmedNonce()) <= send.nonce) continue;
+
+        let mined: ChainReceipt | null = null;
+        for (const hash of send.hashes) {
+          mined = await this.chain.getReceipt(hash);
+          if (mined) break;
+        }
+        this.abandoned.splice(this.abandoned.indexOf(send), 1);
+
+        if (mined) {
+          console.warn(`⏳ Transaction at nonce ${send.nonce} mined after it was given up on`);
+          this.record(result, send.conditionIds, this.toReceipt(mined, send.nonce, send.hashes));
+        } else {
+          console.warn(`⏳ Transaction at nonce ${send.nonce} was dropped, ${send.conditionIds.length} forecast(s) can be sent again`);
+        }
+      } catch (error: any) {
+        console.error(`❌ Could not check the transaction at nonce ${send.nonce}: ${error.shortMessage || error.message}`);
+      }
+    }
+  }
+
+  private bump(wei: bigint): bigint {
+    return wei + (wei * BigInt(this.config.feeBumpPercent)) / 100n;
+  }
+
+  private toReceipt(receipt: ChainReceipt, nonce: number, hashes: Hex[]): AttestationReceipt {
+    return {
+      txHash: receipt.transactionHash,
+      status: receipt.status,
+      nonce,
+      gasUsed: receipt.gasUsed,
+      effectiveGasPrice: receipt.effectiveGasPrice,
+      costEth: Number(formatEther(receipt.gasUsed * receipt.effectiveGasPrice)),
+      blockNumber: receipt.blockNumber,
+      replacements: Math.max(0, hashes.indexOf(receipt.transactionHash)),
+    };
+  }
+
+  /**
+   * Send at the next nonce, replacing it with higher fees while it's stuck.
+   * Any transaction sent for the nonce may be the one that mines, so all of
+   * them are checked before the send is declared failed - and remembered
+   * after it, since one may still mine.
+   */
+  private async send(
+    data: Hex,
+    gas: bigint,
+    fees: FeeEstimate,
+    conditionIds: string[],
+    maxCostEth: number
+  ): Promise<AttestationReceipt> {
+    const nonce = this.nonce ?? await this.chain.getNonce();
+    const { maxFeePerGas, maxPriorityFeePerGas } = fees;
+    const hashes = [await this.chain.send({ to: this.config.easAddress, data, gas, nonce, maxFeePerGas, maxPriorityFeePerGas })];
+    this.nonce = nonce + 1;
+
+    try {
+      return await this.confirm(data, gas, fees, nonce, hashes);
+    } catch (error) {
+      this.abandoned.push({ nonce, hashes, conditionIds, maxCostEth });
+      throw error;
+    }
+  }
+
+  private async confirm(data: Hex, gas: bigint, fees: FeeEstimate, nonce: number, hashes: Hex[]): Promise<AttestationReceipt> {
+    const toReceipt = (receipt: ChainReceipt) => this.toReceipt(receipt, nonce, hashes);
+    let { maxFeePerGas, maxPriorityFeePerGas } = fees;
+
+    for (let replacements = 0; ; replacements++) {
+      try {
+        return toReceipt(await this.chain.waitForReceipt(hashes[hashes.length - 1], this.config.confirmTimeoutMs));
+      } catch (error) {
+        const mined = await this.minedAt(nonce, hashes);
+        if (mined) return toReceipt(mined);
+        if (!(error instanceof WaitForTransactionReceiptTimeoutError) || replacements >= this.config.maxReplacements) {
+          throw error;
+        }
+      }
+
+      maxFeePerGas = this.bump(maxFeePerGas);
+      maxPriorityFeePerGas = this.bump(maxPriorityFeePerGas);
+      console.warn(`⏳ ${hashes[hashes.length - 1]} stuck at nonce ${nonce}, replacing with fees +${this.config.feeBumpPercent}%`);
+
+      try {
+        hashes.push(await this.chain.send({ to: this.config.easAddress, data, gas, nonce, maxFeePerGas, maxPriorityFeePerGas }));
+      } catch (error) {
+        // "nonce too low" / "replacement underpriced": an earlier one may have mined
+        const mined = await this.minedAt(nonce, hashes);
+        if (mined) return toReceipt(mined);
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Receipt of whichever of `hashes` mined at `nonce`, if the nonce is used
+   */
+  private async minedAt(nonce: number, hashes: Hex[]): Promise<ChainReceipt | undefined> {
+    if ((await this.chain.getConfirmedNonce()) <= nonce) return undefined;
+
+    for (const hash of hashes) {
+      const receipt = await this.chain.getReceipt(hash);
+      if (receipt) return receipt;
+    }
+    throw new Error(`Nonce ${nonce} was used by a transaction this attester did not send`);
+  }
+}
+
+// ============================================================================
+// CHAINS
+// ============================================================================
+
+/**
+ * Arbitrum over HTTP, signing with `privateKey`
+ */
+export function rpcAttestationChain(privateKey: Hex, rpcUrl: string = DEFAULT_EAS_ATTESTER_CONFIG.rpcUrl): AttestationChain {
+  const account = privateKeyToAccount(privateKey);
+  const reader = createPublicClient({ chain: arbitrum, transport: http(rpcUrl) });
+  const writer = createWalletClient({ account, chain: arbitrum, transport: http(rpcUrl) });
+
+  return {
+    address: account.address,
+    estimateGas: (tx) => reader.estimateGas({ account, ...tx, value: 0n }),
+    estimateFees: () => reader.estimateFeesPerGas(),
+    getNonce: () => reader.getTransactionCount({ address: account.address, blockTag: 'pending' }),
+    getConfirmedNonce: () => reader.getTransactionCount({ address: account.address, blockTag: 'latest' }),
+    send: (tx) => writer.sendTransaction({ ...tx, value: 0n }),
+    waitForReceipt: (hash, timeoutMs) => reader.waitForTransactionReceipt({ hash, timeout: timeoutMs }),
+    getReceipt: (hash) =>
+      reader.getTransactionReceipt({ hash }).catch((error) => {
+        if (error instanceof TransactionReceiptNotFoundError) return null;
+        throw error;
+      }),
+  };
+}
+
+/**
+ * In-memory chain: gas grows with the number of attestations, every
+ * transaction mines at half its max fee, and the first `stuck` sends never
+ * confirm (so they get replaced) unless mine() is called for them. Only the
+ * first transaction mined at a nonce counts.
+ */
+export class FakeAttestationChain implements AttestationChain {
+  readonly address: Address = '0x000000000000000000000000000000000000f00d';
+  readonly sent: (TransactionRequest & { hash: Hex })[] = [];
+  private mined = new Map<Hex, bigint>();   // Hash → block
+  private block = 1n;
+
+  constructor(private options: {
+    baseGas?: bigint;
+    gasPerAttestation?: bigint;
+    maxFeePerGas?: bigint;
+    stuck?: number;
+    revert?: boolean;
+  } = {}) {}
+
+  async estimateGas(tx: { to: Address; data: Hex }): Promise<bigint> {
+    return (this.options.baseGas ?? 40_000n) + (this.options.gasPerAttestation ?? 60_000n) * BigInt(countAttestations(tx.data));
+  }
+
+  async estimateFees(): Promise<FeeEstimate> {
+    const maxFeePerGas = this.options.maxFeePerGas ?? 100_000_000n;   // 0.1 gwei
+    return { maxFeePerGas, maxPriorityFeePerGas: maxFeePerGas / 10n };
+  }
+
+  async getNonce(): Promise<number> {
+    return new Set(this.sent.map(tx => tx.nonce)).size;
+  }
+
+  async getConfirmedNonce(): Promise<number> {
+    return new Set(this.sent.filter(tx => this.mined.has(tx.hash)).map(tx => tx.nonce)).size;
+  }
+
+  async send(tx: TransactionRequest): Promise<Hex> {
+    if (this.sent.some(t => t.nonce === tx.nonce && this.mined.has(t.hash))) {
+      throw new Error('nonce too low');
+    }
+    const hash = `0x${(this.sent.length + 1).toString(16).padStart(64, '0')}` as Hex;
+    this.sent.push({ ...tx, hash });
+    if (this.sent.length > (this.options.stuck ?? 0)) this.mine(hash);
+    return hash;
+  }
+
+  /**
+   * Mine a sent transaction, unless its nonce is already used
+   */
+  mine(hash: Hex): void {
+    const tx = this.sent.find(t => t.hash === hash);
+    if (!tx) throw new Error(`Unknown transaction ${hash}`);
+    if (this.sent.some(t => t.nonce === tx.nonce && this.mined.has(t.hash))) return;
+    this.mined.set(hash, this.block++);
+  }
+
+  async waitForReceipt(hash: Hex): Promise<ChainReceipt> {
+    const receipt = await this.getReceipt(hash);
+    if (!receipt) throw new WaitForTransactionReceiptTimeoutError({ hash });
+    return receipt;
+  }
+
+  async getReceipt(hash: Hex): Promise<ChainReceipt | null> {
+    const tx = this.sent.find(t => t.hash === hash);
+    const block = this.mined.get(hash);
+    if (!tx || block === undefined) return null;
+    return {
+      transactionHash: hash,
+      status: this.options.revert ? 'reverted' : 'success',
+      gasUsed: await this.estimateGas(tx),
+      effectiveGasPrice: tx.maxFeePerGas / 2n,
+      blockNumber: block,
+    };
+  }
+}
+
+/**
+ * Attester settings from the environment
+ */
+export function easAttesterConfigFromEnv(env: Record<string, string | undefined> = process.env): Partial<EasAttesterConfig> {
+  const config: Partial<EasAttesterConfig> = {};
+  if (env.ATTEST_BATCH_SIZE) config.maxBatchSize = parseInt(env.ATTEST_BATCH_SIZE);
+  if (env.GAS_BUDGET_RUN_ETH) config.perRunEth = parseFloat(env.GAS_BUDGET_RUN_ETH);
+  if (env.GAS_BUDGET_DAY_ETH) config.perDayEth = parseFloat(env.GAS_BUDGET_DAY_ETH);
+  return config;
+}
@@ -1,4 +1,36 @@
-import axios from "axios";
+/**
+ * Ethereal Exchange Client
+ *
+ * One client for market data (markets, order books, trades) and signed
+ * trading (EIP-712 orders, positions, balances) on Ethereal perps.
+ * https://docs.ethereal.trade/
+ *
+ * Exchange products (Product.id / ticker "BTCUSD") map to EtherealMarket
+ * symbols ("BTC-USD"); getProductBySymbol resolves either form.
+ *
+ * Requests go through a pluggable transport (live HTTP, mock, recorded) -
+ * see ethereal-transport.ts. Market data falls back to mock markets when
+ * the live API is unreachable. Streaming updates come from createStream()
+ * (ethereal-stream.ts).
+ */
+
+import { ethers } from "ethers";
+import { SeededRandom, getSimulationRng } from "../utils/random";
+import {
+  EtherealTransport,
+  MockEtherealTransport,
+  transportFromEnv,
+} from "./ethereal-transport";
+import {
+  EtherealStream,
+  EtherealStreamConfig,
+  LIVE_STREAM_URL,
+  TESTNET_STREAM_URL,
+} from "./ethereal-stream";
+
+// ============================================================================
+// MARKET DATA TYPES
+// ============================================================================
 
 export interface EtherealMarket {
   symbol: string;
@@ -31,32 +63,244 @@ export interface EtherealTrade {
   timestamp: number;
 }
 
+// ============================================================================
+// EXCHANGE TYPES
+// ============================================================================
+
+export interface Product {
+  id: string;
+  ticker: string;
+  displayTicker: string;
+  baseTokenName: string;
+  quoteTokenName: string;
+  tickSize: string;
+  lotSize: string;
+  minQuantity: string;
+  maxQuantity: string;
+  maxLeverage: number;
+  status: string;
+  onchainId: number;
+}
+
+/**
+ * GET /v1/product/:id/ticker payload (decimal strings)
+ */
+export interface ProductTicker {
+  lastPrice: string;
+  markPrice?: string;
+  indexPrice?: string;
+  priceChange24h?: string;
+  priceChangePercent24h?: string;
+  volume24h?: string;
+  fundingRate?: string;
+  openInterest?: string;
+}
+
+export interface MarketPrice {
+  productId: string;
+  indexPrice: string;
+  markPrice: string;
+  lastPrice: string;
+  timestamp: number;
+}
+
+export interface Position {
+  id: string;
+  subaccountId: string;
+  productId: string;
+  side: "LONG" | "SHORT";
+  size: string;
+  entryPrice: string;
+  markPrice: string;
+  liquidationPrice: string;
+  unrealizedPnl: string;
+  leverage: number;
+}
+
+export interface Order {
+  id?: string;
+  subaccountId: string;
+  productId: string;
+  side: "BUY" | "SELL";
+  type: "MARKET" | "LIMIT";
+  size: string;
+  price?: string;
+  reduceOnly?: boolean;
+  postOnly?: boolean;
+  timeInForce?: "GTC" | "IOC" | "FOK";
+}
+
+export interface Balance {
+  token: string;
+  available: string;
+  locked: string;
+  total: string;
+}
+
+export interface EtherealClientConfig {
+  transport?: EtherealTransport;   // Defaults to ETHEREAL_TRANSPORT (live HTTP)
+  privateKey?: string;             // Required for signed requests only
+  subaccountId?: string;
+  testnet?: boolean;
+  apiUrl?: string;
+  wsUrl?: string;                  // Defaults to ETHEREAL_WS_URL or the live/testnet stream
+  rng?: SeededRandom;              // Mock market variation
+  mockFallback?: boolean;          // Serve mock markets when live data fails (default true)
+}
+
+/**
+ * EIP-712 types for signed order and cancel requests
+ */
+export const ORDER_TYPES = {
+  Order: [
+    { name: "subaccountId", type: "string" },
+    { name: "productId", type: "string" },
+    { name: "side", type: "string" },
+    { name: "type", type: "string" },
+    { name: "size", type: "string" },
+    { name: "price", type: "string" },
+    { name: "reduceOnly", type: "bool" },
+    { name: "postOnly", type: "bool" },
+    { name: "timeInForce", type: "string" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
+export const CANCEL_ORDER_TYPES = {
+  CancelOrder: [
+    { name: "orderIds", type: "string[]" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
+// ============================================================================
+// SYMBOL MAPPING
+// ============================================================================
+
+/**
+ * "BTC-USD", "BTCUSD" and "btc/usd" all normalize to "BTCUSD"
+ */
+export function normalizeTicker(ticker: string): string {
+  return ticker.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+/**
+ * EtherealMarket symbol for an exchange product ("BTC-USD")
+ */
+export function marketSymbol(product: Product): string {
+  return `${product.baseTokenName}-${product.quoteTokenName}`.toUpperCase();
+}
+
+function toMarket(product: Product, ticker: ProductTicker): EtherealMarket {
+  const num = (value?: string) => (value !== undefined ? parseFloat(value) || 0 : 0);
+  const lastPrice = num(ticker.lastPrice);
+  const priceChange24h = num(ticker.priceChange24h);
+  const previous = lastPrice - priceChange24h;
+
+  return {
+    symbol: marketSymbol(product),
+    baseAsset: product.baseTokenName,
+    quoteAsset: product.quoteTokenName,
+    leverage: product.maxLeverage,
+    lastPrice,
+    priceChange24h,
+    priceChangePercent24h: ticker.priceChangePercent24h !== undefined
+      ? num(ticker.priceChangePercent24h)
+      : previous > 0 ? (priceChange24h / previous) * 100 : 0,
+    volume24h: num(ticker.volume24h),
+    fundingRate: num(ticker.fundingRate),
+    openInterest: num(ticker.openInterest),
+    markPrice: ticker.markPrice !== undefined ? num(ticker.markPrice) : undefined,
+    indexPrice: ticker.indexPrice !== undefined ? num(ticker.indexPrice) : undefined,
+  };
+}
+
+/**
+ * Apply a streamed ticker on top of the last known market - fields the
+ * ticker leaves out keep their previous values
+ */
+export function mergeTicker(market: EtherealMarket, ticker: ProductTicker): EtherealMarket {
+  const num = (value: string | undefined, fallback: number) =>
+    value !== undefined && !isNaN(parseFloat(value)) ? parseFloat(value) : fallback;
+
+  return {
+    ...market,
+    lastPrice: num(ticker.lastPrice, market.lastPrice),
+    priceChange24h: num(ticker.priceChange24h, market.priceChange24h),
+    priceChangePercent24h: num(ticker.priceChangePercent24h, market.priceChangePercent24h),
+    volume24h: num(ticker.volume24h, market.volume24h),
+    fundingRate: num(ticker.fundingRate, market.fundingRate),
+    openInterest: num(ticker.openInterest, market.openInterest),
+    markPrice: ticker.markPrice !== undefined ? num(ticker.markPrice, 0) : market.markPrice,
+    indexPrice: ticker.indexPrice !== undefined ? num(ticker.indexPrice, 0) : market.indexPrice,
+  };
+}
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
 export class EtherealClient {
-  private baseUrl: string = "https://api.ethereal.exchange";
-  private wsUrl: string = "wss://api.ethereal.exchange/ws";
+  private transport: EtherealTransport;
+  private fallback?: EtherealTransport;
+  private wallet?: ethers.Wallet;
+  private subaccountId: string;
+  private domain: any;
+  private products?: Product[];
+  private wsUrl: string;
+  private lastNonce = 0;
+
+  constructor(config: EtherealClientConfig = {}) {
+    const rng = config.rng || getSimulationRng().fork("ethereal-mock-markets");
+
+    this.transport = config.transport || transportFromEnv({
+      testnet: config.testnet,
+      apiUrl: config.apiUrl,
+      rng,
+    });
+
+    if (config.mockFallback !== false && this.transport.kind === "live") {
+      this.fallback = new MockEtherealTransport(rng);
+    }
 
-  constructor(apiKey?: string) {
-    if (apiKey) {
-      // Store API key for authenticated requests
+    if (config.privateKey) {
+      this.wallet = new ethers.Wallet(config.privateKey);
     }
+    this.subaccountId = config.subaccountId || this.wallet?.address || "";
+
+    this.wsUrl = config.wsUrl || process.env.ETHEREAL_WS_URL ||
+      (config.testnet ? TESTNET_STREAM_URL : LIVE_STREAM_URL);
+  }
+
+  getTransport(): EtherealTransport {
+    return this.transport;
+  }
+
+  /**
+   * WebSocket feed for tickers, order books and trades (not yet connected)
+   */
+  createStream(config: Partial<EtherealStreamConfig> = {}): EtherealStream {
+    return new EtherealStream({ url: this.wsUrl, ...config });
   }
 
+  // ==========================================================================
+  // MARKET DATA
+  // ==========================================================================
+
   /**
    * Get all available markets
    */
   async getMarkets(): Promise<EtherealMarket[]> {
     try {
-      const response = await axios.get(`${this.baseUrl}/v1/markets`, {
-        timeout: 10000,
-      });
-
-      return response.data.markets || [];
+      const markets = await this.fetchMarkets(this.transport);
+      if (markets.length > 0 || !this.fallback) return markets;
     } catch (error: any) {
+      if (!this.fallback) throw error;
       console.error("Error fetching Ethereal markets:", error.message);
-
-      // Return mock data based on the provided market list
-      return this.getMockMarkets();
     }
+
+    // Return mock data based on the provided market list
+    return this.fetchMarkets(this.fallback);
   }
 
   /**
@@ -75,15 +319,7 @@ export class EtherealClient {
     depth: number = 20,
   ): Promise<EtherealOrderBook> {
     try {
-      const response = await axios.get(
-        `${this.baseUrl}/v1/orderbook/${symbol}`,
-        {
-          params: { depth },
-          timeout: 5000,
-        },
-      );
-
-      return response.data;
+      return await this.transport.get(`/v1/orderbook/${symbol}`, { depth });
     } catch (error) {
       throw new Error(`Failed to fetch order book for ${symbol}`);
     }
@@ -97,176 +333,274 @@ export class EtherealClient {
     limit: number = 100,
   ): Promise<EtherealTrade[]> {
     try {
-      const response = await axios.get(`${this.baseUrl}/v1/trades/${symbol}`, {
-        params: { limit },
-        timeout: 5000,
+      const body = await this.transport.get(`/v1/trades/${symbol}`, { limit });
+      return body.trades || [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  /**
+   * Get all available products
+   */
+  async getProducts(): Promise<Product[]> {
+    try {
+      const body = await this.transport.get("/v1/product");
+      this.products = body.data || [];
+      return this.products!;
+    } catch (error: any) {
+      console.error("Error fetching products:", error.message);
+      return [];
+    }
+  }
+
+  /**
+   * Exchange product for a market symbol or ticker ("BTC-USD" / "BTCUSD")
+   */
+  async getProductBySymbol(symbol: string): Promise<Product | null> {
+    if (!this.products || this.products.length === 0) {
+      await this.getProducts();
+    }
+
+    const wanted = normalizeTicker(symbol);
+    return (this.products || []).find((p) =>
+      normalizeTicker(p.ticker) === wanted || normalizeTicker(marketSymbol(p)) === wanted
+    ) || null;
+  }
+
+  /**
+   * Get market prices for products
+   * Note: Ethereal doesn't have a batch market-price endpoint
+   * We'll fetch individual ticker data for each product
+   */
+  async getMarketPrices(productIds: string[]): Promise<MarketPrice[]> {
+    const prices: MarketPrice[] = [];
+
+    for (const productId of productIds) {
+      try {
+        const body = await this.transport.get(`/v1/product/${productId}/ticker`);
+        const ticker: ProductTicker | undefined = body.data;
+
+        if (ticker && ticker.lastPrice) {
+          prices.push({
+            productId,
+            indexPrice: ticker.indexPrice || ticker.lastPrice,
+            markPrice: ticker.markPrice || ticker.lastPrice,
+            lastPrice: ticker.lastPrice,
+            timestamp: Date.now(),
+          });
+        }
+      } catch (err: any) {
+        // Silently fail for individual products (may not have active orderbook)
+      }
+    }
+
+    return prices;
+  }
+
+  private async fetchMarkets(transport: EtherealTransport): Promise<EtherealMarket[]> {
+    const body = await transport.get("/v1/product");
+    const products: Product[] = body.data || [];
+    const markets: EtherealMarket[] = [];
+
+    for (const product of products) {
+      try {
+        const ticker = await transport.get(`/v1/product/${product.id}/ticker`);
+        if (ticker.data?.lastPrice) {
+          markets.push(toMarket(product, ticker.data));
+        }
+      } catch {
+        // No active order book for this product
+      }
+    }
+
+    if (transport === this.transport) {
+      this.products = products;
+    }
+    return markets;
+  }
+
+  // ==========================================================================
+  // SIGNED TRADING
+  // ==========================================================================
+
+  /**
+   * Initialize the client by fetching EIP712 domain config
+   */
+  async initialize(): Promise<void> {
+    try {
+      const body = await this.transport.get("/v1/rpc/config");
+      this.domain = body.domain;
+      console.log("✅ Ethereal client initialized");
+    } catch (error: any) {
+      console.error("❌ Failed to initialize Ethereal client:", error.message);
+      throw error;
+    }
+  }
+
+  getSubaccountId(): string {
+    return this.subaccountId;
+  }
+
+  /**
+   * Sign a message using EIP712
+   */
+  private async signMessage(message: any, types: any): Promise<string> {
+    if (!this.wallet) {
+      throw new Error("EtherealClient: privateKey is required for signed requests");
+    }
+    return this.wallet.signTypedData(this.domain, types, message);
+  }
+
+  private orderMessage(order: Order) {
+    return {
+      subaccountId: order.subaccountId,
+      productId: order.productId,
+      side: order.side,
+      type: order.type,
+      size: order.size,
+      price: order.price || "0",
+      reduceOnly: order.reduceOnly || false,
+      postOnly: order.postOnly || false,
+      timeInForce: order.timeInForce || "GTC",
+      nonce: this.nextNonce(),
+    };
+  }
+
+  /**
+   * Millisecond timestamp, bumped so back-to-back requests never share a nonce
+   */
+  private nextNonce(): number {
+    this.lastNonce = Math.max(Date.now(), this.lastNonce + 1);
+    return this.lastNonce;
+  }
+
+  /**
+   * Get current positions
+   */
+  async getPositions(): Promise<Position[]> {
+    try {
+      const body = await this.transport.get("/v1/position", {
+        subaccountId: this.subaccountId,
       });
+      return body.data || [];
+    } catch (error: any) {
+      // An empty list would read as "flat"; let callers decide
+      console.error("Error fetching positions:", error.message);
+      throw error;
+    }
+  }
 
-      return response.data.trades || [];
-    } catch (error) {
+  /**
+   * Get account balances
+   */
+  async getBalances(): Promise<Balance[]> {
+    try {
+      const body = await this.transport.get("/v1/subaccount/balance", {
+        subaccountId: this.subaccountId,
+      });
+      return body.data || [];
+    } catch (error: any) {
+      console.error("Error fetching balances:", error.message);
       return [];
     }
   }
 
   /**
-   * Mock markets based on provided data - with slight variation for realistic testing
+   * Place an order (requires EIP712 signature)
+   */
+  async placeOrder(order: Order): Promise<any> {
+    try {
+      const message = this.orderMessage(order);
+      const signature = await this.signMessage(message, ORDER_TYPES);
+
+      return await this.transport.post("/v1/order", {
+        data: message,
+        signature,
+      });
+    } catch (error: any) {
+      console.error("Error placing order:", error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Dry run order (test without execution)
    */
-  private getMockMarkets(): EtherealMarket[] {
-    // Add slight random variation to simulate market movement
-    const vary = (base: number, pct: number = 0.005) =>
-      base * (1 + (Math.random() - 0.5) * pct * 2);
-
-    const varyPct = (base: number, range: number = 0.5) =>
-      base + (Math.random() - 0.5) * range * 2;
-
-    return [
-      {
-        symbol: "BTC-USD",
-        baseAsset: "BTC",
-        quoteAsset: "USD",
-        leverage: 20,
-        lastPrice: vary(90074),
-        priceChange24h: vary(-432.89, 0.1),
-        priceChangePercent24h: varyPct(-0.48, 0.3),
-        volume24h: vary(53940000, 0.1),
-        fundingRate: 0.000016,
-        openInterest: 53840000,
-      },
-      {
-        symbol: "ETH-USD",
-        baseAsset: "ETH",
-        quoteAsset: "USD",
-        leverage: 20,
-        lastPrice: vary(3070.2),
-        priceChange24h: vary(-44.2, 0.1),
-        priceChangePercent24h: varyPct(-1.42, 0.4),
-        volume24h: vary(34090000, 0.1),
-        fundingRate: 0.000017,
-        openInterest: 34730000,
-      },
-      {
-        symbol: "ENA-USD",
-        baseAsset: "ENA",
-        quoteAsset: "USD",
-        leverage: 5,
-        lastPrice: vary(0.22881),
-        priceChange24h: vary(-0.00386, 0.1),
-        priceChangePercent24h: varyPct(-1.66, 0.4),
-        volume24h: vary(740000, 0.1),
-        fundingRate: 0.000016,
-        openInterest: 784510,
-      },
-      {
-        symbol: "SOL-USD",
-        baseAsset: "SOL",
-        quoteAsset: "USD",
-        leverage: 10,
-        lastPrice: vary(137.08),
-        priceChange24h: vary(1.93, 0.1),
-        priceChangePercent24h: varyPct(1.43, 0.4),
-        volume24h: vary(6360000, 0.1),
-        fundingRate: 0.000017,
-        openInterest: 3940000,
-      },
-      {
-        symbol: "HYPE-USD",
-        baseAsset: "HYPE",
-        quoteAsset: "USD",
-        leverage: 10,
-        lastPrice: vary(25.52),
-        priceChange24h: vary(-0.9, 0.1),
-        priceChangePercent24h: varyPct(-3.41, 0.4),
-        volume24h: vary(2700000, 0.1),
-        fundingRate: 0.0005,
-        openInterest: 2330000,
-      },
-      {
-        symbol: "ZEC-USD",
-        baseAsset: "ZEC",
-        quoteAsset: "USD",
-        leverage: 5,
-        lastPrice: vary(432.23),
-        priceChange24h: vary(10.05, 0.1),
-        priceChangePercent24h: varyPct(2.38, 0.4),
-        volume24h: vary(2340000, 0.1),
-        fundingRate: 0.000016,
-        openInterest: 664740,
-      },
-      {
-        symbol: "SUI-USD",
-        baseAsset: "SUI",
-        quoteAsset: "USD",
-        leverage: 10,
-        lastPrice: vary(1.7726),
-        priceChange24h: vary(-0.0348, 0.1),
-        priceChangePercent24h: varyPct(-1.93, 0.4),
-        volume24h: vary(981200, 0.1),
-        fundingRate: 0.0005,
-        openInterest: 501150,
-      },
-      {
-        symbol: "XRP-USD",
-        baseAsset: "XRP",
-        quoteAsset: "USD",
-        leverage: 10,
-        lastPrice: vary(2.0756),
-        priceChange24h: vary(-0.0356, 0.1),
-        priceChangePercent24h: varyPct(-1.69, 0.4),
-        volume24h: vary(784520, 0.1),
-        fundingRate: 0.000017,
-        openInterest: 559250,
-      },
-      {
-        symbol: "FARTCOIN-USD",
-        baseAsset: "FARTCOIN",
-        quoteAsset: "USD",
-        leverage: 5,
-        lastPrice: vary(0.39321),
-        priceChange24h: vary(0.00501, 0.1),
-        priceChangePercent24h: varyPct(1.29, 0.4),
-        volume24h: vary(528680, 0.1),
-        fundingRate: 0.000017,
-        openInterest: 532450,
-      },
-      {
-        symbol: "PUMP-USD",
-        baseAsset: "PUMP",
-        quoteAsset: "USD",
-        leverage: 5,
-        lastPrice: vary(0.0021274),
-        priceChange24h: vary(-0.0000775, 0.1),
-        priceChangePercent24h: varyPct(-3.52, 0.4),
-        volume24h: vary(436510, 0.1),
-        fundingRate: 0.000017,
-        openInterest: 604480,
-      },
-      {
-        symbol: "MON-USD",
-        baseAsset: "MON",
-        quoteAsset: "USD",
-        leverage: 5,
-        lastPrice: vary(0.026617),
-        priceChange24h: vary(0.000114, 0.1),
-        priceChangePercent24h: varyPct(0.43, 0.4),
-        volume24h: vary(278050, 0.1),
-        fundingRate: 0.000014,
-        openInterest: 672290,
-      },
-      {
-        symbol: "AAVE-USD",
-        baseAsset: "AAVE",
-        quoteAsset: "USD",
-        leverage: 5,
-        lastPrice: vary(162.83),
-        priceChange24h: vary(-1.79, 0.1),
-        priceChangePercent24h: varyPct(-1.09, 0.4),
-        volume24h: vary(222390, 0.1),
-        fundingRate: 0.000017,
-        openInterest: 863090,
-      },
-    ];
+  async dryRunOrder(order: Order): Promise<any> {
+    try {
+      const message = this.orderMessage(order);
+      const signature = await this.signMessage(message, ORDER_TYPES);
+
+      return await this.transport.post("/v1/order/dry-run", {
+        data: message,
+        signature,
+      });
+    } catch (error: any) {
+      console.error("Error in dry run:", error.message);
+      throw error;
+    }
   }
 
+  /**
+   * Cancel an order
+   */
+  async cancelOrder(orderId: string): Promise<any> {
+    try {
+      const message = {
+        orderIds: [orderId],
+        nonce: this.nextNonce(),
+      };
+
+      const signature = await this.signMessage(message, CANCEL_ORDER_TYPES);
+
+      return await this.transport.post("/v1/order/cancel", {
+        data: message,
+        signature,
+      });
+    } catch (error: any) {
+      console.error("Error canceling order:", error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Get active position for a product; null when flat
+   */
+  async getActivePosition(productId: string): Promise<Position | null> {
+    try {
+      const body = await this.transport.get("/v1/position/active", {
+        subaccountId: this.subaccountId,
+        productId,
+      });
+      return body || null;
+    } catch (error: any) {
+      // 404 means flat; anything else leaves the position unknown
+      if (error.response?.status === 404) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Close a position (market order)
+   */
+  async closePosition(position: Position): Promise<any> {
+    const closeSide = position.side === "LONG" ? "SELL" : "BUY";
+
+    return this.placeOrder({
+      subaccountId: this.subaccountId,
+      productId: position.productId,
+      side: closeSide,
+      type: "MARKET",
+      size: position.size,
+      reduceOnly: true,
+    });
+  }
+
+  // ==========================================================================
+  // ANALYTICS
+  // ==========================================================================
+
   /**
    * Calculate market liquidity score (0-100)
    */
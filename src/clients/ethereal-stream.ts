@@ -0,0 +1,379 @@
+/**
+ * Ethereal Market Stream - WebSocket Ticker, Order Book and Trade Feed
+ *
+ * Keeps one socket open, resubscribes after reconnects and watches the
+ * per-channel sequence numbers so dropped messages surface as 'gap' events
+ * instead of silently stale data.
+ *
+ * Wire format (JSON text frames):
+ *   → { op: 'subscribe' | 'unsubscribe', channel, symbol }
+ *   ← { channel: 'ticker',    symbol, seq, data: ProductTicker }
+ *   ← { channel: 'orderbook', symbol, seq, type: 'snapshot' | 'delta', bids, asks, timestamp }
+ *   ← { channel: 'trades',    symbol, seq, data: EtherealTrade[] }
+ *
+ * Order book deltas carry [price, size] levels; size 0 removes the level.
+ * Heartbeats are WebSocket ping frames - a missed pong drops the connection.
+ */
+
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+import { EtherealOrderBook, EtherealTrade, ProductTicker } from './ethereal-client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type StreamChannel = 'ticker' | 'orderbook' | 'trades';
+
+export const LIVE_STREAM_URL = 'wss://ws.ethereal.trade/v1/stream';
+export const TESTNET_STREAM_URL = 'wss://ws.etherealtest.net/v1/stream';
+
+export interface EtherealStreamConfig {
+  url: string;
+  heartbeatIntervalMs: number;       // Ping cadence
+  heartbeatTimeoutMs: number;        // Drop the socket if no pong arrives in time
+  reconnectDelayMs: number;          // First retry delay, doubled per attempt
+  maxReconnectDelayMs: number;
+}
+
+export interface StreamGap {
+  channel: StreamChannel;
+  symbol: string;
+  expected: number;
+  received: number;
+}
+
+interface StreamMessage {
+  channel: StreamChannel;
+  symbol: string;
+  seq: number;
+  type?: 'snapshot' | 'delta';
+  data?: any;
+  bids?: [number, number][];
+  asks?: [number, number][];
+  timestamp?: number;
+}
+
+/**
+ * Local order book: price → size per side
+ */
+interface BookState {
+  bids: Map<number, number>;
+  asks: Map<number, number>;
+  timestamp: number;
+}
+
+const DEFAULT_STREAM_CONFIG: EtherealStreamConfig = {
+  url: LIVE_STREAM_URL,
+  heartbeatIntervalMs: 15000,
+  heartbeatTimeoutMs: 10000,
+  reconnectDelayMs: 1000,
+  maxReconnectDelayMs: 30000,
+};
+
+// ============================================================================
+// ETHEREAL STREAM
+// ============================================================================
+
+/**
+ * Events:
+ *   'open' / 'close'                 socket state
+ *   'reconnecting' { attempt, delayMs }
+ *   'ticker' (symbol, ProductTicker)
+ *   'orderBook' (EtherealOrderBook)  after every snapshot or delta
+ *   'trades' (symbol, EtherealTrade[])
+ *   'gap' (StreamGap)                sequence jump; order books resync automatically
+ *   'error' (Error)
+ */
+export class EtherealStream extends EventEmitter {
+  private config: EtherealStreamConfig;
+  private socket?: WebSocket;
+  private subscriptions: Set<string> = new Set();
+  private sequences: Map<string, number> = new Map();
+  private books: Map<string, BookState> = new Map();
+  private heartbeatInterval?: NodeJS.Timeout;
+  private heartbeatTimeout?: NodeJS.Timeout;
+  private reconnectTimer?: NodeJS.Timeout;
+  private reconnectAttempts = 0;
+  private closed = true;
+
+  constructor(config: Partial<EtherealStreamConfig> = {}) {
+    super();
+    this.config = { ...DEFAULT_STREAM_CONFIG, ...config };
+  }
+
+  /**
+   * Open the socket; resolves once connected. Rejects if the first attempt
+   * fails, but reconnect attempts carry on until close().
+   */
+  connect(): Promise<void> {
+    this.closed = false;
+
+    return new Promise((resolve, reject) => {
+      const socket = this.open();
+      const onOpen = () => {
+        socket.off('error', onError);
+        resolve();
+      };
+      const onError = (error: Error) => {
+        socket.off('open', onOpen);
+        reject(error);
+      };
+      socket.once('open', onOpen);
+      socket.once('error', onError);
+    });
+  }
+
+  /**
+   * Close for good - no reconnects
+   */
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.stopHeartbeat();
+    this.socket?.close();
+    this.socket = undefined;
+  }
+
+  isConnected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  subscribe(channel: StreamChannel, symbol: string): void {
+    const key = this.key(channel, symbol);
+    if (this.subscriptions.has(key)) return;
+
+    this.subscriptions.add(key);
+    this.send({ op: 'subscribe', channel, symbol });
+  }
+
+  unsubscribe(channel: StreamChannel, symbol: string): void {
+    const key = this.key(channel, symbol);
+    if (!this.subscriptions.delete(key)) return;
+
+    this.sequences.delete(key);
+    if (channel === 'orderbook') this.books.delete(symbol);
+    this.send({ op: 'unsubscribe', channel, symbol });
+  }
+
+  /**
+   * Latest locally maintained book, best levels first
+   */
+  getOrderBook(symbol: string, depth: number = 20): EtherealOrderBook | undefined {
+    const book = this.books.get(symbol);
+    if (!book) return undefined;
+
+    return {
+      symbol,
+      bids: Array.from(book.bids.entries()).sort((a, b) => b[0] - a[0]).slice(0, depth),
+      asks: Array.from(book.asks.entries()).sort((a, b) => a[0] - b[0]).slice(0, depth),
+      timestamp: book.timestamp,
+    };
+  }
+
+  // ==========================================================================
+  // CONNECTION
+  // ==========================================================================
+
+  private open(): WebSocket {
+    const socket = new WebSocket(this.config.url);
+    this.socket = socket;
+
+    socket.on('open', () => {
+      this.reconnectAttempts = 0;
+      this.startHeartbeat(socket);
+
+      // Fresh connection: sequences and books restart from new snapshots
+      this.sequences.clear();
+      this.books.clear();
+      for (const key of this.subscriptions) {
+        const [channel, symbol] = this.parseKey(key);
+        this.send({ op: 'subscribe', channel, symbol });
+      }
+
+      this.emit('open');
+    });
+
+    socket.on('message', (raw) => this.handleMessage(raw.toString()));
+    socket.on('pong', () => this.clearHeartbeatTimeout());
+
+    socket.on('close', () => {
+      if (this.socket !== socket) return;
+      this.stopHeartbeat();
+      this.emit('close');
+      this.scheduleReconnect();
+    });
+
+    socket.on('error', (error) => this.reportError(error));
+
+    return socket;
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed) return;
+
+    this.reconnectAttempts++;
+    const delayMs = Math.min(
+      this.config.reconnectDelayMs * Math.pow(2, this.reconnectAttempts - 1),
+      this.config.maxReconnectDelayMs
+    );
+
+    this.emit('reconnecting', { attempt: this.reconnectAttempts, delayMs });
+    this.reconnectTimer = setTimeout(() => {
+      if (!this.closed) this.open();
+    }, delayMs);
+  }
+
+  private startHeartbeat(socket: WebSocket): void {
+    this.stopHeartbeat();
+    this.heartbeatInterval = setInterval(() => {
+      if (socket.readyState !== WebSocket.OPEN) return;
+
+      socket.ping();
+      if (!this.heartbeatTimeout) {
+        this.heartbeatTimeout = setTimeout(() => {
+          // No pong: treat as dead and let 'close' trigger the reconnect
+          this.heartbeatTimeout = undefined;
+          socket.terminate();
+        }, this.config.heartbeatTimeoutMs);
+      }
+    }, this.config.heartbeatIntervalMs);
+  }
+
+  private clearHeartbeatTimeout(): void {
+    if (this.heartbeatTimeout) {
+      clearTimeout(this.heartbeatTimeout);
+      this.heartbeatTimeout = undefined;
+    }
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = undefined;
+    }
+    this.clearHeartbeatTimeout();
+  }
+
+  private send(message: Record<string, any>): void {
+    if (this.isConnected()) {
+      this.socket!.send(JSON.stringify(message));
+    }
+  }
+
+  // ==========================================================================
+  // MESSAGES
+  // ==========================================================================
+
+  private handleMessage(raw: string): void {
+    let message: StreamMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.reportError(new Error(`Malformed stream message: ${raw.slice(0, 100)}`));
+      return;
+    }
+
+    const { channel, symbol } = message;
+    if (!channel || !symbol || !this.subscriptions.has(this.key(channel, symbol))) return;
+
+    if (channel === 'orderbook') {
+      this.handleOrderBook(message);
+      return;
+    }
+
+    // Tickers and trades are self-contained: report a gap but keep the newer data
+    if (this.checkSequence(message) === 'duplicate') return;
+
+    if (channel === 'ticker') {
+      this.emit('ticker', symbol, message.data as ProductTicker);
+    } else if (channel === 'trades') {
+      this.emit('trades', symbol, (message.data || []) as EtherealTrade[]);
+    }
+  }
+
+  private handleOrderBook(message: StreamMessage): void {
+    const { symbol } = message;
+    const timestamp = message.timestamp ?? Date.now();
+
+    if (message.type === 'snapshot') {
+      this.sequences.set(this.key('orderbook', symbol), message.seq);
+      this.books.set(symbol, {
+        bids: new Map(message.bids || []),
+        asks: new Map(message.asks || []),
+        timestamp,
+      });
+      this.emit('orderBook', this.getOrderBook(symbol));
+      return;
+    }
+
+    // Deltas only apply on top of a snapshot
+    const book = this.books.get(symbol);
+    if (!book) return;
+
+    const sequence = this.checkSequence(message);
+    if (sequence === 'duplicate') return;
+    if (sequence === 'gap') {
+      // Missed deltas: the local book is wrong until a new snapshot arrives
+      this.books.delete(symbol);
+      this.send({ op: 'unsubscribe', channel: 'orderbook', symbol });
+      this.send({ op: 'subscribe', channel: 'orderbook', symbol });
+      return;
+    }
+
+    applyLevels(book.bids, message.bids || []);
+    applyLevels(book.asks, message.asks || []);
+    book.timestamp = timestamp;
+    this.emit('orderBook', this.getOrderBook(symbol));
+  }
+
+  /**
+   * Track the channel sequence; jumps emit 'gap'
+   */
+  private checkSequence(message: StreamMessage): 'next' | 'duplicate' | 'gap' {
+    const key = this.key(message.channel, message.symbol);
+    const last = this.sequences.get(key);
+
+    if (last !== undefined && message.seq <= last) return 'duplicate';
+
+    this.sequences.set(key, message.seq);
+    if (last === undefined || message.seq === last + 1) return 'next';
+
+    const gap: StreamGap = {
+      channel: message.channel,
+      symbol: message.symbol,
+      expected: last + 1,
+      received: message.seq,
+    };
+    this.emit('gap', gap);
+    return 'gap';
+  }
+
+  private reportError(error: Error): void {
+    // An unhandled 'error' event would crash the process
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
+  }
+
+  private key(channel: StreamChannel, symbol: string): string {
+    return `${channel}:${symbol}`;
+  }
+
+  private parseKey(key: string): [StreamChannel, string] {
+    const index = key.indexOf(':');
+    return [key.slice(0, index) as StreamChannel, key.slice(index + 1)];
+  }
+}
+
+function applyLevels(side: Map<number, number>, levels: [number, number][]): void {
+  for (const [price, size] of levels) {
+    if (size === 0) {
+      side.delete(price);
+    } else {
+      side.set(price, size);
+    }
+  }
+}
+
+export default EtherealStream;
@@ -0,0 +1,421 @@
+/**
+ * Ethereal transports
+ *
+ * EtherealClient talks to the exchange through a transport so the same
+ * client (and everything built on it) can run against:
+ *   live      - the Ethereal REST API over HTTP
+ *   mock      - built-in markets with seeded price variation
+ *   recorded  - market snapshots captured by MarketRecorder
+ *
+ * Transports speak the exchange's REST paths (GET /v1/product, ...), so an
+ * offline transport is a drop-in for the HTTP one.
+ *
+ * Select one with ETHEREAL_TRANSPORT=live|mock|recorded (recorded reads
+ * ETHEREAL_RECORDED_PATH). ETHEREAL_API_URL points the live transport at
+ * another server, e.g. the local fake exchange.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { SeededRandom, getSimulationRng } from '../utils/random';
+import { MarketFrame, MarketRecord, groupIntoFrames, loadMarketHistory, orderBookFromTop } from '../utils/market-history';
+import type { EtherealMarket, EtherealOrderBook, Product, ProductTicker } from './ethereal-client';
+
+export interface EtherealTransport {
+  readonly kind: EtherealTransportKind;
+  get<T = any>(path: string, params?: Record<string, any>): Promise<T>;
+  post<T = any>(path: string, body: any): Promise<T>;
+}
+
+export type EtherealTransportKind = 'live' | 'mock' | 'recorded';
+
+export const LIVE_API_URL = 'https://api.ethereal.trade';
+export const TESTNET_API_URL = 'https://api.etherealtest.net';
+
+// ============================================================================
+// LIVE (HTTP)
+// ============================================================================
+
+export class HttpEtherealTransport implements EtherealTransport {
+  readonly kind = 'live' as const;
+  private api: AxiosInstance;
+
+  constructor(baseURL: string = LIVE_API_URL, timeout: number = 30000) {
+    this.api = axios.create({
+      baseURL,
+      timeout,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  async get<T = any>(path: string, params?: Record<string, any>): Promise<T> {
+    const response = await this.api.get(path, { params });
+    return response.data;
+  }
+
+  async post<T = any>(path: string, body: any): Promise<T> {
+    const response = await this.api.post(path, body);
+    return response.data;
+  }
+}
+
+// ============================================================================
+// OFFLINE TRANSPORTS
+// ============================================================================
+
+/**
+ * Serves product, ticker and order book endpoints from a table of markets.
+ * Signed (trading) endpoints are not available offline.
+ */
+abstract class MarketTableTransport implements EtherealTransport {
+  abstract readonly kind: EtherealTransportKind;
+  protected markets: EtherealMarket[] = [];
+
+  /**
+   * Called on every product listing - the start of a market poll
+   */
+  protected abstract refresh(): void;
+
+  protected orderBookFor(market: EtherealMarket, depth: number): EtherealOrderBook {
+    // Synthetic book: 1bp half-spread, size thinning away from the touch
+    const levels = Math.max(1, depth);
+    const baseSize = market.volume24h / market.lastPrice / 10000;
+    const bids: [number, number][] = [];
+    const asks: [number, number][] = [];
+
+    for (let i = 0; i < levels; i++) {
+      const offset = 0.0001 * (1 + i);
+      const size = baseSize / (1 + i * 0.5);
+      bids.push([market.lastPrice * (1 - offset), size]);
+      asks.push([market.lastPrice * (1 + offset), size]);
+    }
+
+    return { symbol: market.symbol, bids, asks, timestamp: Date.now() };
+  }
+
+  async get<T = any>(path: string, params: Record<string, any> = {}): Promise<T> {
+    if (path === '/v1/product') {
+      this.refresh();
+      return { data: this.markets.map(toProduct) } as T;
+    }
+
+    const ticker = path.match(/^\/v1\/product\/([^/]+)\/ticker$/);
+    if (ticker) {
+      const market = this.findMarket(decodeURIComponent(ticker[1]));
+      return { data: toTicker(market) } as T;
+    }
+
+    const book = path.match(/^\/v1\/orderbook\/([^/]+)$/);
+    if (book) {
+      const market = this.findMarket(decodeURIComponent(book[1]));
+      return this.orderBookFor(market, params.depth ?? 20) as T;
+    }
+
+    if (path.startsWith('/v1/trades/')) {
+      return { trades: [] } as T;
+    }
+
+    throw new Error(`${this.kind} transport does not support GET ${path}`);
+  }
+
+  async post<T = any>(path: string): Promise<T> {
+    throw new Error(`${this.kind} transport does not support POST ${path}`);
+  }
+
+  private findMarket(idOrSymbol: string): EtherealMarket {
+    const market = this.markets.find(m => m.symbol === idOrSymbol || productId(m) === idOrSymbol);
+    if (!market) {
+      throw new Error(`Unknown market: ${idOrSymbol}`);
+    }
+    return market;
+  }
+}
+
+export class MockEtherealTransport extends MarketTableTransport {
+  readonly kind = 'mock' as const;
+
+  constructor(private rng: SeededRandom = getSimulationRng().fork('ethereal-mock-markets')) {
+    super();
+  }
+
+  protected refresh(): void {
+    this.markets = mockMarkets(this.rng);
+  }
+}
+
+/**
+ * Replays recorded snapshots - each product listing advances one frame and
+ * the last frame repeats once the recording runs out
+ */
+export class RecordedEtherealTransport extends MarketTableTransport {
+  readonly kind = 'recorded' as const;
+  private frames: MarketFrame[];
+  private index = -1;
+
+  constructor(records: MarketRecord[]) {
+    super();
+    if (records.length === 0) {
+      throw new Error('Recorded transport needs at least one market record');
+    }
+
+    this.frames = groupIntoFrames(records);
+  }
+
+  static fromPath(path: string): RecordedEtherealTransport {
+    return new RecordedEtherealTransport(loadMarketHistory(path));
+  }
+
+  protected refresh(): void {
+    this.index = Math.min(this.index + 1, this.frames.length - 1);
+    this.markets = this.frames[this.index].markets;
+  }
+
+  protected orderBookFor(market: EtherealMarket, depth: number): EtherealOrderBook {
+    const top = this.frames[Math.max(this.index, 0)].topOfBook.get(market.symbol);
+    if (!top) return super.orderBookFor(market, depth);
+
+    return orderBookFromTop(market.symbol, top, Date.now());
+  }
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+export interface TransportOptions {
+  testnet?: boolean;
+  apiUrl?: string;
+  rng?: SeededRandom;
+  recordedPath?: string;
+}
+
+export function createEtherealTransport(
+  kind: EtherealTransportKind,
+  options: TransportOptions = {}
+): EtherealTransport {
+  switch (kind) {
+    case 'mock':
+      return new MockEtherealTransport(options.rng);
+    case 'recorded':
+      if (!options.recordedPath) {
+        throw new Error('ETHEREAL_RECORDED_PATH is required for the recorded transport');
+      }
+      return RecordedEtherealTransport.fromPath(options.recordedPath);
+    case 'live':
+      return new HttpEtherealTransport(
+        options.apiUrl || (options.testnet ? TESTNET_API_URL : LIVE_API_URL)
+      );
+    default:
+      throw new Error(`Unknown Ethereal transport: ${kind}`);
+  }
+}
+
+/**
+ * Transport chosen by ETHEREAL_TRANSPORT (default live)
+ */
+export function transportFromEnv(options: TransportOptions = {}): EtherealTransport {
+  const kind = (process.env.ETHEREAL_TRANSPORT || 'live') as EtherealTransportKind;
+  return createEtherealTransport(kind, {
+    recordedPath: process.env.ETHEREAL_RECORDED_PATH,
+    ...options,
+    apiUrl: options.apiUrl || process.env.ETHEREAL_API_URL,
+  });
+}
+
+// ============================================================================
+// MARKET <-> PRODUCT MAPPING (offline transports)
+// ============================================================================
+
+function productId(market: EtherealMarket): string {
+  return `${market.baseAsset}${market.quoteAsset}`.toLowerCase();
+}
+
+function toProduct(market: EtherealMarket): Product {
+  return {
+    id: productId(market),
+    ticker: `${market.baseAsset}${market.quoteAsset}`,
+    displayTicker: market.symbol,
+    baseTokenName: market.baseAsset,
+    quoteTokenName: market.quoteAsset,
+    tickSize: '0.0000001',
+    lotSize: '0.0001',
+    minQuantity: '0.0001',
+    maxQuantity: '1000000',
+    maxLeverage: market.leverage,
+    status: 'ACTIVE',
+    onchainId: 0,
+  };
+}
+
+function toTicker(market: EtherealMarket): ProductTicker {
+  return {
+    lastPrice: market.lastPrice.toString(),
+    markPrice: (market.markPrice ?? market.lastPrice).toString(),
+    indexPrice: (market.indexPrice ?? market.lastPrice).toString(),
+    priceChange24h: market.priceChange24h.toString(),
+    priceChangePercent24h: market.priceChangePercent24h.toString(),
+    volume24h: market.volume24h.toString(),
+    fundingRate: market.fundingRate.toString(),
+    openInterest: market.openInterest.toString(),
+  };
+}
+
+/**
+ * Mock markets based on provided data - with slight variation for realistic testing
+ */
+function mockMarkets(rng: SeededRandom): EtherealMarket[] {
+  // Add slight random variation to simulate market movement
+  const vary = (base: number, pct: number = 0.005) =>
+    base * (1 + (rng.next() - 0.5) * pct * 2);
+
+  const varyPct = (base: number, range: number = 0.5) =>
+    base + (rng.next() - 0.5) * range * 2;
+
+  return [
+    {
+      symbol: 'BTC-USD',
+      baseAsset: 'BTC',
+      quoteAsset: 'USD',
+      leverage: 20,
+      lastPrice: vary(90074),
+      priceChange24h: vary(-432.89, 0.1),
+      priceChangePercent24h: varyPct(-0.48, 0.3),
+      volume24h: vary(53940000, 0.1),
+      fundingRate: 0.000016,
+      openInterest: 53840000,
+    },
+    {
+      symbol: 'ETH-USD',
+      baseAsset: 'ETH',
+      quoteAsset: 'USD',
+      leverage: 20,
+      lastPrice: vary(3070.2),
+      priceChange24h: vary(-44.2, 0.1),
+      priceChangePercent24h: varyPct(-1.42, 0.4),
+      volume24h: vary(34090000, 0.1),
+      fundingRate: 0.000017,
+      openInterest: 34730000,
+    },
+    {
+      symbol: 'ENA-USD',
+      baseAsset: 'ENA',
+      quoteAsset: 'USD',
+      leverage: 5,
+      lastPrice: vary(0.22881),
+      priceChange24h: vary(-0.00386, 0.1),
+      priceChangePercent24h: varyPct(-1.66, 0.4),
+      volume24h: vary(740000, 0.1),
+      fundingRate: 0.000016,
+      openInterest: 784510,
+    },
+    {
+      symbol: 'SOL-USD',
+      baseAsset: 'SOL',
+      quoteAsset: 'USD',
+      leverage: 10,
+      lastPrice: vary(137.08),
+      priceChange24h: vary(1.93, 0.1),
+      priceChangePercent24h: varyPct(1.43, 0.4),
+      volume24h: vary(6360000, 0.1),
+      fundingRate: 0.000017,
+      openInterest: 3940000,
+    },
+    {
+      symbol: 'HYPE-USD',
+      baseAsset: 'HYPE',
+      quoteAsset: 'USD',
+      leverage: 10,
+      lastPrice: vary(25.52),
+      priceChange24h: vary(-0.9, 0.1),
+      priceChangePercent24h: varyPct(-3.41, 0.4),
+      volume24h: vary(2700000, 0.1),
+      fundingRate: 0.0005,
+      openInterest: 2330000,
+    },
+    {
+      symbol: 'ZEC-USD',
+      baseAsset: 'ZEC',
+      quoteAsset: 'USD',
+      leverage: 5,
+      lastPrice: vary(432.23),
+      priceChange24h: vary(10.05, 0.1),
+      priceChangePercent24h: varyPct(2.38, 0.4),
+      volume24h: vary(2340000, 0.1),
+      fundingRate: 0.000016,
+      openInterest: 664740,
+    },
+    {
+      symbol: 'SUI-USD',
+      baseAsset: 'SUI',
+      quoteAsset: 'USD',
+      leverage: 10,
+      lastPrice: vary(1.7726),
+      priceChange24h: vary(-0.0348, 0.1),
+      priceChangePercent24h: varyPct(-1.93, 0.4),
+      volume24h: vary(981200, 0.1),
+      fundingRate: 0.0005,
+      openInterest: 501150,
+    },
+    {
+      symbol: 'XRP-USD',
+      baseAsset: 'XRP',
+      quoteAsset: 'USD',
+      leverage: 10,
+      lastPrice: vary(2.0756),
+      priceChange24h: vary(-0.0356, 0.1),
+      priceChangePercent24h: varyPct(-1.69, 0.4),
+      volume24h: vary(784520, 0.1),
+      fundingRate: 0.000017,
+      openInterest: 559250,
+    },
+    {
+      symbol: 'FARTCOIN-USD',
+      baseAsset: 'FARTCOIN',
+      quoteAsset: 'USD',
+      leverage: 5,
+      lastPrice: vary(0.39321),
+      priceChange24h: vary(0.00501, 0.1),
+      priceChangePercent24h: varyPct(1.29, 0.4),
+      volume24h: vary(528680, 0.1),
+      fundingRate: 0.000017,
+      openInterest: 532450,
+    },
+    {
+      symbol: 'PUMP-USD',
+      baseAsset: 'PUMP',
+      quoteAsset: 'USD',
+      leverage: 5,
+      lastPrice: vary(0.0021274),
+      priceChange24h: vary(-0.0000775, 0.1),
+      priceChangePercent24h: varyPct(-3.52, 0.4),
+      volume24h: vary(436510, 0.1),
+      fundingRate: 0.000017,
+      openInterest: 604480,
+    },
+    {
+      symbol: 'MON-USD',
+      baseAsset: 'MON',
+      quoteAsset: 'USD',
+      leverage: 5,
+      lastPrice: vary(0.026617),
+      priceChange24h: vary(0.000114, 0.1),
+      priceChangePercent24h: varyPct(0.43, 0.4),
+      volume24h: vary(278050, 0.1),
+      fundingRate: 0.000014,
+      openInterest: 672290,
+    },
+    {
+      symbol: 'AAVE-USD',
+      baseAsset: 'AAVE',
+      quoteAsset: 'USD',
+      leverage: 5,
+      lastPrice: vary(162.83),
+      priceChange24h: vary(-1.79, 0.1),
+      priceChangePercent24h: varyPct(-1.09, 0.4),
+      volume24h: vary(222390, 0.1),
+      fundingRate: 0.000017,
+      openInterest: 863090,
+    },
+  ];
+}
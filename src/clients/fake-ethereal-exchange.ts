@@ -0,0 +1,730 @@
+/**
+ * Fake Ethereal Exchange - In-Process API Stand-In
+ *
+ * Serves the Ethereal REST endpoints the client uses so signed trading can be
+ * exercised end to end without the real exchange:
+ *
+ *   GET  /v1/rpc/config            EIP-712 domain
+ *   GET  /v1/product               products (+ /:id/ticker)
+ *   GET  /v1/orderbook/:symbol     aggregated book
+ *   GET  /v1/position              open positions (+ /active for one product)
+ *   GET  /v1/subaccount/balance    collateral, locked margin, available
+ *   POST /v1/order                 signed order → match against the book
+ *   POST /v1/order/dry-run         same checks, nothing changes
+ *   POST /v1/order/cancel          signed cancel of resting orders
+ *
+ * Orders must carry a valid EIP-712 signature over the same types the client
+ * signs with. A subaccount named by an address belongs to that address, any
+ * other subaccount to the first address that signs for it. Nonces cannot be
+ * reused.
+ *
+ * A built-in market maker quotes a fixed ladder around each product's
+ * reference price and refills after every order; move the market with
+ * setPrice(). Initial margin is |notional| / maxLeverage, and orders that
+ * would push it past equity are rejected.
+ *
+ * Start it with `pnpm ethereal:fake` and point ETHEREAL_API_URL at it.
+ */
+
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import express, { Request, Response } from 'express';
+import {
+  Balance,
+  CANCEL_ORDER_TYPES,
+  EtherealMarket,
+  EtherealOrderBook,
+  ORDER_TYPES,
+  Position,
+  Product,
+  ProductTicker,
+  marketSymbol,
+  normalizeTicker,
+} from './ethereal-client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FakeExchangeConfig {
+  markets: EtherealMarket[];             // Products and their starting reference prices
+  initialBalance: number;                // USD collateral credited to each new subaccount
+  marketMakerLevels: number;             // Quoted levels per side
+  marketMakerSpreadBps: number;          // Distance between levels (and from the reference price)
+  marketMakerLevelNotional: number;      // USD size of each quoted level
+  chainId: number;
+}
+
+export interface SignedRequest<T> {
+  data: T;
+  signature: string;
+}
+
+export interface OrderMessage {
+  subaccountId: string;
+  productId: string;
+  side: 'BUY' | 'SELL';
+  type: 'MARKET' | 'LIMIT';
+  size: string;
+  price: string;
+  reduceOnly: boolean;
+  postOnly: boolean;
+  timeInForce: 'GTC' | 'IOC' | 'FOK';
+  nonce: number;
+}
+
+export interface CancelMessage {
+  orderIds: string[];
+  nonce: number;
+}
+
+export interface OrderResult {
+  id: string;
+  status: 'FILLED' | 'PARTIALLY_FILLED' | 'NEW' | 'CANCELED';
+  filled: string;
+  remaining: string;
+  averagePrice: string;
+}
+
+/**
+ * Rejected request - served as `{ message }` with the HTTP status
+ */
+export class FakeExchangeError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'FakeExchangeError';
+  }
+}
+
+interface RestingOrder {
+  id: string;
+  subaccountId: string;
+  side: 'BUY' | 'SELL';
+  price: number;
+  size: number;                          // Remaining
+}
+
+interface Book {
+  bids: RestingOrder[];                  // Best (highest) first, then time priority
+  asks: RestingOrder[];                  // Best (lowest) first, then time priority
+}
+
+interface Fill {
+  maker: RestingOrder;
+  price: number;
+  size: number;
+}
+
+interface Account {
+  owner?: string;
+  balance: number;                       // Collateral incl. realized PnL
+  positions: Map<string, { size: number; entryPrice: number }>; // Signed size
+}
+
+const MARKET_MAKER = 'market-maker';
+const EPSILON = 1e-9;
+
+const DEFAULT_MARKETS: EtherealMarket[] = [
+  fakeMarket('BTC', 90000, 20),
+  fakeMarket('ETH', 3000, 20),
+  fakeMarket('SOL', 140, 10),
+];
+
+const DEFAULT_FAKE_CONFIG: FakeExchangeConfig = {
+  markets: DEFAULT_MARKETS,
+  initialBalance: 10000,
+  marketMakerLevels: 5,
+  marketMakerSpreadBps: 5,
+  marketMakerLevelNotional: 250000,
+  chainId: 31337,
+};
+
+// ============================================================================
+// FAKE ETHEREAL EXCHANGE
+// ============================================================================
+
+export class FakeEtherealExchange {
+  private config: FakeExchangeConfig;
+  private products: Map<string, Product> = new Map();
+  private markets: Map<string, EtherealMarket> = new Map();   // By product id
+  private referencePrices: Map<string, number> = new Map();
+  private lastPrices: Map<string, number> = new Map();
+  private books: Map<string, Book> = new Map();
+  private accounts: Map<string, Account> = new Map();
+  private usedNonces: Set<string> = new Set();
+  private orderCount = 0;
+  private server?: Server;
+
+  readonly domain: ethers.TypedDataDomain;
+
+  constructor(config: Partial<FakeExchangeConfig> = {}) {
+    this.config = { ...DEFAULT_FAKE_CONFIG, ...config };
+    this.domain = {
+      name: 'Ethereal',
+      version: '1',
+      chainId: this.config.chainId,
+      verifyingContract: ethers.ZeroAddress,
+    };
+
+    for (const market of this.config.markets) {
+      const product = toFakeProduct(market);
+      this.products.set(product.id, product);
+      this.markets.set(product.id, market);
+      this.referencePrices.set(product.id, market.lastPrice);
+      this.lastPrices.set(product.id, market.lastPrice);
+      this.books.set(product.id, { bids: [], asks: [] });
+      this.requote(product.id);
+    }
+  }
+
+  // ==========================================================================
+  // SERVER
+  // ==========================================================================
+
+  /**
+   * Listen on localhost; resolves with the base URL (port 0 = any free port)
+   */
+  start(port: number = 0): Promise<string> {
+    const app = this.createApp();
+    return new Promise((resolve) => {
+      this.server = app.listen(port, '127.0.0.1', () => {
+        const address = this.server!.address() as AddressInfo;
+        resolve(`http://127.0.0.1:${address.port}`);
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.server) return resolve();
+      this.server.close((error) => (error ? reject(error) : resolve()));
+      this.server = undefined;
+    });
+  }
+
+  createApp(): express.Express {
+    const app = express();
+    app.use(express.json());
+
+    const handle = (fn: (req: Request) => any) => (req: Request, res: Response) => {
+      try {
+        res.json(fn(req));
+      } catch (error: any) {
+        const status = error instanceof FakeExchangeError ? error.status : 500;
+        res.status(status).json({ message: error.message });
+      }
+    };
+
+    app.get('/v1/rpc/config', handle(() => ({ domain: this.domain })));
+    app.get('/v1/product', handle(() => ({ data: this.getProducts() })));
+    app.get('/v1/product/:id/ticker', handle((req) => ({ data: this.getTicker(String(req.params.id)) })));
+    app.get('/v1/orderbook/:symbol', handle((req) =>
+      this.getOrderBook(String(req.params.symbol), parseInt(String(req.query.depth || '20')))));
+    app.get('/v1/trades/:symbol', handle(() => ({ trades: [] })));
+    app.get('/v1/position', handle((req) => ({ data: this.getPositions(String(req.query.subaccountId)) })));
+    app.get('/v1/position/active', handle((req) =>
+      this.getActivePosition(String(req.query.subaccountId), String(req.query.productId))));
+    app.get('/v1/subaccount/balance', handle((req) => ({ data: this.getBalances(String(req.query.subaccountId)) })));
+    app.post('/v1/order', handle((req) => this.placeOrder(req.body)));
+    app.post('/v1/order/dry-run', handle((req) => this.dryRunOrder(req.body)));
+    app.post('/v1/order/cancel', handle((req) => ({ data: this.cancelOrders(req.body) })));
+
+    return app;
+  }
+
+  // ==========================================================================
+  // MARKET DATA
+  // ==========================================================================
+
+  getProducts(): Product[] {
+    return Array.from(this.products.values());
+  }
+
+  getTicker(productId: string): ProductTicker {
+    const product = this.getProduct(productId);
+    const market = this.markets.get(product.id)!;
+    const lastPrice = this.lastPrices.get(product.id)!;
+    const priceChange24h = lastPrice - market.lastPrice + market.priceChange24h;
+    const open = lastPrice - priceChange24h;
+
+    return {
+      lastPrice: lastPrice.toString(),
+      markPrice: this.markPrice(product.id).toString(),
+      indexPrice: this.referencePrices.get(product.id)!.toString(),
+      priceChange24h: priceChange24h.toString(),
+      priceChangePercent24h: (open > 0 ? (priceChange24h / open) * 100 : 0).toString(),
+      volume24h: market.volume24h.toString(),
+      fundingRate: market.fundingRate.toString(),
+      openInterest: market.openInterest.toString(),
+    };
+  }
+
+  getOrderBook(symbol: string, depth: number = 20): EtherealOrderBook {
+    const product = this.getProduct(symbol);
+    const book = this.books.get(product.id)!;
+
+    return {
+      symbol: marketSymbol(product),
+      bids: aggregate(book.bids, depth),
+      asks: aggregate(book.asks, depth),
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Move a product's reference price; the market maker requotes around it
+   */
+  setPrice(symbol: string, price: number): void {
+    const product = this.getProduct(symbol);
+    this.referencePrices.set(product.id, price);
+    this.lastPrices.set(product.id, price);
+    this.requote(product.id);
+  }
+
+  // ==========================================================================
+  // ACCOUNTS
+  // ==========================================================================
+
+  getPositions(subaccountId: string): Position[] {
+    const account = this.accounts.get(subaccountId);
+    if (!account) return [];
+
+    return Array.from(account.positions.entries())
+      .map(([productId, position]) => this.toPosition(subaccountId, productId, position));
+  }
+
+  getActivePosition(subaccountId: string, productId: string): Position {
+    const position = this.accounts.get(subaccountId)?.positions.get(productId);
+    if (!position) {
+      throw new FakeExchangeError(404, 'No active position');
+    }
+    return this.toPosition(subaccountId, productId, position);
+  }
+
+  getBalances(subaccountId: string): Balance[] {
+    const account = this.account(subaccountId);
+    const equity = this.equity(account);
+    const locked = this.requiredMargin(subaccountId, account);
+
+    return [{
+      token: 'USD',
+      available: Math.max(equity - locked, 0).toString(),
+      locked: locked.toString(),
+      total: equity.toString(),
+    }];
+  }
+
+  // ==========================================================================
+  // ORDERS
+  // ==========================================================================
+
+  placeOrder(request: SignedRequest<OrderMessage>): OrderResult {
+    return this.executeOrder(request, true);
+  }
+
+  /**
+   * Run every check and the match without changing any state
+   */
+  dryRunOrder(request: SignedRequest<OrderMessage>): OrderResult {
+    return this.executeOrder(request, false);
+  }
+
+  cancelOrders(request: SignedRequest<CancelMessage>): { id: string; status: 'CANCELED' }[] {
+    const signer = this.verify(request, CANCEL_ORDER_TYPES);
+    this.useNonce(signer, request.data.nonce);
+
+    const canceled: { id: string; status: 'CANCELED' }[] = [];
+    for (const id of request.data.orderIds) {
+      for (const book of this.books.values()) {
+        for (const side of [book.bids, book.asks]) {
+          const index = side.findIndex(o => o.id === id);
+          if (index === -1) continue;
+
+          if (this.accounts.get(side[index].subaccountId)?.owner !== signer) {
+            throw new FakeExchangeError(403, `Order ${id} belongs to another subaccount`);
+          }
+          side.splice(index, 1);
+          canceled.push({ id, status: 'CANCELED' });
+        }
+      }
+    }
+
+    if (canceled.length === 0) {
+      throw new FakeExchangeError(404, 'No matching open orders');
+    }
+    return canceled;
+  }
+
+  private executeOrder(request: SignedRequest<OrderMessage>, commit: boolean): OrderResult {
+    const order = request.data;
+    const signer = this.verify(request, ORDER_TYPES);
+    const account = this.account(order.subaccountId);
+
+    this.checkOwner(order.subaccountId, account, signer);
+
+    const product = this.getProduct(order.productId);
+    const book = this.books.get(product.id)!;
+    let size = parseFloat(order.size);
+    const limit = parseFloat(order.price);
+
+    if (!(size > 0)) {
+      throw new FakeExchangeError(400, `Invalid size ${order.size}`);
+    }
+    if (size + EPSILON < parseFloat(product.minQuantity)) {
+      throw new FakeExchangeError(400, `Size ${order.size} below minimum ${product.minQuantity}`);
+    }
+    if (order.type === 'LIMIT' && !(limit > 0)) {
+      throw new FakeExchangeError(400, `Invalid limit price ${order.price}`);
+    }
+
+    const current = account.positions.get(product.id)?.size || 0;
+    if (order.reduceOnly) {
+      const reducing = order.side === 'BUY' ? current < 0 : current > 0;
+      if (!reducing) {
+        throw new FakeExchangeError(400, 'Reduce-only order would increase position');
+      }
+      size = Math.min(size, Math.abs(current));
+    }
+
+    const fills = this.match(book, order, size, limit);
+    const filled = fills.reduce((sum, f) => sum + f.size, 0);
+
+    if (order.postOnly && fills.length > 0) {
+      throw new FakeExchangeError(400, 'Post-only order would cross the book');
+    }
+    if (order.timeInForce === 'FOK' && filled + EPSILON < size) {
+      throw new FakeExchangeError(400, 'Fill-or-kill order could not be filled');
+    }
+
+    const rests = order.type === 'LIMIT' && order.timeInForce === 'GTC' && filled + EPSILON < size;
+    const remaining = size - filled;
+
+    // Margin: the account after this order must still cover its initial margin
+    if (!order.reduceOnly) {
+      const signed = order.side === 'BUY' ? 1 : -1;
+      const projected = current + signed * filled;
+      const restingNotional = rests ? remaining * limit : 0;
+      const required = this.requiredMargin(order.subaccountId, account, product.id, projected)
+        + restingNotional / product.maxLeverage;
+
+      if (required > this.equity(account) + EPSILON) {
+        throw new FakeExchangeError(400, 'Insufficient margin');
+      }
+    }
+
+    const id = `order-${this.orderCount + 1}`;
+    const averagePrice = filled > 0
+      ? fills.reduce((sum, f) => sum + f.price * f.size, 0) / filled
+      : 0;
+
+    if (commit) {
+      this.useNonce(signer, order.nonce);
+      account.owner = account.owner || signer;
+      this.orderCount++;
+
+      for (const fill of fills) {
+        fill.maker.size -= fill.size;
+        this.applyFill(order.subaccountId, product.id, order.side === 'BUY' ? fill.size : -fill.size, fill.price);
+        this.applyFill(fill.maker.subaccountId, product.id, order.side === 'BUY' ? -fill.size : fill.size, fill.price);
+      }
+      book.bids = book.bids.filter(o => o.size > EPSILON);
+      book.asks = book.asks.filter(o => o.size > EPSILON);
+
+      if (fills.length > 0) {
+        this.lastPrices.set(product.id, fills[fills.length - 1].price);
+      }
+      if (rests) {
+        this.rest(book, { id, subaccountId: order.subaccountId, side: order.side, price: limit, size: remaining });
+      }
+      this.requote(product.id);
+    }
+
+    return {
+      id,
+      status: filled + EPSILON >= size ? 'FILLED'
+        : rests ? (filled > 0 ? 'PARTIALLY_FILLED' : 'NEW')
+        : filled > 0 ? 'PARTIALLY_FILLED' : 'CANCELED',
+      filled: filled.toString(),
+      remaining: (rests ? remaining : 0).toString(),
+      averagePrice: averagePrice.toString(),
+    };
+  }
+
+  /**
+   * Walk the opposite side best-first; nothing is modified here
+   */
+  private match(book: Book, order: OrderMessage, size: number, limit: number): Fill[] {
+    const opposite = order.side === 'BUY' ? book.asks : book.bids;
+    const crosses = (price: number) =>
+      order.type === 'MARKET' || (order.side === 'BUY' ? price <= limit : price >= limit);
+
+    const fills: Fill[] = [];
+    let remaining = size;
+
+    for (const maker of opposite) {
+      if (remaining <= EPSILON || !crosses(maker.price)) break;
+      if (maker.subaccountId === order.subaccountId) continue;
+
+      const quantity = Math.min(remaining, maker.size);
+      fills.push({ maker, price: maker.price, size: quantity });
+      remaining -= quantity;
+    }
+
+    return fills;
+  }
+
+  private applyFill(subaccountId: string, productId: string, quantity: number, price: number): void {
+    if (subaccountId === MARKET_MAKER) return;
+
+    const account = this.account(subaccountId);
+    const current = account.positions.get(productId) || { size: 0, entryPrice: 0 };
+    const next = current.size + quantity;
+
+    if (current.size !== 0 && Math.sign(quantity) !== Math.sign(current.size)) {
+      // Reducing: realize PnL on the closed part
+      const closed = Math.min(Math.abs(quantity), Math.abs(current.size));
+      account.balance += closed * (price - current.entryPrice) * Math.sign(current.size);
+    }
+
+    if (Math.abs(next) <= EPSILON) {
+      account.positions.delete(productId);
+    } else if (current.size === 0 || Math.sign(next) !== Math.sign(current.size)) {
+      account.positions.set(productId, { size: next, entryPrice: price });
+    } else if (Math.abs(next) > Math.abs(current.size)) {
+      const entryPrice = (Math.abs(current.size) * current.entryPrice + Math.abs(quantity) * price) / Math.abs(next);
+      account.positions.set(productId, { size: next, entryPrice });
+    } else {
+      account.positions.set(productId, { size: next, entryPrice: current.entryPrice });
+    }
+  }
+
+  // ==========================================================================
+  // MARGIN
+  // ==========================================================================
+
+  private equity(account: Account): number {
+    let unrealized = 0;
+    for (const [productId, position] of account.positions) {
+      unrealized += position.size * (this.markPrice(productId) - position.entryPrice);
+    }
+    return account.balance + unrealized;
+  }
+
+  /**
+   * Initial margin for all positions and resting orders, optionally with one
+   * position replaced by a projected size
+   */
+  private requiredMargin(
+    subaccountId: string,
+    account: Account,
+    projectedProductId?: string,
+    projectedSize?: number
+  ): number {
+    let required = 0;
+
+    for (const product of this.products.values()) {
+      const size = product.id === projectedProductId
+        ? projectedSize!
+        : account.positions.get(product.id)?.size || 0;
+      required += Math.abs(size) * this.markPrice(product.id) / product.maxLeverage;
+
+      const book = this.books.get(product.id)!;
+      for (const order of [...book.bids, ...book.asks]) {
+        if (order.subaccountId === subaccountId) {
+          required += order.size * order.price / product.maxLeverage;
+        }
+      }
+    }
+
+    return required;
+  }
+
+  // ==========================================================================
+  // HELPERS
+  // ==========================================================================
+
+  private verify<T extends object>(request: SignedRequest<T>, types: Record<string, ethers.TypedDataField[]>): string {
+    if (!request?.data || !request.signature) {
+      throw new FakeExchangeError(400, 'Expected { data, signature }');
+    }
+
+    try {
+      return ethers.verifyTypedData(this.domain, types, request.data, request.signature);
+    } catch {
+      throw new FakeExchangeError(401, 'Invalid signature');
+    }
+  }
+
+  /**
+   * Address subaccounts belong to that address; others to their first signer.
+   * A signature over the wrong domain or message recovers some other address.
+   */
+  private checkOwner(subaccountId: string, account: Account, signer: string): void {
+    if (ethers.isAddress(subaccountId) && ethers.getAddress(subaccountId) !== signer) {
+      throw new FakeExchangeError(401, 'Invalid signature');
+    }
+    if (account.owner && account.owner !== signer) {
+      throw new FakeExchangeError(403, 'Signer does not own this subaccount');
+    }
+  }
+
+  private useNonce(signer: string, nonce: number): void {
+    const key = `${signer}:${nonce}`;
+    if (this.usedNonces.has(key)) {
+      throw new FakeExchangeError(400, `Nonce ${nonce} already used`);
+    }
+    this.usedNonces.add(key);
+  }
+
+  private account(subaccountId: string): Account {
+    let account = this.accounts.get(subaccountId);
+    if (!account) {
+      account = { balance: this.config.initialBalance, positions: new Map() };
+      this.accounts.set(subaccountId, account);
+    }
+    return account;
+  }
+
+  /**
+   * Product by id, ticker or market symbol
+   */
+  private getProduct(idOrSymbol: string): Product {
+    const wanted = normalizeTicker(idOrSymbol);
+    const product = this.products.get(idOrSymbol) ||
+      Array.from(this.products.values()).find(p => normalizeTicker(p.ticker) === wanted);
+    if (!product) {
+      throw new FakeExchangeError(404, `Unknown product ${idOrSymbol}`);
+    }
+    return product;
+  }
+
+  private markPrice(productId: string): number {
+    const book = this.books.get(productId)!;
+    if (book.bids.length > 0 && book.asks.length > 0) {
+      return (book.bids[0].price + book.asks[0].price) / 2;
+    }
+    return this.lastPrices.get(productId)!;
+  }
+
+  private toPosition(subaccountId: string, productId: string, position: { size: number; entryPrice: number }): Position {
+    const product = this.products.get(productId)!;
+    const markPrice = this.markPrice(productId);
+    const long = position.size > 0;
+
+    return {
+      id: `${subaccountId}-${productId}`,
+      subaccountId,
+      productId,
+      side: long ? 'LONG' : 'SHORT',
+      size: Math.abs(position.size).toString(),
+      entryPrice: position.entryPrice.toString(),
+      markPrice: markPrice.toString(),
+      liquidationPrice: (position.entryPrice * (long ? 1 - 1 / product.maxLeverage : 1 + 1 / product.maxLeverage)).toString(),
+      unrealizedPnl: (position.size * (markPrice - position.entryPrice)).toString(),
+      leverage: product.maxLeverage,
+    };
+  }
+
+  /**
+   * Replace the market maker's ladder around the reference price
+   */
+  private requote(productId: string): void {
+    const product = this.products.get(productId)!;
+    const book = this.books.get(productId)!;
+    const reference = this.referencePrices.get(productId)!;
+    const tick = parseFloat(product.tickSize);
+    const step = this.config.marketMakerSpreadBps / 10000;
+
+    book.bids = book.bids.filter(o => o.subaccountId !== MARKET_MAKER);
+    book.asks = book.asks.filter(o => o.subaccountId !== MARKET_MAKER);
+
+    for (let level = 1; level <= this.config.marketMakerLevels; level++) {
+      const size = this.config.marketMakerLevelNotional / reference;
+      this.rest(book, {
+        id: `mm-${productId}-bid-${level}`,
+        subaccountId: MARKET_MAKER,
+        side: 'BUY',
+        price: roundToTick(reference * (1 - step * level), tick),
+        size,
+      });
+      this.rest(book, {
+        id: `mm-${productId}-ask-${level}`,
+        subaccountId: MARKET_MAKER,
+        side: 'SELL',
+        price: roundToTick(reference * (1 + step * level), tick),
+        size,
+      });
+    }
+  }
+
+  private rest(book: Book, order: RestingOrder): void {
+    if (order.side === 'BUY') {
+      book.bids.push(order);
+      book.bids.sort((a, b) => b.price - a.price);
+    } else {
+      book.asks.push(order);
+      book.asks.sort((a, b) => a.price - b.price);
+    }
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function fakeMarket(base: string, lastPrice: number, leverage: number): EtherealMarket {
+  return {
+    symbol: `${base}-USD`,
+    baseAsset: base,
+    quoteAsset: 'USD',
+    leverage,
+    lastPrice,
+    priceChange24h: 0,
+    priceChangePercent24h: 0,
+    volume24h: 50000000,
+    fundingRate: 0.00001,
+    openInterest: 50000000,
+  };
+}
+
+function toFakeProduct(market: EtherealMarket): Product {
+  // Tick ~1e-6 of the price, so quotes a few bps apart stay distinct
+  const tickSize = Math.pow(10, Math.floor(Math.log10(market.lastPrice)) - 6);
+
+  return {
+    id: `${market.baseAsset}${market.quoteAsset}`.toLowerCase(),
+    ticker: `${market.baseAsset}${market.quoteAsset}`,
+    displayTicker: market.symbol,
+    baseTokenName: market.baseAsset,
+    quoteTokenName: market.quoteAsset,
+    tickSize: tickSize.toString(),
+    lotSize: '0.0001',
+    minQuantity: '0.0001',
+    maxQuantity: '1000000',
+    maxLeverage: market.leverage,
+    status: 'ACTIVE',
+    onchainId: 0,
+  };
+}
+
+function roundToTick(price: number, tick: number): number {
+  return parseFloat((Math.round(price / tick) * tick).toFixed(12));
+}
+
+function aggregate(orders: RestingOrder[], depth: number): [number, number][] {
+  const levels: [number, number][] = [];
+  for (const order of orders) {
+    const last = levels[levels.length - 1];
+    if (last && last[0] === order.price) {
+      last[1] += order.size;
+    } else if (levels.length < depth) {
+      levels.push([order.price, order.size]);
+    } else {
+      break;
+    }
+  }
+  return levels;
+}
+
+export default FakeEtherealExchange;
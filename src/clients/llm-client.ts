@@ -0,0 +1,602 @@
+/**
+ * LLM client
+ *
+ * One chat-completion interface in front of several providers, so agents
+ * switch models through config instead of code:
+ *   groq               - Groq cloud (the default; GROQ_API_KEY)
+ *   anthropic          - Anthropic Messages API (ANTHROPIC_API_KEY)
+ *   openai-compatible  - any /chat/completions server: Ollama, LM Studio,
+ *                        vLLM, llama.cpp (LLM_BASE_URL)
+ *   fake               - deterministic canned replies, for tests
+ *
+ * Call sites name a route (forecast, trade-analysis, ...) and the model
+ * they were written against. Routes in config can send a task to another
+ * provider or model. Every call gets a timeout, retries with exponential
+ * backoff on rate limits / server errors, and token and cost accounting.
+ * completeJson asks for an object matching an OutputSchema (llm-schema.ts),
+ * repairs small slips, and re-asks once when the reply still doesn't fit.
+ *
+ * Select a provider with LLM_PROVIDER and a model with LLM_MODEL, or per
+ * route with LLM_ROUTES="forecast=anthropic:claude-3-5-haiku-latest,strategy=groq".
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import Groq from 'groq-sdk';
+import { OutputSchema, parseStructured, schemaPrompt } from './llm-schema';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  route?: string;                    // Task name looked up in config.routes
+  messages: LlmMessage[];
+  model?: string;                    // Groq model the call site was written for (used while it stays on Groq)
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * What a provider is asked to run, after routing
+ */
+export interface ResolvedLlmRequest {
+  messages: LlmMessage[];
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmCompletion {
+  content: string;
+  usage: LlmUsage;
+}
+
+export interface LlmResponse extends LlmCompletion {
+  provider: string;
+  model: string;
+  costUsd: number;
+  latencyMs: number;
+  attempts: number;
+}
+
+export interface StructuredLlmResponse<T> extends LlmResponse {
+  data: T;
+  repairs: string[];                 // Fixes applied to the reply (empty when it was clean)
+}
+
+export interface LlmProvider {
+  readonly id: string;
+  complete(request: ResolvedLlmRequest, signal: AbortSignal): Promise<LlmCompletion>;
+}
+
+export interface LlmRoute {
+  provider?: string;                 // Defaults to the client's provider
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface ModelPricing {
+  inputPerMillion: number;           // USD per million prompt tokens
+  outputPerMillion: number;          // USD per million completion tokens
+}
+
+export interface LlmClientConfig {
+  provider: string;                  // groq | anthropic | openai-compatible | fake (or a registered id)
+  model?: string;                    // Replaces call-site models on the default provider
+  routes: Record<string, LlmRoute>;  // Per-task provider/model overrides
+  timeoutMs: number;                 // Per attempt
+  maxRetries: number;                // Extra attempts after a retryable failure
+  retryDelayMs: number;              // First backoff, doubled per retry
+  schemaRetries: number;             // Re-asks after a reply that fails its schema
+  groqApiKey?: string;
+  anthropicApiKey?: string;
+  baseUrl?: string;                  // OpenAI-compatible server, e.g. http://localhost:11434/v1
+  apiKey?: string;                   // Bearer token for baseUrl, if the server wants one
+  pricing?: Record<string, ModelPricing>; // Merged over DEFAULT_PRICING
+  fakeResponse?: string;             // Reply from the built-in fake provider
+}
+
+export interface ModelUsage extends LlmUsage {
+  requests: number;
+  costUsd: number;
+}
+
+export interface LlmUsageTotals extends ModelUsage {
+  failures: number;
+  parseFailures: number;             // Replies that failed their schema (including ones fixed by a re-ask)
+  repairs: number;                   // Replies accepted after local repair
+  byModel: Record<string, ModelUsage>; // Keyed provider/model
+}
+
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly retryable: boolean,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+export class LlmSchemaError extends LlmError {
+  constructor(schema: string, public readonly errors: string[], provider: string) {
+    super(`Reply does not match ${schema}: ${errors.join('; ')}`, provider, false);
+    this.name = 'LlmSchemaError';
+  }
+}
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+export const DEFAULT_LLM_CONFIG: LlmClientConfig = {
+  provider: 'groq',
+  routes: {},
+  timeoutMs: 30000,
+  maxRetries: 2,
+  retryDelayMs: 1000,
+  schemaRetries: 1,
+};
+
+export const DEFAULT_MODELS: Record<string, string> = {
+  groq: 'llama-3.3-70b-versatile',
+  anthropic: 'claude-3-5-haiku-latest',
+  'openai-compatible': 'llama3.1',
+  fake: 'fake-model',
+};
+
+const DEFAULT_TEMPERATURE = 0.3;
+const DEFAULT_MAX_TOKENS = 1024;
+
+/**
+ * List prices; models not listed (local servers, fakes) cost nothing
+ */
+export const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  'llama-3.3-70b-versatile': { inputPerMillion: 0.59, outputPerMillion: 0.79 },
+  'llama-3.1-8b-instant': { inputPerMillion: 0.05, outputPerMillion: 0.08 },
+  'moonshotai/kimi-k2-instruct-0905': { inputPerMillion: 1.0, outputPerMillion: 3.0 },
+  'claude-3-5-haiku-latest': { inputPerMillion: 0.8, outputPerMillion: 4.0 },
+  'claude-3-5-sonnet-latest': { inputPerMillion: 3.0, outputPerMillion: 15.0 },
+  'claude-sonnet-4-0': { inputPerMillion: 3.0, outputPerMillion: 15.0 },
+};
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+export class GroqProvider implements LlmProvider {
+  readonly id = 'groq';
+  private groq: Groq;
+
+  constructor(apiKey: string) {
+    // Retries and timeouts are the client's job
+    this.groq = new Groq({ apiKey, maxRetries: 0 });
+  }
+
+  async complete(request: ResolvedLlmRequest, signal: AbortSignal): Promise<LlmCompletion> {
+    const completion = await this.groq.chat.completions.create(
+      {
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      },
+      { signal }
+    );
+    return {
+      content: completion.choices[0]?.message?.content || '',
+      usage: {
+        inputTokens: completion.usage?.prompt_tokens ?? 0,
+        outputTokens: completion.usage?.completion_tokens ?? 0,
+      },
+    };
+  }
+}
+
+export class AnthropicProvider implements LlmProvider {
+  readonly id = 'anthropic';
+  private anthropic: Anthropic;
+
+  constructor(apiKey: string) {
+    this.anthropic = new Anthropic({ apiKey, maxRetries: 0 });
+  }
+
+  async complete(request: ResolvedLlmRequest, signal: AbortSignal): Promise<LlmCompletion> {
+    // System prompts are a separate field in the Messages API
+    const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const messages = request.messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({ role: m.role as 'user' | 'assistant', content: m.content }));
+
+    const message = await this.anthropic.messages.create(
+      {
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(system ? { system } : {}),
+        messages,
+      },
+      { signal }
+    );
+    return {
+      content: message.content.map(block => (block.type === 'text' ? block.text : '')).join(''),
+      usage: {
+        inputTokens: message.usage.input_tokens,
+        outputTokens: message.usage.output_tokens,
+      },
+    };
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly id = 'openai-compatible';
+
+  constructor(private baseUrl: string, private apiKey?: string) {}
+
+  async complete(request: ResolvedLlmRequest, signal: AbortSignal): Promise<LlmCompletion> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new LlmError(`${response.status} ${body.slice(0, 200)}`, this.id, isRetryableStatus(response.status), response.status);
+    }
+
+    const data: any = await response.json();
+    return {
+      content: data.choices?.[0]?.message?.content || '',
+      usage: {
+        inputTokens: data.usage?.prompt_tokens ?? 0,
+        outputTokens: data.usage?.completion_tokens ?? 0,
+      },
+    };
+  }
+}
+
+/**
+ * Deterministic provider for tests: replies come from a fixed string or a
+ * function of the request, and every request is kept in `calls`
+ */
+export class FakeLlmProvider implements LlmProvider {
+  readonly calls: ResolvedLlmRequest[] = [];
+
+  constructor(
+    private respond: string | ((request: ResolvedLlmRequest) => string) = '{}',
+    readonly id: string = 'fake'
+  ) {}
+
+  async complete(request: ResolvedLlmRequest): Promise<LlmCompletion> {
+    this.calls.push(request);
+    const content = typeof this.respond === 'string' ? this.respond : this.respond(request);
+    return {
+      content,
+      usage: {
+        inputTokens: estimateTokens(request.messages.map(m => m.content).join('\n')),
+        outputTokens: estimateTokens(content),
+      },
+    };
+  }
+}
+
+// ============================================================================
+// PROVIDER REGISTRY
+// ============================================================================
+
+export type LlmProviderFactory = (config: LlmClientConfig) => LlmProvider;
+
+export class LlmProviderRegistry {
+  private factories = new Map<string, LlmProviderFactory>();
+
+  register(id: string, factory: LlmProviderFactory): this {
+    this.factories.set(id, factory);
+    return this;
+  }
+
+  has(id: string): boolean {
+    return this.factories.has(id);
+  }
+
+  ids(): string[] {
+    return [...this.factories.keys()];
+  }
+
+  create(id: string, config: LlmClientConfig): LlmProvider {
+    const factory = this.factories.get(id);
+    if (!factory) {
+      throw new Error(`Unknown LLM provider: ${id} (registered: ${this.ids().join(', ')})`);
+    }
+    return factory(config);
+  }
+}
+
+export const llmProviderRegistry = new LlmProviderRegistry()
+  .register('groq', config => {
+    if (!config.groqApiKey) throw new Error('GROQ_API_KEY is required');
+    return new GroqProvider(config.groqApiKey);
+  })
+  .register('anthropic', config => {
+    if (!config.anthropicApiKey) throw new Error('ANTHROPIC_API_KEY is required');
+    return new AnthropicProvider(config.anthropicApiKey);
+  })
+  .register('openai-compatible', config => {
+    if (!config.baseUrl) throw new Error('LLM_BASE_URL is required for the openai-compatible provider');
+    return new OpenAICompatibleProvider(config.baseUrl, config.apiKey);
+  })
+  .register('fake', config => new FakeLlmProvider(config.fakeResponse));
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+export class LlmClient {
+  private config: LlmClientConfig;
+  private registry: LlmProviderRegistry;
+  private providers = new Map<string, LlmProvider>();
+  private usage: LlmUsageTotals = emptyTotals();
+
+  constructor(config: Partial<LlmClientConfig> = {}, registry: LlmProviderRegistry = llmProviderRegistry) {
+    this.config = { ...DEFAULT_LLM_CONFIG, ...config };
+    this.registry = registry;
+
+    for (const id of [this.config.provider, ...Object.values(this.config.routes).map(r => r.provider)]) {
+      if (id && !registry.has(id)) {
+        throw new Error(`Unknown LLM provider: ${id} (registered: ${registry.ids().join(', ')})`);
+      }
+    }
+
+    // Fail at startup, not on the first request, when the default provider lacks a key
+    this.getProvider(this.config.provider);
+  }
+
+  /**
+   * Provider and model a request would go to
+   */
+  resolve(request: LlmRequest): { provider: string; request: ResolvedLlmRequest } {
+    const route = request.route ? this.config.routes[request.route] : undefined;
+    const provider = route?.provider || this.config.provider;
+
+    // Call sites name Groq models; those only apply while the call stays on Groq
+    const model = route?.model
+      || (provider === this.config.provider ? this.config.model : undefined)
+      || (provider === 'groq' ? request.model : undefined)
+      || DEFAULT_MODELS[provider];
+    if (!model) {
+      throw new Error(`No model configured for LLM provider ${provider}`);
+    }
+
+    return {
+      provider,
+      request: {
+        messages: request.messages,
+        model,
+        temperature: route?.temperature ?? request.temperature ?? DEFAULT_TEMPERATURE,
+        maxTokens: route?.maxTokens ?? request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      },
+    };
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const { provider: providerId, request: resolved } = this.resolve(request);
+    const provider = this.getProvider(providerId);
+    const started = Date.now();
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const completion = await this.withTimeout(provider, resolved);
+        const costUsd = this.costOf(resolved.model, completion.usage);
+        this.record(providerId, resolved.model, completion.usage, costUsd);
+        return {
+          ...completion,
+          provider: providerId,
+          model: resolved.model,
+          costUsd,
+          latencyMs: Date.now() - started,
+          attempts: attempt + 1,
+        };
+      } catch (error) {
+        const llmError = toLlmError(error, providerId);
+        if (!llmError.retryable || attempt >= this.config.maxRetries) {
+          this.usage.failures++;
+          throw llmError;
+        }
+        await sleep(this.config.retryDelayMs * 2 ** attempt);
+      }
+    }
+  }
+
+  /**
+   * Completion parsed into a schema-checked object
+   */
+  async completeJson<T>(schema: OutputSchema<T>, request: LlmRequest): Promise<StructuredLlmResponse<T>> {
+    let messages = withSchemaPrompt(request.messages, schemaPrompt(schema));
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.complete({ ...request, messages });
+      const parsed = parseStructured(response.content, schema);
+
+      if (parsed.ok) {
+        if (parsed.repairs.length > 0) this.usage.repairs++;
+        return { ...response, data: parsed.value, repairs: parsed.repairs };
+      }
+
+      this.usage.parseFailures++;
+      if (attempt >= this.config.schemaRetries) {
+        throw new LlmSchemaError(schema.name, parsed.errors, response.provider);
+      }
+
+      // Show the model its reply and what was wrong with it
+      messages = [
+        ...messages,
+        { role: 'assistant', content: response.content },
+        {
+          role: 'user',
+          content: `That reply does not match the ${schema.name} format: ${parsed.errors.join('; ')}. Reply again with only the corrected JSON object.`,
+        },
+      ];
+    }
+  }
+
+  getUsage(): LlmUsageTotals {
+    return structuredClone(this.usage);
+  }
+
+  private getProvider(id: string): LlmProvider {
+    let provider = this.providers.get(id);
+    if (!provider) {
+      provider = this.registry.create(id, this.config);
+      this.providers.set(id, provider);
+    }
+    return provider;
+  }
+
+  private async withTimeout(provider: LlmProvider, request: ResolvedLlmRequest): Promise<LlmCompletion> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new LlmError(`Timed out after ${this.config.timeoutMs}ms`, provider.id, true));
+      }, this.config.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([provider.complete(request, controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private costOf(model: string, usage: LlmUsage): number {
+    const pricing = { ...DEFAULT_PRICING, ...this.config.pricing }[model];
+    if (!pricing) return 0;
+    return (usage.inputTokens * pricing.inputPerMillion + usage.outputTokens * pricing.outputPerMillion) / 1e6;
+  }
+
+  private record(provider: string, model: string, usage: LlmUsage, costUsd: number): void {
+    const key = `${provider}/${model}`;
+    const entry = this.usage.byModel[key] ||= { requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+    for (const totals of [this.usage, entry]) {
+      totals.requests++;
+      totals.inputTokens += usage.inputTokens;
+      totals.outputTokens += usage.outputTokens;
+      totals.costUsd += costUsd;
+    }
+  }
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Client settings from LLM_* environment variables and provider API keys
+ */
+export function llmConfigFromEnv(env: Record<string, string | undefined> = process.env): Partial<LlmClientConfig> {
+  return dropUndefined({
+    provider: env.LLM_PROVIDER,
+    model: env.LLM_MODEL,
+    routes: env.LLM_ROUTES ? parseLlmRoutes(env.LLM_ROUTES) : undefined,
+    timeoutMs: env.LLM_TIMEOUT_MS ? parseInt(env.LLM_TIMEOUT_MS) : undefined,
+    maxRetries: env.LLM_MAX_RETRIES ? parseInt(env.LLM_MAX_RETRIES) : undefined,
+    groqApiKey: env.GROQ_API_KEY,
+    anthropicApiKey: env.ANTHROPIC_API_KEY,
+    baseUrl: env.LLM_BASE_URL,
+    apiKey: env.LLM_API_KEY,
+  });
+}
+
+/**
+ * "forecast=anthropic:claude-3-5-haiku-latest,strategy=groq" → routes
+ */
+export function parseLlmRoutes(spec: string): Record<string, LlmRoute> {
+  const routes: Record<string, LlmRoute> = {};
+  for (const entry of spec.split(',').map(s => s.trim()).filter(Boolean)) {
+    const [route, target] = entry.split('=');
+    if (!route || !target) {
+      throw new Error(`Invalid LLM route "${entry}" (expected route=provider[:model])`);
+    }
+    // Models can contain colons (ollama tags), so split on the first one only
+    const split = target.indexOf(':');
+    routes[route.trim()] = split === -1
+      ? { provider: target.trim() }
+      : { provider: target.slice(0, split).trim(), model: target.slice(split + 1).trim() };
+  }
+  return routes;
+}
+
+/**
+ * Client from the environment, with explicit settings on top
+ */
+export function createLlmClient(config: Partial<LlmClientConfig> = {}): LlmClient {
+  return new LlmClient({ ...llmConfigFromEnv(), ...dropUndefined(config) });
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+function toLlmError(error: any, provider: string): LlmError {
+  if (error instanceof LlmError) return error;
+  const status: number | undefined = typeof error?.status === 'number' ? error.status : undefined;
+  // No status: connection reset, DNS, aborted socket - worth another try
+  const retryable = status === undefined ? true : isRetryableStatus(status);
+  return new LlmError(error?.message || String(error), provider, retryable, status);
+}
+
+function emptyTotals(): LlmUsageTotals {
+  return { requests: 0, failures: 0, parseFailures: 0, repairs: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, byModel: {} };
+}
+
+/**
+ * Format instructions appended to the leading system prompt (or as one)
+ */
+function withSchemaPrompt(messages: LlmMessage[], instructions: string): LlmMessage[] {
+  if (messages[0]?.role === 'system') {
+    return [{ role: 'system', content: `${messages[0].content}\n\n${instructions}` }, ...messages.slice(1)];
+  }
+  return [{ role: 'system', content: instructions }, ...messages];
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function dropUndefined<T extends object>(obj: T): T {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as T;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
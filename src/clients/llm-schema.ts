@@ -0,0 +1,222 @@
+/**
+ * Structured LLM output
+ *
+ * An OutputSchema describes the JSON object an analysis call must return.
+ * The same schema renders the format instructions sent to the model and
+ * validates the reply. Small slips are repaired in place (code fences,
+ * trailing commas, "72%" for 72, "long" for "LONG", 0.72 for 72 on a
+ * percent field); anything else - out-of-range or fractional integers
+ * included - is a violation the caller can send back to the model, never
+ * clamped or rounded. LlmClient.completeJson runs that loop.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface BaseField {
+  description?: string;
+  optional?: boolean;                // May be omitted (or null); the key is then left out
+}
+
+export interface NumberField extends BaseField {
+  type: 'number';
+  min?: number;                      // Values outside [min, max] are violations
+  max?: number;
+  integer?: boolean;
+  percent?: boolean;                 // 0-100 scale: a reply between 0 and 1 is a fraction, rescaled
+}
+
+export interface StringField extends BaseField {
+  type: 'string';
+  maxLength?: number;                // Longer strings are truncated
+}
+
+export interface BooleanField extends BaseField {
+  type: 'boolean';
+}
+
+export interface EnumField extends BaseField {
+  type: 'enum';
+  values: readonly string[];
+}
+
+export type FieldSpec = NumberField | StringField | BooleanField | EnumField;
+
+export interface OutputSchema<T> {
+  name: string;
+  fields: { [K in keyof T]-?: FieldSpec };
+}
+
+export type StructuredParse<T> =
+  | { ok: true; value: T; repairs: string[] }
+  | { ok: false; errors: string[] };
+
+// ============================================================================
+// PROMPT
+// ============================================================================
+
+/**
+ * Format instructions for the model
+ */
+export function schemaPrompt<T>(schema: OutputSchema<T>): string {
+  const lines = Object.entries<FieldSpec>(schema.fields).map(([key, field]) => {
+    const description = field.description ? ` - ${field.description}` : '';
+    const optional = field.optional ? ' (optional)' : '';
+    return `  "${key}": ${describeType(field)}${optional}${description}`;
+  });
+
+  return `Respond with a single JSON object and nothing else - no prose, no code fences.
+The object (${schema.name}) has these fields:
+{
+${lines.join(',\n')}
+}`;
+}
+
+function describeType(field: FieldSpec): string {
+  switch (field.type) {
+    case 'number': {
+      const kind = field.integer ? 'integer' : 'number';
+      if (field.min !== undefined && field.max !== undefined) return `${kind} ${field.min}-${field.max}`;
+      if (field.min !== undefined) return `${kind} >= ${field.min}`;
+      if (field.max !== undefined) return `${kind} <= ${field.max}`;
+      return kind;
+    }
+    case 'string':
+      return field.maxLength ? `string (max ${field.maxLength} chars)` : 'string';
+    case 'boolean':
+      return 'true | false';
+    case 'enum':
+      return field.values.map(v => `"${v}"`).join(' | ');
+  }
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse and validate a model reply against the schema
+ */
+export function parseStructured<T>(text: string, schema: OutputSchema<T>): StructuredParse<T> {
+  const repairs: string[] = [];
+  const data = extractJson(text, repairs);
+
+  if (data === undefined) {
+    return { ok: false, errors: ['reply is not a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  const value: Record<string, unknown> = {};
+
+  for (const [key, field] of Object.entries<FieldSpec>(schema.fields)) {
+    const raw = data[key];
+    if (raw === undefined || raw === null) {
+      if (!field.optional) errors.push(`"${key}" is missing`);
+      continue;
+    }
+
+    const result = coerceField(key, raw, field, repairs);
+    if (result.error) {
+      errors.push(result.error);
+    } else {
+      value[key] = result.value;
+    }
+  }
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, value: value as T, repairs };
+}
+
+/**
+ * First JSON object in the text, tolerating fences, prose and trailing commas
+ */
+function extractJson(text: string, repairs: string[]): Record<string, unknown> | undefined {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) return undefined;
+
+  if (start > 0 || end < text.trimEnd().length - 1) {
+    repairs.push('stripped text around the JSON object');
+  }
+
+  let candidate = text.slice(start, end + 1);
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const parsed = JSON.parse(candidate);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : undefined;
+    } catch {
+      const fixed = candidate.replace(/,\s*([}\]])/g, '$1');
+      if (fixed === candidate) return undefined;
+      repairs.push('removed trailing commas');
+      candidate = fixed;
+    }
+  }
+  return undefined;
+}
+
+function coerceField(
+  key: string,
+  raw: unknown,
+  field: FieldSpec,
+  repairs: string[]
+): { value?: unknown; error?: string } {
+  switch (field.type) {
+    case 'number': {
+      let num = raw;
+      if (typeof raw === 'string' && /^\s*-?\d+(\.\d+)?\s*%?\s*$/.test(raw)) {
+        num = parseFloat(raw);
+        repairs.push(`"${key}" parsed from string`);
+      }
+      if (typeof num !== 'number' || !Number.isFinite(num)) {
+        return { error: `"${key}" must be a number, got ${JSON.stringify(raw)}` };
+      }
+      let value = num;
+      if (field.percent && value > 0 && value < 1) {
+        value = parseFloat((value * 100).toPrecision(12));
+        repairs.push(`"${key}" ${num} read as a fraction, rescaled to ${value}`);
+      }
+      if (
+        (field.integer && !Number.isInteger(value)) ||
+        (field.min !== undefined && value < field.min) ||
+        (field.max !== undefined && value > field.max)
+      ) {
+        return { error: `"${key}" must be ${describeType(field)}, got ${value}` };
+      }
+      return { value };
+    }
+
+    case 'string': {
+      if (typeof raw !== 'string') {
+        return { error: `"${key}" must be a string` };
+      }
+      if (field.maxLength !== undefined && raw.length > field.maxLength) {
+        repairs.push(`"${key}" truncated to ${field.maxLength} chars`);
+        return { value: raw.slice(0, field.maxLength) };
+      }
+      return { value: raw };
+    }
+
+    case 'boolean': {
+      if (typeof raw === 'boolean') return { value: raw };
+      if (raw === 'true' || raw === 'false') {
+        repairs.push(`"${key}" parsed from string`);
+        return { value: raw === 'true' };
+      }
+      return { error: `"${key}" must be true or false` };
+    }
+
+    case 'enum': {
+      if (typeof raw === 'string') {
+        if (field.values.includes(raw)) return { value: raw };
+        const match = field.values.find(v => v.toLowerCase() === raw.trim().toLowerCase());
+        if (match) {
+          repairs.push(`"${key}" "${raw}" normalized to "${match}"`);
+          return { value: match };
+        }
+      }
+      return { error: `"${key}" must be one of ${field.values.join(', ')}, got ${JSON.stringify(raw)}` };
+    }
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * Local EAS Chain - Anvil Test Harness for Forecast Attestations
+ *
+ * Starts an anvil node posing as Arbitrum One (chain id 42161), deploys
+ * SchemaRegistry and EAS from compiled artifacts and registers the Sapience
+ * forecast schema, so forecast submission can be exercised end to end with
+ * no real network:
+ *   - the schema UID comes out identical to production (it only depends on
+ *     the schema string, resolver and revocable flag)
+ *   - the EAS runtime code is copied to the production EAS address
+ * so DEFAULT_EAS_ATTESTER_CONFIG works unchanged; only the RPC URL differs.
+ *
+ * Needs Foundry's `anvil` (ANVIL_PATH, default on PATH). SchemaRegistry and
+ * EAS are deployed from the artifacts vendored in ./eas-artifacts (Hardhat
+ * build from @ethereum-attestation-service/eas-contracts 1.9.0, MIT);
+ * EAS_ARTIFACTS_DIR points at another build laid out as
+ * <Name>.sol/<Name>.json - e.g. the `out/` of `forge build` in eas-contracts.
+ * Check localEasChainAvailable() before starting.
+ */
+
+import { ChildProcess, spawn, spawnSync } from 'child_process';
+import fs from 'fs';
+import net, { AddressInfo } from 'net';
+import path from 'path';
+import {
+  Abi,
+  Address,
+  Hex,
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  http,
+  parseEventLogs,
+} from 'viem';
+import { arbitrum } from 'viem/chains';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  AttestableForecast,
+  DEFAULT_EAS_ATTESTER_CONFIG,
+  SAPIENCE_FORECAST_SCHEMA,
+  decodeForecast,
+} from './eas-attester';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface LocalEasChainConfig {
+  anvilPath: string;
+  artifactsDir: string;              // Contains SchemaRegistry.sol/ and EAS.sol/ (default: the vendored build)
+  startTimeoutMs: number;            // Wait this long for anvil's RPC
+}
+
+export interface ContractArtifact {
+  abi: Abi;
+  bytecode: Hex;
+}
+
+export interface OnChainAttestation {
+  uid: Hex;
+  schema: Hex;
+  attester: Address;
+  recipient: Address;
+  revocable: boolean;
+  forecast: AttestableForecast;      // Decoded attestation data
+}
+
+export const DEFAULT_LOCAL_EAS_CHAIN_CONFIG: LocalEasChainConfig = {
+  anvilPath: process.env.ANVIL_PATH || 'anvil',
+  artifactsDir: process.env.EAS_ARTIFACTS_DIR || './src/clients/eas-artifacts',
+  startTimeoutMs: 15_000,
+};
+
+/**
+ * anvil's default funded accounts (mnemonic "test test ... junk")
+ */
+export const ANVIL_PRIVATE_KEYS: Hex[] = [
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+  '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+];
+
+const ZERO_ADDRESS: Address = '0x0000000000000000000000000000000000000000';
+
+const SCHEMA_REGISTRY_ABI = [
+  {
+    name: 'register',
+    type: 'function',
+    inputs: [
+      { name: 'schema', type: 'string' },
+      { name: 'resolver', type: 'address' },
+      { name: 'revocable', type: 'bool' },
+    ],
+    outputs: [{ name: '', type: 'bytes32' }],
+    stateMutability: 'nonpayable',
+  },
+] as const;
+
+const EAS_READ_ABI = [
+  {
+    name: 'Attested',
+    type: 'event',
+    inputs: [
+      { name: 'recipient', type: 'address', indexed: true },
+      { name: 'attester', type: 'address', indexed: true },
+      { name: 'uid', type: 'bytes32', indexed: false },
+      { name: 'schemaUID', type: 'bytes32', indexed: true },
+    ],
+  },
+  {
+    name: 'getAttestation',
+    type: 'function',
+    inputs: [{ name: 'uid', type: 'bytes32' }],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        components: [
+          { name: 'uid', type: 'bytes32' },
+          { name: 'schema', type: 'bytes32' },
+          { name: 'time', type: 'uint64' },
+          { name: 'expirationTime', type: 'uint64' },
+          { name: 'revocationTime', type: 'uint64' },
+          { name: 'refUID', type: 'bytes32' },
+          { name: 'recipient', type: 'address' },
+          { name: 'attester', type: 'address' },
+          { name: 'revocable', type: 'bool' },
+          { name: 'data', type: 'bytes' },
+        ],
+      },
+    ],
+    stateMutability: 'view',
+  },
+] as const;
+
+// ============================================================================
+// HARNESS
+// ============================================================================
+
+export class LocalEasChain {
+  private config: LocalEasChainConfig;
+  private anvil?: ChildProcess;
+  private spawnError?: Error;
+  private rpcUrl?: string;
+
+  constructor(config: Partial<LocalEasChainConfig> = {}) {
+    this.config = { ...DEFAULT_LOCAL_EAS_CHAIN_CONFIG, ...config };
+  }
+
+  /**
+   * Start anvil and deploy EAS; resolves with the RPC URL
+   */
+  async start(): Promise<string> {
+    const port = await freePort();
+    this.anvil = spawn(this.config.anvilPath, ['--port', String(port), '--chain-id', String(arbitrum.id), '--silent'], {
+      stdio: 'ignore',
+    });
+    this.spawnError = undefined;
+    this.anvil.once('error', (error) => (this.spawnError = error));
+    this.rpcUrl = `http://127.0.0.1:${port}`;
+
+    try {
+      await this.waitForRpc();
+      await this.deployEas();
+    } catch (error) {
+      await this.stop();
+      throw error;
+    }
+
+    return this.rpcUrl;
+  }
+
+  async stop(): Promise<void> {
+    const anvil = this.anvil;
+    this.anvil = undefined;
+    if (!anvil || anvil.exitCode !== null || this.spawnError) return;
+
+    await new Promise<void>((resolve) => {
+      anvil.once('exit', () => resolve());
+      anvil.kill();
+    });
+  }
+
+  getRpcUrl(): string {
+    if (!this.rpcUrl) throw new Error('Local EAS chain not started');
+    return this.rpcUrl;
+  }
+
+  /**
+   * Attestations a transaction created, read back from EAS
+   */
+  async readAttestations(txHash: Hex): Promise<OnChainAttestation[]> {
+    const client = this.publicClient();
+    const receipt = await client.waitForTransactionReceipt({ hash: txHash });
+    const events = parseEventLogs({ abi: EAS_READ_ABI, eventName: 'Attested', logs: receipt.logs });
+
+    return Promise.all(
+      events.map(async ({ args }) => {
+        const attestation = await client.readContract({
+          address: DEFAULT_EAS_ATTESTER_CONFIG.easAddress,
+          abi: EAS_READ_ABI,
+          functionName: 'getAttestation',
+          args: [args.uid],
+        });
+        return {
+          uid: attestation.uid,
+          schema: attestation.schema,
+          attester: attestation.attester,
+          recipient: attestation.recipient,
+          revocable: attestation.revocable,
+          forecast: decodeForecast(attestation.data),
+        };
+      })
+    );
+  }
+
+  private publicClient() {
+    return createPublicClient({ chain: arbitrum, transport: http(this.getRpcUrl()) });
+  }
+
+  private async waitForRpc(): Promise<void> {
+    const client = this.publicClient();
+    const deadline = Date.now() + this.config.startTimeoutMs;
+
+    while (Date.now() < deadline) {
+      if (this.spawnError) {
+        throw new Error(`Could not start ${this.config.anvilPath}: ${this.spawnError.message}`);
+      }
+      if (this.anvil?.exitCode !== null) {
+        throw new Error(`anvil exited with code ${this.anvil?.exitCode}`);
+      }
+      try {
+        await client.getChainId();
+        return;
+      } catch {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+    }
+    throw new Error(`anvil did not answer on ${this.rpcUrl} within ${this.config.startTimeoutMs}ms`);
+  }
+
+  /**
+   * SchemaRegistry + schema + EAS, with EAS moved to its production address
+   */
+  private async deployEas(): Promise<void> {
+    const transport = http(this.getRpcUrl());
+    const reader = this.publicClient();
+    const deployer = createWalletClient({ account: privateKeyToAccount(ANVIL_PRIVATE_KEYS[0]), chain: arbitrum, transport });
+    const testClient = createTestClient({ mode: 'anvil', chain: arbitrum, transport });
+
+    const deploy = async (artifact: ContractArtifact, args: unknown[]): Promise<Address> => {
+      const hash = await deployer.deployContract({ abi: artifact.abi, bytecode: artifact.bytecode, args });
+      const receipt = await reader.waitForTransactionReceipt({ hash });
+      if (!receipt.contractAddress) throw new Error(`Deployment ${hash} created no contract`);
+      return receipt.contractAddress;
+    };
+
+    const registry = await deploy(loadArtifact(this.config.artifactsDir, 'SchemaRegistry'), []);
+    const { request, result: schemaId } = await reader.simulateContract({
+      account: deployer.account,
+      address: registry,
+      abi: SCHEMA_REGISTRY_ABI,
+      functionName: 'register',
+      args: [SAPIENCE_FORECAST_SCHEMA, ZERO_ADDRESS, true],
+    });
+    await reader.waitForTransactionReceipt({ hash: await deployer.writeContract(request) });
+
+    if (schemaId !== DEFAULT_EAS_ATTESTER_CONFIG.schemaId) {
+      throw new Error(`Registered schema ${schemaId}, expected ${DEFAULT_EAS_ATTESTER_CONFIG.schemaId}`);
+    }
+
+    const eas = await deploy(loadArtifact(this.config.artifactsDir, 'EAS'), [registry]);
+    const code = await reader.getCode({ address: eas });
+    if (!code) throw new Error(`No EAS code at ${eas}`);
+    await testClient.setCode({ address: DEFAULT_EAS_ATTESTER_CONFIG.easAddress, bytecode: code });
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Hardhat (`bytecode: "0x…"`) or Foundry (`bytecode: { object }`) artifact
+ */
+export function loadArtifact(artifactsDir: string, name: string): ContractArtifact {
+  if (!artifactsDir) throw new Error('No EAS artifacts directory (compiled SchemaRegistry and EAS)');
+  const json = JSON.parse(fs.readFileSync(path.join(artifactsDir, `${name}.sol`, `${name}.json`), 'utf8'));
+  const bytecode: string = typeof json.bytecode === 'string' ? json.bytecode : json.bytecode?.object;
+  if (!bytecode || bytecode === '0x') throw new Error(`${name} artifact has no bytecode`);
+  return { abi: json.abi, bytecode: (bytecode.startsWith('0x') ? bytecode : `0x${bytecode}`) as Hex };
+}
+
+/**
+ * Whether anvil runs and the EAS artifacts are present
+ */
+export function localEasChainAvailable(config: Partial<LocalEasChainConfig> = {}): boolean {
+  const { anvilPath, artifactsDir } = { ...DEFAULT_LOCAL_EAS_CHAIN_CONFIG, ...config };
+  if (!artifactsDir) return false;
+  const anvil = spawnSync(anvilPath, ['--version'], { stdio: 'ignore', timeout: 5000 });
+  return (
+    anvil.status === 0 &&
+    ['SchemaRegistry', 'EAS'].every(name => fs.existsSync(path.join(artifactsDir, `${name}.sol`, `${name}.json`)))
+  );
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
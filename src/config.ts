@@ -65,6 +65,9 @@ export interface Config {
   domeApiKey: string;
   anthropicApiKey?: string;
 
+  // LLM provider (groq | anthropic | openai-compatible | fake)
+  llmProvider: string;
+
   // Agent settings
   agentModel: string;
   agentTemperature: number;
@@ -81,6 +84,7 @@ export function validateConfig(): Config {
     groqApiKey: process.env.GROQ_API_KEY || "",
     domeApiKey: process.env.DOME_API_KEY || "",
     anthropicApiKey: process.env.ANTHROPIC_API_KEY,
+    llmProvider: process.env.LLM_PROVIDER || "groq",
     agentModel: process.env.AGENT_MODEL || "moonshotai/kimi-k2-instruct-0905",
     agentTemperature: parseFloat(process.env.AGENT_TEMPERATURE || "0.6"),
     agentMaxTokens: parseInt(process.env.AGENT_MAX_TOKENS || "4096"),
@@ -90,10 +94,18 @@ export function validateConfig(): Config {
   };
 
   // Validate required keys
-  if (!config.groqApiKey) {
+  if (config.llmProvider === "groq" && !config.groqApiKey) {
     throw new Error("GROQ_API_KEY not set");
   }
 
+  if (config.llmProvider === "anthropic" && !config.anthropicApiKey) {
+    throw new Error("ANTHROPIC_API_KEY not set");
+  }
+
+  if (config.llmProvider === "openai-compatible" && !process.env.LLM_BASE_URL) {
+    throw new Error("LLM_BASE_URL not set - required for the openai-compatible provider");
+  }
+
   if (!process.env.PRIVATE_KEY) {
     throw new Error(
       "PRIVATE_KEY not set - required for submitting forecasts to Arbitrum",
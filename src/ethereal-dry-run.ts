@@ -5,13 +5,14 @@
  * Tests AI-driven perp trading without risking real money.
  */
 
-import Groq from "groq-sdk";
+import { LlmClient, createLlmClient } from "./clients/llm-client";
+import { OutputSchema } from "./clients/llm-schema";
 import {
   EtherealClient,
   Product,
   MarketPrice,
   Order,
-} from "./utils/ethereal-client";
+} from "./clients/ethereal-client";
 import * as dotenv from "dotenv";
 
 dotenv.config();
@@ -27,6 +28,24 @@ interface PerpForecast {
   leverage: number;
 }
 
+// Confidence in percent from the model; PerpForecast holds it as a fraction
+const PERP_FORECAST_SCHEMA: OutputSchema<Omit<PerpForecast, "symbol">> = {
+  name: "PerpForecast",
+  fields: {
+    direction: {
+      type: "enum",
+      values: ["LONG", "SHORT", "NEUTRAL"],
+      description: "LONG if bullish, SHORT if bearish, NEUTRAL if uncertain",
+    },
+    confidence: { type: "number", min: 0, max: 100, description: "only recommend above 70" },
+    targetPrice: { type: "number", min: 0, description: "expected price" },
+    stopLoss: { type: "number", min: 0, description: "exit price 2-5% from entry" },
+    takeProfit: { type: "number", min: 0, description: "profit target 5-15% from entry" },
+    reasoning: { type: "string", description: "brief technical/fundamental analysis with specific factors" },
+    leverage: { type: "number", min: 1, max: 5, description: "higher confidence allows higher leverage" },
+  },
+};
+
 interface PerpTradeDecision {
   productId: string;
   symbol: string;
@@ -65,7 +84,7 @@ interface DryRunResults {
 }
 
 export class EtherealDryRun {
-  private groq: Groq;
+  private llm: LlmClient;
   private ethereal: EtherealClient;
   private minConfidence: number = 0.6; // 60% min to see more analysis
   private maxLeverage: number = 5; // Conservative 5x max
@@ -78,9 +97,7 @@ export class EtherealDryRun {
     testnet?: boolean;
     maxTrades?: number;
   }) {
-    this.groq = new Groq({
-      apiKey: config.groqApiKey,
-    });
+    this.llm = createLlmClient({ groqApiKey: config.groqApiKey });
 
     this.ethereal = new EtherealClient({
       privateKey: config.privateKey,
@@ -116,30 +133,11 @@ export class EtherealDryRun {
 
 Symbol: ${product.ticker}
 Current Price: $${parseFloat(price.markPrice).toFixed(2)}
-Index Price: $${parseFloat(price.indexPrice).toFixed(2)}
-
-Provide a trading analysis in JSON format:
-{
-  "direction": "LONG" or "SHORT" or "NEUTRAL",
-  "confidence": <number 0-100>,
-  "targetPrice": <number>,
-  "stopLoss": <number>,
-  "takeProfit": <number>,
-  "leverage": <number 1-5>,
-  "reasoning": "<detailed analysis>"
-}
-
-Rules:
-- direction: LONG if bullish, SHORT if bearish, NEUTRAL if uncertain
-- confidence: How confident you are (0-100) - only recommend >70%
-- targetPrice: Expected price movement
-- stopLoss: Risk management exit price (2-5% from entry)
-- takeProfit: Profit target (5-15% from entry)
-- leverage: 1-5x based on confidence (higher confidence = higher leverage allowed)
-- reasoning: Brief technical/fundamental analysis with specific factors`;
+Index Price: $${parseFloat(price.indexPrice).toFixed(2)}`;
 
     try {
-      const chatCompletion = await this.groq.chat.completions.create({
+      const { data: analysis } = await this.llm.completeJson(PERP_FORECAST_SCHEMA, {
+        route: "trade-analysis",
         messages: [
           {
             role: "system",
@@ -153,22 +151,13 @@ Rules:
         ],
         model: "llama-3.3-70b-versatile",
         temperature: 0.4,
-        max_tokens: 1024,
+        maxTokens: 1024,
       });
 
-      const content = chatCompletion.choices[0]?.message?.content || "";
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-
-      if (!jsonMatch) {
-        throw new Error("Could not extract JSON from model response");
-      }
-
-      const analysis = JSON.parse(jsonMatch[0]);
-
       return {
         symbol: product.ticker,
         direction: analysis.direction,
-        confidence: Math.max(0, Math.min(100, analysis.confidence)) / 100,
+        confidence: analysis.confidence / 100,
         targetPrice: analysis.targetPrice,
         stopLoss: analysis.stopLoss,
         takeProfit: analysis.takeProfit,
@@ -6,7 +6,8 @@
  * Perfect for testing before deploying capital.
  */
 
-import Groq from "groq-sdk";
+import { LlmClient, createLlmClient } from "./clients/llm-client";
+import { OutputSchema } from "./clients/llm-schema";
 import { ethers } from "ethers";
 import axios from "axios";
 import * as dotenv from "dotenv";
@@ -32,6 +33,48 @@ interface Forecast {
   reasoning: string;
 }
 
+// Percentages from the model; Forecast holds them as fractions
+const FORECAST_OUTPUT_SCHEMA: OutputSchema<Forecast> = {
+  name: "MarketForecast",
+  fields: {
+    probability: { type: "number", min: 0, max: 100, description: "your estimated probability for YES" },
+    confidence: {
+      type: "number",
+      min: 0,
+      max: 100,
+      description: "consider data quality, time horizon, uncertainty",
+    },
+    expectedValue: { type: "number", min: 0, description: "expected value multiplier (>1.0 = +EV)" },
+    reasoning: { type: "string", description: "brief explanation with specific factors" },
+  },
+};
+
+interface RiskDecisionOutput {
+  action: "BUY" | "SKIP";
+  size: number;
+  reasoning: string;
+  riskScore: number;
+  stopLoss?: number;
+  takeProfit?: number;
+}
+
+const RISK_DECISION_SCHEMA: OutputSchema<RiskDecisionOutput> = {
+  name: "RiskDecision",
+  fields: {
+    action: { type: "enum", values: ["BUY", "SKIP"], description: "BUY if edge > 5% AND confidence > 65%" },
+    size: { type: "number", min: 0, max: 0.1, description: "Kelly stake, at most 10% of bankroll" },
+    reasoning: { type: "string", description: "risk assessment" },
+    riskScore: {
+      type: "number",
+      min: 0,
+      max: 100,
+      description: "volatility, liquidity, time horizon, confidence",
+    },
+    stopLoss: { type: "number", optional: true, description: "price level to exit at a loss" },
+    takeProfit: { type: "number", optional: true, description: "price level to take profit" },
+  },
+};
+
 interface TradeDecision {
   marketId: string;
   marketQuestion: string;
@@ -76,7 +119,7 @@ interface DryRunResults {
 }
 
 export class TradingDryRun {
-  private groq: Groq;
+  private llm: LlmClient;
   private walletAddress: string;
   private minConfidence: number = 0.65;
   private minEdge: number = 0.05; // 5% edge
@@ -89,9 +132,7 @@ export class TradingDryRun {
     arbitrumRpcUrl?: string;
     maxTrades?: number;
   }) {
-    this.groq = new Groq({
-      apiKey: config.groqApiKey,
-    });
+    this.llm = createLlmClient({ groqApiKey: config.groqApiKey });
 
     // Get wallet address (but don't execute any transactions)
     const wallet = new ethers.Wallet(config.privateKey);
@@ -255,23 +296,11 @@ Current NO Price: ${((market.no_price || 0.5) * 100).toFixed(1)}%
 Liquidity: $${market.liquidity?.toLocaleString() || "N/A"}
 Volume: $${market.volume?.toLocaleString() || "N/A"}
 
-Provide analysis in JSON format:
-{
-  "probability": <number 0-100>,
-  "confidence": <number 0-100>,
-  "expectedValue": <number>,
-  "reasoning": "<detailed reasoning>"
-}
-
-Rules:
-- probability: Your estimated probability for YES outcome (0-100)
-- confidence: How confident you are (0-100) - consider data quality, time horizon, uncertainty
-- expectedValue: Expected value multiplier (>1.0 = +EV, <1.0 = -EV)
-- reasoning: Brief explanation with specific factors
-- Use base rates, historical data, and quantitative analysis`;
+Use base rates, historical data, and quantitative analysis.`;
 
     try {
-      const chatCompletion = await this.groq.chat.completions.create({
+      const { data: analysis } = await this.llm.completeJson(FORECAST_OUTPUT_SCHEMA, {
+        route: "forecast",
         messages: [
           {
             role: "system",
@@ -285,21 +314,12 @@ Rules:
         ],
         model: "llama-3.3-70b-versatile",
         temperature: 0.4,
-        max_tokens: 1024,
+        maxTokens: 1024,
       });
 
-      const content = chatCompletion.choices[0]?.message?.content || "";
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-
-      if (!jsonMatch) {
-        throw new Error("Could not extract JSON from model response");
-      }
-
-      const analysis = JSON.parse(jsonMatch[0]);
-
       return {
-        probability: Math.max(0, Math.min(100, analysis.probability)) / 100,
-        confidence: Math.max(0, Math.min(100, analysis.confidence)) / 100,
+        probability: analysis.probability / 100,
+        confidence: analysis.confidence / 100,
         expectedValue: analysis.expectedValue,
         reasoning: analysis.reasoning,
       };
@@ -357,25 +377,12 @@ Liquidity: $${market.liquidity?.toLocaleString() || "N/A"}
 
 Forecast Reasoning: ${forecast.reasoning}
 
-Apply Kelly criterion and risk management. Provide decision in JSON:
-{
-  "action": "BUY" or "SKIP",
-  "size": <number 0-1>,
-  "reasoning": "<risk assessment>",
-  "riskScore": <number 0-100>,
-  "stopLoss": <number or null>,
-  "takeProfit": <number or null>
-}
-
-Rules:
-- action: BUY if edge > 5% AND confidence > 65%, else SKIP
-- size: Kelly stake capped at 10% of bankroll (0.1 max)
-- riskScore: 0-100 based on volatility, liquidity, time horizon, confidence
-- stopLoss/takeProfit: Price levels to exit (or null)
-- Consider slippage, liquidity constraints, and market efficiency`;
+Apply Kelly criterion and risk management.
+Consider slippage, liquidity constraints, and market efficiency.`;
 
     try {
-      const chatCompletion = await this.groq.chat.completions.create({
+      const { data: analysis } = await this.llm.completeJson(RISK_DECISION_SCHEMA, {
+        route: "trade-analysis",
         messages: [
           {
             role: "system",
@@ -389,18 +396,9 @@ Rules:
         ],
         model: "llama-3.3-70b-versatile",
         temperature: 0.5,
-        max_tokens: 1024,
+        maxTokens: 1024,
       });
 
-      const content = chatCompletion.choices[0]?.message?.content || "";
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-
-      if (!jsonMatch) {
-        throw new Error("Could not extract JSON from model response");
-      }
-
-      const analysis = JSON.parse(jsonMatch[0]);
-
       // Calculate profit projections
       const entryPrice = currentPrice;
       const wagerAmount = this.wagerAmount;
@@ -422,16 +420,16 @@ Rules:
       const decision: TradeDecision = {
         marketId: market.id,
         marketQuestion: market.question,
-        action: analysis.action.toLowerCase() === "buy" ? "buy" : "skip",
+        action: analysis.action === "BUY" ? "buy" : "skip",
         side: side,
-        size: Math.min(analysis.size || 0, 0.1), // Cap at 10%
+        size: analysis.size, // Schema caps it at 10%
         reasoning: analysis.reasoning,
         timestamp: Date.now(),
         confidence: forecast.confidence,
         expectedReturn: forecast.expectedValue,
-        riskScore: (analysis.riskScore || 50) / 100,
-        stopLoss: analysis.stopLoss,
-        takeProfit: analysis.takeProfit,
+        riskScore: analysis.riskScore / 100,
+        stopLoss: analysis.stopLoss ?? null,
+        takeProfit: analysis.takeProfit ?? null,
         currentPrice: currentPrice,
         fairValue: forecast.probability,
         edge: edge,
@@ -0,0 +1,41 @@
+/**
+ * Clock abstraction
+ *
+ * Lets time-dependent components (signal expiry, cooldowns, max hold times)
+ * run against wall-clock time in live trading or a simulated clock when
+ * replaying recorded market data.
+ */
+
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+export class SimulatedClock implements Clock {
+  private current: number;
+
+  constructor(startTime: number = 0) {
+    this.current = startTime;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  /**
+   * Move the clock to an absolute timestamp (never backwards)
+   */
+  set(timestamp: number): void {
+    if (timestamp < this.current) {
+      throw new Error(`Cannot rewind simulated clock from ${this.current} to ${timestamp}`);
+    }
+    this.current = timestamp;
+  }
+
+  advance(ms: number): void {
+    this.set(this.current + ms);
+  }
+}
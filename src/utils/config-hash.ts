@@ -0,0 +1,37 @@
+/**
+ * Stable config fingerprints for trade attribution
+ *
+ * Agents stamp every TradeResult with a short hash of the config they ran
+ * with, so results from different presets can be told apart after the fact.
+ * Keys are sorted before hashing. Credentials and the simulation seed (which
+ * trades carry separately) never enter the hash, so rotating an API key or
+ * replaying a run doesn't look like a new preset.
+ */
+
+import { createHash } from 'crypto';
+
+const SECRET_KEY = /key|secret|token|password|mnemonic/i;
+const RUN_ONLY_KEYS = new Set(['seed']);
+
+/**
+ * 12-hex-char fingerprint of a config object
+ */
+export function hashConfig(config: object): string {
+  return createHash('sha256').update(canonicalize(config)).digest('hex').slice(0, 12);
+}
+
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => !SECRET_KEY.test(key) && !RUN_ONLY_KEYS.has(key))
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .filter(key => typeof (value as Record<string, unknown>)[key] !== 'function')
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,202 @@
+/**
+ * Recorded market history
+ *
+ * Loads EtherealMarket snapshots from JSONL or CSV files so strategies can
+ * be replayed against a fixed history.
+ *
+ * JSONL: one record per line
+ *   {"timestamp": 1735000000000, "market": { ...EtherealMarket }, "topOfBook"?: { ...TopOfBook }}
+ *
+ * CSV: header row with `timestamp` plus EtherealMarket fields, and
+ * optionally bidPrice,bidSize,askPrice,askSize for top-of-book
+ *   timestamp,symbol,baseAsset,quoteAsset,leverage,lastPrice,...
+ *
+ * Gzipped files (.jsonl.gz) and directories written by MarketRecorder are
+ * read the same way.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { EtherealMarket, EtherealOrderBook } from '../clients/ethereal-client';
+
+export interface TopOfBook {
+  bidPrice: number;
+  bidSize: number;
+  askPrice: number;
+  askSize: number;
+}
+
+export interface MarketRecord {
+  timestamp: number;
+  market: EtherealMarket;
+  topOfBook?: TopOfBook;
+}
+
+export interface MarketFrame {
+  timestamp: number;
+  markets: EtherealMarket[];
+  topOfBook: Map<string, TopOfBook>; // By symbol, for records that carried one
+}
+
+const TOP_OF_BOOK_FIELDS: (keyof TopOfBook)[] = ['bidPrice', 'bidSize', 'askPrice', 'askSize'];
+
+const NUMERIC_FIELDS: (keyof EtherealMarket)[] = [
+  'leverage',
+  'lastPrice',
+  'priceChange24h',
+  'priceChangePercent24h',
+  'volume24h',
+  'fundingRate',
+  'openInterest',
+  'markPrice',
+  'indexPrice',
+];
+
+/**
+ * Load market records from a .jsonl/.csv file (optionally gzipped) or a
+ * directory of them, sorted by timestamp
+ */
+export function loadMarketHistory(filePath: string): MarketRecord[] {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Market history file not found: ${filePath}`);
+  }
+
+  const files = fs.statSync(filePath).isDirectory()
+    ? listHistoryFiles(filePath)
+    : [filePath];
+
+  const records = files.flatMap(file => loadHistoryFile(file));
+
+  return records.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+function loadHistoryFile(filePath: string): MarketRecord[] {
+  const gzipped = filePath.toLowerCase().endsWith('.gz');
+  const raw = fs.readFileSync(filePath);
+  const content = (gzipped ? zlib.gunzipSync(raw) : raw).toString('utf-8');
+
+  const ext = path.extname(gzipped ? filePath.slice(0, -3) : filePath).toLowerCase();
+
+  return ext === '.csv'
+    ? parseCSV(content)
+    : parseJSONL(content);
+}
+
+function listHistoryFiles(dir: string): string[] {
+  const files: string[] = [];
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listHistoryFiles(fullPath));
+    } else if (/\.(jsonl|csv)(\.gz)?$/i.test(entry.name)) {
+      files.push(fullPath);
+    }
+  }
+
+  return files.sort();
+}
+
+/**
+ * Group records that share a timestamp into one polling frame
+ */
+export function groupIntoFrames(records: MarketRecord[]): MarketFrame[] {
+  const frames: MarketFrame[] = [];
+
+  for (const record of records) {
+    let frame = frames[frames.length - 1];
+    if (!frame || frame.timestamp !== record.timestamp) {
+      frame = { timestamp: record.timestamp, markets: [], topOfBook: new Map() };
+      frames.push(frame);
+    }
+
+    frame.markets.push(record.market);
+    if (record.topOfBook) frame.topOfBook.set(record.market.symbol, record.topOfBook);
+  }
+
+  return frames;
+}
+
+/**
+ * One-level order book from a recorded top-of-book
+ */
+export function orderBookFromTop(symbol: string, top: TopOfBook, timestamp: number): EtherealOrderBook {
+  return {
+    symbol,
+    bids: [[top.bidPrice, top.bidSize]],
+    asks: [[top.askPrice, top.askSize]],
+    timestamp,
+  };
+}
+
+function parseJSONL(content: string): MarketRecord[] {
+  const records: MarketRecord[] = [];
+  const lines = content.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    let data: any;
+    try {
+      data = JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid JSON on line ${i + 1}`);
+    }
+
+    if (typeof data.timestamp !== 'number' || !data.market?.symbol) {
+      throw new Error(`Line ${i + 1} is missing timestamp or market.symbol`);
+    }
+
+    records.push({
+      timestamp: data.timestamp,
+      market: data.market,
+      ...(data.topOfBook ? { topOfBook: data.topOfBook } : {}),
+    });
+  }
+
+  return records;
+}
+
+function parseCSV(content: string): MarketRecord[] {
+  const lines = content.split('\n').map(l => l.trim()).filter(Boolean);
+  if (lines.length < 2) return [];
+
+  const headers = lines[0].split(',').map(h => h.trim());
+  if (!headers.includes('timestamp') || !headers.includes('symbol')) {
+    throw new Error('CSV header must include timestamp and symbol columns');
+  }
+
+  return lines.slice(1).map((line, i) => {
+    const values = line.split(',');
+    const row: Record<string, string> = {};
+    headers.forEach((h, idx) => { row[h] = (values[idx] || '').trim(); });
+
+    const timestamp = Number(row.timestamp);
+    if (!Number.isFinite(timestamp)) {
+      throw new Error(`Invalid timestamp on CSV row ${i + 2}`);
+    }
+
+    const market: any = {
+      symbol: row.symbol,
+      baseAsset: row.baseAsset || row.symbol.split('-')[0],
+      quoteAsset: row.quoteAsset || row.symbol.split('-')[1] || 'USD',
+    };
+    for (const field of NUMERIC_FIELDS) {
+      if (row[field] !== undefined && row[field] !== '') {
+        market[field] = Number(row[field]);
+      } else if (field !== 'markPrice' && field !== 'indexPrice') {
+        market[field] = 0;
+      }
+    }
+
+    // Top-of-book only when every column is filled in
+    const top = TOP_OF_BOOK_FIELDS.map(field => Number(row[field] || NaN));
+    const topOfBook = top.every(Number.isFinite)
+      ? { bidPrice: top[0], bidSize: top[1], askPrice: top[2], askSize: top[3] }
+      : undefined;
+
+    return { timestamp, market: market as EtherealMarket, ...(topOfBook ? { topOfBook } : {}) };
+  });
+}
@@ -0,0 +1,182 @@
+/**
+ * Market Data Recorder
+ *
+ * Persists polled EtherealMarket snapshots (plus top-of-book when
+ * available) to gzipped JSONL files that loadMarketHistory can replay.
+ *
+ * Layout (UTC, hourly partitions):
+ *   trade-results/market-data/2025-01-15/2025-01-15T13.jsonl.gz
+ *   trade-results/market-data/2025-01-15/2025-01-15T13.1.jsonl.gz  (size rotation)
+ *
+ * Records are buffered and flushed as gzip members appended to the current
+ * file; concatenated members decompress as one stream.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { EtherealMarket, EtherealOrderBook } from '../clients/ethereal-client';
+import { MarketRecord, TopOfBook } from './market-history';
+
+export interface MarketRecorderConfig {
+  outputDir: string;
+  partition: 'hour' | 'day';
+  maxFileBytes: number;      // Rotate within a partition past this size
+  flushIntervalMs: number;   // Flush buffered records at least this often
+  flushBatchSize: number;    // ...or once this many records are buffered
+}
+
+const DEFAULT_RECORDER_CONFIG: MarketRecorderConfig = {
+  outputDir: './trade-results/market-data',
+  partition: 'hour',
+  maxFileBytes: 50 * 1024 * 1024,
+  flushIntervalMs: 5000,
+  flushBatchSize: 500,
+};
+
+export class MarketRecorder {
+  private config: MarketRecorderConfig;
+  private buffer: MarketRecord[] = [];
+  private flushInterval?: NodeJS.Timeout;
+  private rotationIndex: Map<string, number> = new Map();
+  private filesWritten: Set<string> = new Set();
+  private recordCount = 0;
+
+  constructor(config: Partial<MarketRecorderConfig> = {}) {
+    this.config = { ...DEFAULT_RECORDER_CONFIG, ...config };
+  }
+
+  start(): void {
+    if (this.flushInterval) return;
+
+    this.flushInterval = setInterval(() => this.flush(), this.config.flushIntervalMs);
+    // Never keep the process alive just to flush
+    this.flushInterval.unref();
+  }
+
+  stop(): void {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = undefined;
+    }
+    this.flush();
+  }
+
+  /**
+   * Buffer one polled snapshot
+   */
+  record(record: MarketRecord): void {
+    this.buffer.push(record);
+    this.recordCount++;
+
+    if (this.buffer.length >= this.config.flushBatchSize) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Buffer a full poll, attaching top-of-book from any fetched order books
+   */
+  recordMarkets(
+    markets: EtherealMarket[],
+    timestamp: number,
+    orderBooks: Map<string, EtherealOrderBook> = new Map()
+  ): void {
+    for (const market of markets) {
+      this.recordMarket(market, timestamp, orderBooks.get(market.symbol));
+    }
+  }
+
+  /**
+   * Buffer one market, with top-of-book when its order book is known
+   */
+  recordMarket(market: EtherealMarket, timestamp: number, orderBook?: EtherealOrderBook): void {
+    const topOfBook = orderBook ? MarketRecorder.topOfBook(orderBook) : undefined;
+
+    this.record({
+      timestamp,
+      market,
+      ...(topOfBook ? { topOfBook } : {}),
+    });
+  }
+
+  /**
+   * Write buffered records to their partition files
+   */
+  flush(): void {
+    if (this.buffer.length === 0) return;
+
+    const byPartition = new Map<string, string[]>();
+    for (const record of this.buffer) {
+      const key = this.partitionKey(record.timestamp);
+      const lines = byPartition.get(key) || [];
+      lines.push(JSON.stringify(record));
+      byPartition.set(key, lines);
+    }
+    this.buffer = [];
+
+    for (const [key, lines] of byPartition) {
+      const filePath = this.resolveFile(key);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.appendFileSync(filePath, zlib.gzipSync(lines.join('\n') + '\n'));
+      this.filesWritten.add(filePath);
+    }
+  }
+
+  getStats(): { records: number; buffered: number; files: string[] } {
+    return {
+      records: this.recordCount,
+      buffered: this.buffer.length,
+      files: Array.from(this.filesWritten).sort(),
+    };
+  }
+
+  static topOfBook(book: EtherealOrderBook): TopOfBook | undefined {
+    const [bid] = book.bids;
+    const [ask] = book.asks;
+    if (!bid || !ask) return undefined;
+
+    return {
+      bidPrice: bid[0],
+      bidSize: bid[1],
+      askPrice: ask[0],
+      askSize: ask[1],
+    };
+  }
+
+  /**
+   * Partition key such as "2025-01-15/2025-01-15T13" (hour) or
+   * "2025-01/2025-01-15" (day)
+   */
+  private partitionKey(timestamp: number): string {
+    const iso = new Date(timestamp).toISOString();
+    const day = iso.slice(0, 10);
+
+    return this.config.partition === 'hour'
+      ? `${day}/${iso.slice(0, 13)}`
+      : `${iso.slice(0, 7)}/${day}`;
+  }
+
+  /**
+   * Current file for a partition, moving to the next suffix once full
+   */
+  private resolveFile(key: string): string {
+    let index = this.rotationIndex.get(key) ?? 0;
+    let filePath = this.fileFor(key, index);
+
+    while (fs.existsSync(filePath) && fs.statSync(filePath).size >= this.config.maxFileBytes) {
+      index++;
+      filePath = this.fileFor(key, index);
+    }
+
+    this.rotationIndex.set(key, index);
+    return filePath;
+  }
+
+  private fileFor(key: string, index: number): string {
+    const suffix = index === 0 ? '' : `.${index}`;
+    return path.join(this.config.outputDir, `${key}${suffix}.jsonl.gz`);
+  }
+}
+
+export default MarketRecorder;
@@ -0,0 +1,107 @@
+/**
+ * Seeded random number generation for simulations
+ *
+ * Every dry-run simulator draws from a SeededRandom instead of Math.random()
+ * so a run can be replayed exactly from its seed. Set SIM_SEED to reproduce
+ * a previous run; the seed is stamped on every simulated TradeResult.
+ *
+ * Components fork their own stream by label, so the order in which
+ * independent simulators draw numbers doesn't change each other's results.
+ */
+
+export class SeededRandom {
+  readonly seed: number;
+  private state: number;
+
+  constructor(seed: number = SeededRandom.generateSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Uniform float in [0, 1) - mulberry32
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Uniform float in [min, max)
+   */
+  between(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * True with probability p
+   */
+  chance(p: number): boolean {
+    return this.next() < p;
+  }
+
+  /**
+   * Normally distributed sample - Box-Muller
+   */
+  normal(mean: number = 0, stdDev: number = 1): number {
+    const u = 1 - this.next(); // (0, 1] so log() stays finite
+    const v = this.next();
+    return mean + stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  /**
+   * Independent stream derived from this seed and a label
+   */
+  fork(label: string): SeededRandom {
+    let hash = this.seed ^ 0x811c9dc5;
+    for (let i = 0; i < label.length; i++) {
+      hash = Math.imul(hash ^ label.charCodeAt(i), 0x01000193);
+    }
+    return new SeededRandom(hash >>> 0);
+  }
+
+  static generateSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+  }
+
+  /**
+   * Seed from SIM_SEED when set, otherwise a fresh random seed
+   */
+  static fromEnv(): SeededRandom {
+    const envSeed = process.env.SIM_SEED;
+    if (envSeed !== undefined && envSeed !== '') {
+      const seed = Number(envSeed);
+      if (!Number.isInteger(seed)) {
+        throw new Error(`SIM_SEED must be an integer, got "${envSeed}"`);
+      }
+      return new SeededRandom(seed);
+    }
+    return new SeededRandom();
+  }
+}
+
+let simulationRng: SeededRandom | undefined;
+
+/**
+ * Process-wide root generator used when no RNG is injected
+ */
+export function getSimulationRng(): SeededRandom {
+  if (!simulationRng) {
+    simulationRng = SeededRandom.fromEnv();
+  }
+  return simulationRng;
+}
+
+export function setSimulationRng(rng: SeededRandom): void {
+  simulationRng = rng;
+}
+
+/**
+ * Generator for an explicit seed, or the shared one when none is given
+ */
+export function resolveRng(seed?: number): SeededRandom {
+  return seed !== undefined ? new SeededRandom(seed) : getSimulationRng();
+}